@@ -0,0 +1,2 @@
+// Ark Service Provider the swap maker verifies lock VTXOs with and claims them through
+export const ASP_URL = process.env.ASP_URL || 'http://localhost:7070';
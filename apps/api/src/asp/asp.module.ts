@@ -0,0 +1,10 @@
+import { Module } from '@nestjs/common';
+import { HttpModule } from '@nestjs/axios';
+import { AspService } from './asp.service';
+
+@Module({
+  imports: [HttpModule],
+  providers: [AspService],
+  exports: [AspService],
+})
+export class AspModule {}
@@ -0,0 +1,178 @@
+import { Injectable, Logger, HttpException, HttpStatus } from '@nestjs/common';
+import { HttpService } from '@nestjs/axios';
+import { firstValueFrom } from 'rxjs';
+import { isAxiosError } from 'axios';
+import {
+  FeeScheduleSchema,
+  TapscriptWitnessSchema,
+  TransferReceiptSchema,
+  type ArkTransaction,
+  type TransferReceipt,
+} from '@arkswap/protocol';
+import { z } from 'zod';
+import { ASP_URL } from './asp.constants';
+
+const AspInfoSchema = z.object({
+  fees: FeeScheduleSchema,
+  // Milliseconds between rounds
+  roundInterval: z.number().int().positive(),
+  // Height of the round being assembled, what the ASP counts relative locks in
+  currentBlock: z.number().int().nonnegative(),
+});
+
+const AspVtxoSchema = z.object({
+  txid: z.string(),
+  vout: z.number().int().nonnegative(),
+  amount: z.number().int().positive(),
+  address: z.string(),
+  spent: z.boolean(),
+  // Round that created the VTXO (relative locks count from its height)
+  roundHeight: z.number().int().nonnegative().nullable(),
+  // Spent by a transfer queued for the next round
+  pending: z.boolean(),
+});
+
+const AspSpendSchema = z.object({
+  transferId: z.string(),
+  roundId: z.string(),
+  roundHeight: z.number().int().nonnegative(),
+  // Witness of the spending input, null for a key-path spend
+  witness: TapscriptWitnessSchema.nullable(),
+});
+
+const AspExitSchema = z.object({
+  onchain: z.object({ txid: z.string(), vout: z.number() }).nullable(),
+  // Preimage of the hashlocked leaf the exit was signed through
+  preimage: z.string().optional(),
+});
+
+export type AspInfo = z.infer<typeof AspInfoSchema>;
+export type AspVtxo = z.infer<typeof AspVtxoSchema>;
+export type AspSpend = z.infer<typeof AspSpendSchema>;
+export type AspExit = z.infer<typeof AspExitSchema>;
+
+/**
+ * Client of the ASP's v1 API, as the swap maker uses it
+ */
+@Injectable()
+export class AspService {
+  private readonly logger = new Logger(AspService.name);
+
+  constructor(private readonly httpService: HttpService) {}
+
+  /**
+   * Fee schedule and current round height
+   */
+  async getInfo(): Promise<AspInfo> {
+    return AspInfoSchema.parse(await this.request('get', '/v1/info'));
+  }
+
+  /**
+   * VTXOs ever paid to an address, spent ones included
+   * The ASP only stores a VTXO once the round creating it is finalized, so every
+   * VTXO listed here is confirmed in a round.
+   */
+  async getVtxos(address: string): Promise<AspVtxo[]> {
+    return z
+      .array(AspVtxoSchema)
+      .parse(
+        await this.request('get', `/v1/vtxos/${encodeURIComponent(address)}`),
+      );
+  }
+
+  /**
+   * The journaled transfer that spent a VTXO, with the spending input's witness
+   * @returns null if no finalized round spent it (unspent, pending or exited)
+   */
+  async getSpend(txid: string, vout: number): Promise<AspSpend | null> {
+    const result = await this.request('get', `/v1/vtxos/${txid}/${vout}/spend`);
+    return result === null ? null : AspSpendSchema.parse(result);
+  }
+
+  /**
+   * The unilateral exit of a VTXO
+   * @returns null if the VTXO was not exited
+   */
+  async getExit(txid: string, vout: number): Promise<AspExit | null> {
+    const result = await this.request('get', `/v1/exit/${txid}/${vout}`);
+    return result === null ? null : AspExitSchema.parse(result);
+  }
+
+  /**
+   * A transfer the ASP queued or finalized
+   * @returns null if the ASP does not know it (never submitted, or replaced)
+   */
+  async getTransfer(transferId: string): Promise<TransferReceipt | null> {
+    const result = await this.request('get', `/v1/transfer/${transferId}`);
+    return result === null ? null : TransferReceiptSchema.parse(result);
+  }
+
+  /**
+   * Submits a signed transfer for the next round
+   * @returns The queued receipt (outputs the ASP commits to creating)
+   * @throws HttpException (400) if the ASP rejects the transfer
+   */
+  async submitTransfer(tx: ArkTransaction): Promise<TransferReceipt> {
+    const result = await this.request('post', '/v1/transfer', tx);
+    if (result?.error) {
+      throw new HttpException(
+        {
+          success: false,
+          message: `ASP rejected transfer: ${result.error}`,
+        },
+        HttpStatus.BAD_REQUEST,
+      );
+    }
+    return TransferReceiptSchema.parse(result);
+  }
+
+  /**
+   * A GET the ASP answers with 404 returns null; other rejections throw
+   */
+  private async request(
+    method: 'get' | 'post',
+    path: string,
+    body?: unknown,
+  ): Promise<any> {
+    try {
+      const response = await firstValueFrom(
+        method === 'get'
+          ? this.httpService.get(`${ASP_URL}${path}`)
+          : this.httpService.post(`${ASP_URL}${path}`, body, {
+              headers: { 'Content-Type': 'application/json' },
+            }),
+      );
+      return response.data;
+    } catch (error) {
+      if (
+        method === 'get' &&
+        isAxiosError(error) &&
+        error.response?.status === HttpStatus.NOT_FOUND
+      ) {
+        return null;
+      }
+      // The ASP answers rejected requests with a NestJS error body
+      if (isAxiosError(error) && error.response) {
+        const message = error.response.data?.message ?? error.message;
+        this.logger.error(`ASP ${method.toUpperCase()} ${path}: ${message}`);
+        throw new HttpException(
+          {
+            success: false,
+            message: `ASP error: ${message}`,
+          },
+          HttpStatus.BAD_REQUEST,
+        );
+      }
+
+      const message = error instanceof Error ? error.message : String(error);
+      this.logger.error(`ASP connection error: ${message}`);
+      throw new HttpException(
+        {
+          success: false,
+          message: `ASP unreachable: ${message}`,
+        },
+        HttpStatus.BAD_GATEWAY,
+      );
+    }
+  }
+}
@@ -1,5 +1,16 @@
-import { Controller, Get } from '@nestjs/common';
-import { BitcoinService } from './bitcoin.service';
+import {
+  BadRequestException,
+  Body,
+  Controller,
+  Get,
+  Param,
+  Post,
+} from '@nestjs/common';
+import { BitcoinService, type TransactionStatus } from './bitcoin.service';
+
+interface BroadcastRequestDto {
+  hex: string;
+}
 
 interface BitcoinInfoResponse {
   chain: string;
@@ -20,4 +31,22 @@ export class BitcoinController {
       headers: info.headers || 0,
     };
   }
+
+  @Post('broadcast')
+  async broadcast(
+    @Body() body: BroadcastRequestDto,
+  ): Promise<{ txid: string }> {
+    if (!body?.hex || !/^[0-9a-fA-F]+$/.test(body.hex)) {
+      throw new BadRequestException(
+        'Invalid request: hex transaction required',
+      );
+    }
+    const txid = await this.bitcoinService.broadcastTransaction(body.hex);
+    return { txid };
+  }
+
+  @Get('tx/:txid')
+  getTransaction(@Param('txid') txid: string): Promise<TransactionStatus> {
+    return this.bitcoinService.getTransactionStatus(txid);
+  }
 }
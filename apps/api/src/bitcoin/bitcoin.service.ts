@@ -21,6 +21,21 @@ interface JsonRpcRequest {
   params: any[];
 }
 
+export interface TransactionStatus {
+  txid: string;
+  confirmations: number;
+  // Height of the block that mined the transaction (null while unconfirmed)
+  blockHeight: number | null;
+}
+
+export interface UnspentOutput {
+  txid: string;
+  vout: number;
+  amount: number;
+  // Height of the block that created the output
+  blockHeight: number;
+}
+
 interface JsonRpcResponse {
   jsonrpc: string;
   id: string;
@@ -92,6 +107,32 @@ export class BitcoinService implements OnModuleInit {
     return Number(balance);
   }
 
+  /**
+   * Height of the chain tip
+   */
+  async getBlockHeight(): Promise<number> {
+    const height = await this.callRpc('getblockcount', []);
+    return Number(height);
+  }
+
+  /**
+   * Confirmed unspent outputs paying an address, amounts in satoshis
+   * Scans the UTXO set (scantxoutset), so it needs no wallet import or index;
+   * mempool outputs are not included.
+   */
+  async scanAddress(address: string): Promise<UnspentOutput[]> {
+    const result = await this.callRpc('scantxoutset', [
+      'start',
+      [`addr(${address})`],
+    ]);
+    return (result?.unspents ?? []).map((unspent: any) => ({
+      txid: String(unspent.txid),
+      vout: Number(unspent.vout),
+      amount: Math.round(Number(unspent.amount) * 100_000_000),
+      blockHeight: Number(unspent.height),
+    }));
+  }
+
   async getNewAddress(): Promise<string> {
     const address = await this.callRpc('getnewaddress', []);
     return String(address);
@@ -111,9 +152,14 @@ export class BitcoinService implements OnModuleInit {
    * Sends Bitcoin to an address
    * @param amountSats - Amount in satoshis (integer)
    * @param address - Bitcoin address to send to
+   * @param comment - Wallet comment of the transaction, see findWalletSend
    * @returns Transaction ID
    */
-  async sendToAddress(amountSats: number, address: string): Promise<string> {
+  async sendToAddress(
+    amountSats: number,
+    address: string,
+    comment?: string,
+  ): Promise<string> {
     // Validation: Dust limit check
     if (amountSats < 1000) {
       throw new HttpException(
@@ -129,7 +175,12 @@ export class BitcoinService implements OnModuleInit {
     const amountBtc = amountSats / 100_000_000;
 
     try {
-      const txid = await this.callRpc('sendtoaddress', [address, amountBtc]);
+      const txid = await this.callRpc(
+        'sendtoaddress',
+        comment === undefined
+          ? [address, amountBtc]
+          : [address, amountBtc, comment],
+      );
       this.logger.log(
         `✅ Sent ${amountSats} sats (${amountBtc} BTC) to ${address}, txid: ${txid}`,
       );
@@ -188,4 +239,71 @@ export class BitcoinService implements OnModuleInit {
       );
     }
   }
+
+  /**
+   * Finds a send of the wallet by the comment sendToAddress gave it, among the
+   * wallet's last 1000 transactions; abandoned sends are ignored
+   * @returns Transaction ID, or null if the wallet has no such send
+   */
+  async findWalletSend(comment: string): Promise<string | null> {
+    const transactions = await this.callRpc('listtransactions', ['*', 1000, 0]);
+    const send = (transactions ?? []).find(
+      (tx: any) =>
+        tx.category === 'send' && tx.comment === comment && !tx.abandoned,
+    );
+    return send ? String(send.txid) : null;
+  }
+
+  /**
+   * Broadcasts a fully signed raw transaction (e.g. a swap lock refund)
+   * @param hex - Serialized transaction
+   * @returns Transaction ID
+   */
+  async broadcastTransaction(hex: string): Promise<string> {
+    try {
+      const txid = await this.callRpc('sendrawtransaction', [hex]);
+      this.logger.log(`📡 Broadcast raw transaction, txid: ${txid}`);
+      return String(txid);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      this.logger.error(`Bitcoin sendrawtransaction failed: ${message}`);
+      throw new HttpException(
+        {
+          success: false,
+          message: `Broadcast rejected: ${message}`,
+        },
+        HttpStatus.BAD_REQUEST,
+      );
+    }
+  }
+
+  /**
+   * Confirmation status of a transaction (needs -txindex for non-wallet transactions)
+   * @param txid - Transaction ID
+   */
+  async getTransactionStatus(txid: string): Promise<TransactionStatus> {
+    let tx: any;
+    try {
+      tx = await this.callRpc('getrawtransaction', [txid, true]);
+    } catch {
+      throw new HttpException(
+        {
+          success: false,
+          message: `Transaction not found: ${txid}`,
+        },
+        HttpStatus.NOT_FOUND,
+      );
+    }
+
+    if (!tx?.blockhash) {
+      return { txid, confirmations: 0, blockHeight: null };
+    }
+
+    const header = await this.callRpc('getblockheader', [tx.blockhash]);
+    return {
+      txid,
+      confirmations: Number(tx.confirmations ?? 0),
+      blockHeight: Number(header.height),
+    };
+  }
 }
@@ -3,7 +3,8 @@ import { AppModule } from './app.module';
 import { assertSafeNetwork } from '@arkswap/protocol';
 
 async function bootstrap() {
-  assertSafeNetwork('regtest');
+  // ARK_NETWORK: regtest (default), signet or testnet; mainnet stops the backend
+  assertSafeNetwork(process.env.ARK_NETWORK || 'regtest');
   const app = await NestFactory.create(AppModule);
 
   // Enable CORS for localhost ports
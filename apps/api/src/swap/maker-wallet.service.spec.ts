@@ -0,0 +1,184 @@
+import { HttpException } from '@nestjs/common';
+import { ECPairFactory } from 'ecpair';
+import * as ecc from 'tiny-secp256k1';
+import * as bitcoin from 'bitcoinjs-lib';
+import {
+  getRequiredFee,
+  getTaprootOutputKey,
+  getTaprootSighash,
+  getVtxoPrevout,
+} from '@arkswap/protocol';
+import { MakerWallet } from './maker-wallet.service';
+import { SwapStore } from './swap.store';
+import { getMakerAddress } from './swap.constants';
+import { SwapStatus, type SwapState } from './swap.types';
+import type { AspService, AspVtxo } from '../asp/asp.service';
+
+const ECPair = ECPairFactory(ecc);
+const network = bitcoin.networks.regtest;
+
+describe('MakerWallet', () => {
+  const fees = { baseFee: 10, perInput: 5, perOutput: 5 };
+  const destination = bitcoin.payments.p2tr({
+    internalPubkey: Buffer.from(
+      ECPair.makeRandom({ network }).publicKey.subarray(1, 33),
+    ),
+    network,
+  }).address!;
+
+  let swapStore: SwapStore;
+  let aspService: Record<string, jest.Mock>;
+  let wallet: MakerWallet;
+  // VTXOs the ASP lists, by address
+  let vtxos: Map<string, AspVtxo[]>;
+
+  beforeEach(() => {
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+    swapStore = new SwapStore();
+    vtxos = new Map();
+    aspService = {
+      getInfo: jest.fn().mockResolvedValue({
+        fees,
+        roundInterval: 5000,
+        currentBlock: 20,
+      }),
+      getVtxos: jest
+        .fn()
+        .mockImplementation(
+          async (address: string) => vtxos.get(address) ?? [],
+        ),
+    };
+    wallet = new MakerWallet(aspService as unknown as AspService, swapStore);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  /**
+   * Records a swap in status whose maker address holds VTXOs of amounts
+   */
+  const addSwap = (
+    type: SwapState['type'],
+    status: SwapStatus,
+    amounts: number[],
+  ): { address: string; makerPubkey: string } => {
+    const keyPair = ECPair.makeRandom({ network });
+    const makerPubkey = Buffer.from(keyPair.publicKey.subarray(1, 33)).toString(
+      'hex',
+    );
+    const address = getMakerAddress(makerPubkey, 'regtest');
+    swapStore.save({
+      type,
+      id: makerPubkey.slice(0, 32),
+      status,
+      makerPubkey,
+      makerPrivateKeyHex: Buffer.from(keyPair.privateKey!).toString('hex'),
+      transitions: [],
+    } as unknown as SwapState);
+    vtxos.set(
+      address,
+      amounts.map((amount, vout) => ({
+        txid: makerPubkey,
+        vout,
+        amount,
+        address,
+        spent: false,
+        roundHeight: 10,
+        pending: false,
+      })),
+    );
+    return { address, makerPubkey };
+  };
+
+  it('should list the unspent VTXOs of swaps that hold maker VTXOs, largest first', async () => {
+    const claimed = addSwap('htlc', SwapStatus.CLAIMED, [3_000]);
+    const refunded = addSwap('reverse', SwapStatus.REFUNDED, [5_000]);
+    const paying = addSwap('htlc', SwapStatus.PAYING, [7_000]);
+    const quoted = addSwap('reverse', SwapStatus.QUOTED, [9_000]);
+    const [claimedVtxo] = vtxos.get(claimed.address)!;
+    vtxos
+      .get(claimed.address)!
+      .push(
+        { ...claimedVtxo, vout: 1, spent: true },
+        { ...claimedVtxo, vout: 2, pending: true },
+      );
+
+    const coins = await wallet.getCoins();
+
+    expect(coins.map((coin) => [coin.address, coin.amount])).toEqual([
+      [refunded.address, 5_000],
+      [claimed.address, 3_000],
+    ]);
+    expect(aspService.getVtxos).not.toHaveBeenCalledWith(paying.address);
+    expect(aspService.getVtxos).not.toHaveBeenCalledWith(quoted.address);
+    await expect(wallet.getBalance()).resolves.toBe(8_000);
+  });
+
+  it('should sign a transfer out of the largest VTXOs with the change back', async () => {
+    addSwap('htlc', SwapStatus.CLAIMED, [2_000]);
+    addSwap('reverse', SwapStatus.PAID, [6_000]);
+    const change = addSwap('htlc', SwapStatus.CLAIMED, [4_000]);
+    const fee = getRequiredFee(fees, 2, 2);
+
+    const tx = await wallet.createTransfer(destination, 9_000, change.address);
+
+    expect(tx.inputs).toHaveLength(2);
+    expect(tx.outputs).toEqual([
+      { address: destination, amount: 9_000 },
+      { address: change.address, amount: 10_000 - 9_000 - fee },
+    ]);
+
+    // Each input is signed by the output key of the VTXO's maker address
+    const selected = (await wallet.getCoins()).slice(0, 2);
+    const prevouts = selected.map((coin) =>
+      getVtxoPrevout(coin.address, coin.amount),
+    );
+    tx.inputs.forEach((input, index) => {
+      expect(input.txid).toBe(selected[index].txid);
+      const sighash = getTaprootSighash(tx, prevouts, index);
+      const outputKey = getTaprootOutputKey(
+        Buffer.from(
+          bitcoin.address.toOutputScript(selected[index].address, network),
+        ),
+      )!;
+      expect(
+        ecc.verifySchnorr(
+          Buffer.from(sighash, 'hex'),
+          outputKey,
+          Buffer.from(input.signature, 'hex'),
+        ),
+      ).toBe(true);
+    });
+  });
+
+  it('should leave no change output when the VTXOs match amount and fee', async () => {
+    const fee = getRequiredFee(fees, 1, 2);
+    const { address } = addSwap('htlc', SwapStatus.CLAIMED, [5_000 + fee]);
+
+    const tx = await wallet.createTransfer(destination, 5_000, address);
+
+    expect(tx.outputs).toEqual([{ address: destination, amount: 5_000 }]);
+  });
+
+  it('should reject a transfer its VTXOs do not cover', async () => {
+    const { address } = addSwap('htlc', SwapStatus.CLAIMED, [5_000]);
+
+    const result = wallet.createTransfer(destination, 5_000, address);
+
+    await expect(result).rejects.toThrow(HttpException);
+    await expect(result).rejects.toMatchObject({
+      response: {
+        message: `Insufficient maker VTXOs: 5000 sats spendable, ${5_000 + getRequiredFee(fees, 1, 2)} sats needed (including ${getRequiredFee(fees, 1, 2)} sats fee)`,
+      },
+    });
+  });
+
+  it('should reject a transfer without any maker VTXOs', async () => {
+    await expect(
+      wallet.createTransfer(destination, 1_000, destination),
+    ).rejects.toMatchObject({
+      response: { message: expect.stringContaining('0 sats spendable') },
+    });
+  });
+});
@@ -0,0 +1,176 @@
+import { Injectable, HttpException, HttpStatus } from '@nestjs/common';
+import { ECPairFactory } from 'ecpair';
+import * as ecc from 'tiny-secp256k1';
+import * as bitcoin from 'bitcoinjs-lib';
+import {
+  ARK_TX_VERSION_TAPROOT,
+  asAddress,
+  asSignatureHex,
+  asTxId,
+  getRequiredFee,
+  getTaprootSighash,
+  getVtxoPrevout,
+  type ArkOutput,
+  type ArkTransaction,
+  type UnsignedArkTransaction,
+} from '@arkswap/protocol';
+import { AspService, type AspVtxo } from '../asp/asp.service';
+import { SwapStore } from './swap.store';
+import { getMakerAddress, loadNetwork } from './swap.constants';
+import { SwapStatus, type SwapState } from './swap.types';
+
+// Initialize ECC library for bitcoinjs-lib
+bitcoin.initEccLib(ecc);
+
+const ECPair = ECPairFactory(ecc);
+
+/**
+ * A VTXO of the maker, with the swap key that spends it
+ */
+export interface MakerCoin extends AspVtxo {
+  makerPrivateKeyHex: string;
+}
+
+/**
+ * The maker's Ark wallet
+ * The maker holds VTXOs at the key-path address of each swap key (see
+ * getMakerAddress): the lock VTXOs it claimed, the VTXO locks it refunded and
+ * the change of the VTXO locks it funded. Each is spent with the TapTweaked key
+ * of its swap, so reverse swaps pay out of what the maker earned on Ark.
+ */
+@Injectable()
+export class MakerWallet {
+  private readonly network = loadNetwork();
+
+  constructor(
+    private readonly aspService: AspService,
+    private readonly swapStore: SwapStore,
+  ) {}
+
+  /**
+   * The maker's unspent VTXOs that no queued transfer spends, largest first
+   */
+  async getCoins(): Promise<MakerCoin[]> {
+    const coins: MakerCoin[] = [];
+    for (const swap of this.swapStore.list().filter(holdsMakerVtxos)) {
+      const vtxos = await this.aspService.getVtxos(
+        getMakerAddress(swap.makerPubkey, this.network),
+      );
+      coins.push(
+        ...vtxos
+          .filter((vtxo) => !vtxo.spent && !vtxo.pending)
+          .map((vtxo) => ({
+            ...vtxo,
+            makerPrivateKeyHex: swap.makerPrivateKeyHex,
+          })),
+      );
+    }
+    return coins.sort((a, b) => b.amount - a.amount);
+  }
+
+  /**
+   * Sum of the maker's spendable VTXOs, in sats
+   */
+  async getBalance(): Promise<number> {
+    return (await this.getCoins()).reduce(
+      (total, coin) => total + coin.amount,
+      0,
+    );
+  }
+
+  /**
+   * Signs a transfer of amount to destination out of the maker's VTXOs (largest
+   * first), with the change to changeAddress; the maker pays the ASP fee
+   * @throws HttpException (400) if the maker's VTXOs do not cover amount and fee
+   */
+  async createTransfer(
+    destination: string,
+    amount: number,
+    changeAddress: string,
+  ): Promise<ArkTransaction> {
+    const { fees } = await this.aspService.getInfo();
+    const coins = await this.getCoins();
+
+    const selected: MakerCoin[] = [];
+    let total = 0;
+    for (const coin of coins) {
+      if (total >= amount + getRequiredFee(fees, selected.length, 2)) break;
+      selected.push(coin);
+      total += coin.amount;
+    }
+    const fee = getRequiredFee(fees, selected.length, 2);
+    if (selected.length === 0 || total < amount + fee) {
+      throw new HttpException(
+        {
+          success: false,
+          message: `Insufficient maker VTXOs: ${total} sats spendable, ${amount + fee} sats needed (including ${fee} sats fee)`,
+        },
+        HttpStatus.BAD_REQUEST,
+      );
+    }
+
+    // Whatever is not paid out or returned as change is the ASP fee
+    const outputs: ArkOutput[] = [{ address: asAddress(destination), amount }];
+    const change = total - amount - fee;
+    if (change > 0) {
+      outputs.push({ address: asAddress(changeAddress), amount: change });
+    }
+
+    const unsigned: UnsignedArkTransaction & Pick<ArkTransaction, 'version'> = {
+      version: ARK_TX_VERSION_TAPROOT,
+      inputs: selected.map((coin) => ({
+        txid: asTxId(coin.txid),
+        vout: coin.vout,
+      })),
+      outputs,
+    };
+    const prevouts = selected.map((coin) =>
+      getVtxoPrevout(coin.address, coin.amount, this.network),
+    );
+
+    // Key path: each input signs its own BIP-341 sighash with its swap's tweaked key
+    return {
+      ...unsigned,
+      inputs: unsigned.inputs.map((input, index) => {
+        const sighash = getTaprootSighash(
+          unsigned,
+          prevouts,
+          index,
+          undefined,
+          this.network,
+        );
+        const signature = getTweakedKey(
+          selected[index].makerPrivateKeyHex,
+        ).signSchnorr(Buffer.from(sighash, 'hex'));
+        return {
+          ...input,
+          signature: asSignatureHex(Buffer.from(signature).toString('hex')),
+        };
+      }),
+    };
+  }
+}
+
+/**
+ * Swaps whose maker address may hold VTXOs: claimed forward swaps, and reverse
+ * swaps that funded their VTXO lock (change) or refunded it
+ */
+function holdsMakerVtxos(swap: SwapState): boolean {
+  return swap.type === 'reverse'
+    ? swap.status === SwapStatus.PAID ||
+        swap.status === SwapStatus.CLAIMED ||
+        swap.status === SwapStatus.REFUNDED
+    : swap.status === SwapStatus.CLAIMED;
+}
+
+/**
+ * The BIP-86 TapTweaked key of a swap key, which signs for its key-path address
+ */
+function getTweakedKey(privateKeyHex: string) {
+  const keyPair = ECPair.fromPrivateKey(Buffer.from(privateKeyHex, 'hex'));
+  return keyPair.tweak(
+    Buffer.from(
+      bitcoin.crypto.taggedHash('TapTweak', keyPair.publicKey.subarray(1, 33)),
+    ),
+  );
+}
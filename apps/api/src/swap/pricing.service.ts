@@ -0,0 +1,263 @@
+import { Injectable, HttpException, HttpStatus } from '@nestjs/common';
+import type { SwapFee } from '@arkswap/protocol';
+import { BitcoinService } from '../bitcoin/bitcoin.service';
+import { SwapStore } from './swap.store';
+import { MakerWallet } from './maker-wallet.service';
+import { SwapStatus } from './swap.types';
+
+// Smallest L1 payout BitcoinService.sendToAddress accepts
+const DUST_LIMIT_SATS = 1000;
+
+export interface PricingConfig {
+  feePercent: number;
+  minerFeeSats: number;
+  minAmountSats: number;
+  maxAmountSats: number;
+  quoteExpiryBlocks: number;
+  timeoutMinRounds: number;
+  timeoutMaxRounds: number;
+  timeoutSatsPerRound: number;
+  lockMarginRounds: number;
+}
+
+/**
+ * Reads the maker's pricing policy from the environment
+ * - SWAP_FEE_PERCENT: fee in percent of the swap amount (default 0.5)
+ * - SWAP_MINER_FEE_SATS: flat estimate of the miner fee of the L1 leg (default 500)
+ * - SWAP_MIN_AMOUNT_SATS / SWAP_MAX_AMOUNT_SATS: swap size bounds (default 5000 / 1000000)
+ * - SWAP_QUOTE_EXPIRY_BLOCKS: L1 blocks a quote stays payable for (default 6)
+ * - SWAP_TIMEOUT_MIN_ROUNDS / SWAP_TIMEOUT_MAX_ROUNDS: bounds of the lock's CSV
+ *   timeout (default 20 / 144); the ASP counts it in rounds, not L1 blocks
+ * - SWAP_TIMEOUT_SATS_PER_ROUND: the timeout grows by one round per this many
+ *   sats swapped (default 50000)
+ * - SWAP_LOCK_MARGIN_ROUNDS: rounds a lock's refund path must stay closed when
+ *   the maker pays out, to get its claim queued first (default 5)
+ */
+export function loadPricingConfig(): PricingConfig {
+  const feePercent = Number(process.env.SWAP_FEE_PERCENT || 0.5);
+  if (!Number.isFinite(feePercent) || feePercent < 0 || feePercent >= 100) {
+    throw new Error(
+      `SWAP_FEE_PERCENT must be a number from 0 to 100, got ${process.env.SWAP_FEE_PERCENT}`,
+    );
+  }
+
+  const readSats = (name: string, fallback: number): number => {
+    const value = Number(process.env[name] || fallback);
+    if (!Number.isInteger(value) || value < 0) {
+      throw new Error(
+        `${name} must be a non-negative integer, got ${process.env[name]}`,
+      );
+    }
+    return value;
+  };
+  const config = {
+    feePercent,
+    minerFeeSats: readSats('SWAP_MINER_FEE_SATS', 500),
+    minAmountSats: readSats('SWAP_MIN_AMOUNT_SATS', 5000),
+    maxAmountSats: readSats('SWAP_MAX_AMOUNT_SATS', 1_000_000),
+    quoteExpiryBlocks: readSats('SWAP_QUOTE_EXPIRY_BLOCKS', 6),
+    timeoutMinRounds: readSats('SWAP_TIMEOUT_MIN_ROUNDS', 20),
+    timeoutMaxRounds: readSats('SWAP_TIMEOUT_MAX_ROUNDS', 144),
+    timeoutSatsPerRound: readSats('SWAP_TIMEOUT_SATS_PER_ROUND', 50_000),
+    lockMarginRounds: readSats('SWAP_LOCK_MARGIN_ROUNDS', 5),
+  };
+
+  if (config.minAmountSats > config.maxAmountSats) {
+    throw new Error(
+      `SWAP_MIN_AMOUNT_SATS (${config.minAmountSats}) exceeds SWAP_MAX_AMOUNT_SATS (${config.maxAmountSats})`,
+    );
+  }
+  if (config.quoteExpiryBlocks === 0) {
+    throw new Error('SWAP_QUOTE_EXPIRY_BLOCKS must be at least 1');
+  }
+  if (config.timeoutMinRounds <= config.lockMarginRounds) {
+    throw new Error(
+      `SWAP_TIMEOUT_MIN_ROUNDS (${config.timeoutMinRounds}) must exceed SWAP_LOCK_MARGIN_ROUNDS (${config.lockMarginRounds})`,
+    );
+  }
+  if (config.timeoutMinRounds > config.timeoutMaxRounds) {
+    throw new Error(
+      `SWAP_TIMEOUT_MIN_ROUNDS (${config.timeoutMinRounds}) exceeds SWAP_TIMEOUT_MAX_ROUNDS (${config.timeoutMaxRounds})`,
+    );
+  }
+  if (config.timeoutSatsPerRound === 0) {
+    throw new Error('SWAP_TIMEOUT_SATS_PER_ROUND must be at least 1');
+  }
+  return config;
+}
+
+/**
+ * The priced part of a quote: the fee breakdown, what the maker pays out,
+ * until which height, and the CSV timeout of the lock the user funds (which
+ * the ASP counts in rounds)
+ */
+export interface SwapPrice {
+  fee: SwapFee;
+  payoutAmount: number;
+  expiresAtHeight: number;
+  timeoutBlocks: number;
+}
+
+/**
+ * Swap Pricing Engine
+ * Prices quotes by the configured policy and caps them by the maker's
+ * liquidity: its L1 balance for swaps, its VTXOs for reverse swaps. Larger swaps
+ * get a longer lock timeout, in ASP rounds, so the user has longer to commit a
+ * larger lock before it is too close to its refund path for the maker to pay
+ * (see getLockMarginRounds). A quote's payout stays reserved while its swap is
+ * QUOTED, LOCKED or PAYING (a reverse swap's while QUOTED or LOCKED), so
+ * concurrent quotes cannot promise the same balance twice.
+ */
+@Injectable()
+export class PricingService {
+  private readonly config = loadPricingConfig();
+
+  constructor(
+    private readonly bitcoinService: BitcoinService,
+    private readonly swapStore: SwapStore,
+    private readonly makerWallet: MakerWallet,
+  ) {}
+
+  /**
+   * Prices a swap (VTXO in, L1 out)
+   * @throws HttpException (400) if the amount is out of bounds or the payout
+   * exceeds the available liquidity
+   */
+  async priceSwap(amount: number, blockHeight: number): Promise<SwapPrice> {
+    const price = this.price(amount, blockHeight);
+
+    const available = await this.getAvailableLiquidity();
+    if (price.payoutAmount > available) {
+      throw new HttpException(
+        {
+          success: false,
+          message: `Insufficient liquidity: payout of ${price.payoutAmount} sats, ${available} sats available`,
+        },
+        HttpStatus.BAD_REQUEST,
+      );
+    }
+    return price;
+  }
+
+  /**
+   * Prices a reverse swap (L1 in, VTXO out), whose payout the maker transfers
+   * into the VTXO lock out of its own VTXOs
+   * @throws HttpException (400) if the amount is out of bounds or the payout
+   * exceeds the available Ark liquidity
+   */
+  async priceReverseSwap(
+    amount: number,
+    blockHeight: number,
+  ): Promise<SwapPrice> {
+    const price = this.price(amount, blockHeight);
+
+    const available = await this.getAvailableVtxoLiquidity();
+    if (price.payoutAmount > available) {
+      throw new HttpException(
+        {
+          success: false,
+          message: `Insufficient Ark liquidity: payout of ${price.payoutAmount} sats, ${available} sats of maker VTXOs available`,
+        },
+        HttpStatus.BAD_REQUEST,
+      );
+    }
+    return price;
+  }
+
+  /**
+   * Rounds a lock's refund path must stay closed for the maker to pay out
+   */
+  getLockMarginRounds(): number {
+    return this.config.lockMarginRounds;
+  }
+
+  /**
+   * The maker's L1 balance minus the payouts reserved by pending swaps, in sats
+   */
+  async getAvailableLiquidity(): Promise<number> {
+    const balanceSats = Math.round(
+      (await this.bitcoinService.getBalance()) * 100_000_000,
+    );
+    const reserved = this.swapStore
+      .list()
+      .filter(
+        (swap) =>
+          swap.type !== 'reverse' &&
+          (swap.status === SwapStatus.QUOTED ||
+            swap.status === SwapStatus.LOCKED ||
+            swap.status === SwapStatus.PAYING),
+      )
+      .reduce((total, swap) => total + swap.payoutAmount, 0);
+    return Math.max(balanceSats - reserved, 0);
+  }
+
+  /**
+   * The maker's spendable VTXOs minus the payouts reserved by reverse swaps
+   * whose VTXO lock is not funded yet, in sats
+   */
+  async getAvailableVtxoLiquidity(): Promise<number> {
+    const balance = await this.makerWallet.getBalance();
+    const reserved = this.swapStore
+      .list()
+      .filter(
+        (swap) =>
+          swap.type === 'reverse' &&
+          (swap.status === SwapStatus.QUOTED ||
+            swap.status === SwapStatus.LOCKED),
+      )
+      .reduce((total, swap) => total + swap.payoutAmount, 0);
+    return Math.max(balance - reserved, 0);
+  }
+
+  private price(amount: number, blockHeight: number): SwapPrice {
+    const { feePercent, minerFeeSats, minAmountSats, maxAmountSats } =
+      this.config;
+    if (amount < minAmountSats || amount > maxAmountSats) {
+      throw new HttpException(
+        {
+          success: false,
+          message: `Swap amount must be between ${minAmountSats} and ${maxAmountSats} sats, got ${amount}`,
+        },
+        HttpStatus.BAD_REQUEST,
+      );
+    }
+
+    const serviceFee = Math.ceil((amount * feePercent) / 100);
+    const total = serviceFee + minerFeeSats;
+    const payoutAmount = amount - total;
+    if (payoutAmount < DUST_LIMIT_SATS) {
+      throw new HttpException(
+        {
+          success: false,
+          message: `Swap amount of ${amount} sats does not cover the ${total} sats fee and a ${DUST_LIMIT_SATS} sats payout`,
+        },
+        HttpStatus.BAD_REQUEST,
+      );
+    }
+
+    return {
+      fee: {
+        percent: feePercent,
+        serviceFee,
+        minerFee: minerFeeSats,
+        total,
+      },
+      payoutAmount,
+      expiresAtHeight: blockHeight + this.config.quoteExpiryBlocks,
+      timeoutBlocks: this.getTimeoutRounds(amount),
+    };
+  }
+
+  /**
+   * CSV timeout for a swap of this size, in ASP rounds: the minimum plus one
+   * round per timeoutSatsPerRound, capped at the maximum
+   */
+  private getTimeoutRounds(amount: number): number {
+    const { timeoutMinRounds, timeoutMaxRounds, timeoutSatsPerRound } =
+      this.config;
+    return Math.min(
+      timeoutMinRounds + Math.floor(amount / timeoutSatsPerRound),
+      timeoutMaxRounds,
+    );
+  }
+}
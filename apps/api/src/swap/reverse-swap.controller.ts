@@ -0,0 +1,97 @@
+import {
+  Controller,
+  Post,
+  Body,
+  Param,
+  Logger,
+  BadRequestException,
+  HttpException,
+} from '@nestjs/common';
+import { createArkTransactionSchema } from '@arkswap/protocol';
+import { z, ZodError } from 'zod';
+import {
+  ReverseSwapService,
+  type ReverseSwapQuote,
+} from './reverse-swap.service';
+import { loadNetwork } from './swap.constants';
+
+const ReverseSwapQuoteRequestSchema = z.object({
+  amount: z.number().int().positive(),
+  // SHA256 of the user's preimage: the maker never learns it before the user claims
+  preimageHash: z.string().regex(/^[0-9a-fA-F]{64}$/),
+  userPubkey: z.string().regex(/^[0-9a-fA-F]{64}$/),
+});
+
+const ReverseSwapClaimRequestSchema = z.object({
+  claimTx: createArkTransactionSchema(loadNetwork()),
+});
+
+interface ReverseSwapClaimResponse {
+  success: boolean;
+  transferId: string;
+  roundId: string;
+}
+
+/**
+ * Reverse swaps (L1 in, VTXO out); GET /swap/:id reports their status
+ */
+@Controller('swap/reverse')
+export class ReverseSwapController {
+  private readonly logger = new Logger(ReverseSwapController.name);
+
+  constructor(private readonly reverseSwapService: ReverseSwapService) {}
+
+  @Post('quote')
+  async createQuote(@Body() body: unknown): Promise<ReverseSwapQuote> {
+    try {
+      const { amount, preimageHash, userPubkey } =
+        ReverseSwapQuoteRequestSchema.parse(body);
+
+      this.logger.log(`📋 Reverse quote requested for amount: ${amount}`);
+
+      const quote = await this.reverseSwapService.createQuote(
+        amount,
+        preimageHash.toLowerCase(),
+        userPubkey.toLowerCase(),
+      );
+      this.logger.log(
+        `✅ Reverse quote created: id=${quote.id}, lockAddress=${quote.lockAddress}`,
+      );
+      return quote;
+    } catch (error) {
+      throw this.toHttpError(error);
+    }
+  }
+
+  /**
+   * The user's claim of the VTXO lock, relayed to the ASP by the maker
+   */
+  @Post(':id/claim')
+  async claim(
+    @Param('id') id: string,
+    @Body() body: unknown,
+  ): Promise<ReverseSwapClaimResponse> {
+    try {
+      const { claimTx } = ReverseSwapClaimRequestSchema.parse(body);
+
+      this.logger.log(`🔄 Reverse swap claim received: swapId=${id}`);
+
+      const receipt = await this.reverseSwapService.claim(id, claimTx);
+      return { success: true, ...receipt };
+    } catch (error) {
+      throw this.toHttpError(error);
+    }
+  }
+
+  private toHttpError(error: unknown): HttpException {
+    if (error instanceof ZodError) {
+      return new BadRequestException(
+        `Validation failed: ${error.issues.map((e) => `${e.path.join('.')}: ${e.message}`).join(', ')}`,
+      );
+    }
+    if (error instanceof HttpException) return error;
+    return new BadRequestException(
+      error instanceof Error ? error.message : 'Unknown error',
+    );
+  }
+}
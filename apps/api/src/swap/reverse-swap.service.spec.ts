@@ -0,0 +1,468 @@
+import { createHash, randomBytes } from 'crypto';
+import { ECPairFactory } from 'ecpair';
+import * as ecc from 'tiny-secp256k1';
+import * as bitcoin from 'bitcoinjs-lib';
+import {
+  ARK_TX_VERSION_TAPROOT,
+  asAddress,
+  asSignatureHex,
+  asTxId,
+  createSwapLock,
+  signHtlcClaim,
+  type ArkTransaction,
+  type SwapLockResult,
+} from '@arkswap/protocol';
+import { ReverseSwapService } from './reverse-swap.service';
+import { SwapStore } from './swap.store';
+import { getMakerAddress } from './swap.constants';
+import { SwapStatus, type ReverseSwapState } from './swap.types';
+import type { BitcoinService } from '../bitcoin/bitcoin.service';
+import type { AspService, AspVtxo } from '../asp/asp.service';
+import type { PricingService } from './pricing.service';
+import type { MakerWallet } from './maker-wallet.service';
+
+const ECPair = ECPairFactory(ecc);
+const network = bitcoin.networks.regtest;
+
+describe('ReverseSwapService', () => {
+  const user = ECPair.makeRandom({ network });
+  const userPubkey = Buffer.from(user.publicKey.subarray(1, 33));
+  const preimage = randomBytes(32);
+  const preimageHash = createHash('sha256').update(preimage).digest('hex');
+  const l1LockTxid = 'a'.repeat(64);
+  const vtxoLockTxid = 'b'.repeat(64);
+  const l1ClaimTxid = 'e'.repeat(64);
+  const amount = 10_000;
+  // VTXO lock timeout in rounds: at 5s rounds, 1 L1 block, so the L1 lock's is 21
+  const vtxoTimeoutBlocks = 12;
+  const lockHeight = 100;
+
+  let swapStore: SwapStore;
+  let bitcoinService: Record<string, jest.Mock>;
+  let aspService: Record<string, jest.Mock>;
+  let makerWallet: Record<string, jest.Mock>;
+  let service: ReverseSwapService;
+  let swap: ReverseSwapState;
+  let vtxoLock: SwapLockResult;
+  let tip: number;
+  let currentRound: number;
+
+  /**
+   * The funded VTXO lock as the ASP lists it, created in round 10
+   */
+  const lockedVtxo = (overrides: Partial<AspVtxo> = {}): AspVtxo => ({
+    txid: vtxoLockTxid,
+    vout: 0,
+    amount: swap.payoutAmount,
+    address: swap.vtxoLockAddress,
+    spent: false,
+    roundHeight: 10,
+    pending: false,
+    ...overrides,
+  });
+
+  beforeEach(async () => {
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+    jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+    jest.spyOn(console, 'error').mockImplementation(() => undefined);
+    tip = lockHeight + 1;
+    currentRound = 12;
+    swapStore = new SwapStore();
+    bitcoinService = {
+      getBlockHeight: jest.fn().mockImplementation(async () => tip),
+      scanAddress: jest.fn().mockResolvedValue([]),
+      getNewAddress: jest.fn().mockResolvedValue(
+        bitcoin.payments.p2wpkh({
+          pubkey: Buffer.from(ECPair.makeRandom({ network }).publicKey),
+          network,
+        }).address!,
+      ),
+      broadcastTransaction: jest.fn().mockResolvedValue(l1ClaimTxid),
+    };
+    aspService = {
+      getInfo: jest.fn().mockImplementation(async () => ({
+        fees: { baseFee: 10, perInput: 5, perOutput: 5 },
+        roundInterval: 5000,
+        currentBlock: currentRound,
+      })),
+      getVtxos: jest.fn().mockResolvedValue([]),
+      getSpend: jest.fn().mockResolvedValue(null),
+      getExit: jest.fn().mockResolvedValue(null),
+      getTransfer: jest.fn().mockResolvedValue(null),
+      submitTransfer: jest
+        .fn()
+        .mockImplementation(async (tx: ArkTransaction) => ({
+          status: 'queued',
+          transferId: 'c'.repeat(64),
+          roundId: 'round-13',
+          outputs: tx.outputs.map((output, vout) => ({
+            ...output,
+            txid: vtxoLockTxid,
+            vout,
+          })),
+        })),
+    };
+    makerWallet = {
+      createTransfer: jest.fn().mockImplementation(
+        async (
+          destination: string,
+          payout: number,
+        ): Promise<ArkTransaction> => ({
+          version: ARK_TX_VERSION_TAPROOT,
+          inputs: [
+            {
+              txid: asTxId('d'.repeat(64)),
+              vout: 0,
+              signature: asSignatureHex('0'.repeat(128)),
+            },
+          ],
+          outputs: [{ address: asAddress(destination), amount: payout }],
+        }),
+      ),
+    };
+    const pricingService = {
+      priceReverseSwap: jest.fn().mockResolvedValue({
+        fee: { percent: 0.5, serviceFee: 50, minerFee: 500, total: 550 },
+        payoutAmount: amount - 550,
+        expiresAtHeight: 106,
+        timeoutBlocks: vtxoTimeoutBlocks,
+      }),
+    };
+    service = new ReverseSwapService(
+      bitcoinService as unknown as BitcoinService,
+      aspService as unknown as AspService,
+      swapStore,
+      pricingService as unknown as PricingService,
+      makerWallet as unknown as MakerWallet,
+    );
+
+    const quote = await service.createQuote(
+      amount,
+      preimageHash,
+      userPubkey.toString('hex'),
+    );
+    swap = swapStore.get(quote.id) as ReverseSwapState;
+    vtxoLock = createSwapLock({
+      makerPubkey: userPubkey,
+      userPubkey: Buffer.from(quote.makerPubkey, 'hex'),
+      preimageHash: Buffer.from(preimageHash, 'hex'),
+      timeoutBlocks: vtxoTimeoutBlocks,
+    });
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  /**
+   * Confirms the user's funding of the L1 lock at height
+   */
+  const confirmL1Lock = (height = lockHeight) => {
+    bitcoinService.scanAddress.mockResolvedValue([
+      { txid: l1LockTxid, vout: 1, amount, blockHeight: height },
+    ]);
+  };
+
+  /**
+   * Confirms the L1 lock and sweeps once, which funds the VTXO lock (PAID)
+   */
+  const fundSwap = async () => {
+    confirmL1Lock();
+    await service.sweep();
+    expect(swap.status).toBe(SwapStatus.PAID);
+  };
+
+  /**
+   * The user's claim of the VTXO lock through its claim leaf
+   */
+  const userClaim = (): ArkTransaction =>
+    signHtlcClaim({
+      lockVtxo: { txid: vtxoLockTxid, vout: 0, amount: swap.payoutAmount },
+      lock: vtxoLock,
+      destination: bitcoin.payments.p2tr({
+        internalPubkey: userPubkey,
+        network,
+      }).address!,
+      fee: swap.claimFee,
+      privateKey: Buffer.from(user.privateKey!),
+      preimage,
+    });
+
+  /**
+   * Checks the L1 claim broadcast spends the L1 lock with the preimage
+   */
+  const expectL1Claim = () => {
+    const [hex] = bitcoinService.broadcastTransaction.mock.calls[0];
+    const claim = bitcoin.Transaction.fromHex(hex);
+    expect(Buffer.from(claim.ins[0].hash).reverse().toString('hex')).toBe(
+      l1LockTxid,
+    );
+    expect(claim.ins[0].index).toBe(1);
+    expect(Buffer.from(claim.ins[0].witness[1])).toEqual(preimage);
+    expect(claim.outs[0].value).toBe(BigInt(amount - swap.fee.minerFee));
+    expect(swap.l1ClaimTxId).toBe(l1ClaimTxid);
+    expect(swap.status).toBe(SwapStatus.CLAIMED);
+  };
+
+  describe('funding', () => {
+    it('should fund the VTXO lock once the L1 lock confirms', async () => {
+      await fundSwap();
+
+      expect(makerWallet.createTransfer).toHaveBeenCalledWith(
+        swap.vtxoLockAddress,
+        swap.payoutAmount,
+        getMakerAddress(swap.makerPubkey, 'regtest'),
+      );
+      expect(aspService.submitTransfer).toHaveBeenCalledWith(swap.vtxoLockTx);
+      expect(swap).toMatchObject({
+        lockTxid: l1LockTxid,
+        lockVout: 1,
+        lockAmount: amount,
+        lockHeight,
+        vtxoLockTxid,
+        vtxoLockVout: 0,
+      });
+      expect(swap.transitions.map((transition) => transition.status)).toEqual([
+        SwapStatus.QUOTED,
+        SwapStatus.LOCKED,
+        SwapStatus.PAID,
+      ]);
+    });
+
+    it('should not honor an L1 lock confirmed at its expiry height', async () => {
+      confirmL1Lock(swap.expiresAtHeight);
+      tip = swap.expiresAtHeight;
+
+      await service.sweep();
+
+      expect(swap.status).toBe(SwapStatus.EXPIRED);
+      expect(makerWallet.createTransfer).not.toHaveBeenCalled();
+    });
+
+    it('should expire a swap whose L1 lock is too old to fund the VTXO lock', async () => {
+      // The L1 lock's 21 blocks minus the VTXO lock's 1 and the claim margin
+      tip = lockHeight + 21 - 1 - 6 + 1;
+      confirmL1Lock();
+
+      await service.sweep();
+
+      expect(swap.status).toBe(SwapStatus.EXPIRED);
+      expect(makerWallet.createTransfer).not.toHaveBeenCalled();
+      expect(aspService.submitTransfer).not.toHaveBeenCalled();
+    });
+
+    it('should fund the VTXO lock of an L1 lock exactly at the age limit', async () => {
+      tip = lockHeight + 21 - 1 - 6;
+
+      await fundSwap();
+    });
+
+    it('should take the receipt of a saved funding instead of funding twice', async () => {
+      confirmL1Lock();
+      aspService.submitTransfer.mockRejectedValueOnce(new Error('ASP down'));
+      await service.sweep();
+      expect(swap.status).toBe(SwapStatus.LOCKED);
+      expect(swap.vtxoLockTx).toBeDefined();
+
+      // The ASP queued it after all: its receipt counts past the age limit too
+      tip = lockHeight + 30;
+      aspService.getTransfer.mockResolvedValue(
+        await aspService.submitTransfer(swap.vtxoLockTx),
+      );
+      aspService.submitTransfer.mockClear();
+      await service.sweep();
+
+      expect(aspService.getTransfer).toHaveBeenCalledWith(
+        swap.vtxoLockTransferId,
+      );
+      expect(makerWallet.createTransfer).toHaveBeenCalledTimes(1);
+      expect(aspService.submitTransfer).not.toHaveBeenCalled();
+      expect(swap.status).toBe(SwapStatus.PAID);
+    });
+
+    it('should not resubmit a saved funding once the L1 lock is too old', async () => {
+      confirmL1Lock();
+      aspService.submitTransfer.mockRejectedValueOnce(new Error('ASP down'));
+      await service.sweep();
+
+      tip = lockHeight + 30;
+      await service.sweep();
+
+      expect(aspService.submitTransfer).toHaveBeenCalledTimes(1);
+      expect(swap.status).toBe(SwapStatus.EXPIRED);
+    });
+  });
+
+  describe('claims', () => {
+    it('should learn the preimage from the witness of a claim sent to the ASP', async () => {
+      await fundSwap();
+      const [input] = userClaim().inputs;
+      aspService.getVtxos.mockResolvedValue([lockedVtxo({ spent: true })]);
+      aspService.getSpend.mockResolvedValue({
+        transferId: 'f'.repeat(64),
+        roundId: 'round-14',
+        roundHeight: 14,
+        witness: input.witness,
+      });
+
+      await service.sweep();
+
+      expect(aspService.getSpend).toHaveBeenCalledWith(vtxoLockTxid, 0);
+      expect(swap.preimageHex).toBe(preimage.toString('hex'));
+      expect(swap.claimTransferId).toBe('f'.repeat(64));
+      expectL1Claim();
+    });
+
+    it('should learn the preimage from an exit through the claim leaf', async () => {
+      await fundSwap();
+      aspService.getVtxos.mockResolvedValue([lockedVtxo({ spent: true })]);
+      aspService.getExit.mockResolvedValue({
+        onchain: null,
+        preimage: preimage.toString('hex'),
+      });
+
+      await service.sweep();
+
+      expect(aspService.getExit).toHaveBeenCalledWith(vtxoLockTxid, 0);
+      expectL1Claim();
+    });
+
+    it('should ignore a revealed preimage of another hash', async () => {
+      await fundSwap();
+      aspService.getVtxos.mockResolvedValue([lockedVtxo({ spent: true })]);
+      aspService.getExit.mockResolvedValue({
+        onchain: null,
+        preimage: randomBytes(32).toString('hex'),
+      });
+
+      await service.sweep();
+
+      expect(swap.preimageHex).toBeUndefined();
+      expect(bitcoinService.broadcastTransaction).not.toHaveBeenCalled();
+      expect(swap.status).toBe(SwapStatus.PAID);
+    });
+
+    it('should relay the user claim and claim the L1 lock with its preimage', async () => {
+      await fundSwap();
+      aspService.getVtxos.mockResolvedValue([lockedVtxo()]);
+      const claimTx = userClaim();
+
+      await expect(service.claim(swap.id, claimTx)).resolves.toEqual({
+        transferId: 'c'.repeat(64),
+        roundId: 'round-13',
+      });
+
+      expect(aspService.submitTransfer).toHaveBeenLastCalledWith(claimTx);
+      expectL1Claim();
+    });
+
+    it('should reject a relayed claim that reveals another preimage', async () => {
+      await fundSwap();
+      aspService.getVtxos.mockResolvedValue([lockedVtxo()]);
+      const claimTx = userClaim();
+      const [input] = claimTx.inputs;
+      const forged = {
+        ...claimTx,
+        inputs: [
+          {
+            ...input,
+            witness: {
+              ...input.witness!,
+              stack: [randomBytes(32).toString('hex')],
+            },
+          },
+        ],
+      };
+
+      await expect(service.claim(swap.id, forged)).rejects.toMatchObject({
+        response: {
+          message: expect.stringContaining(
+            'preimage does not match the quoted hash',
+          ),
+        },
+      });
+      expect(aspService.submitTransfer).toHaveBeenCalledTimes(1);
+      expect(swap.status).toBe(SwapStatus.PAID);
+    });
+
+    it('should claim the L1 lock again after a failed broadcast', async () => {
+      await fundSwap();
+      aspService.getVtxos.mockResolvedValue([lockedVtxo()]);
+      bitcoinService.broadcastTransaction.mockRejectedValueOnce(
+        new Error('mempool full'),
+      );
+
+      await service.claim(swap.id, userClaim());
+      expect(swap.status).toBe(SwapStatus.PAID);
+      expect(swap.preimageHex).toBe(preimage.toString('hex'));
+
+      await service.sweep();
+
+      expect(bitcoinService.broadcastTransaction).toHaveBeenCalledTimes(2);
+      expect(swap.status).toBe(SwapStatus.CLAIMED);
+    });
+  });
+
+  describe('refund', () => {
+    it('should take an unclaimed VTXO lock back once its refund path opens', async () => {
+      await fundSwap();
+      aspService.getVtxos.mockResolvedValue([lockedVtxo()]);
+
+      // Created in round 10: the refund path opens at round 22
+      currentRound = 21;
+      await service.sweep();
+      expect(aspService.submitTransfer).toHaveBeenCalledTimes(1);
+
+      currentRound = 22;
+      await service.sweep();
+
+      expect(aspService.submitTransfer).toHaveBeenCalledTimes(2);
+      const [refundTx] = aspService.submitTransfer.mock.calls[1];
+      expect(refundTx.inputs).toEqual([
+        expect.objectContaining({
+          txid: vtxoLockTxid,
+          vout: 0,
+          witness: expect.objectContaining({
+            leafScript: vtxoLock.leaves.refund.toString('hex'),
+          }),
+        }),
+      ]);
+      expect(refundTx.outputs[0].address).toBe(
+        getMakerAddress(swap.makerPubkey, 'regtest'),
+      );
+      // REFUNDED once a round journals the refund
+      expect(swap.status).toBe(SwapStatus.PAID);
+    });
+
+    it('should not refund a VTXO lock a queued transfer spends', async () => {
+      await fundSwap();
+      aspService.getVtxos.mockResolvedValue([lockedVtxo({ pending: true })]);
+      currentRound = 30;
+
+      await service.sweep();
+
+      expect(aspService.submitTransfer).toHaveBeenCalledTimes(1);
+    });
+
+    it('should mark the swap REFUNDED once its refund is journaled', async () => {
+      await fundSwap();
+      aspService.getVtxos.mockResolvedValue([lockedVtxo()]);
+      currentRound = 22;
+      await service.sweep();
+      const [refundTx] = aspService.submitTransfer.mock.calls[1];
+      aspService.getVtxos.mockResolvedValue([lockedVtxo({ spent: true })]);
+      aspService.getSpend.mockResolvedValue({
+        transferId: '9'.repeat(64),
+        roundId: 'round-23',
+        roundHeight: 23,
+        witness: refundTx.inputs[0].witness,
+      });
+
+      await service.sweep();
+
+      expect(swap.vtxoRefundTransferId).toBe('9'.repeat(64));
+      expect(swap.status).toBe(SwapStatus.REFUNDED);
+      expect(bitcoinService.broadcastTransaction).not.toHaveBeenCalled();
+    });
+  });
+});
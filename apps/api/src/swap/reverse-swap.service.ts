@@ -0,0 +1,609 @@
+import { Injectable, Logger, HttpException, HttpStatus } from '@nestjs/common';
+import { createHash, randomBytes } from 'crypto';
+import { ECPairFactory } from 'ecpair';
+import * as ecc from 'tiny-secp256k1';
+import * as bitcoin from 'bitcoinjs-lib';
+import {
+  buildClaimTx,
+  createSwapLock,
+  getRequiredFee,
+  getTxHash,
+  signHtlcRefund,
+  type ArkTransaction,
+  type SwapLockResult,
+  type TransferReceipt,
+} from '@arkswap/protocol';
+import { BitcoinService } from '../bitcoin/bitcoin.service';
+import { AspService, type AspVtxo } from '../asp/asp.service';
+import { SwapStore } from './swap.store';
+import { PricingService, type SwapPrice } from './pricing.service';
+import { MakerWallet } from './maker-wallet.service';
+import {
+  L1_BLOCK_INTERVAL_MS,
+  REVERSE_SWAP_CLAIM_MARGIN_BLOCKS,
+  REVERSE_SWAP_TIMEOUT_MARGIN_BLOCKS,
+  getMakerAddress,
+  loadNetwork,
+} from './swap.constants';
+import { SwapStatus, type ReverseSwapState } from './swap.types';
+
+// Initialize ECC library for bitcoinjs-lib
+bitcoin.initEccLib(ecc);
+
+const ECPair = ECPairFactory(ecc);
+
+export interface ReverseSwapQuote extends SwapPrice {
+  id: string;
+  type: 'reverse';
+  amount: number;
+  preimageHash: string;
+  makerPubkey: string;
+  /** The L1 lock the user funds: the maker claims it with the preimage */
+  lockAddress: string;
+  timeoutBlocks: number;
+  /** The VTXO lock the maker funds: the user claims it with the preimage */
+  vtxoLockAddress: string;
+  vtxoTimeoutBlocks: number;
+  /** ASP transfer fee of the user's claim of the VTXO lock */
+  claimFee: number;
+}
+
+/**
+ * Reverse swaps: L1 BTC in, Ark VTXO out
+ * 1. The user quotes with the hash of a preimage only they know
+ * 2. The user funds the L1 lock; the sweeper finds it confirmed (LOCKED)
+ * 3. The maker transfers the payout into the VTXO lock out of its own VTXOs (PAID),
+ *    unless the L1 lock is too old for it (EXPIRED, see sendVtxoLock)
+ * 4. The user claims the VTXO lock, revealing the preimage, and the maker claims
+ *    the L1 lock with it (CLAIMED)
+ * A claim relayed through this service gives the maker the preimage at once. The
+ * ASP publishes the witness of every script-path spend and the preimage of every
+ * hashlocked exit, so the sweeper learns it just as well from a claim or exit
+ * the user sent the ASP directly. Once the VTXO lock's refund path opens the
+ * maker takes it back (REFUNDED), while the L1 lock still has its margin left, so
+ * a user who refunds the L1 lock can no longer claim the VTXO lock.
+ */
+@Injectable()
+export class ReverseSwapService {
+  private readonly logger = new Logger(ReverseSwapService.name);
+  private readonly network = loadNetwork();
+  // Swaps with a claim in flight, so the sweeper does not claim L1 alongside it
+  private readonly processing = new Set<string>();
+
+  constructor(
+    private readonly bitcoinService: BitcoinService,
+    private readonly aspService: AspService,
+    private readonly swapStore: SwapStore,
+    private readonly pricingService: PricingService,
+    private readonly makerWallet: MakerWallet,
+  ) {}
+
+  /**
+   * Creates a reverse swap quote for the user's preimage hash and key
+   */
+  async createQuote(
+    amount: number,
+    preimageHash: string,
+    userPubkey: string,
+  ): Promise<ReverseSwapQuote> {
+    const blockHeight = await this.bitcoinService.getBlockHeight();
+    const price = await this.pricingService.priceReverseSwap(
+      amount,
+      blockHeight,
+    );
+    const { fees, roundInterval } = await this.aspService.getInfo();
+    // The policy's timeout is the VTXO lock's, in ASP rounds; the L1 lock outlives
+    // it by the margin, in L1 blocks
+    const timeoutBlocks =
+      toL1Blocks(price.timeoutBlocks, roundInterval) +
+      REVERSE_SWAP_TIMEOUT_MARGIN_BLOCKS;
+
+    const makerKeyPair = ECPair.makeRandom();
+    const makerPubkey = makerKeyPair.publicKey.slice(1, 33).toString('hex');
+    const id = randomBytes(16).toString('hex');
+
+    const swap: ReverseSwapState = {
+      type: 'reverse',
+      id,
+      amount,
+      preimageHash,
+      makerPrivateKeyHex: makerKeyPair.privateKey!.toString('hex'),
+      makerPubkey,
+      userPubkey,
+      lockAddress: '',
+      vtxoLockAddress: '',
+      claimFee: getRequiredFee(fees, 1, 1),
+      cooperative: false,
+      status: SwapStatus.QUOTED,
+      transitions: [],
+      ...price,
+      timeoutBlocks,
+      vtxoTimeoutBlocks: price.timeoutBlocks,
+    };
+    swap.lockAddress = this.getL1Lock(swap).address;
+    swap.vtxoLockAddress = this.getVtxoLock(swap).address;
+
+    this.swapStore.transition(swap, SwapStatus.QUOTED, blockHeight);
+    this.logger.log(
+      `Created reverse swap quote: id=${id}, amount=${amount}, lock=${swap.lockAddress}`,
+    );
+
+    return {
+      id,
+      type: 'reverse',
+      amount,
+      preimageHash,
+      makerPubkey,
+      lockAddress: swap.lockAddress,
+      vtxoLockAddress: swap.vtxoLockAddress,
+      vtxoTimeoutBlocks: swap.vtxoTimeoutBlocks,
+      claimFee: swap.claimFee,
+      ...price,
+      timeoutBlocks: swap.timeoutBlocks,
+    };
+  }
+
+  /**
+   * Relays the user's claim of the VTXO lock: learns the preimage from it,
+   * submits it to the ASP, then claims the L1 lock with the preimage
+   * @throws HttpException (400) if the swap is not PAID, the claim does not
+   * spend the VTXO lock or its preimage does not match, or the ASP rejects it
+   */
+  async claim(
+    swapId: string,
+    claimTx: ArkTransaction,
+  ): Promise<{ transferId: string; roundId: string }> {
+    const swap = this.findReverseSwap(swapId);
+    if (swap.status !== SwapStatus.PAID || this.processing.has(swapId)) {
+      throw new HttpException(
+        {
+          success: false,
+          message: `Reverse swap ${swapId} is ${swap.status}, the VTXO lock is not claimable`,
+        },
+        HttpStatus.BAD_REQUEST,
+      );
+    }
+
+    this.processing.add(swapId);
+    try {
+      const preimage = await this.verifyClaim(swap, claimTx);
+      // Recorded first, so the maker can claim L1 even if the relay fails midway
+      Object.assign(swap, { preimageHex: preimage.toString('hex'), claimTx });
+      this.swapStore.save(swap);
+
+      const receipt = await this.aspService.submitTransfer(claimTx);
+      swap.claimTransferId = receipt.transferId;
+      this.swapStore.save(swap);
+      this.logger.log(
+        `⚡ User claimed the VTXO lock of reverse swap ${swapId}: transfer ${receipt.transferId} queued for round ${receipt.roundId}`,
+      );
+
+      await this.claimL1Lock(swap);
+      return { transferId: receipt.transferId, roundId: receipt.roundId };
+    } finally {
+      this.processing.delete(swapId);
+    }
+  }
+
+  /**
+   * Reverse swap sweep, run by SwapSweeper
+   * - QUOTED swaps whose L1 lock confirmed before expiry become LOCKED, the others
+   *   EXPIRED once past their expiry height
+   * - LOCKED swaps get their VTXO lock (PAID); a failed funding is retried until
+   *   the L1 lock is too old for it (EXPIRED)
+   * - PAID swaps follow their VTXO lock until the preimage is known (see
+   *   watchVtxoLock), then claim the L1 lock
+   */
+  async sweep(): Promise<void> {
+    const blockHeight = await this.bitcoinService.getBlockHeight();
+
+    for (const swap of this.swapStore.list()) {
+      if (swap.type !== 'reverse' || this.processing.has(swap.id)) continue;
+
+      try {
+        if (swap.status === SwapStatus.QUOTED) {
+          await this.watchL1Lock(swap, blockHeight);
+        }
+        if (swap.status === SwapStatus.LOCKED) {
+          await this.sendVtxoLock(swap, blockHeight);
+        } else if (swap.status === SwapStatus.PAID) {
+          if (!swap.preimageHex) {
+            await this.watchVtxoLock(swap, blockHeight);
+          }
+          if (swap.status === SwapStatus.PAID && swap.preimageHex) {
+            await this.claimL1Lock(swap);
+          }
+        }
+      } catch (error) {
+        this.logger.error(
+          `Sweep of reverse swap ${swap.id} failed: ${error instanceof Error ? error.message : String(error)}`,
+        );
+      }
+    }
+  }
+
+  /**
+   * Looks for a confirmed output of at least the quoted amount at the L1 lock
+   * A lock confirmed at or after the expiry height is not honored: the user
+   * takes it back through the refund leaf.
+   */
+  private async watchL1Lock(
+    swap: ReverseSwapState,
+    blockHeight: number,
+  ): Promise<void> {
+    const funding = (await this.bitcoinService.scanAddress(swap.lockAddress))
+      .filter(
+        (output) =>
+          output.amount >= swap.amount &&
+          output.blockHeight < swap.expiresAtHeight,
+      )
+      .sort((a, b) => a.blockHeight - b.blockHeight)[0];
+
+    if (funding) {
+      this.logger.log(
+        `🔍 L1 lock of reverse swap ${swap.id} confirmed: ${funding.txid}:${funding.vout}, ${funding.amount} sats at height ${funding.blockHeight}`,
+      );
+      Object.assign(swap, {
+        lockTxid: funding.txid,
+        lockVout: funding.vout,
+        lockAmount: funding.amount,
+        lockHeight: funding.blockHeight,
+      });
+      this.swapStore.transition(swap, SwapStatus.LOCKED, blockHeight);
+    } else if (blockHeight >= swap.expiresAtHeight) {
+      this.swapStore.transition(swap, SwapStatus.EXPIRED, blockHeight);
+    }
+  }
+
+  /**
+   * Follows the VTXO lock of a paid swap whose preimage is not known yet
+   * - a spend through the claim leaf, or an exit through it, reveals the preimage
+   *   (a claim the user sent the ASP without this service)
+   * - a spend through the refund leaf is the maker's refund (REFUNDED)
+   * - an unspent VTXO is refunded once its refund path opens
+   */
+  private async watchVtxoLock(
+    swap: ReverseSwapState,
+    blockHeight: number,
+  ): Promise<void> {
+    const lock = this.getVtxoLock(swap);
+    const claimLeaf = lock.leaves.claim.toString('hex');
+    const refundLeaf = lock.leaves.refund.toString('hex');
+
+    for (const vtxo of await this.aspService.getVtxos(swap.vtxoLockAddress)) {
+      const { txid, vout } = vtxo;
+      if (!vtxo.spent) {
+        await this.refundVtxoLock(swap, lock, vtxo);
+        continue;
+      }
+
+      const spend = await this.aspService.getSpend(txid, vout);
+      if (spend?.witness?.leafScript.toLowerCase() === refundLeaf) {
+        swap.vtxoRefundTransferId = spend.transferId;
+        this.swapStore.transition(swap, SwapStatus.REFUNDED, blockHeight);
+        this.logger.log(
+          `↩️ Reverse swap ${swap.id} refunded: the maker took back ${txid}:${vout} in transfer ${spend.transferId}`,
+        );
+        return;
+      }
+
+      // No journaled spend means the VTXO was exited
+      let revealed: string | undefined;
+      if (!spend) {
+        revealed = (await this.aspService.getExit(txid, vout))?.preimage;
+      } else if (spend.witness?.leafScript.toLowerCase() === claimLeaf) {
+        revealed = spend.witness.stack[0];
+      }
+      if (
+        !revealed ||
+        createHash('sha256')
+          .update(Buffer.from(revealed, 'hex'))
+          .digest('hex') !== swap.preimageHash
+      ) {
+        continue;
+      }
+
+      swap.preimageHex = revealed.toLowerCase();
+      swap.claimTransferId = spend?.transferId;
+      this.swapStore.save(swap);
+      this.logger.log(
+        `🔍 Learned the preimage of reverse swap ${swap.id} from the ${spend ? `claim transfer ${spend.transferId}` : 'exit'} of ${txid}:${vout}`,
+      );
+      return;
+    }
+  }
+
+  /**
+   * Takes an unspent VTXO of the lock back through the refund leaf, once the ASP
+   * counts it as old as the lock's timeout and no queued transfer spends it
+   * The refund is journaled in a later round, where watchVtxoLock finds it.
+   */
+  private async refundVtxoLock(
+    swap: ReverseSwapState,
+    lock: SwapLockResult,
+    vtxo: AspVtxo,
+  ): Promise<void> {
+    const { fees, currentBlock } = await this.aspService.getInfo();
+    // A VTXO no journaled round created has age 0 for the ASP too
+    const age = vtxo.roundHeight === null ? 0 : currentBlock - vtxo.roundHeight;
+    if (vtxo.pending || age < swap.vtxoTimeoutBlocks) {
+      return;
+    }
+
+    const refundTx = signHtlcRefund({
+      lockVtxo: { txid: vtxo.txid, vout: vtxo.vout, amount: vtxo.amount },
+      lock,
+      destination: getMakerAddress(swap.makerPubkey, this.network),
+      fee: getRequiredFee(fees, 1, 1),
+      privateKey: Buffer.from(swap.makerPrivateKeyHex, 'hex'),
+      network: this.network,
+    });
+    const receipt = await this.aspService.submitTransfer(refundTx);
+    this.logger.log(
+      `↩️ Refunding VTXO lock ${vtxo.txid}:${vtxo.vout} of reverse swap ${swap.id}: transfer ${receipt.transferId} queued for round ${receipt.roundId}`,
+    );
+  }
+
+  /**
+   * Pays the quoted payout (the swap amount minus the fee) into the VTXO lock
+   * with a transfer out of the maker's VTXOs (see MakerWallet), change to the
+   * swap's maker address, and marks the swap PAID once the ASP queued it
+   * The signed transfer is saved before it is submitted, so a retry never funds
+   * the lock twice: it takes the receipt of a transfer the ASP already has,
+   * resubmits one it does not, and only signs a new transfer if the ASP rejects
+   * the saved one (another transfer spent its inputs).
+   * The user can claim the VTXO lock until its refund path opens, vtxoTimeoutBlocks
+   * rounds after the funding, and the maker must claim the L1 lock with the
+   * preimage before the user can refund it. So a lock the ASP does not have yet
+   * is not funded once the L1 lock is older than its timeout minus that and the
+   * claim margin: the swap is EXPIRED and the user refunds the L1 lock.
+   */
+  private async sendVtxoLock(
+    swap: ReverseSwapState,
+    blockHeight: number,
+  ): Promise<void> {
+    const sent =
+      swap.vtxoLockTx &&
+      (await this.aspService.getTransfer(swap.vtxoLockTransferId!));
+    if (sent) {
+      return this.markVtxoLockSent(swap, sent);
+    }
+
+    const { roundInterval } = await this.aspService.getInfo();
+    // Swaps locked before the funding height was recorded count from LOCKED
+    const lockHeight =
+      swap.lockHeight ??
+      swap.transitions.find(({ status }) => status === SwapStatus.LOCKED)!
+        .blockHeight;
+    const age = blockHeight - lockHeight;
+    const maxAge =
+      swap.timeoutBlocks -
+      toL1Blocks(swap.vtxoTimeoutBlocks, roundInterval) -
+      REVERSE_SWAP_CLAIM_MARGIN_BLOCKS;
+    if (age > maxAge) {
+      this.swapStore.transition(swap, SwapStatus.EXPIRED, blockHeight);
+      this.logger.warn(
+        `⏰ Reverse swap ${swap.id} expired unfunded: its L1 lock is ${age} blocks old, the VTXO lock must be funded within ${maxAge}`,
+      );
+      return;
+    }
+
+    const resubmitted = swap.vtxoLockTx && (await this.resubmitVtxoLock(swap));
+    if (resubmitted) {
+      return this.markVtxoLockSent(swap, resubmitted);
+    }
+
+    const vtxoLockTx = await this.makerWallet.createTransfer(
+      swap.vtxoLockAddress,
+      swap.payoutAmount,
+      getMakerAddress(swap.makerPubkey, this.network),
+    );
+    Object.assign(swap, {
+      vtxoLockTx,
+      vtxoLockTransferId: await getTxHash(
+        vtxoLockTx.inputs.map(({ txid, vout }) => ({ txid, vout })),
+        vtxoLockTx.outputs,
+      ),
+    });
+    this.swapStore.save(swap);
+    this.logger.log(
+      `💸 Sending ${swap.payoutAmount} sats (fee ${swap.fee.total} sats) from ${vtxoLockTx.inputs.length} maker VTXO(s) into the VTXO lock ${swap.vtxoLockAddress}`,
+    );
+    await this.markVtxoLockSent(
+      swap,
+      await this.aspService.submitTransfer(vtxoLockTx),
+    );
+  }
+
+  /**
+   * Submits the saved funding of the VTXO lock again
+   * @returns null if the ASP rejects it, so a new one is signed
+   */
+  private async resubmitVtxoLock(
+    swap: ReverseSwapState,
+  ): Promise<TransferReceipt | null> {
+    try {
+      return await this.aspService.submitTransfer(swap.vtxoLockTx!);
+    } catch (error) {
+      if (
+        !(error instanceof HttpException) ||
+        error.getStatus() !== HttpStatus.BAD_REQUEST
+      ) {
+        throw error;
+      }
+      this.logger.warn(
+        `Funding ${swap.vtxoLockTransferId} of reverse swap ${swap.id} was rejected, signing a new one: ${JSON.stringify(error.getResponse())}`,
+      );
+      return null;
+    }
+  }
+
+  /**
+   * Records the VTXO lock the ASP committed to creating (the funding's first
+   * output) and marks the swap PAID
+   */
+  private async markVtxoLockSent(
+    swap: ReverseSwapState,
+    receipt: TransferReceipt,
+  ): Promise<void> {
+    const [lockOutput] = receipt.outputs;
+    Object.assign(swap, {
+      vtxoLockTxid: lockOutput.txid,
+      vtxoLockVout: lockOutput.vout,
+    });
+    this.swapStore.transition(
+      swap,
+      SwapStatus.PAID,
+      await this.bitcoinService.getBlockHeight(),
+    );
+    this.logger.log(
+      `💸 VTXO lock of reverse swap ${swap.id} funded: ${lockOutput.txid}:${lockOutput.vout} in transfer ${receipt.transferId}, ${receipt.status}`,
+    );
+  }
+
+  /**
+   * Claims the L1 lock with the preimage the user revealed and marks the swap
+   * CLAIMED
+   * The user already has the VTXO, so a failed broadcast is logged rather than
+   * thrown; the swap stays PAID and the sweeper claims again.
+   */
+  private async claimL1Lock(swap: ReverseSwapState): Promise<void> {
+    try {
+      const { hex } = buildClaimTx({
+        outpoint: {
+          txid: swap.lockTxid!,
+          vout: swap.lockVout!,
+          amount: swap.lockAmount!,
+        },
+        lock: this.getL1Lock(swap),
+        privateKey: Buffer.from(swap.makerPrivateKeyHex, 'hex'),
+        destination: await this.bitcoinService.getNewAddress(),
+        // The miner fee the quote charged the user for this claim
+        fee: swap.fee.minerFee,
+        preimage: Buffer.from(swap.preimageHex!, 'hex'),
+        network: this.network,
+      });
+      swap.l1ClaimTxId = await this.bitcoinService.broadcastTransaction(hex);
+      this.swapStore.transition(
+        swap,
+        SwapStatus.CLAIMED,
+        await this.bitcoinService.getBlockHeight(),
+      );
+      this.logger.log(
+        `✅ Reverse swap claimed: id=${swap.id}, l1ClaimTxId=${swap.l1ClaimTxId}`,
+      );
+    } catch (error) {
+      const message =
+        error instanceof HttpException
+          ? JSON.stringify(error.getResponse())
+          : String(error);
+      this.logger.error(
+        `L1 claim of reverse swap ${swap.id} failed: ${message}`,
+      );
+    }
+  }
+
+  /**
+   * Checks the user's claim spends a VTXO of the VTXO lock through its claim
+   * leaf, and returns the preimage it reveals
+   */
+  private async verifyClaim(
+    swap: ReverseSwapState,
+    claimTx: ArkTransaction,
+  ): Promise<Buffer> {
+    const reject = (reason: string) =>
+      new HttpException(
+        {
+          success: false,
+          message: `Invalid claim of reverse swap ${swap.id}: ${reason}`,
+        },
+        HttpStatus.BAD_REQUEST,
+      );
+
+    if (claimTx.inputs.length !== 1) {
+      throw reject('expected one input, the VTXO lock');
+    }
+    const [input] = claimTx.inputs;
+    const lock = this.getVtxoLock(swap);
+    if (
+      !input.witness ||
+      input.witness.leafScript.toLowerCase() !==
+        lock.leaves.claim.toString('hex')
+    ) {
+      throw reject('input does not spend the claim leaf');
+    }
+
+    const preimage = Buffer.from(input.witness.stack[0] ?? '', 'hex');
+    if (
+      createHash('sha256').update(preimage).digest('hex') !== swap.preimageHash
+    ) {
+      throw reject('preimage does not match the quoted hash');
+    }
+
+    const vtxos = await this.aspService.getVtxos(swap.vtxoLockAddress);
+    if (
+      !vtxos.some(
+        (vtxo) =>
+          vtxo.txid === input.txid && vtxo.vout === input.vout && !vtxo.spent,
+      )
+    ) {
+      throw reject(
+        `no unspent VTXO ${input.txid}:${input.vout} at ${swap.vtxoLockAddress}`,
+      );
+    }
+
+    return preimage;
+  }
+
+  /**
+   * The L1 lock the user funds: the maker claims it with the preimage, the user
+   * refunds it after timeoutBlocks
+   */
+  private getL1Lock(swap: ReverseSwapState): SwapLockResult {
+    return createSwapLock({
+      makerPubkey: Buffer.from(swap.makerPubkey, 'hex'),
+      userPubkey: Buffer.from(swap.userPubkey, 'hex'),
+      preimageHash: Buffer.from(swap.preimageHash, 'hex'),
+      timeoutBlocks: swap.timeoutBlocks,
+      network: this.network,
+    });
+  }
+
+  /**
+   * The VTXO lock the maker funds, roles swapped: the user claims it with the
+   * preimage, the maker refunds it after vtxoTimeoutBlocks
+   */
+  private getVtxoLock(swap: ReverseSwapState): SwapLockResult {
+    return createSwapLock({
+      makerPubkey: Buffer.from(swap.userPubkey, 'hex'),
+      userPubkey: Buffer.from(swap.makerPubkey, 'hex'),
+      preimageHash: Buffer.from(swap.preimageHash, 'hex'),
+      timeoutBlocks: swap.vtxoTimeoutBlocks,
+      network: this.network,
+    });
+  }
+
+  /**
+   * @throws HttpException (404) if the swap is unknown or not a reverse swap
+   */
+  private findReverseSwap(swapId: string): ReverseSwapState {
+    const swap = this.swapStore.get(swapId);
+    if (swap?.type !== 'reverse') {
+      throw new HttpException(
+        {
+          success: false,
+          message: `Reverse swap not found: ${swapId}`,
+        },
+        HttpStatus.NOT_FOUND,
+      );
+    }
+    return swap;
+  }
+}
+
+/**
+ * L1 blocks that rounds ASP rounds take, rounded up
+ */
+function toL1Blocks(rounds: number, roundInterval: number): number {
+  return Math.ceil((rounds * roundInterval) / L1_BLOCK_INTERVAL_MS);
+}
@@ -0,0 +1,103 @@
+import { Logger } from '@nestjs/common';
+import {
+  appendFileSync,
+  chmodSync,
+  existsSync,
+  mkdirSync,
+  readFileSync,
+  renameSync,
+  writeFileSync,
+} from 'fs';
+import { dirname } from 'path';
+import type { SwapRecord, SwapStorage } from './swap-storage';
+
+// Bump when the persisted swap shape changes, and migrate older snapshots in load()
+const SWAP_SCHEMA_VERSION = 1;
+
+// Swaps hold maker private keys, preimages and adaptor secrets: owner-only access
+const SWAP_FILE_MODE = 0o600;
+
+/**
+ * Durable swap storage backed by an append-only JSON Lines file
+ *
+ * Each line is a snapshot of one swap, tagged with the schema version:
+ *   {"v":1,"swap":{...}}
+ *
+ * Appends are synchronous so a swap is on disk before the maker pays anything.
+ * A truncated final line (crash mid-write) is skipped during replay.
+ *
+ * The file is readable by its owner only. load() compacts it to the latest
+ * snapshot of each swap (written to a temporary file, then renamed over it), so
+ * it grows with the swaps of one run rather than every transition ever made.
+ */
+export class FileSwapStorage implements SwapStorage {
+  private readonly logger = new Logger(FileSwapStorage.name);
+
+  constructor(private readonly filePath: string) {
+    mkdirSync(dirname(filePath), { recursive: true, mode: 0o700 });
+  }
+
+  load(): SwapRecord[] {
+    if (!existsSync(this.filePath)) {
+      return [];
+    }
+
+    const lines = readFileSync(this.filePath, 'utf8').split('\n');
+    const swaps = new Map<string, SwapRecord>();
+
+    lines.forEach((line, index) => {
+      if (!line.trim()) return;
+
+      let record: { v?: number; swap: SwapRecord };
+      try {
+        record = JSON.parse(line);
+      } catch {
+        // Only the last line can be partially written; anything else is corruption
+        if (index >= lines.length - 2) {
+          this.logger.warn(
+            `Skipping truncated swap entry at line ${index + 1}`,
+          );
+          return;
+        }
+        throw new Error(`Corrupt swap entry at ${this.filePath}:${index + 1}`);
+      }
+
+      if ((record.v ?? 1) > SWAP_SCHEMA_VERSION) {
+        throw new Error(
+          `Swaps were written with schema v${record.v}, this API supports up to v${SWAP_SCHEMA_VERSION}`,
+        );
+      }
+      swaps.set(record.swap.id, record.swap);
+    });
+
+    this.logger.log(`Loaded ${swaps.size} swaps from ${this.filePath}`);
+    this.compact([...swaps.values()]);
+    return [...swaps.values()];
+  }
+
+  save(swap: SwapRecord): void {
+    appendFileSync(this.filePath, this.toLine(swap), {
+      encoding: 'utf8',
+      mode: SWAP_FILE_MODE,
+    });
+  }
+
+  /**
+   * Rewrites the file with one snapshot per swap
+   * The rename is atomic: a crash leaves either the old or the compacted file.
+   */
+  private compact(swaps: SwapRecord[]): void {
+    const tmpPath = `${this.filePath}.tmp`;
+    writeFileSync(tmpPath, swaps.map((swap) => this.toLine(swap)).join(''), {
+      encoding: 'utf8',
+      mode: SWAP_FILE_MODE,
+    });
+    // mode only applies on creation: also tighten a leftover temporary file
+    chmodSync(tmpPath, SWAP_FILE_MODE);
+    renameSync(tmpPath, this.filePath);
+  }
+
+  private toLine(swap: SwapRecord): string {
+    return `${JSON.stringify({ v: SWAP_SCHEMA_VERSION, swap })}\n`;
+  }
+}
@@ -0,0 +1,17 @@
+import type { SwapRecord, SwapStorage } from './swap-storage';
+
+/**
+ * In-memory swap storage
+ * Swaps (and the maker keys and preimages they hold) are lost on restart.
+ */
+export class MemorySwapStorage implements SwapStorage {
+  private readonly swaps = new Map<string, SwapRecord>();
+
+  load(): SwapRecord[] {
+    return [...this.swaps.values()];
+  }
+
+  save(swap: SwapRecord): void {
+    this.swaps.set(swap.id, structuredClone(swap));
+  }
+}
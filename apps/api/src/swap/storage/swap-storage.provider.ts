@@ -0,0 +1,30 @@
+import type { Provider } from '@nestjs/common';
+import { SWAP_STORAGE, type SwapStorage } from './swap-storage';
+import { MemorySwapStorage } from './memory-swap.storage';
+import { FileSwapStorage } from './file-swap.storage';
+
+/**
+ * Selects the swap storage adapter from the environment
+ * - SWAP_STORAGE=file (default): append-only journal at SWAP_STORE_PATH (owner-only),
+ *   compacted and loaded on startup
+ * - SWAP_STORAGE=memory: volatile, quotes and maker keys are lost on restart
+ */
+export function createSwapStorage(): SwapStorage {
+  const kind = process.env.SWAP_STORAGE || 'file';
+
+  switch (kind) {
+    case 'memory':
+      return new MemorySwapStorage();
+    case 'file':
+      return new FileSwapStorage(
+        process.env.SWAP_STORE_PATH || './data/api/swaps.jsonl',
+      );
+    default:
+      throw new Error(`Unknown SWAP_STORAGE adapter: ${kind}`);
+  }
+}
+
+export const swapStorageProvider: Provider = {
+  provide: SWAP_STORAGE,
+  useFactory: createSwapStorage,
+};
@@ -0,0 +1,28 @@
+import type { SwapState } from '../swap.types';
+
+/**
+ * Injection token for the active swap storage adapter
+ */
+export const SWAP_STORAGE = Symbol('SWAP_STORAGE');
+
+/**
+ * A swap as it is persisted: SwapStore never saves the cooperative close session
+ */
+export type SwapRecord = SwapState;
+
+/**
+ * Storage Adapter Interface
+ * Backs SwapStore: every change of a swap is saved as a full snapshot, and the
+ * latest snapshot of each swap is loaded back on startup.
+ */
+export interface SwapStorage {
+  /**
+   * Returns the latest snapshot of every swap, in the order they were first saved
+   */
+  load(): SwapRecord[];
+
+  /**
+   * Durably records a snapshot of a swap
+   */
+  save(swap: SwapRecord): void;
+}
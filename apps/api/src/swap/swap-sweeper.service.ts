@@ -0,0 +1,69 @@
+import {
+  Injectable,
+  Logger,
+  OnApplicationBootstrap,
+  OnModuleDestroy,
+} from '@nestjs/common';
+import { SwapService } from './swap.service';
+import { ReverseSwapService } from './reverse-swap.service';
+
+/**
+ * Reads the sweep interval from the environment
+ * - SWAP_SWEEP_INTERVAL_MS: milliseconds between expiry sweeps (default 30000)
+ */
+export function loadSweepIntervalMs(): number {
+  const intervalMs = Number(process.env.SWAP_SWEEP_INTERVAL_MS || 30000);
+  if (!Number.isInteger(intervalMs) || intervalMs <= 0) {
+    throw new Error(
+      `SWAP_SWEEP_INTERVAL_MS must be a positive integer, got ${process.env.SWAP_SWEEP_INTERVAL_MS}`,
+    );
+  }
+  return intervalMs;
+}
+
+/**
+ * Swap Sweeper
+ * Runs SwapService.sweep on a timer: expires unpaid swaps, retries rejected
+ * claims and detects refunds; then ReverseSwapService.sweep, which also watches
+ * the L1 locks of reverse swaps. Sweeps never overlap.
+ */
+@Injectable()
+export class SwapSweeper implements OnApplicationBootstrap, OnModuleDestroy {
+  private readonly logger = new Logger(SwapSweeper.name);
+  private readonly intervalMs = loadSweepIntervalMs();
+  private timer: NodeJS.Timeout | null = null;
+  private sweeping = false;
+
+  constructor(
+    private readonly swapService: SwapService,
+    private readonly reverseSwapService: ReverseSwapService,
+  ) {}
+
+  onApplicationBootstrap() {
+    this.logger.log(`🧹 Sweeping expired swaps every ${this.intervalMs}ms`);
+    this.timer = setInterval(() => {
+      // A slow sweep (e.g. an unreachable ASP) skips ticks instead of stacking them
+      if (this.sweeping) return;
+      this.sweeping = true;
+      this.swapService
+        .sweep()
+        .then(() => this.reverseSwapService.sweep())
+        .catch((error) =>
+          this.logger.error(
+            'Swap sweep failed',
+            error instanceof Error ? error.stack : String(error),
+          ),
+        )
+        .finally(() => {
+          this.sweeping = false;
+        });
+    }, this.intervalMs);
+  }
+
+  onModuleDestroy() {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+}
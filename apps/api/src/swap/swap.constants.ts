@@ -0,0 +1,42 @@
+import * as bitcoin from 'bitcoinjs-lib';
+import {
+  assertSafeNetwork,
+  getBitcoinNetwork,
+  type ArkNetwork,
+} from '@arkswap/protocol';
+
+// How much longer a reverse swap's L1 lock is than its VTXO lock (whose timeout
+// the pricing policy picks), so a user who never claims the VTXO leaves the
+// maker time to refund it first
+export const REVERSE_SWAP_TIMEOUT_MARGIN_BLOCKS = 20;
+
+// L1 blocks a reverse swap's L1 lock must still have before its refund path
+// once the VTXO lock's refund path opens, for the maker's L1 claim to confirm:
+// the maker does not fund a VTXO lock later than that
+export const REVERSE_SWAP_CLAIM_MARGIN_BLOCKS = 6;
+
+// ASP rounds the maker waits after paying out a cooperative swap for the user's
+// key-path close, before it claims the lock through the claim leaf
+export const COOPERATIVE_CLOSE_GRACE_ROUNDS = 6;
+
+// Expected L1 block interval, to express a timeout in ASP rounds as L1 blocks
+export const L1_BLOCK_INTERVAL_MS = 600_000;
+
+export function loadNetwork(): ArkNetwork {
+  const network = process.env.ARK_NETWORK || 'regtest';
+  assertSafeNetwork(network);
+  return network;
+}
+
+/**
+ * The maker's key-path address for a swap key, where it claims and refunds locks
+ */
+export function getMakerAddress(
+  makerPubkey: string,
+  network: ArkNetwork,
+): string {
+  return bitcoin.payments.p2tr({
+    internalPubkey: Buffer.from(makerPubkey, 'hex'),
+    network: getBitcoinNetwork(network),
+  }).address!;
+}
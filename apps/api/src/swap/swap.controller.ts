@@ -1,28 +1,70 @@
 import {
   Controller,
+  Get,
   Post,
   Body,
+  Param,
+  Query,
   Logger,
   BadRequestException,
+  HttpException,
 } from '@nestjs/common';
 import { SwapService } from './swap.service';
+import type { SwapPrice } from './pricing.service';
+import { SwapStatus, type SwapView } from './swap.types';
 import { z, ZodError } from 'zod';
 
 const SwapQuoteRequestSchema = z.object({
-  amount: z.number().positive(),
+  // In sats; PricingService enforces the size bounds and liquidity
+  amount: z.number().int().positive(),
+  // Lock to the MuSig2 aggregate of maker and user keys (key-path cooperative close)
+  cooperative: z.boolean().default(false),
 });
 
 const SwapCommitRequestSchema = z.object({
   swapId: z.string().min(1),
-  txid: z.string().min(1),
+  // The lock VTXO is txid:vout, at the lock address rebuilt with userPubkey
+  txid: z.string().regex(/^[0-9a-fA-F]{64}$/),
+  vout: z.number().int().nonnegative(),
+  userPubkey: z.string().regex(/^[0-9a-fA-F]{64}$/),
   userL1Address: z.string().min(1),
 });
 
-interface SwapQuoteResponse {
+const CooperativeNonceRequestSchema = z.object({
+  txid: z.string().regex(/^[0-9a-fA-F]{64}$/),
+  vout: z.number().int().nonnegative(),
+  userPubkey: z.string().regex(/^[0-9a-fA-F]{64}$/),
+  publicNonce: z.string().regex(/^[0-9a-fA-F]{132}$/),
+});
+
+const SwapListQuerySchema = z.object({
+  status: z.enum(SwapStatus).optional(),
+  limit: z.coerce.number().int().min(1).max(100).default(20),
+  offset: z.coerce.number().int().nonnegative().default(0),
+});
+
+const PartialSignatureRequestSchema = z.object({
+  partialSignature: z.string().regex(/^[0-9a-fA-F]{64}$/),
+});
+
+interface SwapQuoteResponse extends SwapPrice {
   id: string;
   amount: number;
   preimageHash: string;
   makerPubkey: string;
+  cooperative: boolean;
+}
+
+interface CloseNonceResponse {
+  publicNonce: string;
+  aggregateNonce: string;
+  destination: string;
+  fee: number;
+}
+
+interface CloseSignatureResponse {
+  success: boolean;
+  signature: string;
 }
 
 interface SwapCommitResponse {
@@ -30,6 +72,11 @@ interface SwapCommitResponse {
   l1TxId: string;
 }
 
+interface SwapListResponse {
+  total: number;
+  swaps: SwapView[];
+}
+
 @Controller('swap')
 export class SwapController {
   private readonly logger = new Logger(SwapController.name);
@@ -43,7 +90,10 @@ export class SwapController {
 
       this.logger.log(`📋 Quote requested for amount: ${validatedBody.amount}`);
 
-      const quote = this.swapService.createQuote(validatedBody.amount);
+      const quote = await this.swapService.createQuote(
+        validatedBody.amount,
+        validatedBody.cooperative,
+      );
 
       this.logger.log(
         `✅ Quote created: id=${quote.id}, preimageHash=${quote.preimageHash}`,
@@ -51,16 +101,7 @@ export class SwapController {
 
       return quote;
     } catch (error) {
-      if (error instanceof ZodError) {
-        throw new BadRequestException(
-          `Validation failed: ${error.issues.map((e) => `${e.path.join('.')}: ${e.message}`).join(', ')}`,
-        );
-      }
-      // Handle other errors...
-      if (error instanceof BadRequestException) throw error;
-      throw new BadRequestException(
-        error instanceof Error ? error.message : 'Unknown error',
-      );
+      throw this.toHttpError(error);
     }
   }
 
@@ -73,11 +114,12 @@ export class SwapController {
         `🔄 Commit requested: swapId=${validatedBody.swapId}, txid=${validatedBody.txid}`,
       );
 
-      const l1TxId = await this.swapService.processSwap(
-        validatedBody.swapId,
-        validatedBody.txid,
-        validatedBody.userL1Address,
-      );
+      const l1TxId = await this.swapService.processSwap(validatedBody.swapId, {
+        lockTxid: validatedBody.txid,
+        lockVout: validatedBody.vout,
+        userPubkey: validatedBody.userPubkey,
+        userL1Address: validatedBody.userL1Address,
+      });
 
       this.logger.log(
         `✅ Swap committed: swapId=${validatedBody.swapId}, l1TxId=${l1TxId}`,
@@ -88,16 +130,95 @@ export class SwapController {
         l1TxId,
       };
     } catch (error) {
-      if (error instanceof ZodError) {
-        throw new BadRequestException(
-          `Validation failed: ${error.issues.map((e) => `${e.path.join('.')}: ${e.message}`).join(', ')}`,
-        );
-      }
-      // Handle other errors...
-      if (error instanceof BadRequestException) throw error;
-      throw new BadRequestException(
-        error instanceof Error ? error.message : 'Unknown error',
+      throw this.toHttpError(error);
+    }
+  }
+
+  /**
+   * The order book, newest first
+   * Query: status (one SwapStatus), limit (default 20, max 100), offset (default 0)
+   */
+  @Get()
+  listSwaps(@Query() query: unknown): SwapListResponse {
+    try {
+      const { status, limit, offset } = SwapListQuerySchema.parse(query);
+      return this.swapService.listSwaps(status, limit, offset);
+    } catch (error) {
+      throw this.toHttpError(error);
+    }
+  }
+
+  /**
+   * One swap with its transitions, so a client can recover its session
+   */
+  @Get(':id')
+  getSwap(@Param('id') id: string): SwapView {
+    try {
+      return this.swapService.getSwapView(id);
+    } catch (error) {
+      throw this.toHttpError(error);
+    }
+  }
+
+  /**
+   * Cooperative close, round 1: exchanges MuSig2 nonces for the key-path
+   * transfer of the user's lock VTXO to the maker, once the swap is paid out
+   */
+  @Post(':id/nonce')
+  async createCloseNonce(
+    @Param('id') id: string,
+    @Body() body: unknown,
+  ): Promise<CloseNonceResponse> {
+    try {
+      const { txid, vout, userPubkey, publicNonce } =
+        CooperativeNonceRequestSchema.parse(body);
+
+      this.logger.log(`🤝 Close nonce requested: swapId=${id}`);
+
+      return await this.swapService.createCloseNonce(id, {
+        lockTxid: txid,
+        lockVout: vout,
+        userPubkey,
+        publicNonce,
+      });
+    } catch (error) {
+      throw this.toHttpError(error);
+    }
+  }
+
+  /**
+   * Cooperative close, round 2: takes the user's partial signature and returns
+   * the aggregate key-path signature of the transfer, which the maker submits
+   */
+  @Post(':id/partial-signature')
+  async completeClose(
+    @Param('id') id: string,
+    @Body() body: unknown,
+  ): Promise<CloseSignatureResponse> {
+    try {
+      const { partialSignature } = PartialSignatureRequestSchema.parse(body);
+
+      this.logger.log(`🤝 Close partial signature received: swapId=${id}`);
+
+      const { signature } = await this.swapService.completeClose(
+        id,
+        partialSignature,
+      );
+      return { success: true, signature };
+    } catch (error) {
+      throw this.toHttpError(error);
+    }
+  }
+
+  private toHttpError(error: unknown): HttpException {
+    if (error instanceof ZodError) {
+      return new BadRequestException(
+        `Validation failed: ${error.issues.map((e) => `${e.path.join('.')}: ${e.message}`).join(', ')}`,
       );
     }
+    if (error instanceof HttpException) return error;
+    return new BadRequestException(
+      error instanceof Error ? error.message : 'Unknown error',
+    );
   }
 }
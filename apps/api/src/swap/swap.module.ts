@@ -1,11 +1,27 @@
 import { Module } from '@nestjs/common';
 import { SwapController } from './swap.controller';
+import { ReverseSwapController } from './reverse-swap.controller';
 import { SwapService } from './swap.service';
+import { ReverseSwapService } from './reverse-swap.service';
+import { SwapStore } from './swap.store';
+import { PricingService } from './pricing.service';
+import { MakerWallet } from './maker-wallet.service';
+import { SwapSweeper } from './swap-sweeper.service';
+import { swapStorageProvider } from './storage/swap-storage.provider';
 import { BitcoinModule } from '../bitcoin/bitcoin.module';
+import { AspModule } from '../asp/asp.module';
 
 @Module({
-  imports: [BitcoinModule],
-  controllers: [SwapController],
-  providers: [SwapService],
+  imports: [BitcoinModule, AspModule],
+  controllers: [ReverseSwapController, SwapController],
+  providers: [
+    swapStorageProvider,
+    SwapStore,
+    MakerWallet,
+    PricingService,
+    SwapService,
+    ReverseSwapService,
+    SwapSweeper,
+  ],
 })
 export class SwapModule {}
@@ -0,0 +1,314 @@
+import { HttpException } from '@nestjs/common';
+import { ECPairFactory } from 'ecpair';
+import * as ecc from 'tiny-secp256k1';
+import * as bitcoin from 'bitcoinjs-lib';
+import { createSwapLock, type SwapLockResult } from '@arkswap/protocol';
+import { SwapService, type HtlcCommit } from './swap.service';
+import { SwapStore } from './swap.store';
+import { SwapStatus, type HtlcSwapState } from './swap.types';
+import type { BitcoinService } from '../bitcoin/bitcoin.service';
+import type { AspService, AspVtxo } from '../asp/asp.service';
+import type { PricingService } from './pricing.service';
+
+const ECPair = ECPairFactory(ecc);
+const network = bitcoin.networks.regtest;
+
+describe('SwapService', () => {
+  const user = ECPair.makeRandom({ network });
+  const userPubkey = Buffer.from(user.publicKey.subarray(1, 33)).toString(
+    'hex',
+  );
+  const userL1Address = bitcoin.payments.p2wpkh({
+    pubkey: Buffer.from(user.publicKey),
+    network,
+  }).address!;
+  const payoutTxid = 'f'.repeat(64);
+  const lockTxid = 'a'.repeat(64);
+  const amount = 10_000;
+  const timeoutBlocks = 20;
+  const margin = 5;
+
+  let swapStore: SwapStore;
+  let bitcoinService: Record<string, jest.Mock>;
+  let aspService: Record<string, jest.Mock>;
+  let service: SwapService;
+  let swap: HtlcSwapState;
+  let lock: SwapLockResult;
+  let commit: HtlcCommit;
+  let currentRound: number;
+
+  /**
+   * The lock VTXO as the ASP lists it, created in round 10 unless overridden
+   */
+  const lockVtxo = (overrides: Partial<AspVtxo> = {}): AspVtxo => ({
+    txid: lockTxid,
+    vout: 0,
+    amount,
+    address: lock.address,
+    spent: false,
+    roundHeight: 10,
+    pending: false,
+    ...overrides,
+  });
+
+  beforeEach(async () => {
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+    currentRound = 12;
+    swapStore = new SwapStore();
+    bitcoinService = {
+      getBlockHeight: jest.fn().mockResolvedValue(100),
+      getBalance: jest.fn().mockResolvedValue(1),
+      sendToAddress: jest.fn().mockResolvedValue(payoutTxid),
+      findWalletSend: jest.fn().mockResolvedValue(null),
+      getNewAddress: jest.fn().mockResolvedValue(userL1Address),
+      broadcastTransaction: jest.fn().mockResolvedValue('e'.repeat(64)),
+    };
+    aspService = {
+      getInfo: jest.fn().mockImplementation(async () => ({
+        fees: { baseFee: 10, perInput: 5, perOutput: 5 },
+        roundInterval: 5000,
+        currentBlock: currentRound,
+      })),
+      getVtxos: jest.fn().mockImplementation(async () => [lockVtxo()]),
+      getExit: jest.fn().mockResolvedValue(null),
+      submitTransfer: jest
+        .fn()
+        .mockResolvedValue({ transferId: 'c'.repeat(64), roundId: 'round-13' }),
+    };
+    const pricingService = {
+      priceSwap: jest.fn().mockResolvedValue({
+        fee: { percent: 0.5, serviceFee: 50, minerFee: 500, total: 550 },
+        payoutAmount: amount - 550,
+        expiresAtHeight: 106,
+        timeoutBlocks,
+      }),
+      getLockMarginRounds: () => margin,
+    };
+    service = new SwapService(
+      bitcoinService as unknown as BitcoinService,
+      aspService as unknown as AspService,
+      swapStore,
+      pricingService as unknown as PricingService,
+    );
+
+    const quote = await service.createQuote(amount);
+    swap = service.getSwap(quote.id) as HtlcSwapState;
+    lock = createSwapLock({
+      makerPubkey: Buffer.from(quote.makerPubkey, 'hex'),
+      userPubkey: Buffer.from(userPubkey, 'hex'),
+      preimageHash: Buffer.from(quote.preimageHash, 'hex'),
+      timeoutBlocks,
+    });
+    commit = { lockTxid, lockVout: 0, userPubkey, userL1Address };
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  /**
+   * Commits the swap and expects a 400 with message, and nothing paid out
+   */
+  const expectRejected = async (message: string) => {
+    const result = service.processSwap(swap.id, commit);
+
+    await expect(result).rejects.toThrow(HttpException);
+    await expect(result).rejects.toMatchObject({
+      response: { message: expect.stringContaining(message) },
+    });
+    expect(bitcoinService.sendToAddress).not.toHaveBeenCalled();
+    expect(swap.status).toBe(SwapStatus.QUOTED);
+  };
+
+  describe('processSwap', () => {
+    it('should pay out a verified lock and claim it through the claim leaf', async () => {
+      await expect(service.processSwap(swap.id, commit)).resolves.toBe(
+        payoutTxid,
+      );
+
+      expect(bitcoinService.sendToAddress).toHaveBeenCalledWith(
+        swap.payoutAmount,
+        userL1Address,
+        `arkswap payout ${swap.id}`,
+      );
+      expect(aspService.submitTransfer).toHaveBeenCalledWith(
+        expect.objectContaining({
+          inputs: [expect.objectContaining({ txid: lockTxid, vout: 0 })],
+        }),
+      );
+      expect(swap.status).toBe(SwapStatus.CLAIMED);
+      expect(swap.transitions.map((transition) => transition.status)).toEqual([
+        SwapStatus.QUOTED,
+        SwapStatus.LOCKED,
+        SwapStatus.PAYING,
+        SwapStatus.PAID,
+        SwapStatus.CLAIMED,
+      ]);
+    });
+
+    it('should reject an unfunded lock', async () => {
+      aspService.getVtxos.mockResolvedValue([]);
+
+      await expectRejected('Lock is unfunded');
+    });
+
+    it('should reject a lock VTXO that is already spent', async () => {
+      aspService.getVtxos.mockResolvedValue([lockVtxo({ spent: true })]);
+
+      await expectRejected('Lock is unfunded');
+    });
+
+    it('should reject an underfunded lock', async () => {
+      aspService.getVtxos.mockResolvedValue([lockVtxo({ amount: amount - 1 })]);
+
+      await expectRejected('Lock is underfunded');
+    });
+
+    it('should reject a lock near its refund path', async () => {
+      // Created in round 10: the refund path opens at round 30
+      currentRound = 30 - margin + 1;
+
+      await expectRejected('Lock is too close to its refund path');
+    });
+
+    it('should pay out a lock exactly the margin away from its refund path', async () => {
+      currentRound = 30 - margin;
+
+      await expect(service.processSwap(swap.id, commit)).resolves.toBe(
+        payoutTxid,
+      );
+    });
+
+    it('should reject a lock spent by a queued transfer', async () => {
+      aspService.getVtxos.mockResolvedValue([lockVtxo({ pending: true })]);
+
+      await expectRejected('spent by a transfer queued for the next round');
+    });
+  });
+
+  describe('PAYING reconciliation', () => {
+    /**
+     * A commit whose payout RPC fails after the PAYING intent was recorded
+     */
+    const leavePaying = async () => {
+      bitcoinService.sendToAddress.mockRejectedValueOnce(
+        new Error('RPC timeout'),
+      );
+      await expect(service.processSwap(swap.id, commit)).rejects.toThrow(
+        'RPC timeout',
+      );
+      expect(swap.status).toBe(SwapStatus.PAYING);
+      expect(swap.claimTx).toBeDefined();
+    };
+
+    it('should mark a PAYING swap PAID with the payout found in the wallet', async () => {
+      await leavePaying();
+      bitcoinService.findWalletSend.mockResolvedValue(payoutTxid);
+
+      await service.sweep();
+
+      expect(bitcoinService.findWalletSend).toHaveBeenCalledWith(
+        `arkswap payout ${swap.id}`,
+      );
+      expect(bitcoinService.sendToAddress).toHaveBeenCalledTimes(1);
+      expect(swap.l1TxId).toBe(payoutTxid);
+      expect(swap.transitions.map((transition) => transition.status)).toEqual([
+        SwapStatus.QUOTED,
+        SwapStatus.LOCKED,
+        SwapStatus.PAYING,
+        SwapStatus.PAID,
+        SwapStatus.CLAIMED,
+      ]);
+    });
+
+    it('should settle a retried commit with the payout found in the wallet', async () => {
+      await leavePaying();
+      bitcoinService.findWalletSend.mockResolvedValue(payoutTxid);
+
+      await expect(service.processSwap(swap.id, commit)).resolves.toBe(
+        payoutTxid,
+      );
+      expect(bitcoinService.sendToAddress).toHaveBeenCalledTimes(1);
+      expect(swap.status).toBe(SwapStatus.CLAIMED);
+    });
+
+    it('should pay a PAYING swap with no send in the wallet once more on retry', async () => {
+      await leavePaying();
+
+      // The sweeper never pays: it leaves the swap PAYING until its expiry
+      await service.sweep();
+      expect(swap.status).toBe(SwapStatus.PAYING);
+      expect(bitcoinService.sendToAddress).toHaveBeenCalledTimes(1);
+
+      await expect(service.processSwap(swap.id, commit)).resolves.toBe(
+        payoutTxid,
+      );
+      expect(bitcoinService.sendToAddress).toHaveBeenCalledTimes(2);
+      expect(swap.status).toBe(SwapStatus.CLAIMED);
+
+      await expect(service.processSwap(swap.id, commit)).rejects.toThrow(
+        'Swap already processed',
+      );
+      expect(bitcoinService.sendToAddress).toHaveBeenCalledTimes(2);
+    });
+  });
+
+  describe('exited locks', () => {
+    const exitOutpoint = { txid: 'd'.repeat(64), vout: 1 };
+
+    it('should claim the L1 output of a lock the user exited after the payout', async () => {
+      // The claim is rejected: the ASP burned the lock VTXO
+      aspService.submitTransfer.mockRejectedValueOnce(new Error('burned'));
+      await service.processSwap(swap.id, commit);
+      expect(swap.status).toBe(SwapStatus.PAID);
+      aspService.getExit.mockResolvedValue({ onchain: exitOutpoint });
+
+      await service.sweep();
+
+      expect(aspService.getExit).toHaveBeenCalledWith(lockTxid, 0);
+      expect(aspService.submitTransfer).toHaveBeenCalledTimes(1);
+      const [hex] = bitcoinService.broadcastTransaction.mock.calls[0];
+      const claim = bitcoin.Transaction.fromHex(hex);
+      expect(Buffer.from(claim.ins[0].hash).reverse().toString('hex')).toBe(
+        exitOutpoint.txid,
+      );
+      expect(claim.ins[0].index).toBe(exitOutpoint.vout);
+      // Claim leaf witness: signature, preimage, leaf, control block
+      expect(Buffer.from(claim.ins[0].witness[1]).toString('hex')).toBe(
+        swap.preimageHex,
+      );
+      expect(Buffer.from(claim.ins[0].witness[2])).toEqual(lock.leaves.claim);
+      expect(claim.outs[0].value).toBe(BigInt(amount - swap.fee.minerFee));
+      expect(swap.l1ClaimTxId).toBe('e'.repeat(64));
+      expect(swap.status).toBe(SwapStatus.CLAIMED);
+    });
+
+    it('should wait for the L1 output of an exit before claiming it', async () => {
+      aspService.submitTransfer.mockRejectedValueOnce(new Error('burned'));
+      await service.processSwap(swap.id, commit);
+      aspService.getExit.mockResolvedValue({ onchain: null });
+
+      await service.sweep();
+
+      expect(bitcoinService.broadcastTransaction).not.toHaveBeenCalled();
+      expect(aspService.submitTransfer).toHaveBeenCalledTimes(1);
+      expect(swap.status).toBe(SwapStatus.PAID);
+    });
+
+    it('should expire an unpaid swap whose lock was exited', async () => {
+      bitcoinService.sendToAddress.mockRejectedValueOnce(
+        new Error('RPC timeout'),
+      );
+      await expect(service.processSwap(swap.id, commit)).rejects.toThrow(
+        'RPC timeout',
+      );
+      aspService.getExit.mockResolvedValue({ onchain: exitOutpoint });
+
+      await service.sweep();
+
+      expect(swap.status).toBe(SwapStatus.EXPIRED);
+      expect(bitcoinService.broadcastTransaction).not.toHaveBeenCalled();
+      expect(bitcoinService.sendToAddress).toHaveBeenCalledTimes(1);
+    });
+  });
+});
@@ -4,45 +4,102 @@ import { ECPairFactory } from 'ecpair';
 import * as ecc from 'tiny-secp256k1';
 import * as bitcoin from 'bitcoinjs-lib';
 import * as crypto from 'crypto';
+import {
+  aggregateMusigNonces,
+  buildClaimTx,
+  completeCooperativeClose,
+  createCooperativePartialSignature,
+  createMusigNonce,
+  createSwapLock,
+  getCooperativeCloseSighash,
+  getRequiredFee,
+  getTaprootOutputKey,
+  signHtlcClaim,
+  verifyCooperativePartialSignature,
+  type ArkTransaction,
+  type CooperativeCloseParams,
+  type HtlcClaimParams,
+  type SwapLockOutpoint,
+  type SwapLockResult,
+} from '@arkswap/protocol';
 import { BitcoinService } from '../bitcoin/bitcoin.service';
+import { AspService, type AspExit } from '../asp/asp.service';
+import { SwapStore } from './swap.store';
+import { PricingService, type SwapPrice } from './pricing.service';
+import {
+  COOPERATIVE_CLOSE_GRACE_ROUNDS,
+  getMakerAddress,
+  loadNetwork,
+} from './swap.constants';
+import {
+  SwapStatus,
+  type HtlcSwapState,
+  type SwapState,
+  type SwapView,
+} from './swap.types';
 
 // Initialize ECC library for bitcoinjs-lib
 bitcoin.initEccLib(ecc);
 
 const ECPair = ECPairFactory(ecc);
 
-enum SwapStatus {
-  PENDING = 'PENDING',
-  COMPLETED = 'COMPLETED',
+// Never leave the maker: keys, preimages, MuSig2 secret nonces
+const SWAP_SECRET_FIELDS = [
+  'makerPrivateKeyHex',
+  'preimageHex',
+  'closeSession',
+] as const;
+
+export interface CooperativeNonceRequest {
+  lockTxid: string;
+  lockVout: number;
+  userPubkey: string;
+  publicNonce: string;
 }
 
-interface SwapState {
-  id: string;
-  amount: number;
-  preimageHex: string;
-  makerPrivateKeyHex: string;
-  preimageHash: string;
-  makerPubkey: string;
-  status: SwapStatus;
+/**
+ * The user's lock VTXO (txid:vout at the lock address) and L1 payout address
+ */
+export interface HtlcCommit {
+  lockTxid: string;
+  lockVout: number;
+  userPubkey: string;
+  userL1Address: string;
 }
 
 @Injectable()
 export class SwapService {
   private readonly logger = new Logger(SwapService.name);
-  private readonly swaps = new Map<string, SwapState>();
+  private readonly network = loadNetwork();
+  // Swaps with a commit in flight, so concurrent commits cannot pay out twice
+  private readonly processing = new Set<string>();
 
-  constructor(private readonly bitcoinService: BitcoinService) {}
+  constructor(
+    private readonly bitcoinService: BitcoinService,
+    private readonly aspService: AspService,
+    private readonly swapStore: SwapStore,
+    private readonly pricingService: PricingService,
+  ) {}
 
   /**
    * Creates a new swap quote
    * Security Critical: Uses crypto.randomBytes for preimage generation
    */
-  createQuote(amount: number): {
-    id: string;
-    amount: number;
-    preimageHash: string;
-    makerPubkey: string;
-  } {
+  async createQuote(
+    amount: number,
+    cooperative = false,
+  ): Promise<
+    {
+      id: string;
+      amount: number;
+      preimageHash: string;
+      makerPubkey: string;
+      cooperative: boolean;
+    } & SwapPrice
+  > {
+    const quoted = await this.getQuotedStatus(amount);
+    const claimFee = await this.getClaimFee();
+
     // Generate 32-byte preimage using cryptographically secure random
     const preimage = randomBytes(32);
     const preimageHex = preimage.toString('hex');
@@ -63,45 +120,318 @@ export class SwapService {
     // Generate unique swap ID
     const id = randomBytes(16).toString('hex');
 
-    // Store swap state in memory
-    const swapState: SwapState = {
+    // Record the swap in the order book before the quote leaves the maker
+    const swapState: HtlcSwapState = {
+      type: 'htlc',
       id,
       amount,
       preimageHex,
       makerPrivateKeyHex,
       preimageHash,
       makerPubkey,
-      status: SwapStatus.PENDING,
+      claimFee,
+      cooperative,
+      ...quoted,
     };
 
-    this.swaps.set(id, swapState);
-    this.logger.log(`Created swap quote: id=${id}, amount=${amount}`);
+    this.swapStore.save(swapState);
+    this.logger.log(
+      `Created swap quote: id=${id}, amount=${amount}, fee=${quoted.fee.total}`,
+    );
 
     return {
       id,
       amount,
       preimageHash,
       makerPubkey,
+      cooperative,
+      fee: quoted.fee,
+      payoutAmount: quoted.payoutAmount,
+      expiresAtHeight: quoted.expiresAtHeight,
+      timeoutBlocks: quoted.timeoutBlocks,
     };
   }
 
   /**
-   * Gets swap state by ID (for future use)
+   * Gets swap state by ID
    */
   getSwap(id: string): SwapState | undefined {
-    return this.swaps.get(id);
+    return this.swapStore.get(id);
+  }
+
+  /**
+   * A swap without the maker's secrets, for GET /swap/:id
+   * @throws HttpException (404) if the swap is unknown
+   */
+  getSwapView(id: string): SwapView {
+    return toSwapView(this.findSwap(id));
+  }
+
+  /**
+   * Swaps without the maker's secrets, newest first
+   */
+  listSwaps(
+    status: SwapStatus | undefined,
+    limit: number,
+    offset: number,
+  ): { total: number; swaps: SwapView[] } {
+    const swaps = this.swapStore.list(status).reverse();
+    return {
+      total: swaps.length,
+      swaps: swaps.slice(offset, offset + limit).map(toSwapView),
+    };
+  }
+
+  /**
+   * Expiry sweep, run by SwapSweeper
+   * - QUOTED or LOCKED swaps past their expiry height become EXPIRED, and so do
+   *   LOCKED swaps whose lock VTXO the user exited
+   * - PAYING swaps whose payout the wallet sent become PAID, the others EXPIRED
+   *   once past their expiry height or once the lock VTXO was exited
+   * - PAID swaps whose claim the ASP has not accepted yet submit it again; a
+   *   cooperative swap first waits for its key-path close until its deadline.
+   *   If the user exited the lock VTXO, the maker claims its L1 output instead
+   *   (see claimExitedLock)
+   * - EXPIRED swaps whose lock VTXO was spent (not by the maker) become REFUNDED
+   */
+  async sweep(): Promise<void> {
+    const blockHeight = await this.bitcoinService.getBlockHeight();
+
+    for (const swap of this.swapStore.list()) {
+      // Reverse swaps are swept by ReverseSwapService
+      if (swap.type === 'reverse' || this.processing.has(swap.id)) continue;
+
+      try {
+        if (
+          (swap.status === SwapStatus.QUOTED ||
+            swap.status === SwapStatus.LOCKED) &&
+          blockHeight >= swap.expiresAtHeight
+        ) {
+          this.swapStore.transition(swap, SwapStatus.EXPIRED, blockHeight);
+        } else if (swap.status === SwapStatus.LOCKED) {
+          if (await this.findLockExit(swap)) {
+            this.expireExitedLock(swap, blockHeight);
+          }
+        } else if (swap.status === SwapStatus.PAYING) {
+          if (await this.reconcilePayout(swap)) {
+            await this.claimLock(swap);
+          } else if (await this.findLockExit(swap)) {
+            this.expireExitedLock(swap, blockHeight);
+          } else if (blockHeight >= swap.expiresAtHeight) {
+            this.swapStore.transition(swap, SwapStatus.EXPIRED, blockHeight);
+          }
+        } else if (swap.status === SwapStatus.PAID && swap.claimTx) {
+          await this.claimLock(swap);
+        } else if (
+          swap.status === SwapStatus.EXPIRED &&
+          swap.lockAddress &&
+          !swap.closeTx
+        ) {
+          const vtxo = (await this.aspService.getVtxos(swap.lockAddress)).find(
+            (candidate) =>
+              candidate.txid === swap.lockTxid &&
+              candidate.vout === swap.lockVout,
+          );
+          if (vtxo?.spent) {
+            this.swapStore.transition(swap, SwapStatus.REFUNDED, blockHeight);
+          }
+        }
+      } catch (error) {
+        this.logger.error(
+          `Sweep of swap ${swap.id} failed: ${error instanceof Error ? error.message : String(error)}`,
+        );
+      }
+    }
   }
 
   /**
-   * Processes a swap: validates, simulates VTXO verification/claim, and executes L1 payout
+   * Processes a swap: finds the user's lock VTXO at the quoted lock address in
+   * a finalized round, pays out on L1, then claims the VTXO through the claim leaf
+   * A cooperative swap is claimed by the user's key-path close instead (see
+   * createCloseNonce), and only falls back to the leaf claim at its deadline.
+   * @throws HttpException (400) if the lock is unfunded or underfunded
    */
-  async processSwap(
+  async processSwap(swapId: string, commit: HtlcCommit): Promise<string> {
+    const swap = this.getPendingSwap(swapId, 'htlc');
+
+    return this.settle(swap, async (blockHeight) => {
+      const lock = this.getLock(swap, commit.userPubkey);
+      const claim: HtlcClaimParams = {
+        lockVtxo: await this.verifyLock(swap, lock, commit, blockHeight),
+        lock,
+        destination: getMakerAddress(swap.makerPubkey, this.network),
+        fee: swap.claimFee,
+        network: this.network,
+      };
+      // Signed before paying out, so a lock the maker cannot claim pays nothing
+      const claimTx = signHtlcClaim({
+        ...claim,
+        privateKey: Buffer.from(swap.makerPrivateKeyHex, 'hex'),
+        preimage: Buffer.from(swap.preimageHex, 'hex'),
+      });
+
+      const l1TxId = await this.payout(swap, commit.userL1Address, claimTx);
+      await this.submitLeafClaim(swap);
+      return l1TxId;
+    });
+  }
+
+  /**
+   * Opens the MuSig2 session of a cooperative close: the maker answers the
+   * user's public nonce with its own, and both can compute the aggregate nonce
+   * and the sighash of the close (the lock VTXO to the maker, minus the fee)
+   * Only a paid swap closes, over the lock VTXO it committed, and only while the
+   * ASP still lists that VTXO unspent.
+   */
+  async createCloseNonce(
     swapId: string,
-    userTxId: string,
-    userL1Address: string,
-  ): Promise<string> {
-    // Validation: Retrieve the swap quote from memory
-    const swap = this.swaps.get(swapId);
+    request: CooperativeNonceRequest,
+  ): Promise<{
+    publicNonce: string;
+    aggregateNonce: string;
+    destination: string;
+    fee: number;
+  }> {
+    const swap = this.getCooperativeSwap(swapId);
+    if (
+      request.lockTxid.toLowerCase() !== swap.lockTxid?.toLowerCase() ||
+      request.lockVout !== swap.lockVout ||
+      request.userPubkey.toLowerCase() !== swap.userPubkey?.toLowerCase()
+    ) {
+      throw new HttpException(
+        {
+          success: false,
+          message: `Swap ${swapId} committed lock VTXO ${swap.lockTxid}:${swap.lockVout}, not ${request.lockTxid}:${request.lockVout}`,
+        },
+        HttpStatus.BAD_REQUEST,
+      );
+    }
+    const vtxo = (await this.aspService.getVtxos(swap.lockAddress!)).find(
+      (candidate) =>
+        candidate.txid === swap.lockTxid && candidate.vout === swap.lockVout,
+    );
+    if (!vtxo || vtxo.spent || vtxo.pending) {
+      throw new HttpException(
+        {
+          success: false,
+          message: `Lock VTXO ${swap.lockTxid}:${swap.lockVout} of swap ${swapId} is not unspent at the ASP`,
+        },
+        HttpStatus.BAD_REQUEST,
+      );
+    }
+    const close = this.getCloseParams(swap);
+
+    const nonce = createMusigNonce(
+      Buffer.from(swap.makerPrivateKeyHex, 'hex'),
+      randomBytes(32),
+      getTaprootOutputKey(close.lock.output)!,
+      getCooperativeCloseSighash(close),
+    );
+    let aggregateNonce: Buffer;
+    try {
+      aggregateNonce = aggregateMusigNonces([
+        nonce.publicNonce,
+        Buffer.from(request.publicNonce, 'hex'),
+      ]);
+    } catch (error) {
+      throw new HttpException(
+        {
+          success: false,
+          message: error instanceof Error ? error.message : 'Invalid nonce',
+        },
+        HttpStatus.BAD_REQUEST,
+      );
+    }
+
+    // A new nonce request replaces any earlier, unfinished session
+    swap.closeSession = {
+      ...request,
+      userPublicNonce: request.publicNonce,
+      secretNonce: nonce.secretNonce,
+      aggregateNonce: aggregateNonce.toString('hex'),
+    };
+    this.logger.log(
+      `🤝 Cooperative close session opened: id=${swapId}, lock=${request.lockTxid}:${request.lockVout}`,
+    );
+
+    return {
+      publicNonce: nonce.publicNonce.toString('hex'),
+      aggregateNonce: aggregateNonce.toString('hex'),
+      destination: close.destination,
+      fee: close.fee,
+    };
+  }
+
+  /**
+   * Completes a cooperative close with the user's partial signature: the result
+   * is a key-path transfer of the lock VTXO, no leaf is revealed, which the maker
+   * submits to the ASP as its claim
+   * If the ASP rejects it, the swap stays PAID and the sweeper falls back to the
+   * leaf claim.
+   */
+  async completeClose(
+    swapId: string,
+    partialSignature: string,
+  ): Promise<{ signature: string }> {
+    const swap = this.getCooperativeSwap(swapId);
+    const session = swap.closeSession;
+    if (!session) {
+      throw new HttpException(
+        {
+          success: false,
+          message: `No cooperative close session for swap ${swapId}, request a nonce first`,
+        },
+        HttpStatus.BAD_REQUEST,
+      );
+    }
+
+    const close = this.getCloseParams(swap);
+    const aggregateNonce = Buffer.from(session.aggregateNonce, 'hex');
+    const userPartial = Buffer.from(partialSignature, 'hex');
+    if (
+      !verifyCooperativePartialSignature({
+        ...close,
+        publicKey: Buffer.from(session.userPubkey, 'hex'),
+        publicNonce: Buffer.from(session.userPublicNonce, 'hex'),
+        aggregateNonce,
+        partialSignature: userPartial,
+      })
+    ) {
+      throw new HttpException(
+        {
+          success: false,
+          message: `Invalid partial signature for swap ${swapId}`,
+        },
+        HttpStatus.BAD_REQUEST,
+      );
+    }
+
+    const makerPartial = createCooperativePartialSignature({
+      ...close,
+      privateKey: Buffer.from(swap.makerPrivateKeyHex, 'hex'),
+      secretNonce: session.secretNonce,
+      aggregateNonce,
+    });
+    swap.closeTx = completeCooperativeClose({
+      ...close,
+      aggregateNonce,
+      partialSignatures: [makerPartial, userPartial],
+    });
+    swap.closeSession = undefined;
+    this.swapStore.save(swap);
+    this.logger.log(
+      `✅ Cooperative close signed: id=${swapId}, lock=${session.lockTxid}:${session.lockVout}`,
+    );
+
+    await this.submitClaim(swap, swap.closeTx);
+    return { signature: swap.closeTx.inputs[0].signature };
+  }
+
+  /**
+   * @throws HttpException (404) if the swap is unknown
+   */
+  private findSwap(swapId: string): SwapState {
+    const swap = this.swapStore.get(swapId);
     if (!swap) {
       throw new HttpException(
         {
@@ -111,8 +441,103 @@ export class SwapService {
         HttpStatus.NOT_FOUND,
       );
     }
+    return swap;
+  }
+
+  /**
+   * A cooperative swap the maker has paid out and not claimed yet
+   * @throws HttpException (400) otherwise
+   */
+  private getCooperativeSwap(swapId: string): SwapState {
+    const swap = this.findSwap(swapId);
+    if (!swap.cooperative) {
+      throw new HttpException(
+        {
+          success: false,
+          message: `Swap ${swapId} was not quoted with a cooperative lock`,
+        },
+        HttpStatus.BAD_REQUEST,
+      );
+    }
+    if (swap.status !== SwapStatus.PAID || swap.closeTx) {
+      throw new HttpException(
+        {
+          success: false,
+          message:
+            swap.status === SwapStatus.CLAIMED || swap.closeTx
+              ? `Lock VTXO of swap ${swapId} is already claimed`
+              : `Swap ${swapId} is ${swap.status}, it closes once paid out`,
+        },
+        HttpStatus.BAD_REQUEST,
+      );
+    }
+    return swap;
+  }
+
+  /**
+   * The close of a paid swap's committed lock VTXO, at the amount it holds
+   */
+  private getCloseParams(swap: SwapState): CooperativeCloseParams {
+    return {
+      lockVtxo: {
+        txid: swap.lockTxid!,
+        vout: swap.lockVout!,
+        amount: swap.lockAmount!,
+      },
+      lock: this.getLock(swap, swap.userPubkey!),
+      destination: getMakerAddress(swap.makerPubkey, this.network),
+      fee: swap.claimFee,
+      network: this.network,
+    };
+  }
 
-    if (swap.status === SwapStatus.COMPLETED) {
+  /**
+   * The user's lock for this swap, rebuilt from the quote and the user's key
+   */
+  private getLock(swap: SwapState, userPubkey: string): SwapLockResult {
+    return createSwapLock({
+      makerPubkey: Buffer.from(swap.makerPubkey, 'hex'),
+      userPubkey: Buffer.from(userPubkey, 'hex'),
+      preimageHash: Buffer.from(swap.preimageHash, 'hex'),
+      timeoutBlocks: swap.timeoutBlocks,
+      network: this.network,
+      cooperative: swap.cooperative,
+    });
+  }
+
+  private getPendingSwap<T extends SwapState['type']>(
+    swapId: string,
+    type: T,
+  ): Extract<SwapState, { type: T }> {
+    // Validation: Retrieve the swap quote from the order book
+    const swap = this.findSwap(swapId);
+
+    if (swap.type !== type) {
+      throw new HttpException(
+        {
+          success: false,
+          message: `Swap ${swapId} is not a ${type.toUpperCase()} swap`,
+        },
+        HttpStatus.BAD_REQUEST,
+      );
+    }
+
+    // LOCKED: an earlier commit verified a lock but the payout failed
+    // PAYING: the payout may have gone out, settle reconciles it first
+    if (swap.status === SwapStatus.EXPIRED) {
+      throw new HttpException(
+        {
+          success: false,
+          message: `Swap expired at height ${swap.expiresAtHeight}: ${swapId}`,
+        },
+        HttpStatus.BAD_REQUEST,
+      );
+    }
+    if (
+      swap.status !== SwapStatus.QUOTED &&
+      swap.status !== SwapStatus.LOCKED &&
+      swap.status !== SwapStatus.PAYING
+    ) {
       throw new HttpException(
         {
           success: false,
@@ -121,44 +546,381 @@ export class SwapService {
         HttpStatus.BAD_REQUEST,
       );
     }
+    if (this.processing.has(swapId)) {
+      throw new HttpException(
+        {
+          success: false,
+          message: `Swap is already being processed: ${swapId}`,
+        },
+        HttpStatus.BAD_REQUEST,
+      );
+    }
+
+    return swap as Extract<SwapState, { type: T }>;
+  }
+
+  /**
+   * Runs a commit with the swap marked as processing, so concurrent commits of
+   * the same swap cannot pay out twice; expires the swap instead if the commit
+   * comes in at or after its expiry height
+   * A PAYING swap whose payout the wallet already sent is settled with it instead.
+   */
+  private async settle(
+    swap: SwapState,
+    commit: (blockHeight: number) => Promise<string>,
+  ): Promise<string> {
+    this.processing.add(swap.id);
+    try {
+      const paid = await this.reconcilePayout(swap);
+      if (paid) {
+        await this.submitLeafClaim(swap);
+        return paid;
+      }
+
+      const blockHeight = await this.bitcoinService.getBlockHeight();
+      if (blockHeight >= swap.expiresAtHeight) {
+        this.swapStore.transition(swap, SwapStatus.EXPIRED, blockHeight);
+        throw new HttpException(
+          {
+            success: false,
+            message: `Swap expired at height ${swap.expiresAtHeight}: ${swap.id}`,
+          },
+          HttpStatus.BAD_REQUEST,
+        );
+      }
+      return await commit(blockHeight);
+    } finally {
+      this.processing.delete(swap.id);
+    }
+  }
 
-    // Simulate VTXO Verification
-    this.logger.log(`🔍 Verifying Ark Tx: ${userTxId}... Valid.`);
+  /**
+   * Status, price and expiry of a new quote, from the current L1 height
+   * @throws HttpException (400) if the pricing engine refuses the amount
+   */
+  private async getQuotedStatus(
+    amount: number,
+  ): Promise<Pick<SwapState, 'status' | 'transitions'> & SwapPrice> {
+    const blockHeight = await this.bitcoinService.getBlockHeight();
+    return {
+      status: SwapStatus.QUOTED,
+      transitions: [
+        {
+          status: SwapStatus.QUOTED,
+          timestamp: new Date().toISOString(),
+          blockHeight,
+        },
+      ],
+      ...(await this.pricingService.priceSwap(amount, blockHeight)),
+    };
+  }
 
-    // Simulate VTXO Claim
-    this.logger.log(`⚡ Claiming VTXO with Preimage: ${swap.preimageHex}`);
+  /**
+   * ASP fee of a one-input, one-output transfer (the maker's claim of a lock VTXO)
+   */
+  private async getClaimFee(): Promise<number> {
+    const { fees } = await this.aspService.getInfo();
+    return getRequiredFee(fees, 1, 1);
+  }
 
+  /**
+   * Finds the committed lock VTXO as the ASP reports it at the lock address, and
+   * marks the swap LOCKED
+   * Only VTXOs of finalized rounds are listed, so a VTXO found here is confirmed.
+   * The ASP counts the lock's CSV timeout in rounds from the round that created
+   * it: the refund path must stay closed for the maker's margin, or the user
+   * could refund the lock while the payout is on its way.
+   * @throws HttpException (400) if it is missing or spent (unfunded), a queued
+   * transfer spends it, it holds less than the quoted amount (underfunded) or its
+   * refund path opens within the margin
+   */
+  private async verifyLock(
+    swap: SwapState,
+    lock: SwapLockResult,
+    commit: HtlcCommit,
+    blockHeight: number,
+  ): Promise<SwapLockOutpoint> {
+    const { lockTxid, lockVout } = commit;
+    const vtxo = (await this.aspService.getVtxos(lock.address)).find(
+      (candidate) => candidate.txid === lockTxid && candidate.vout === lockVout,
+    );
+
+    if (!vtxo || vtxo.spent) {
+      throw new HttpException(
+        {
+          success: false,
+          message: `Lock is unfunded: no unspent VTXO ${lockTxid}:${lockVout} at ${lock.address} in a finalized round`,
+        },
+        HttpStatus.BAD_REQUEST,
+      );
+    }
+    if (vtxo.pending) {
+      throw new HttpException(
+        {
+          success: false,
+          message: `Lock VTXO ${lockTxid}:${lockVout} is spent by a transfer queued for the next round`,
+        },
+        HttpStatus.BAD_REQUEST,
+      );
+    }
+    if (vtxo.amount < swap.amount) {
+      throw new HttpException(
+        {
+          success: false,
+          message: `Lock is underfunded: VTXO ${lockTxid}:${lockVout} holds ${vtxo.amount} sats, quoted ${swap.amount} sats`,
+        },
+        HttpStatus.BAD_REQUEST,
+      );
+    }
+
+    // A VTXO no journaled round created has age 0 for the ASP too
+    const { currentBlock } = await this.aspService.getInfo();
+    const age = vtxo.roundHeight === null ? 0 : currentBlock - vtxo.roundHeight;
+    const roundsLeft = swap.timeoutBlocks - age;
+    const margin = this.pricingService.getLockMarginRounds();
+    if (roundsLeft < margin) {
+      throw new HttpException(
+        {
+          success: false,
+          message: `Lock is too close to its refund path: it opens in ${Math.max(roundsLeft, 0)} rounds, the maker pays out with at least ${margin} left`,
+        },
+        HttpStatus.BAD_REQUEST,
+      );
+    }
+
+    this.logger.log(
+      `🔍 Verified lock VTXO ${lockTxid}:${lockVout}: ${vtxo.amount} sats at ${lock.address}, refundable in ${roundsLeft} rounds`,
+    );
+    Object.assign(swap, {
+      lockAddress: lock.address,
+      lockTxid,
+      lockVout,
+      lockAmount: vtxo.amount,
+      userPubkey: commit.userPubkey,
+      // The leaf claim stays ahead of the refund path by the margin
+      closeDeadline: swap.cooperative
+        ? currentBlock +
+          Math.min(COOPERATIVE_CLOSE_GRACE_ROUNDS, roundsLeft - margin)
+        : undefined,
+    });
+    this.swapStore.transition(swap, SwapStatus.LOCKED, blockHeight);
+
+    return { txid: vtxo.txid, vout: vtxo.vout, amount: vtxo.amount };
+  }
+
+  /**
+   * The ASP's exit of the swap's lock VTXO, if the user moved it on-chain
+   */
+  private async findLockExit(swap: SwapState): Promise<AspExit | null> {
+    if (swap.lockTxid === undefined || swap.lockVout === undefined) {
+      return null;
+    }
+    return this.aspService.getExit(swap.lockTxid, swap.lockVout);
+  }
+
+  /**
+   * Expires an unpaid swap whose lock VTXO the user exited: the payout is never
+   * sent, and the user takes the L1 output back through the refund leaf
+   */
+  private expireExitedLock(swap: SwapState, blockHeight: number): void {
+    this.logger.warn(
+      `🚪 Lock VTXO ${swap.lockTxid}:${swap.lockVout} of unpaid swap ${swap.id} was exited, the swap expires`,
+    );
+    this.swapStore.transition(swap, SwapStatus.EXPIRED, blockHeight);
+  }
+
+  /**
+   * Claims the lock of a paid swap: off-chain through the ASP, or on L1 if the
+   * user exited the lock VTXO (the off-chain claim can no longer land)
+   */
+  private async claimLock(swap: HtlcSwapState): Promise<void> {
+    const exit = await this.findLockExit(swap);
+    if (exit) {
+      await this.claimExitedLock(swap, exit);
+    } else {
+      await this.submitLeafClaim(swap);
+    }
+  }
+
+  /**
+   * Claims the L1 output of a lock VTXO the user exited after being paid, and
+   * marks the swap CLAIMED
+   * The exit moves the lock on-chain to the same address, so the claim leaf
+   * spends it there too, long before the refund leaf's CSV matures on L1.
+   */
+  private async claimExitedLock(
+    swap: HtlcSwapState,
+    exit: AspExit,
+  ): Promise<void> {
+    if (!exit.onchain) {
+      this.logger.log(
+        `🚪 Lock VTXO of swap ${swap.id} was exited, waiting for its L1 output`,
+      );
+      return;
+    }
+
+    const { hex } = buildClaimTx({
+      outpoint: { ...exit.onchain, amount: swap.lockAmount! },
+      lock: this.getLock(swap, swap.userPubkey!),
+      privateKey: Buffer.from(swap.makerPrivateKeyHex, 'hex'),
+      destination: await this.bitcoinService.getNewAddress(),
+      // The miner fee the quote charged the user
+      fee: swap.fee.minerFee,
+      preimage: Buffer.from(swap.preimageHex, 'hex'),
+      network: this.network,
+    });
+    swap.l1ClaimTxId = await this.bitcoinService.broadcastTransaction(hex);
+    this.swapStore.transition(
+      swap,
+      SwapStatus.CLAIMED,
+      await this.bitcoinService.getBlockHeight(),
+    );
+    this.logger.log(
+      `⛓️ Claimed the exited lock of swap ${swap.id} on L1: ${swap.l1ClaimTxId}`,
+    );
+  }
+
+  /**
+   * Submits the leaf claim of a paid swap, unless it is a cooperative swap whose
+   * key-path close can still come (before its close deadline)
+   */
+  private async submitLeafClaim(swap: SwapState): Promise<void> {
+    if (swap.closeDeadline !== undefined && !swap.closeTx) {
+      const { currentBlock } = await this.aspService.getInfo();
+      if (currentBlock < swap.closeDeadline) {
+        this.logger.log(
+          `🤝 Swap ${swap.id} waits for its cooperative close until round ${swap.closeDeadline}`,
+        );
+        return;
+      }
+    }
+    await this.submitClaim(swap, swap.claimTx!);
+  }
+
+  /**
+   * Submits the maker's claim of the lock VTXO to the ASP and marks the swap CLAIMED
+   * The user is already paid, so a rejected claim is logged rather than thrown;
+   * the swap stays PAID and the sweeper submits the claim again.
+   */
+  private async submitClaim(
+    swap: SwapState,
+    claimTx: ArkTransaction,
+  ): Promise<void> {
+    const [input] = claimTx.inputs;
+    try {
+      const receipt = await this.aspService.submitTransfer(claimTx);
+      this.logger.log(
+        `⚡ Claimed lock VTXO ${input.txid}:${input.vout}: transfer ${receipt.transferId} queued for round ${receipt.roundId}`,
+      );
+      swap.claimTransferId = receipt.transferId;
+      this.swapStore.transition(
+        swap,
+        SwapStatus.CLAIMED,
+        await this.bitcoinService.getBlockHeight(),
+      );
+    } catch (error) {
+      const message =
+        error instanceof HttpException
+          ? JSON.stringify(error.getResponse())
+          : String(error);
+      this.logger.error(
+        `Claim of lock VTXO ${input.txid}:${input.vout} failed: ${message}`,
+      );
+    }
+  }
+
+  /**
+   * Pays the quoted payout (the swap amount minus the fee) to the user on L1
+   * and marks the swap PAID, with the claim of the lock VTXO the maker submits next
+   * The swap is PAYING, with its destination and claim, before the payout is
+   * sent: a crash or a timed-out RPC leaves a record the retry reconciles.
+   */
+  private async payout(
+    swap: SwapState,
+    userL1Address: string,
+    claimTx: ArkTransaction,
+  ): Promise<string> {
     // Security: Check if Market Maker wallet has enough L1 BTC
-    // Note: swap.amount is in satoshis, balance is in BTC
+    // Note: swap.payoutAmount is in satoshis, balance is in BTC
     const balanceBtc = await this.bitcoinService.getBalance();
-    const amountBtc = swap.amount / 100_000_000;
+    const amountBtc = swap.payoutAmount / 100_000_000;
     if (balanceBtc < amountBtc) {
       throw new HttpException(
         {
           success: false,
-          message: `Insufficient balance. Required: ${swap.amount} sats (${amountBtc} BTC), Available: ${balanceBtc} BTC`,
+          message: `Insufficient balance. Required: ${swap.payoutAmount} sats (${amountBtc} BTC), Available: ${balanceBtc} BTC`,
         },
         HttpStatus.BAD_REQUEST,
       );
     }
 
+    // Intent first: the payout is on record before anything is sent
+    Object.assign(swap, { userL1Address, claimTx });
+    this.swapStore.transition(
+      swap,
+      SwapStatus.PAYING,
+      await this.bitcoinService.getBlockHeight(),
+    );
+
     // Execute L1 Payout
-    // swap.amount is in satoshis, sendToAddress expects sats and converts internally
-    const amountBtcFormatted = (swap.amount / 100_000_000).toFixed(8);
+    // swap.payoutAmount is in satoshis, sendToAddress expects sats and converts internally
+    const amountBtcFormatted = amountBtc.toFixed(8);
     this.logger.log(
-      `💸 Sending ${swap.amount} sats (${amountBtcFormatted} BTC) to ${userL1Address}`,
+      `💸 Sending ${swap.payoutAmount} sats (${amountBtcFormatted} BTC, fee ${swap.fee.total} sats) to ${userL1Address}`,
     );
     const l1TxId = await this.bitcoinService.sendToAddress(
-      swap.amount,
+      swap.payoutAmount,
       userL1Address,
+      getPayoutComment(swap),
     );
 
-    // State Update: Mark swap as COMPLETED
-    swap.status = SwapStatus.COMPLETED;
-    this.swaps.set(swapId, swap);
-
-    this.logger.log(`✅ Swap completed: id=${swapId}, l1TxId=${l1TxId}`);
+    await this.markPaid(swap, l1TxId);
+    return l1TxId;
+  }
 
+  /**
+   * Looks for the payout of a PAYING swap in the maker's wallet, and marks the
+   * swap PAID if it was sent
+   * @returns The payout's transaction ID, or null if nothing was paid
+   */
+  private async reconcilePayout(swap: SwapState): Promise<string | null> {
+    if (swap.status !== SwapStatus.PAYING) {
+      return null;
+    }
+    const l1TxId = await this.bitcoinService.findWalletSend(
+      getPayoutComment(swap),
+    );
+    if (l1TxId) {
+      this.logger.log(
+        `🔁 Found the payout of swap ${swap.id} in the wallet: ${l1TxId}`,
+      );
+      await this.markPaid(swap, l1TxId);
+    }
     return l1TxId;
   }
+
+  private async markPaid(swap: SwapState, l1TxId: string): Promise<void> {
+    swap.l1TxId = l1TxId;
+    this.swapStore.transition(
+      swap,
+      SwapStatus.PAID,
+      await this.bitcoinService.getBlockHeight(),
+    );
+    this.logger.log(`✅ Swap paid: id=${swap.id}, l1TxId=${l1TxId}`);
+  }
+}
+
+/**
+ * Wallet comment of a swap's payout, how a retry finds it (see reconcilePayout)
+ */
+function getPayoutComment(swap: SwapState): string {
+  return `arkswap payout ${swap.id}`;
+}
+
+function toSwapView(swap: SwapState): SwapView {
+  const view: Record<string, unknown> = { ...swap };
+  for (const field of SWAP_SECRET_FIELDS) {
+    delete view[field];
+  }
+  return view as SwapView;
 }
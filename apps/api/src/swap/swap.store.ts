@@ -0,0 +1,76 @@
+import {
+  Inject,
+  Injectable,
+  Logger,
+  OnModuleInit,
+  Optional,
+} from '@nestjs/common';
+import { SWAP_STORAGE, type SwapStorage } from './storage/swap-storage';
+import { MemorySwapStorage } from './storage/memory-swap.storage';
+import type { SwapState, SwapStatus } from './swap.types';
+
+/**
+ * Swap Order Book
+ * Holds every swap in memory and writes each change through to the storage
+ * adapter, so quotes, maker keys and preimages survive a restart.
+ */
+@Injectable()
+export class SwapStore implements OnModuleInit {
+  private readonly logger = new Logger(SwapStore.name);
+  private readonly swaps = new Map<string, SwapState>();
+
+  constructor(
+    @Optional()
+    @Inject(SWAP_STORAGE)
+    private readonly storage: SwapStorage = new MemorySwapStorage(),
+  ) {}
+
+  /**
+   * Reloads the order book from storage
+   */
+  onModuleInit() {
+    this.swaps.clear();
+    for (const swap of this.storage.load()) {
+      this.swaps.set(swap.id, swap);
+    }
+    if (this.swaps.size > 0) {
+      this.logger.log(`📒 Loaded ${this.swaps.size} swaps`);
+    }
+  }
+
+  get(id: string): SwapState | undefined {
+    return this.swaps.get(id);
+  }
+
+  /**
+   * Swaps in the order they were quoted, optionally only those in a status
+   */
+  list(status?: SwapStatus): SwapState[] {
+    const swaps = [...this.swaps.values()];
+    return status ? swaps.filter((swap) => swap.status === status) : swaps;
+  }
+
+  /**
+   * Records a new or changed swap (the cooperative close session stays in memory)
+   */
+  save(swap: SwapState): void {
+    this.swaps.set(swap.id, swap);
+    const record = { ...swap };
+    delete record.closeSession;
+    this.storage.save(record);
+  }
+
+  /**
+   * Moves a swap to its next status and records the transition
+   */
+  transition(swap: SwapState, status: SwapStatus, blockHeight: number): void {
+    swap.status = status;
+    swap.transitions.push({
+      status,
+      timestamp: new Date().toISOString(),
+      blockHeight,
+    });
+    this.save(swap);
+    this.logger.log(`📒 Swap ${swap.id}: ${status} at height ${blockHeight}`);
+  }
+}
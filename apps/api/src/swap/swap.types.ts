@@ -0,0 +1,151 @@
+import type { ArkTransaction, SwapFee } from '@arkswap/protocol';
+
+/**
+ * Swap lifecycle
+ * QUOTED -> LOCKED -> PAYING -> PAID -> CLAIMED on the happy path; a swap that is not paid
+ * by its expiry height becomes EXPIRED, and REFUNDED once the user has taken the
+ * lock VTXO back through the refund leaf.
+ * A reverse swap runs the other way: LOCKED once the user's L1 lock confirms,
+ * PAID once the maker has sent the VTXO lock, CLAIMED once the user's claim of
+ * it revealed the preimage and the maker claimed the L1 lock, REFUNDED once the
+ * maker took the unclaimed VTXO lock back through its refund leaf.
+ */
+export enum SwapStatus {
+  // Quote issued, no lock VTXO seen yet
+  QUOTED = 'QUOTED',
+  // Lock VTXO verified with the ASP, L1 payout not sent yet
+  LOCKED = 'LOCKED',
+  // L1 payout about to be sent to userL1Address: a retry looks for it in the
+  // wallet before paying again
+  PAYING = 'PAYING',
+  // L1 payout sent, the maker's claim of the lock VTXO not accepted yet
+  PAID = 'PAID',
+  // The ASP accepted the maker's claim of the lock VTXO, or the maker claimed
+  // its L1 output after the user exited it
+  CLAIMED = 'CLAIMED',
+  // Not paid out by the expiry height, the maker will not pay anymore; a
+  // reverse swap also once its L1 lock is too old to fund the VTXO lock
+  EXPIRED = 'EXPIRED',
+  // The lock VTXO was spent without the maker's claim (the user's refund), or
+  // for a reverse swap the maker took its VTXO lock back
+  REFUNDED = 'REFUNDED',
+}
+
+/**
+ * One status change of a swap: when it happened, wall clock and L1 height
+ */
+export interface SwapTransition {
+  status: SwapStatus;
+  timestamp: string;
+  blockHeight: number;
+}
+
+/**
+ * MuSig2 session of a cooperative close, opened by the user's nonce
+ * Never persisted: a secret nonce must not survive a restart, where it could be
+ * used twice; the user requests a new one instead.
+ */
+export interface CooperativeCloseSession {
+  lockTxid: string;
+  lockVout: number;
+  userPubkey: string;
+  userPublicNonce: string;
+  secretNonce: Buffer;
+  aggregateNonce: string;
+}
+
+interface BaseSwapState {
+  id: string;
+  amount: number;
+  makerPrivateKeyHex: string;
+  makerPubkey: string;
+  status: SwapStatus;
+  /** Every status the swap went through, oldest first (QUOTED is the first) */
+  transitions: SwapTransition[];
+  /** L1 height from which an unpaid swap is EXPIRED */
+  expiresAtHeight: number;
+  /** The maker's fee, fixed at quote time (see PricingService) */
+  fee: SwapFee;
+  /** What the maker pays out: amount minus fee.total */
+  payoutAmount: number;
+  /** CSV timeout of the lock the user funds, in ASP rounds, chosen by the pricing policy */
+  timeoutBlocks: number;
+  /** ASP transfer fee of the maker's claim of the lock VTXO, fixed at quote time */
+  claimFee: number;
+  /** The user locks to the MuSig2 aggregate key (key-path close, leaves as fallback) */
+  cooperative: boolean;
+  /** The committed lock VTXO, set once it is verified (LOCKED) */
+  lockAddress?: string;
+  lockTxid?: string;
+  lockVout?: number;
+  lockAmount?: number;
+  userPubkey?: string;
+  userL1Address?: string;
+  /** L1 payout to the user: destination once PAYING, transaction once PAID */
+  l1TxId?: string;
+  /** Claim of the lock VTXO through the claim leaf, set with the PAYING intent */
+  claimTx?: ArkTransaction;
+  /** Cooperative swaps: ASP round from which the maker submits claimTx if no close came */
+  closeDeadline?: number;
+  /** ASP transfer of the claim, once accepted (CLAIMED) */
+  claimTransferId?: string;
+  closeSession?: CooperativeCloseSession;
+  /** Key-path transfer of the lock VTXO to the maker, once both sides signed */
+  closeTx?: ArkTransaction;
+}
+
+export interface HtlcSwapState extends BaseSwapState {
+  type: 'htlc';
+  preimageHex: string;
+  preimageHash: string;
+  /** The maker's claim of the lock's L1 output, if the user exited the lock VTXO (CLAIMED) */
+  l1ClaimTxId?: string;
+}
+
+/**
+ * A reverse swap (L1 in, VTXO out): the user holds the preimage and funds an L1
+ * lock the maker claims with it; the maker funds a VTXO lock with the roles
+ * swapped, which the user claims with the same preimage.
+ * lockAddress is the L1 lock (lockTxid:lockVout its confirmed funding output) and
+ * claimTx the user's claim of the VTXO lock, if relayed through the maker.
+ */
+export interface ReverseSwapState extends BaseSwapState {
+  type: 'reverse';
+  preimageHash: string;
+  userPubkey: string;
+  lockAddress: string;
+  /** L1 height the lock's funding confirmed at, where its timeout starts (LOCKED) */
+  lockHeight?: number;
+  /** The VTXO lock the maker funds once the L1 lock confirms */
+  vtxoLockAddress: string;
+  /** The maker's signed transfer funding the VTXO lock, saved before it is submitted */
+  vtxoLockTx?: ArkTransaction;
+  vtxoLockTransferId?: string;
+  /** The VTXO lock's outpoint, once the ASP queued its funding (PAID) */
+  vtxoLockTxid?: string;
+  vtxoLockVout?: number;
+  /** CSV timeout of the VTXO lock, in ASP rounds (timeoutBlocks is the L1 lock's) */
+  vtxoTimeoutBlocks: number;
+  /** Learned from the user's claim of the VTXO lock, relayed or seen at the ASP */
+  preimageHex?: string;
+  /** The maker's claim of the L1 lock (CLAIMED) */
+  l1ClaimTxId?: string;
+  /** The maker's refund of the VTXO lock (REFUNDED) */
+  vtxoRefundTransferId?: string;
+}
+
+export type SwapState = HtlcSwapState | ReverseSwapState;
+
+/**
+ * A swap as GET /swap returns it: the state without the maker's secrets
+ * (the signed claim is saved with the PAYING intent, before the payout is sent,
+ * and is the user's receipt from then on)
+ */
+export type SwapView = DistributiveOmit<
+  SwapState,
+  'makerPrivateKeyHex' | 'preimageHex' | 'closeSession'
+>;
+
+type DistributiveOmit<T, K extends PropertyKey> = T extends unknown
+  ? Omit<T, K>
+  : never;
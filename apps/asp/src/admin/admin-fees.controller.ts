@@ -0,0 +1,18 @@
+import { Controller, Get } from '@nestjs/common';
+import { FeeService } from '../fees/fee.service';
+
+/**
+ * Fee accounting for operators
+ */
+@Controller('v1/admin/fees')
+export class AdminFeesController {
+  constructor(private readonly feeService: FeeService) {}
+
+  @Get()
+  getFees() {
+    return {
+      schedule: this.feeService.getSchedule(),
+      earned: this.feeService.getEarned(),
+    };
+  }
+}
@@ -0,0 +1,39 @@
+import { Controller, Post } from '@nestjs/common';
+import { getRoundSummaryHash } from '@arkswap/protocol';
+import { RoundScheduler } from '../rounds/round-scheduler.service';
+import { toRoundSummary } from '../rounds/round-journal.service';
+import { AspIdentityService } from '../identity/asp-identity.service';
+
+/**
+ * Round loop controls for tests and operators
+ * Trigger works in every mode; pause/resume only affect the interval timer.
+ */
+@Controller('v1/admin/rounds')
+export class AdminRoundsController {
+  constructor(
+    private readonly roundScheduler: RoundScheduler,
+    private readonly identity: AspIdentityService,
+  ) {}
+
+  @Post('trigger')
+  async trigger() {
+    const round = await this.roundScheduler.trigger();
+    const summary = toRoundSummary(round);
+    return {
+      ...summary,
+      lifts: round.lifts.length,
+      transfers: round.transfers.length,
+      signature: this.identity.sign(getRoundSummaryHash(summary)),
+    };
+  }
+
+  @Post('pause')
+  pause() {
+    return this.roundScheduler.pause();
+  }
+
+  @Post('resume')
+  resume() {
+    return this.roundScheduler.resume();
+  }
+}
@@ -1,6 +1,5 @@
 import { Module } from '@nestjs/common';
 import { HttpModule } from '@nestjs/axios';
-import { ScheduleModule } from '@nestjs/schedule';
 import { RoundService } from './round.service';
 import { InfoController } from './info.controller';
 import { LiftController } from './lift/lift.controller';
@@ -10,25 +9,47 @@ import { TransferService } from './transfer.service';
 import { AssetStore } from './assets/asset.store';
 import { AssetsController } from './assets/assets.controller';
 import { PondController } from './pond/pond.controller';
+import { RoundsController } from './rounds/rounds.controller';
+import { RoundJournal } from './rounds/round-journal.service';
+import { conflictPolicyProvider } from './rounds/conflict-policy.provider';
+import { RoundScheduler } from './rounds/round-scheduler.service';
+import { AdminRoundsController } from './admin/admin-rounds.controller';
+import { AdminFeesController } from './admin/admin-fees.controller';
+import { FeeService } from './fees/fee.service';
+import { AspIdentityService } from './identity/asp-identity.service';
 import { BitcoinService } from './bitcoin/bitcoin.service';
 import { SignatureVerifierService } from './assets/signature-verifier.service';
+import { ledgerStorageProvider } from './storage/ledger-storage.provider';
+import { ExitController } from './exit/exit.controller';
+import { ExitService } from './exit/exit.service';
 
 @Module({
-  imports: [ScheduleModule.forRoot(), HttpModule],
+  imports: [HttpModule],
   controllers: [
     InfoController,
     LiftController,
     TransferController,
     AssetsController,
     PondController,
+    RoundsController,
+    AdminRoundsController,
+    AdminFeesController,
+    ExitController,
   ],
   providers: [
+    ledgerStorageProvider,
+    conflictPolicyProvider,
     RoundService,
     VtxoStore,
     TransferService,
     AssetStore,
     BitcoinService,
     SignatureVerifierService,
+    RoundJournal,
+    RoundScheduler,
+    AspIdentityService,
+    FeeService,
+    ExitService,
   ],
 })
 export class AppModule {}
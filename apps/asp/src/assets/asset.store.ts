@@ -1,12 +1,36 @@
-import { Injectable } from '@nestjs/common';
+import { Inject, Injectable, OnModuleInit, Optional } from '@nestjs/common';
 import type { AssetMetadata } from '@arkswap/protocol';
+import { LEDGER_STORAGE, type LedgerStorage } from '../storage/ledger-storage';
+import { MemoryLedgerStorage } from '../storage/memory-ledger.storage';
 
 @Injectable()
-export class AssetStore {
+export class AssetStore implements OnModuleInit {
   private metadata = new Map<string, AssetMetadata>();
   private pond = new Set<string>(); // Stores TxIDs of showcased fish
 
+  constructor(
+    @Optional()
+    @Inject(LEDGER_STORAGE)
+    private readonly storage: LedgerStorage = new MemoryLedgerStorage(),
+  ) {}
+
+  /**
+   * Rebuilds asset metadata and pond membership from the persisted ledger
+   */
+  onModuleInit() {
+    this.metadata.clear();
+    this.pond.clear();
+    for (const event of this.storage.load()) {
+      if (event.type === 'asset.saved') {
+        this.metadata.set(event.txid, event.metadata);
+      } else if (event.type === 'pond.added') {
+        this.pond.add(event.txid);
+      }
+    }
+  }
+
   saveMetadata(txid: string, meta: AssetMetadata): void {
+    this.storage.append({ type: 'asset.saved', txid, metadata: meta });
     this.metadata.set(txid, meta);
   }
 
@@ -74,6 +98,8 @@ export class AssetStore {
    * Adds a TxID to the Pond (showcased fish)
    */
   addToPond(txid: string): void {
+    if (this.pond.has(txid)) return;
+    this.storage.append({ type: 'pond.added', txid });
     this.pond.add(txid);
   }
 
@@ -123,7 +149,7 @@ export class AssetStore {
       xp: metadata.xp + 10,
     };
 
-    this.metadata.set(txid, updatedMetadata);
+    this.saveMetadata(txid, updatedMetadata);
     return updatedMetadata;
   }
 }
@@ -11,14 +11,17 @@ import { AssetStore } from './asset.store';
 import { RoundService } from '../round.service';
 import { VtxoStore } from '../vtxo-store.service';
 import { BitcoinService } from '../bitcoin/bitcoin.service';
+import { loadNetwork } from '../bitcoin/network';
 import {
   AssetMetadataSchema,
   type AssetMetadata,
   generateGenesisDNA,
   createAssetPayToPublicKey,
   mixGenomes,
+  getGenesisHash,
 } from '@arkswap/protocol';
 import { SignatureVerifierService } from './signature-verifier.service';
+import { AspIdentityService } from '../identity/asp-identity.service';
 
 interface SaveMetadataDto {
   txid: string;
@@ -45,12 +48,15 @@ interface BreedRequestDto {
 
 @Controller('v1/assets')
 export class AssetsController {
+  private readonly network = loadNetwork();
+
   constructor(
     private readonly store: AssetStore,
     private readonly roundService: RoundService,
     private readonly vtxoStore: VtxoStore,
     private readonly bitcoinService: BitcoinService,
     private readonly signatureVerifier: SignatureVerifierService,
+    private readonly identity: AspIdentityService,
   ) {}
 
   @Get()
@@ -124,6 +130,7 @@ export class AssetsController {
     address: string;
     status: string;
     metadata: AssetMetadata;
+    signature: string;
   }> {
     const { userPubkey, amount } = body;
 
@@ -163,17 +170,25 @@ export class AssetsController {
 
       // 4. Calculate Address: Call createAssetPayToPublicKey with the user's pubkey
       const userPubkeyBuffer = Buffer.from(userPubkey, 'hex');
-      const address = createAssetPayToPublicKey(userPubkeyBuffer, metadata);
+      const address = createAssetPayToPublicKey(
+        userPubkeyBuffer,
+        metadata,
+        this.network,
+      );
 
       // 5. Minting: Call RoundService.scheduleLift to create the VTXO with this specific address and metadata
       this.roundService.scheduleLift(address, amount, metadata);
 
       // 6. Return metadata so client can derive the address and watch it
+      // The ASP signs (address, amount, metadata) so the client can trust the DNA it was given
       return {
         success: true,
         address,
         status: 'queued',
         metadata,
+        signature: this.identity.sign(
+          getGenesisHash({ address, amount, metadata }),
+        ),
       };
     } catch (error) {
       if (error instanceof BadRequestException) {
@@ -321,10 +336,12 @@ export class AssetsController {
       const parent1ExpectedAddress = createAssetPayToPublicKey(
         userPubkeyBuffer,
         parent1Metadata,
+        this.network,
       );
       const parent2ExpectedAddress = createAssetPayToPublicKey(
         userPubkeyBuffer,
         parent2Metadata,
+        this.network,
       );
 
       if (parent1Vtxo.address !== parent1ExpectedAddress) {
@@ -388,6 +405,7 @@ export class AssetsController {
       const childAddress = createAssetPayToPublicKey(
         userPubkeyBuffer,
         childMetadata,
+        this.network,
       );
 
       // Call RoundService.scheduleLift with childAddress and childValue
@@ -7,6 +7,7 @@ import { VtxoStore } from '../vtxo-store.service';
 import { TransferService } from '../transfer.service';
 import { BitcoinService } from '../bitcoin/bitcoin.service';
 import { SignatureVerifierService } from './signature-verifier.service';
+import { AspIdentityService } from '../identity/asp-identity.service';
 import type { AssetMetadata, Vtxo } from '@arkswap/protocol';
 import { asAddress, asTxId } from '@arkswap/protocol';
 
@@ -145,6 +146,10 @@ describe('Assets', () => {
             provide: SignatureVerifierService,
             useValue: mockSignatureVerifier,
           },
+          {
+            provide: AspIdentityService,
+            useValue: { sign: jest.fn().mockReturnValue('0'.repeat(128)) },
+          },
         ],
       }).compile();
 
@@ -1,7 +1,8 @@
 import { Injectable, BadRequestException, OnModuleInit } from '@nestjs/common';
 import { createHash } from 'crypto';
 import * as bitcoin from 'bitcoinjs-lib';
-import type { ECCLibrary } from '@arkswap/protocol';
+import { getBitcoinNetwork, type ECCLibrary } from '@arkswap/protocol';
+import { loadNetwork } from '../bitcoin/network';
 
 /**
  * Service for verifying Schnorr signatures
@@ -10,6 +11,7 @@ import type { ECCLibrary } from '@arkswap/protocol';
 @Injectable()
 export class SignatureVerifierService implements OnModuleInit {
   private ecc: ECCLibrary;
+  private readonly network = getBitcoinNetwork(loadNetwork());
 
   onModuleInit() {
     try {
@@ -47,7 +49,7 @@ export class SignatureVerifierService implements OnModuleInit {
       // Decode VTXO Address -> Pubkey
       const outputScript = bitcoin.address.toOutputScript(
         address,
-        bitcoin.networks.regtest,
+        this.network,
       );
 
       // Taproot Script is: OP_1 (0x51) <32-byte-pubkey>
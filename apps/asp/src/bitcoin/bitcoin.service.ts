@@ -120,17 +120,55 @@ export class BitcoinService implements OnModuleInit {
   }
 
   /**
-   * Broadcasts a heartbeat transaction with OP_RETURN output containing "ARK" marker.
-   * This creates a permanent on-chain marker for round detection.
+   * Pays amountSats to address in a wallet-funded transaction.
+   * Unlike sendToAddress, returns the outpoint created for address.
+   */
+  async fundAddress(
+    address: string,
+    amountSats: number,
+  ): Promise<{ txid: string; vout: number }> {
+    const { txid, changepos } = await this.fundAndBroadcast([
+      { [address]: amountSats / 1e8 },
+    ]);
+
+    // A single payment output: change (if any) is inserted before or after it
+    const vout = changepos === 0 ? 1 : 0;
+    this.logger.log(
+      `Funded ${address} with ${amountSats} sats. Outpoint: ${txid}:${vout}`,
+    );
+    return { txid, vout };
+  }
+
+  /**
+   * Broadcasts a heartbeat transaction with an OP_RETURN output.
+   * The payload starts with the "ARK" marker so indexers can detect rounds;
+   * RoundService passes the encoded round commitment (see encodeRoundCommitment).
+   * @param payloadHex OP_RETURN data (defaults to the bare "ARK" marker)
    * @returns The transaction ID
    */
-  async broadcastHeartbeat(): Promise<string> {
-    // Create raw transaction with OP_RETURN output
-    // "ARK" in hex is "41524b"
-    // OP_RETURN format: data output with hex "41524b"
+  async broadcastHeartbeat(payloadHex: string = '41524b'): Promise<string> {
+    // OP_RETURN output with the round payload
+    const { txid } = await this.fundAndBroadcast([{ data: payloadHex }]);
+
+    this.logger.log(
+      `Broadcast heartbeat transaction with OP_RETURN marker. Txid: ${txid}`,
+    );
+
+    return txid;
+  }
+
+  /**
+   * Creates a transaction with the given outputs, lets the wallet add inputs and
+   * change, then signs and broadcasts it
+   * @returns The txid and the position of the change output (-1 if none)
+   */
+  private async fundAndBroadcast(
+    outputs: Array<Record<string, string | number>>,
+  ): Promise<{ txid: string; changepos: number }> {
+    // Create raw transaction
     const rawTx = await this.callRpc('createrawtransaction', [
       [], // No inputs initially
-      [{ data: '41524b' }], // OP_RETURN output with "ARK" data
+      outputs,
     ]);
 
     if (typeof rawTx !== 'string') {
@@ -170,10 +208,6 @@ export class BitcoinService implements OnModuleInit {
       );
     }
 
-    this.logger.log(
-      `Broadcast heartbeat transaction with OP_RETURN marker. Txid: ${txid}`,
-    );
-
-    return txid;
+    return { txid, changepos: Number(fundedTx.changepos ?? -1) };
   }
 }
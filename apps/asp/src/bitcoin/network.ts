@@ -0,0 +1,16 @@
+import {
+  DEFAULT_NETWORK,
+  assertSafeNetwork,
+  type ArkNetwork,
+} from '@arkswap/protocol';
+
+/**
+ * Reads the Bitcoin network the ASP runs on (address encoding and decoding)
+ * - ASP_NETWORK=regtest (default), signet or testnet
+ * - any other value, mainnet included, stops the ASP (see assertSafeNetwork)
+ */
+export function loadNetwork(): ArkNetwork {
+  const network = process.env.ASP_NETWORK || DEFAULT_NETWORK;
+  assertSafeNetwork(network);
+  return network;
+}
@@ -0,0 +1,74 @@
+import {
+  BadRequestException,
+  Body,
+  Controller,
+  Get,
+  NotFoundException,
+  Param,
+  ParseIntPipe,
+  Post,
+} from '@nestjs/common';
+import type { ExitRequest } from '@arkswap/protocol';
+import { ExitService } from './exit.service';
+
+const HEX = /^([0-9a-fA-F]{2})+$/;
+
+@Controller('v1/exit')
+export class ExitController {
+  constructor(private readonly exitService: ExitService) {}
+
+  /**
+   * Body: txid, vout, signature over getExitRequestHash(txid, vout), and for
+   * a script-path signer the leafScript and controlBlock, and the preimage of
+   * a hashlocked leaf (hex)
+   */
+  @Post()
+  async requestExit(@Body() body: ExitRequest) {
+    const { txid, vout, signature, leafScript, controlBlock, preimage } = body;
+
+    if (!txid || !Number.isInteger(vout) || vout < 0) {
+      throw new BadRequestException('Invalid request: txid and vout required');
+    }
+    if (
+      typeof signature !== 'string' ||
+      !/^[0-9a-fA-F]{128}$/.test(signature)
+    ) {
+      throw new BadRequestException(
+        'Invalid request: signature must be 64 bytes of hex',
+      );
+    }
+    for (const [name, value] of Object.entries({
+      leafScript,
+      controlBlock,
+      preimage,
+    })) {
+      if (
+        value !== undefined &&
+        (typeof value !== 'string' || !HEX.test(value))
+      ) {
+        throw new BadRequestException(`Invalid request: ${name} must be hex`);
+      }
+    }
+
+    return this.exitService.exit({
+      txid,
+      vout,
+      signature,
+      leafScript,
+      controlBlock,
+      preimage,
+    });
+  }
+
+  @Get(':txid/:vout')
+  getExit(
+    @Param('txid') txid: string,
+    @Param('vout', ParseIntPipe) vout: number,
+  ) {
+    const exit = this.exitService.getExit(txid, vout);
+    if (!exit) {
+      throw new NotFoundException(`No exit for VTXO ${txid}:${vout}`);
+    }
+    return exit;
+  }
+}
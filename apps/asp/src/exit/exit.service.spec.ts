@@ -0,0 +1,276 @@
+import { createHash } from 'crypto';
+import {
+  BadRequestException,
+  ConflictException,
+  NotFoundException,
+} from '@nestjs/common';
+import * as bitcoin from 'bitcoinjs-lib';
+import * as ecc from '@bitcoinerlab/secp256k1';
+import { ECPairFactory } from 'ecpair';
+import type { Vtxo } from '@arkswap/protocol';
+import {
+  asAddress,
+  asTxId,
+  createSwapLock,
+  getExitRequestHash,
+} from '@arkswap/protocol';
+import { ExitService } from './exit.service';
+import { VtxoStore } from '../vtxo-store.service';
+import { RoundService } from '../round.service';
+import { RoundJournal } from '../rounds/round-journal.service';
+import { BitcoinService } from '../bitcoin/bitcoin.service';
+import { MemoryLedgerStorage } from '../storage/memory-ledger.storage';
+
+bitcoin.initEccLib(ecc);
+const ECPair = ECPairFactory(ecc);
+const network = bitcoin.networks.regtest;
+
+describe('ExitService', () => {
+  const owner = ECPair.makeRandom({ network });
+  const internalPubkey = Buffer.from(owner.publicKey.subarray(1, 33));
+  const ownerKey = owner.tweak(
+    Buffer.from(bitcoin.crypto.taggedHash('TapTweak', internalPubkey)),
+  );
+  const ownerAddress = asAddress(
+    bitcoin.payments.p2tr({ internalPubkey, network }).address!,
+  );
+  const coin: Vtxo = {
+    txid: asTxId('a'.repeat(64)),
+    vout: 1,
+    amount: 50_000,
+    address: ownerAddress,
+    spent: false,
+  };
+  const funded = { txid: 'e'.repeat(64), vout: 0 };
+
+  const signed = (txid: string, vout: number, signer = ownerKey) => ({
+    txid,
+    vout,
+    signature: Buffer.from(
+      signer.signSchnorr(Buffer.from(getExitRequestHash(txid, vout), 'hex')),
+    ).toString('hex'),
+  });
+  const request = signed(coin.txid, coin.vout);
+
+  let storage: MemoryLedgerStorage;
+  let service: ExitService;
+  let vtxoStore: VtxoStore;
+  let isReserved: jest.Mock;
+  let scheduleExit: jest.Mock;
+  let fundAddress: jest.Mock;
+  let roundHeight: number;
+  let journal: RoundJournal;
+
+  const boot = () => {
+    vtxoStore = new VtxoStore(storage);
+    vtxoStore.onModuleInit();
+    journal = new RoundJournal(storage);
+    journal.onModuleInit();
+    const booted = new ExitService(
+      vtxoStore,
+      {
+        isReserved,
+        scheduleExit,
+        getRoundHeight: () => roundHeight,
+      } as unknown as RoundService,
+      journal,
+      { fundAddress } as unknown as BitcoinService,
+      storage,
+    );
+    booted.onModuleInit();
+    booted.onApplicationBootstrap();
+    return booted;
+  };
+
+  beforeEach(() => {
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+    storage = new MemoryLedgerStorage();
+    isReserved = jest.fn().mockReturnValue(false);
+    scheduleExit = jest.fn();
+    fundAddress = jest.fn().mockResolvedValue(funded);
+    roundHeight = 0;
+    service = boot();
+    vtxoStore.addVtxo({ ...coin });
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('should burn the VTXO and fund its address with its amount', async () => {
+    const exit = await service.exit(request);
+
+    expect(fundAddress).toHaveBeenCalledWith(ownerAddress, coin.amount);
+    expect(exit).toEqual({
+      txid: coin.txid,
+      vout: coin.vout,
+      address: ownerAddress,
+      amount: coin.amount,
+      onchain: funded,
+    });
+    expect(vtxoStore.isSpent(coin.txid, coin.vout)).toBe(true);
+    expect(scheduleExit).toHaveBeenCalledWith(
+      expect.objectContaining({ txid: coin.txid, vout: coin.vout }),
+    );
+  });
+
+  it('should reject a request not signed by a spender of the VTXO', async () => {
+    const stranger = ECPair.makeRandom({ network });
+
+    await expect(
+      service.exit(signed(coin.txid, coin.vout, stranger)),
+    ).rejects.toThrow(BadRequestException);
+    await expect(
+      service.exit({ ...signed(coin.txid, 0), vout: coin.vout }),
+    ).rejects.toThrow('is not signed by a spender of the VTXO');
+    expect(vtxoStore.isSpent(coin.txid, coin.vout)).toBe(false);
+    expect(fundAddress).not.toHaveBeenCalled();
+  });
+
+  it('should return the same exit for repeated and concurrent requests', async () => {
+    const [first, second] = await Promise.all([
+      service.exit(request),
+      service.exit(request),
+    ]);
+    const third = await service.exit(request);
+
+    expect(fundAddress).toHaveBeenCalledTimes(1);
+    expect(scheduleExit).toHaveBeenCalledTimes(1);
+    expect(second).toBe(first);
+    expect(third).toBe(first);
+    expect(service.getExit(coin.txid, coin.vout)).toBe(first);
+  });
+
+  it('should retry the funding broadcast after a failure', async () => {
+    fundAddress.mockRejectedValueOnce(new Error('bitcoind down'));
+
+    await expect(service.exit(request)).rejects.toThrow('bitcoind down');
+    expect(vtxoStore.isSpent(coin.txid, coin.vout)).toBe(true);
+    expect(service.getExit(coin.txid, coin.vout)?.onchain).toBeNull();
+
+    await expect(service.exit(request)).resolves.toMatchObject({
+      onchain: funded,
+    });
+    expect(fundAddress).toHaveBeenCalledTimes(2);
+  });
+
+  it('should keep an unfunded exit across a restart and fund it on retry', async () => {
+    fundAddress.mockRejectedValueOnce(new Error('bitcoind down'));
+    await expect(service.exit(request)).rejects.toThrow('bitcoind down');
+
+    scheduleExit.mockClear();
+    const restarted = boot();
+
+    // The burn was never journaled by a round, so the next round commits it
+    expect(scheduleExit).toHaveBeenCalledWith(
+      expect.objectContaining({ txid: coin.txid, vout: coin.vout }),
+    );
+    await expect(restarted.exit(request)).resolves.toMatchObject({
+      onchain: funded,
+    });
+    expect(boot().getExit(coin.txid, coin.vout)?.onchain).toEqual(funded);
+  });
+
+  it('should finish the burn of an exit persisted before a crash', () => {
+    storage.append({
+      type: 'exit.requested',
+      exit: {
+        txid: coin.txid,
+        vout: coin.vout,
+        address: ownerAddress,
+        amount: coin.amount,
+        onchain: null,
+      },
+    });
+
+    boot();
+
+    expect(vtxoStore.isSpent(coin.txid, coin.vout)).toBe(true);
+    expect(scheduleExit).toHaveBeenCalledTimes(1);
+  });
+
+  it('should record the preimage of an exit through a hashlocked leaf', async () => {
+    const maker = ECPair.makeRandom({ network });
+    const preimage = Buffer.from('11'.repeat(32), 'hex');
+    const lock = createSwapLock({
+      makerPubkey: Buffer.from(maker.publicKey.subarray(1, 33)),
+      userPubkey: internalPubkey,
+      preimageHash: createHash('sha256').update(preimage).digest(),
+      timeoutBlocks: 20,
+    });
+    const locked = { ...coin, vout: 2, address: asAddress(lock.address) };
+    vtxoStore.addVtxo(locked);
+    const claimRequest = {
+      ...signed(locked.txid, locked.vout, maker),
+      leafScript: lock.leaves.claim.toString('hex'),
+      controlBlock: lock.controlBlock.toString('hex'),
+    };
+
+    await expect(service.exit(claimRequest)).rejects.toThrow(
+      BadRequestException,
+    );
+    await expect(
+      service.exit({ ...claimRequest, preimage: preimage.toString('hex') }),
+    ).resolves.toMatchObject({ preimage: preimage.toString('hex') });
+    expect(boot().getExit(locked.txid, locked.vout)?.preimage).toBe(
+      preimage.toString('hex'),
+    );
+  });
+
+  it('should reject an exit through the refund leaf before its timeout', async () => {
+    const maker = ECPair.makeRandom({ network });
+    const lock = createSwapLock({
+      makerPubkey: Buffer.from(maker.publicKey.subarray(1, 33)),
+      userPubkey: internalPubkey,
+      preimageHash: createHash('sha256').update('secret').digest(),
+      timeoutBlocks: 20,
+    });
+    const locked = { ...coin, vout: 3, address: asAddress(lock.address) };
+    journal.record({
+      roundId: 'round-4',
+      roundHeight: 4,
+      timestamp: new Date(0).toISOString(),
+      anchorTxid: null,
+      merkleRoot: '0'.repeat(64),
+      lifts: [],
+      transfers: [],
+      created: [locked],
+      spent: [],
+      exits: [],
+      leaves: [],
+    });
+    vtxoStore.addVtxo(locked);
+    const refundRequest = {
+      ...signed(locked.txid, locked.vout, owner),
+      leafScript: lock.leaves.refund.toString('hex'),
+      controlBlock: lock.controlBlockRefund.toString('hex'),
+    };
+
+    roundHeight = 23;
+    await expect(service.exit(refundRequest)).rejects.toThrow(
+      'is not mature: 19 of 20 rounds',
+    );
+    expect(vtxoStore.isSpent(locked.txid, locked.vout)).toBe(false);
+    expect(fundAddress).not.toHaveBeenCalled();
+
+    roundHeight = 24;
+    await expect(service.exit(refundRequest)).resolves.toMatchObject({
+      onchain: funded,
+    });
+    expect(vtxoStore.isSpent(locked.txid, locked.vout)).toBe(true);
+  });
+
+  it('should reject unknown, spent and reserved VTXOs', async () => {
+    await expect(service.exit(signed('b'.repeat(64), 0))).rejects.toThrow(
+      NotFoundException,
+    );
+
+    isReserved.mockReturnValueOnce(true);
+    await expect(service.exit(request)).rejects.toThrow(ConflictException);
+    expect(vtxoStore.isSpent(coin.txid, coin.vout)).toBe(false);
+
+    vtxoStore.markSpent(coin.txid, coin.vout);
+    await expect(service.exit(request)).rejects.toThrow('VTXO already spent');
+    expect(fundAddress).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,208 @@
+import {
+  BadRequestException,
+  ConflictException,
+  Inject,
+  Injectable,
+  NotFoundException,
+  OnApplicationBootstrap,
+  OnModuleInit,
+  Optional,
+} from '@nestjs/common';
+import {
+  getExitTimelock,
+  verifyExitSignature,
+  type ECCLibrary,
+  type ExitRequest,
+} from '@arkswap/protocol';
+import { VtxoStore, toOutpointKey } from '../vtxo-store.service';
+import { RoundService } from '../round.service';
+import { RoundJournal } from '../rounds/round-journal.service';
+import { BitcoinService } from '../bitcoin/bitcoin.service';
+import { loadNetwork } from '../bitcoin/network';
+import { LEDGER_STORAGE, type LedgerStorage } from '../storage/ledger-storage';
+import { MemoryLedgerStorage } from '../storage/memory-ledger.storage';
+
+export interface VtxoExit {
+  txid: string;
+  vout: number;
+  address: string;
+  amount: number;
+  // On-chain outpoint paying amount to address (null until the funding broadcast succeeds)
+  onchain: { txid: string; vout: number } | null;
+  // Preimage of the hashlocked leaf the exit was signed through, published like
+  // a claim's witness so the counterparty of a swap lock learns it
+  preimage?: string;
+}
+
+/**
+ * Unilateral exits: moves a VTXO on-chain to the same address and amount
+ *
+ * The request must be signed by someone who can spend the VTXO (see
+ * verifyExitSignature): its owner, or the signer of one of its leaves, e.g. the
+ * user of a swap lock refunding through its refund leaf. A leaf with a relative
+ * timelock is only accepted once the VTXO is as many rounds old, as a transfer
+ * through it would be (see TransferService.verifyScriptPath). The output script is
+ * unchanged, so only the script's spenders can move the funds afterwards. An
+ * exit through a hashlocked leaf carries its preimage, so exiting a swap lock
+ * reveals the preimage as claiming it would.
+ *
+ * The exit is persisted before the VTXO is burned, and the burn is committed by
+ * the next round, so a restart or a failed funding broadcast never loses it:
+ * the next request for the same VTXO retries the funding.
+ */
+@Injectable()
+export class ExitService implements OnModuleInit, OnApplicationBootstrap {
+  private ecc: ECCLibrary;
+  private readonly network = loadNetwork();
+  private exits = new Map<string, VtxoExit>();
+  // Funding broadcasts in flight, so concurrent requests do not pay twice
+  private funding = new Map<string, Promise<VtxoExit>>();
+
+  constructor(
+    private readonly vtxoStore: VtxoStore,
+    private readonly roundService: RoundService,
+    private readonly roundJournal: RoundJournal,
+    private readonly bitcoinService: BitcoinService,
+    @Optional()
+    @Inject(LEDGER_STORAGE)
+    private readonly storage: LedgerStorage = new MemoryLedgerStorage(),
+  ) {}
+
+  /**
+   * Rebuilds the exits from the persisted ledger
+   */
+  onModuleInit() {
+    // eslint-disable-next-line @typescript-eslint/no-require-imports, @typescript-eslint/no-var-requires
+    const rawEcc = require('@bitcoinerlab/secp256k1');
+    this.ecc = (rawEcc.default || rawEcc) as ECCLibrary;
+
+    this.exits.clear();
+    for (const event of this.storage.load()) {
+      if (event.type === 'exit.requested') {
+        this.exits.set(toOutpointKey(event.exit.txid, event.exit.vout), {
+          ...event.exit,
+        });
+      } else if (event.type === 'exit.funded') {
+        const exit = this.exits.get(toOutpointKey(event.txid, event.vout));
+        if (exit) {
+          exit.onchain = event.onchain;
+        }
+      }
+    }
+  }
+
+  /**
+   * Finishes exits interrupted by a restart: burns VTXOs whose exit was
+   * persisted but not applied, and commits every burn no round journaled yet
+   * (runs once every store has replayed the ledger in onModuleInit)
+   */
+  onApplicationBootstrap() {
+    for (const exit of this.exits.values()) {
+      if (this.roundJournal.findExit(exit.txid, exit.vout)) {
+        continue;
+      }
+      const vtxo = this.vtxoStore.getVtxo(exit.txid, exit.vout);
+      if (!vtxo) {
+        continue;
+      }
+      if (!vtxo.spent) {
+        this.vtxoStore.markSpent(exit.txid, exit.vout);
+      }
+      this.roundService.scheduleExit(vtxo);
+    }
+  }
+
+  /**
+   * Exits a VTXO, or returns its exit if already requested
+   * A failed funding broadcast is retried on the next request (the VTXO stays burned).
+   * @throws NotFoundException if the VTXO is unknown
+   * @throws BadRequestException if the request is not signed by a spender of the
+   * VTXO, its leaf's timelock has not expired yet, or the VTXO was spent on the
+   * ledger
+   * @throws ConflictException if the VTXO is an input of a pending transfer
+   */
+  async exit(request: ExitRequest): Promise<VtxoExit> {
+    const { txid, vout } = request;
+    const key = toOutpointKey(txid, vout);
+
+    // No await until the VTXO is burned: the checks and markSpent happen atomically
+    const vtxo = this.vtxoStore.getVtxo(txid, vout);
+    if (!vtxo) {
+      throw new NotFoundException(`VTXO not found: ${key}`);
+    }
+    if (!verifyExitSignature(this.ecc, request, vtxo.address, this.network)) {
+      throw new BadRequestException(
+        `Exit of ${key} is not signed by a spender of the VTXO`,
+      );
+    }
+
+    let exit = this.exits.get(key);
+    if (!exit) {
+      if (vtxo.spent) {
+        throw new BadRequestException(`VTXO already spent: ${key}`);
+      }
+      if (this.roundService.isReserved(txid, vout)) {
+        throw new ConflictException(
+          `VTXO ${key} is an input of a pending transfer`,
+        );
+      }
+      // Age in rounds at the round that commits the burn, like a transfer's input
+      const timelock = getExitTimelock(request);
+      const created = this.roundJournal.findCreated(txid, vout);
+      const age = created
+        ? this.roundService.getRoundHeight() - created.roundHeight
+        : 0;
+      if (age < timelock) {
+        throw new BadRequestException(
+          `Exit of ${key} through a timelocked leaf is not mature: ${age} of ${timelock} rounds`,
+        );
+      }
+
+      exit = {
+        txid,
+        vout,
+        address: vtxo.address,
+        amount: vtxo.amount,
+        onchain: null,
+        ...(request.preimage && { preimage: request.preimage.toLowerCase() }),
+      };
+      // Intent first: a crash after the burn is finished on the next boot
+      this.storage.append({ type: 'exit.requested', exit: { ...exit } });
+      this.exits.set(key, exit);
+      this.vtxoStore.markSpent(txid, vout);
+      this.roundService.scheduleExit(vtxo);
+    }
+
+    if (exit.onchain) {
+      return exit;
+    }
+    let pending = this.funding.get(key);
+    if (!pending) {
+      pending = this.fund(exit).finally(() => this.funding.delete(key));
+      this.funding.set(key, pending);
+    }
+    return pending;
+  }
+
+  getExit(txid: string, vout: number): VtxoExit | undefined {
+    return this.exits.get(toOutpointKey(txid, vout));
+  }
+
+  private async fund(exit: VtxoExit): Promise<VtxoExit> {
+    const onchain = await this.bitcoinService.fundAddress(
+      exit.address,
+      exit.amount,
+    );
+    this.storage.append({
+      type: 'exit.funded',
+      txid: exit.txid,
+      vout: exit.vout,
+      onchain,
+    });
+    exit.onchain = onchain;
+    console.log(
+      `🚪 Exited VTXO ${exit.txid}:${exit.vout} to ${onchain.txid}:${onchain.vout}`,
+    );
+    return exit;
+  }
+}
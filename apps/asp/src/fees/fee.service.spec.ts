@@ -0,0 +1,102 @@
+import type { ArkTransaction } from '@arkswap/protocol';
+import {
+  RoundJournal,
+  type RoundRecord,
+} from '../rounds/round-journal.service';
+import { FeeService, loadFeeSchedule } from './fee.service';
+
+describe('FeeService', () => {
+  const env = process.env;
+
+  const withFeeEnv = (overrides: Record<string, string> = {}) => {
+    process.env = { ...env };
+    delete process.env.ASP_FEE_BASE;
+    delete process.env.ASP_FEE_PER_INPUT;
+    delete process.env.ASP_FEE_PER_OUTPUT;
+    Object.assign(process.env, overrides);
+  };
+
+  const roundWithFees = (roundHeight: number, fees: number[]): RoundRecord => ({
+    roundId: `round-${roundHeight}`,
+    roundHeight,
+    timestamp: '2024-01-01T00:00:00.000Z',
+    anchorTxid: null,
+    merkleRoot: '0'.repeat(64),
+    lifts: [],
+    transfers: fees.map((fee, index) => ({
+      transferId: `${roundHeight}-${index}`,
+      inputs: [],
+      outputs: [],
+      fee,
+    })),
+    created: [],
+    spent: [],
+    exits: [],
+    leaves: [],
+  });
+
+  afterEach(() => {
+    process.env = env;
+  });
+
+  describe('schedule', () => {
+    it('should default to 10 sats plus 5 per input and output', () => {
+      withFeeEnv();
+
+      expect(loadFeeSchedule()).toEqual({
+        baseFee: 10,
+        perInput: 5,
+        perOutput: 5,
+      });
+    });
+
+    it('should allow a zero fee schedule', () => {
+      withFeeEnv({
+        ASP_FEE_BASE: '0',
+        ASP_FEE_PER_INPUT: '0',
+        ASP_FEE_PER_OUTPUT: '0',
+      });
+
+      expect(loadFeeSchedule()).toEqual({
+        baseFee: 0,
+        perInput: 0,
+        perOutput: 0,
+      });
+    });
+
+    it('should reject negative or fractional fees', () => {
+      withFeeEnv({ ASP_FEE_PER_INPUT: '-1' });
+      expect(() => loadFeeSchedule()).toThrow('must be non-negative integers');
+
+      withFeeEnv({ ASP_FEE_BASE: '0.5' });
+      expect(() => loadFeeSchedule()).toThrow('must be non-negative integers');
+    });
+  });
+
+  it('should price a transfer by its inputs and outputs', () => {
+    withFeeEnv({ ASP_FEE_BASE: '100' });
+    const fees = new FeeService(new RoundJournal());
+
+    const tx = {
+      inputs: [{}, {}],
+      outputs: [{}, {}, {}],
+    } as unknown as ArkTransaction;
+
+    expect(fees.getRequiredFee(tx)).toBe(100 + 2 * 5 + 3 * 5);
+  });
+
+  it('should sum the fees kept in every journaled round', () => {
+    withFeeEnv();
+    const journal = new RoundJournal();
+    journal.record(roundWithFees(0, [25, 15]));
+    // Empty rounds are not journaled
+    journal.record(roundWithFees(1, []));
+    journal.record(roundWithFees(2, [30]));
+
+    expect(new FeeService(journal).getEarned()).toEqual({
+      total: 70,
+      transfers: 3,
+      rounds: 2,
+    });
+  });
+});
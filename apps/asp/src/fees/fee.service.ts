@@ -0,0 +1,68 @@
+import { Injectable, Logger } from '@nestjs/common';
+import type { ArkTransaction, FeeSchedule } from '@arkswap/protocol';
+import { FeeScheduleSchema, getRequiredFee } from '@arkswap/protocol';
+import { RoundJournal } from '../rounds/round-journal.service';
+
+export interface FeesEarned {
+  total: number;
+  transfers: number;
+  rounds: number;
+}
+
+/**
+ * Reads the transfer fee schedule from the environment (all values in sats)
+ * - ASP_FEE_BASE: flat fee per transfer (default 10)
+ * - ASP_FEE_PER_INPUT: fee per spent VTXO (default 5)
+ * - ASP_FEE_PER_OUTPUT: fee per created VTXO (default 5)
+ */
+export function loadFeeSchedule(): FeeSchedule {
+  const parsed = FeeScheduleSchema.safeParse({
+    baseFee: Number(process.env.ASP_FEE_BASE || 10),
+    perInput: Number(process.env.ASP_FEE_PER_INPUT || 5),
+    perOutput: Number(process.env.ASP_FEE_PER_OUTPUT || 5),
+  });
+  if (!parsed.success) {
+    throw new Error(
+      'ASP_FEE_BASE, ASP_FEE_PER_INPUT and ASP_FEE_PER_OUTPUT must be non-negative integers',
+    );
+  }
+  return parsed.data;
+}
+
+/**
+ * Fee Service
+ * Publishes the fee schedule and accounts for the fees kept from finalized transfers.
+ */
+@Injectable()
+export class FeeService {
+  private readonly logger = new Logger(FeeService.name);
+  private readonly schedule: FeeSchedule;
+
+  constructor(private readonly roundJournal: RoundJournal) {
+    this.schedule = loadFeeSchedule();
+    this.logger.log(
+      `💸 Transfer fees: ${this.schedule.baseFee} + ${this.schedule.perInput}/input + ${this.schedule.perOutput}/output sats`,
+    );
+  }
+
+  getSchedule(): FeeSchedule {
+    return { ...this.schedule };
+  }
+
+  getRequiredFee(tx: ArkTransaction): number {
+    return getRequiredFee(this.schedule, tx.inputs.length, tx.outputs.length);
+  }
+
+  /**
+   * Fees kept from every transfer in the round journal
+   */
+  getEarned(): FeesEarned {
+    const { rounds } = this.roundJournal.list(Number.MAX_SAFE_INTEGER, 0);
+    const transfers = rounds.flatMap((round) => round.transfers);
+    return {
+      total: transfers.reduce((sum, transfer) => sum + transfer.fee, 0),
+      transfers: transfers.length,
+      rounds: rounds.length,
+    };
+  }
+}
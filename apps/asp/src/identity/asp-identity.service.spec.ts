@@ -0,0 +1,81 @@
+import { mkdtempSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import * as ecc from '@bitcoinerlab/secp256k1';
+import type { ECCLibrary } from '@arkswap/protocol';
+import { getRoundSummaryHash, verifyAspSignature } from '@arkswap/protocol';
+import { AspIdentityService } from './asp-identity.service';
+
+describe('AspIdentityService', () => {
+  const env = process.env;
+  let dir: string;
+
+  const boot = (overrides: Record<string, string> = {}) => {
+    process.env = { ...env };
+    delete process.env.ASP_IDENTITY_KEY;
+    delete process.env.ASP_IDENTITY_PATH;
+    Object.assign(process.env, overrides);
+    const identity = new AspIdentityService();
+    identity.onModuleInit();
+    return identity;
+  };
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), 'asp-identity-'));
+  });
+
+  afterEach(() => {
+    process.env = env;
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('should publish an x-only pubkey that verifies its signatures', () => {
+    const identity = boot();
+    const hash = getRoundSummaryHash({
+      roundId: 'round-1',
+      roundHeight: 0,
+      timestamp: '2024-01-01T00:00:00.000Z',
+      anchorTxid: null,
+      merkleRoot: '0'.repeat(64),
+      vtxoCount: 0,
+    });
+
+    expect(identity.getPubkey()).toMatch(/^[0-9a-f]{64}$/);
+    expect(
+      verifyAspSignature(
+        ecc as ECCLibrary,
+        identity.getPubkey(),
+        hash,
+        identity.sign(hash),
+      ),
+    ).toBe(true);
+  });
+
+  it('should generate the key file once and reuse it after a restart', () => {
+    const keyPath = join(dir, 'nested', 'identity.key');
+
+    const first = boot({ ASP_IDENTITY_PATH: keyPath });
+    const second = boot({ ASP_IDENTITY_PATH: keyPath });
+
+    expect(second.getPubkey()).toBe(first.getPubkey());
+  });
+
+  it('should prefer ASP_IDENTITY_KEY over the key file', () => {
+    const keyPath = join(dir, 'identity.key');
+    writeFileSync(keyPath, '11'.repeat(32));
+
+    const fromFile = boot({ ASP_IDENTITY_PATH: keyPath });
+    const fromEnv = boot({
+      ASP_IDENTITY_PATH: keyPath,
+      ASP_IDENTITY_KEY: '22'.repeat(32),
+    });
+
+    expect(fromEnv.getPubkey()).not.toBe(fromFile.getPubkey());
+  });
+
+  it('should reject an invalid key', () => {
+    expect(() => boot({ ASP_IDENTITY_KEY: '00'.repeat(32) })).toThrow(
+      'Invalid ASP identity key in ASP_IDENTITY_KEY',
+    );
+  });
+});
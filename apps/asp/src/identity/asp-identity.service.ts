@@ -0,0 +1,106 @@
+import { Injectable, Logger, OnModuleInit } from '@nestjs/common';
+import { randomBytes } from 'crypto';
+import { existsSync, mkdirSync, readFileSync, writeFileSync } from 'fs';
+import { dirname } from 'path';
+import type { ECCLibrary } from '@arkswap/protocol';
+
+interface IdentityEcc extends ECCLibrary {
+  isPrivate(d: Uint8Array): boolean;
+  pointFromScalar(d: Uint8Array, compressed?: boolean): Uint8Array | null;
+}
+
+/**
+ * ASP Identity Key
+ * The secp256k1 key the ASP signs its statements with (round summaries, transfer
+ * receipts, genesis responses). Clients pin the x-only pubkey from /v1/info.
+ *
+ * Key source, in order:
+ * - ASP_IDENTITY_KEY: 32-byte hex private key
+ * - ASP_IDENTITY_PATH: hex key file, generated on first start and reused afterwards
+ * - otherwise an ephemeral key (a new identity on every restart)
+ */
+@Injectable()
+export class AspIdentityService implements OnModuleInit {
+  private readonly logger = new Logger(AspIdentityService.name);
+  private ecc: IdentityEcc;
+  private privateKey: Buffer;
+  private pubkey: string;
+
+  onModuleInit() {
+    // eslint-disable-next-line @typescript-eslint/no-require-imports, @typescript-eslint/no-var-requires
+    const rawEcc = require('@bitcoinerlab/secp256k1');
+    this.ecc = (rawEcc.default || rawEcc) as IdentityEcc;
+
+    this.privateKey = this.loadPrivateKey();
+    const point = this.ecc.pointFromScalar(this.privateKey, true);
+    if (!point) {
+      throw new Error('Invalid ASP identity key');
+    }
+    this.pubkey = Buffer.from(point).subarray(1).toString('hex');
+
+    this.logger.log(`🔑 ASP identity pubkey: ${this.pubkey}`);
+  }
+
+  /**
+   * x-only (BIP-340) public key, 64 hex characters
+   */
+  getPubkey(): string {
+    return this.pubkey;
+  }
+
+  /**
+   * Schnorr-signs a 32-byte attestation hash (see @arkswap/protocol attestation helpers)
+   * @returns 64-byte signature as hex
+   */
+  sign(hashHex: string): string {
+    const hash = Buffer.from(hashHex, 'hex');
+    if (hash.length !== 32) {
+      throw new Error('Attestation hash must be 32 bytes');
+    }
+    return Buffer.from(this.ecc.signSchnorr(hash, this.privateKey)).toString(
+      'hex',
+    );
+  }
+
+  private loadPrivateKey(): Buffer {
+    if (process.env.ASP_IDENTITY_KEY) {
+      return this.parseKey(process.env.ASP_IDENTITY_KEY, 'ASP_IDENTITY_KEY');
+    }
+
+    const keyPath = process.env.ASP_IDENTITY_PATH;
+    if (!keyPath) {
+      this.logger.warn(
+        'No ASP_IDENTITY_KEY or ASP_IDENTITY_PATH set, using an ephemeral identity key',
+      );
+      return this.generateKey();
+    }
+
+    if (existsSync(keyPath)) {
+      return this.parseKey(readFileSync(keyPath, 'utf8').trim(), keyPath);
+    }
+
+    const key = this.generateKey();
+    mkdirSync(dirname(keyPath), { recursive: true });
+    writeFileSync(keyPath, key.toString('hex') + '\n', { mode: 0o600 });
+    this.logger.log(`Generated new ASP identity key at ${keyPath}`);
+    return key;
+  }
+
+  private parseKey(hex: string, source: string): Buffer {
+    const key = Buffer.from(hex, 'hex');
+    if (!/^[0-9a-fA-F]{64}$/.test(hex) || !this.ecc.isPrivate(key)) {
+      throw new Error(
+        `Invalid ASP identity key in ${source}: expected a 32-byte hex secp256k1 key`,
+      );
+    }
+    return key;
+  }
+
+  private generateKey(): Buffer {
+    let key = randomBytes(32);
+    while (!this.ecc.isPrivate(key)) {
+      key = randomBytes(32);
+    }
+    return key;
+  }
+}
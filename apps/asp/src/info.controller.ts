@@ -1,16 +1,23 @@
 import { Controller, Get } from '@nestjs/common';
 import { RoundService } from './round.service';
 import { BitcoinService } from './bitcoin/bitcoin.service';
+import { RoundScheduler } from './rounds/round-scheduler.service';
+import { AspIdentityService } from './identity/asp-identity.service';
+import { FeeService } from './fees/fee.service';
+import { TransferService } from './transfer.service';
+import { loadNetwork } from './bitcoin/network';
 
 @Controller('v1')
 export class InfoController {
-  // Hardcoded pubkey for now
-  private readonly pubkey =
-    '02a1b2c3d4e5f6a7b8c9d0e1f2a3b4c5d6e7f8a9b0c1d2e3f4a5b6c7d8e9f0a1b2c';
+  private readonly network = loadNetwork();
 
   constructor(
     private readonly roundService: RoundService,
     private readonly bitcoinService: BitcoinService,
+    private readonly roundScheduler: RoundScheduler,
+    private readonly identity: AspIdentityService,
+    private readonly feeService: FeeService,
+    private readonly transferService: TransferService,
   ) {}
 
   @Get('info')
@@ -18,11 +25,20 @@ export class InfoController {
     // Get the ASP's wallet address (used for round anchor transactions)
     const address = await this.bitcoinService.getNewAddress();
 
+    const { mode, intervalMs, paused } = this.roundScheduler.getStatus();
+
     return {
       address,
-      pubkey: this.pubkey,
-      roundInterval: 5000,
-      network: 'regtest',
+      // x-only identity key that signs rounds, receipts and genesis responses
+      pubkey: this.identity.getPubkey(),
+      roundInterval: intervalMs,
+      roundMode: mode,
+      roundsPaused: paused,
+      // Minimum transfer fee: baseFee + perInput * inputs + perOutput * outputs
+      fees: this.feeService.getSchedule(),
+      // 1 = legacy getTxHash signatures (deprecated), 2 = BIP-341 sighashes
+      txVersions: this.transferService.getAcceptedVersions(),
+      network: this.network,
       currentBlock: this.roundService.getRoundHeight(),
     };
   }
@@ -1,6 +1,16 @@
-import { Controller, Post, Get, Body, Param } from '@nestjs/common';
+import {
+  Controller,
+  Post,
+  Get,
+  Body,
+  NotFoundException,
+  Param,
+  ParseIntPipe,
+} from '@nestjs/common';
 import { RoundService } from '../round.service';
 import { VtxoStore } from '../vtxo-store.service';
+import { RoundScheduler } from '../rounds/round-scheduler.service';
+import { RoundJournal } from '../rounds/round-journal.service';
 
 interface LiftRequestDto {
   address: string;
@@ -12,6 +22,8 @@ export class LiftController {
   constructor(
     private readonly roundService: RoundService,
     private readonly vtxoStore: VtxoStore,
+    private readonly roundScheduler: RoundScheduler,
+    private readonly roundJournal: RoundJournal,
   ) {}
 
   @Post('lift')
@@ -26,12 +38,48 @@ export class LiftController {
 
     return {
       status: 'queued',
-      nextRound: '5s',
+      nextRound: this.roundScheduler.getNextRoundHint(),
     };
   }
 
+  /**
+   * VTXOs ever paid to an address, spent ones included
+   * - roundHeight: height of the round that created the VTXO, where its relative
+   *   lock times start (null if no journaled round created it)
+   * - pending: a queued transfer spends it, so it is spent once that round finalizes
+   */
   @Get('vtxos/:address')
   getVtxos(@Param('address') address: string) {
-    return this.vtxoStore.getForAddress(address);
+    return this.vtxoStore.getForAddress(address).map((vtxo) => ({
+      ...vtxo,
+      roundHeight:
+        this.roundJournal.findCreated(vtxo.txid, vtxo.vout)?.roundHeight ??
+        null,
+      pending: this.roundService.isReserved(vtxo.txid, vtxo.vout),
+    }));
+  }
+
+  /**
+   * The journaled transfer that spent a VTXO, with the witness of the spending
+   * input (null for a key-path spend), so a swap maker watching a lock learns
+   * the preimage its claim revealed
+   */
+  @Get('vtxos/:txid/:vout/spend')
+  getSpend(
+    @Param('txid') txid: string,
+    @Param('vout', ParseIntPipe) vout: number,
+  ) {
+    const spend = this.roundJournal.findSpend(txid, vout);
+    if (!spend) {
+      throw new NotFoundException(`No journaled spend of VTXO ${txid}:${vout}`);
+    }
+    return {
+      txid,
+      vout,
+      transferId: spend.transfer.transferId,
+      roundId: spend.round.roundId,
+      roundHeight: spend.round.roundHeight,
+      witness: spend.input.witness ?? null,
+    };
   }
 }
@@ -1,7 +1,10 @@
 import { NestFactory } from '@nestjs/core';
 import { AppModule } from './app.module';
+import { loadNetwork } from './bitcoin/network';
 
 async function bootstrap() {
+  // Refuses mainnet before anything touches keys or the ledger
+  const network = loadNetwork();
   const app = await NestFactory.create(AppModule);
 
   // Enable CORS for development
@@ -14,6 +17,6 @@ async function bootstrap() {
   });
 
   await app.listen(7070);
-  console.log('ASP is running on: http://localhost:7070');
+  console.log(`ASP is running on: http://localhost:7070 (${network})`);
 }
 bootstrap();
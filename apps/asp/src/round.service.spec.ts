@@ -0,0 +1,414 @@
+import { ConflictException, NotFoundException } from '@nestjs/common';
+import type { ArkTransaction, Vtxo } from '@arkswap/protocol';
+import {
+  asAddress,
+  asSignatureHex,
+  decodeRoundCommitment,
+  verifyMerkleProof,
+} from '@arkswap/protocol';
+import { RoundService } from './round.service';
+import { VtxoStore } from './vtxo-store.service';
+import { TransferService } from './transfer.service';
+import { AssetStore } from './assets/asset.store';
+import { BitcoinService } from './bitcoin/bitcoin.service';
+import { RoundJournal } from './rounds/round-journal.service';
+import { MemoryLedgerStorage } from './storage/memory-ledger.storage';
+import {
+  ReplaceByHigherAmountPolicy,
+  type ConflictPolicy,
+} from './rounds/conflict-policy';
+
+describe('RoundService', () => {
+  const alice = asAddress('bcrt1p' + 'a'.repeat(58));
+  const bob = asAddress('bcrt1p' + 'b'.repeat(58));
+
+  let service: RoundService;
+  let vtxoStore: VtxoStore;
+  let broadcastHeartbeat: jest.Mock;
+  let journal: RoundJournal;
+
+  const createService = (conflictPolicy?: ConflictPolicy) =>
+    new RoundService(
+      vtxoStore,
+      {
+        validateTransaction: jest.fn().mockResolvedValue(undefined),
+      } as unknown as TransferService,
+      new AssetStore(),
+      { broadcastHeartbeat } as unknown as BitcoinService,
+      journal,
+      conflictPolicy,
+    );
+
+  beforeEach(() => {
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+    vtxoStore = new VtxoStore();
+    broadcastHeartbeat = jest.fn().mockResolvedValue('f'.repeat(64));
+    journal = new RoundJournal();
+    service = createService();
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  const spend = (inputs: Vtxo[], amount: number): ArkTransaction => ({
+    inputs: inputs.map(({ txid, vout }) => ({
+      txid,
+      vout,
+      signature: asSignatureHex('0'.repeat(128)),
+    })),
+    outputs: [{ address: bob, amount }],
+  });
+
+  const fundAlice = async (target: RoundService, ...amounts: number[]) => {
+    amounts.forEach((amount) => target.scheduleLift(alice, amount));
+    await target.handleRound();
+    return vtxoStore.getUnspentForAddress(alice);
+  };
+
+  describe('round commitment', () => {
+    it('should anchor the Merkle root, round number and VTXO count', async () => {
+      const roundId = service.getCurrentRoundId();
+      service.scheduleLift(alice, 1000);
+      service.scheduleLift(bob, 2000);
+
+      await service.handleRound();
+
+      const [payload] = broadcastHeartbeat.mock.calls[0];
+      const commitment = decodeRoundCommitment(payload);
+      const [vtxo] = vtxoStore.getForAddress(alice);
+      const { merkleRoot, anchorTxid } = service.getRoundProof(
+        roundId,
+        vtxo.txid,
+        vtxo.vout,
+      );
+
+      expect(commitment).toEqual({
+        version: 1,
+        roundHeight: 0,
+        vtxoCount: 2,
+        merkleRoot,
+      });
+      expect(anchorTxid).toBe('f'.repeat(64));
+    });
+
+    it('should prove both spent inputs and issued outputs of a transfer', async () => {
+      service.scheduleLift(alice, 1000);
+      await service.handleRound();
+      const [input] = vtxoStore.getForAddress(alice);
+
+      const tx: ArkTransaction = {
+        inputs: [
+          {
+            txid: input.txid,
+            vout: input.vout,
+            signature: asSignatureHex('0'.repeat(128)),
+          },
+        ],
+        outputs: [
+          { address: bob, amount: 600 },
+          { address: alice, amount: 400 },
+        ],
+      };
+      const roundId = service.getCurrentRoundId();
+      await service.submitTx(tx);
+      await service.handleRound();
+
+      const spent = service.getRoundProof(roundId, input.txid, input.vout);
+      const [output] = vtxoStore.getForAddress(bob);
+      const issued = service.getRoundProof(roundId, output.txid, output.vout);
+
+      expect(spent.kind).toBe('spent');
+      expect(issued.kind).toBe('issued');
+      expect(issued.vtxoCount).toBe(3);
+      expect(verifyMerkleProof(spent.proof, spent.merkleRoot)).toBe(true);
+      expect(verifyMerkleProof(issued.proof, issued.merkleRoot)).toBe(true);
+    });
+
+    it('should keep the commitment when the anchor broadcast fails', async () => {
+      jest.spyOn(console, 'error').mockImplementation(() => undefined);
+      broadcastHeartbeat.mockRejectedValueOnce(new Error('bitcoind down'));
+      const roundId = service.getCurrentRoundId();
+      service.scheduleLift(alice, 1000);
+
+      await service.handleRound();
+
+      const [vtxo] = vtxoStore.getForAddress(alice);
+      const proof = service.getRoundProof(roundId, vtxo.txid, vtxo.vout);
+      expect(proof.anchorTxid).toBeNull();
+      expect(verifyMerkleProof(proof.proof, proof.merkleRoot)).toBe(true);
+    });
+
+    it('should reject unknown rounds and outpoints', async () => {
+      const roundId = service.getCurrentRoundId();
+      await service.handleRound();
+
+      expect(() => service.getRoundProof('missing', 'a'.repeat(64), 0)).toThrow(
+        NotFoundException,
+      );
+      expect(() => service.getRoundProof(roundId, 'a'.repeat(64), 0)).toThrow(
+        NotFoundException,
+      );
+    });
+  });
+
+  describe('round journal', () => {
+    it('should record lifts, transfers and the VTXOs they created and spent', async () => {
+      service.scheduleLift(alice, 1000);
+      await service.handleRound();
+      const [input] = vtxoStore.getForAddress(alice);
+
+      const roundId = service.getCurrentRoundId();
+      const { transferId } = await service.submitTx({
+        inputs: [
+          {
+            txid: input.txid,
+            vout: input.vout,
+            signature: asSignatureHex('0'.repeat(128)),
+          },
+        ],
+        outputs: [{ address: bob, amount: 990 }],
+      });
+      await service.handleRound();
+
+      const round = journal.get(roundId);
+      const [output] = vtxoStore.getForAddress(bob);
+
+      expect(round).toMatchObject({
+        roundId,
+        roundHeight: 1,
+        anchorTxid: 'f'.repeat(64),
+        lifts: [],
+        transfers: [
+          {
+            transferId,
+            inputs: [{ txid: input.txid, vout: input.vout }],
+            outputs: [{ txid: output.txid, vout: output.vout }],
+            fee: 10,
+          },
+        ],
+        created: [{ ...output, spent: false }],
+        spent: [{ txid: input.txid, vout: input.vout }],
+      });
+      expect(journal.list(10, 0).rounds[1].lifts).toEqual([
+        { address: alice, amount: 1000, txid: input.txid },
+      ]);
+    });
+
+    it('should journal script-path witnesses and find the transfer that spent a VTXO', async () => {
+      service.scheduleLift(alice, 1000);
+      await service.handleRound();
+      const [input] = vtxoStore.getForAddress(alice);
+      const witness = {
+        leafScript: 'a8'.repeat(4),
+        controlBlock: 'c0' + '1'.repeat(64),
+        stack: ['d'.repeat(64)],
+      };
+
+      const { transferId } = await service.submitTx({
+        inputs: [
+          {
+            txid: input.txid,
+            vout: input.vout,
+            signature: asSignatureHex('0'.repeat(128)),
+            witness,
+          },
+        ],
+        outputs: [{ address: bob, amount: 990 }],
+      });
+      expect(journal.findSpend(input.txid, input.vout)).toBeUndefined();
+      await service.handleRound();
+
+      expect(journal.findSpend(input.txid, input.vout)).toMatchObject({
+        round: { roundHeight: 1 },
+        transfer: { transferId },
+        input: { txid: input.txid, vout: input.vout, witness },
+      });
+      const [output] = vtxoStore.getForAddress(bob);
+      expect(journal.findSpend(output.txid, output.vout)).toBeUndefined();
+    });
+
+    it('should page through rounds newest first', async () => {
+      for (let i = 0; i < 5; i++) {
+        service.scheduleLift(alice, 1000);
+        await service.handleRound();
+      }
+
+      const page = journal.list(2, 1);
+
+      expect(page.total).toBe(5);
+      expect(page.rounds.map((round) => round.roundHeight)).toEqual([3, 2]);
+      expect(
+        journal.list(10, 4).rounds.map((round) => round.roundHeight),
+      ).toEqual([0]);
+      expect(journal.list(10, 5).rounds).toEqual([]);
+    });
+
+    it('should commit and journal the burn of an exited VTXO', async () => {
+      const [coin] = await fundAlice(service, 1000);
+      vtxoStore.markSpent(coin.txid, coin.vout);
+
+      service.scheduleExit(coin);
+      const round = await service.handleRound();
+
+      expect(round.exits).toEqual([{ txid: coin.txid, vout: coin.vout }]);
+      expect(round.spent).toEqual([{ txid: coin.txid, vout: coin.vout }]);
+      expect(round.leaves).toEqual([
+        expect.objectContaining({ kind: 'spent', txid: coin.txid }),
+      ]);
+      expect(journal.findExit(coin.txid, coin.vout)).toBe(round);
+    });
+
+    it('should not journal empty rounds', async () => {
+      await service.handleRound();
+      service.scheduleLift(alice, 1000);
+      await service.handleRound();
+      await service.handleRound();
+
+      expect(
+        journal.list(10, 0).rounds.map((round) => round.roundHeight),
+      ).toEqual([1]);
+      expect(service.getRoundHeight()).toBe(3);
+    });
+
+    it('should continue round numbering after a restart', async () => {
+      const storage = new MemoryLedgerStorage();
+      const boot = () => {
+        const replayed = new RoundJournal(storage);
+        replayed.onModuleInit();
+        const restarted = new RoundService(
+          new VtxoStore(storage),
+          {} as TransferService,
+          new AssetStore(storage),
+          { broadcastHeartbeat } as unknown as BitcoinService,
+          replayed,
+        );
+        restarted.onApplicationBootstrap();
+        return { restarted, replayed };
+      };
+
+      const first = boot();
+      first.restarted.scheduleLift(alice, 1000);
+      await first.restarted.handleRound();
+      first.restarted.scheduleLift(alice, 1000);
+      await first.restarted.handleRound();
+
+      const second = boot();
+
+      expect(second.replayed.list(10, 0).total).toBe(2);
+      expect(second.restarted.getRoundHeight()).toBe(2);
+    });
+  });
+
+  describe('pending conflicts', () => {
+    it('should reject a second transfer spending the same VTXO in one round', async () => {
+      const [coin] = await fundAlice(service, 1000);
+
+      await service.submitTx(spend([coin], 1000));
+      await expect(
+        service.submitTx({
+          ...spend([coin], 1000),
+          outputs: [{ address: alice, amount: 1000 }],
+        }),
+      ).rejects.toThrow(ConflictException);
+
+      await service.handleRound();
+
+      expect(vtxoStore.getUnspentForAddress(bob)).toHaveLength(1);
+      expect(vtxoStore.getUnspentForAddress(alice)).toHaveLength(0);
+    });
+
+    it('should reject resubmitting the same transfer', async () => {
+      const [coin] = await fundAlice(service, 1000);
+
+      await service.submitTx(spend([coin], 1000));
+
+      await expect(service.submitTx(spend([coin], 1000))).rejects.toThrow(
+        'conflicts with pending transfer',
+      );
+    });
+
+    it('should release reservations once the round is processed', async () => {
+      const [first, second] = await fundAlice(service, 1000, 500);
+
+      await service.submitTx(spend([first], 1000));
+      await service.handleRound();
+
+      // The next round can reuse the reservation set for unrelated inputs
+      await expect(
+        service.submitTx(spend([second], 500)),
+      ).resolves.toMatchObject({ roundId: service.getCurrentRoundId() });
+    });
+
+    it('should let a higher-amount transfer replace the queued one', async () => {
+      service = createService(new ReplaceByHigherAmountPolicy());
+      const [first, second] = await fundAlice(service, 1000, 500);
+
+      const evicted = await service.submitTx(spend([first], 1000));
+      const replacement = await service.submitTx(spend([first, second], 1500));
+      await service.handleRound();
+
+      const [output] = vtxoStore.getUnspentForAddress(bob);
+      const round = journal.getLatest();
+      expect(output.amount).toBe(1500);
+      expect(round?.transfers.map((t) => t.transferId)).toEqual([
+        replacement.transferId,
+      ]);
+      expect(round?.transfers.map((t) => t.transferId)).not.toContain(
+        evicted.transferId,
+      );
+    });
+
+    it('should keep the queued transfer when the replacement is not higher', async () => {
+      service = createService(new ReplaceByHigherAmountPolicy());
+      const [coin] = await fundAlice(service, 1000);
+
+      await service.submitTx(spend([coin], 1000));
+
+      await expect(
+        service.submitTx({
+          ...spend([coin], 1000),
+          outputs: [{ address: alice, amount: 1000 }],
+        }),
+      ).rejects.toThrow('policy: replace-by-amount');
+    });
+  });
+
+  describe('transfer receipts', () => {
+    it('should promise the outpoints the round then creates', async () => {
+      const [coin] = await fundAlice(service, 1000);
+
+      const queued = await service.submitTx(spend([coin], 1000));
+      expect(service.getTransferReceipt(queued.transferId)).toEqual(queued);
+
+      await service.handleRound();
+
+      const finalized = service.getTransferReceipt(queued.transferId);
+      const [output] = vtxoStore.getUnspentForAddress(bob);
+      expect(finalized).toEqual({ ...queued, status: 'finalized' });
+      expect(finalized.outputs).toEqual([
+        {
+          txid: output.txid,
+          vout: output.vout,
+          address: bob,
+          amount: 1000,
+        },
+      ]);
+    });
+
+    it('should report a replaced transfer as not found', async () => {
+      service = createService(new ReplaceByHigherAmountPolicy());
+      const [first, second] = await fundAlice(service, 1000, 500);
+
+      const evicted = await service.submitTx(spend([first], 1000));
+      await service.submitTx(spend([first, second], 1500));
+
+      expect(() => service.getTransferReceipt(evicted.transferId)).toThrow(
+        'was replaced by a conflicting transfer',
+      );
+      expect(() => service.getTransferReceipt('0'.repeat(64))).toThrow(
+        NotFoundException,
+      );
+    });
+  });
+});
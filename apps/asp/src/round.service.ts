@@ -1,12 +1,46 @@
-import { Injectable } from '@nestjs/common';
-import { Interval } from '@nestjs/schedule';
+import {
+  ConflictException,
+  Inject,
+  Injectable,
+  NotFoundException,
+  OnApplicationBootstrap,
+  Optional,
+} from '@nestjs/common';
 import { randomUUID } from 'crypto';
-import type { Vtxo, ArkTransaction, AssetMetadata } from '@arkswap/protocol';
-import { asTxId, asAddress } from '@arkswap/protocol';
-import { VtxoStore } from './vtxo-store.service';
+import type {
+  Vtxo,
+  ArkTransaction,
+  AssetMetadata,
+  MerkleProof,
+  TransferReceipt,
+  VtxoLeafKind,
+} from '@arkswap/protocol';
+import {
+  asAddress,
+  deriveVtxoTxid,
+  encodeRoundCommitment,
+  getLiftHash,
+  getMerkleProof,
+  getMerkleRoot,
+  getTxHash,
+  getVtxoLeafHash,
+} from '@arkswap/protocol';
+import { VtxoStore, toOutpointKey } from './vtxo-store.service';
 import { TransferService } from './transfer.service';
 import { AssetStore } from './assets/asset.store';
 import { BitcoinService } from './bitcoin/bitcoin.service';
+import {
+  RoundJournal,
+  type RoundLeaf,
+  type RoundRecord,
+} from './rounds/round-journal.service';
+import {
+  CONFLICT_POLICY,
+  FirstSeenPolicy,
+  getTransferAmount,
+  type ConflictPolicy,
+  type PendingTransfer,
+} from './rounds/conflict-policy';
 
 interface PendingLift {
   address: string;
@@ -14,22 +48,62 @@ interface PendingLift {
   metadata?: AssetMetadata;
 }
 
+const toReceiptOutput = (vtxo: Vtxo): TransferReceipt['outputs'][number] => ({
+  txid: vtxo.txid,
+  vout: vtxo.vout,
+  address: vtxo.address,
+  amount: vtxo.amount,
+});
+
+export interface RoundProof {
+  roundId: string;
+  roundHeight: number;
+  anchorTxid: string | null;
+  merkleRoot: string;
+  vtxoCount: number;
+  kind: VtxoLeafKind;
+  txid: string;
+  vout: number;
+  proof: MerkleProof;
+}
+
 @Injectable()
-export class RoundService {
+export class RoundService implements OnApplicationBootstrap {
   private roundHeight: number = 0;
   private id: string = randomUUID();
   private pendingLifts: PendingLift[] = [];
-  private pendingTxs: ArkTransaction[] = [];
+  // VTXOs already burned by ExitService, committed by the next round
+  private pendingExits: Vtxo[] = [];
+  private pendingTxs: PendingTransfer[] = [];
+  // Inputs of queued transfers: outpoint -> transferId that reserved it
+  private reservedInputs = new Map<string, string>();
+  // Transfers evicted from the queue by the conflict policy
+  private replacedTransfers = new Set<string>();
 
   constructor(
     private readonly vtxoStore: VtxoStore,
     private readonly transferService: TransferService,
     private readonly assetStore: AssetStore,
     private readonly bitcoinService: BitcoinService,
+    private readonly roundJournal: RoundJournal,
+    @Optional()
+    @Inject(CONFLICT_POLICY)
+    private readonly conflictPolicy: ConflictPolicy = new FirstSeenPolicy(),
   ) {
     console.log('RoundService initialized');
   }
 
+  /**
+   * Continues numbering after the last journaled round
+   * (runs once every store has replayed the ledger in onModuleInit)
+   */
+  onApplicationBootstrap() {
+    const latest = this.roundJournal.getLatest();
+    if (latest) {
+      this.roundHeight = latest.roundHeight + 1;
+    }
+  }
+
   scheduleLift(
     address: string,
     amount: number,
@@ -38,70 +112,222 @@ export class RoundService {
     this.pendingLifts.push({ address, amount, metadata });
   }
 
-  async submitTx(tx: ArkTransaction): Promise<void> {
+  /**
+   * Commits the burn of an exited VTXO in the next round (a spent leaf and a
+   * journal entry); the caller has already marked it spent
+   */
+  scheduleExit(vtxo: Vtxo): void {
+    this.pendingExits.push({ ...vtxo });
+  }
+
+  /**
+   * Validates and queues a transfer for the next round
+   * Inputs already reserved by a queued transfer are settled by the conflict policy.
+   * @returns A queued receipt: transferId (getTxHash of the transaction), the round
+   * it is scheduled for and the outpoints that round will create
+   * @throws ConflictException if the transfer double-spends a queued transfer and is rejected
+   */
+  async submitTx(tx: ArkTransaction): Promise<TransferReceipt> {
     // Validate the transaction
-    await this.transferService.validateTransaction(tx);
-    // Add to pending queue
-    this.pendingTxs.push(tx);
+    await this.transferService.validateTransaction(tx, this.roundHeight);
+
+    const inputsWithoutSigs = tx.inputs.map(({ txid, vout }) => ({
+      txid,
+      vout,
+    }));
+    const transferId = await getTxHash(inputsWithoutSigs, tx.outputs);
+
+    // Check Double Spend (Pending)
+    // No await from here on: the check and the reservation happen atomically
+    const incoming: PendingTransfer = { transferId, tx };
+    const conflicting = this.findConflicts(tx);
+
+    if (conflicting.length > 0) {
+      const decision = this.conflictPolicy.resolve(incoming, conflicting);
+      if (decision === 'reject') {
+        const ids = conflicting.map((queued) => queued.transferId).join(', ');
+        throw new ConflictException(
+          `Transfer conflicts with pending transfer ${ids} (policy: ${this.conflictPolicy.name})`,
+        );
+      }
+
+      conflicting.forEach((queued) => {
+        this.evict(queued.transferId);
+        this.replacedTransfers.add(queued.transferId);
+      });
+      console.log(
+        `♻️ Transfer ${transferId} replaced ${conflicting.length} pending transfer(s).`,
+      );
+    }
+
+    // Reserve inputs and add to pending queue
+    for (const input of tx.inputs) {
+      this.reservedInputs.set(
+        toOutpointKey(input.txid, input.vout),
+        transferId,
+      );
+    }
+    this.pendingTxs.push(incoming);
+    this.replacedTransfers.delete(transferId);
+
+    return {
+      status: 'queued',
+      transferId,
+      roundId: this.id,
+      outputs: this.buildOutputs(this.id, incoming).map(toReceiptOutput),
+    };
   }
 
-  @Interval(5000)
-  async handleRound(): Promise<void> {
+  /**
+   * Current state of a transfer
+   * - queued: still in the pending queue, outputs are the expected outpoints
+   * - finalized: processed by a round, outputs are the VTXOs that round created
+   * @throws NotFoundException if the transfer is unknown or was replaced
+   */
+  getTransferReceipt(transferId: string): TransferReceipt {
+    const pending = this.pendingTxs.find(
+      (queued) => queued.transferId === transferId,
+    );
+    if (pending) {
+      return {
+        status: 'queued',
+        transferId,
+        roundId: this.id,
+        outputs: this.buildOutputs(this.id, pending).map(toReceiptOutput),
+      };
+    }
+
+    const found = this.roundJournal.findTransfer(transferId);
+    if (found) {
+      const { round, transfer } = found;
+      return {
+        status: 'finalized',
+        transferId,
+        roundId: round.roundId,
+        outputs: transfer.outputs.map(({ txid, vout }) => {
+          const vtxo = round.created.find(
+            (created) => created.txid === txid && created.vout === vout,
+          )!;
+          return { txid, vout, address: vtxo.address, amount: vtxo.amount };
+        }),
+      };
+    }
+
+    if (this.replacedTransfers.has(transferId)) {
+      throw new NotFoundException(
+        `Transfer ${transferId} was replaced by a conflicting transfer`,
+      );
+    }
+    throw new NotFoundException(`Transfer not found: ${transferId}`);
+  }
+
+  /**
+   * Closes the current round: applies queued transfers and lifts, commits and
+   * anchors the result, then journals it. Driven by RoundScheduler.
+   * @returns The journal entry of the closed round
+   */
+  async handleRound(): Promise<RoundRecord> {
     console.log('🔄 Processing Round...');
 
+    // VTXO ids are derived from the id of the round being closed
+    const roundId = this.id;
+    const roundHeight = this.roundHeight;
+    const round: RoundRecord = {
+      roundId,
+      roundHeight,
+      timestamp: new Date().toISOString(),
+      anchorTxid: null,
+      merkleRoot: '',
+      lifts: [],
+      transfers: [],
+      created: [],
+      spent: [],
+      exits: [],
+      leaves: [],
+    };
+    const addLeaf = (vtxo: Vtxo, kind: VtxoLeafKind) => {
+      const leaf: RoundLeaf = {
+        kind,
+        txid: vtxo.txid,
+        vout: vtxo.vout,
+        hash: getVtxoLeafHash(vtxo, kind),
+      };
+      round.leaves.push(leaf);
+      if (kind === 'issued') {
+        round.created.push({ ...vtxo });
+      } else {
+        round.spent.push({ txid: vtxo.txid, vout: vtxo.vout });
+      }
+    };
+
     // Process pending transactions BEFORE processing lifts
     if (this.pendingTxs.length > 0) {
       const txs = [...this.pendingTxs];
       this.pendingTxs = [];
+      this.reservedInputs.clear();
+      this.replacedTransfers.clear();
 
-      for (const tx of txs) {
+      for (const pending of txs) {
+        const { transferId, tx } = pending;
         // Mark inputs as spent
+        let inputTotal = 0;
         for (const input of tx.inputs) {
+          const spent = this.vtxoStore.getVtxo(input.txid, input.vout);
           this.vtxoStore.markSpent(input.txid, input.vout);
+          if (spent) {
+            addLeaf(spent, 'spent');
+            inputTotal += spent.amount;
+          }
         }
 
         // Mint new VTXOs for outputs
-        tx.outputs.forEach((output, index) => {
-          // Generate a random hex txid (64 hex characters)
-          const txid = Array.from({ length: 64 }, () =>
-            Math.floor(Math.random() * 16).toString(16),
-          ).join('');
-
-          const vtxo: Vtxo = {
-            txid: asTxId(txid),
-            vout: index,
-            amount: output.amount,
-            address: output.address,
-            spent: false,
-          };
-
+        const outputs = this.buildOutputs(roundId, pending).map((vtxo) => {
           this.vtxoStore.addVtxo(vtxo);
+          addLeaf(vtxo, 'issued');
+          return { txid: vtxo.txid, vout: vtxo.vout };
+        });
+
+        round.transfers.push({
+          transferId,
+          inputs: tx.inputs.map(({ txid, vout, witness }) =>
+            witness ? { txid, vout, witness } : { txid, vout },
+          ),
+          outputs,
+          // Implicit fee, validated against the schedule by TransferService
+          fee: inputTotal - getTransferAmount(tx),
         });
       }
 
       console.log(`🔄 Processed ${txs.length} off-chain transfers.`);
     }
 
+    for (const vtxo of this.pendingExits) {
+      addLeaf(vtxo, 'spent');
+      round.exits.push({ txid: vtxo.txid, vout: vtxo.vout });
+    }
+    this.pendingExits = [];
+
     const count = this.pendingLifts.length;
 
     // Process each pending lift
+    // Each lift is its own single-output source, so its VTXO always sits at vout 0
     this.pendingLifts.forEach((lift, index) => {
-      // Generate a random hex txid (64 hex characters)
-      const txid = Array.from({ length: 64 }, () =>
-        Math.floor(Math.random() * 16).toString(16),
-      ).join('');
+      const liftHash = getLiftHash(lift.address, lift.amount, index);
+      const txid = deriveVtxoTxid(roundId, liftHash, 0);
 
       const vtxo: Vtxo = {
-        txid: asTxId(txid),
-        vout: index,
+        txid,
+        vout: 0,
         amount: lift.amount,
         address: asAddress(lift.address),
         spent: false,
       };
 
       this.vtxoStore.addVtxo(vtxo);
+      addLeaf(vtxo, 'issued');
+      round.lifts.push({ address: lift.address, amount: lift.amount, txid });
 
-      // If metadata exists, save it using the newly generated txid
+      // If metadata exists, save it using the derived txid
       if (lift.metadata) {
         this.assetStore.saveMetadata(txid, lift.metadata);
         console.log(`🐟 Asset Minted: ${txid}`);
@@ -111,14 +337,24 @@ export class RoundService {
     // Clear pending lifts
     this.pendingLifts = [];
 
+    // Commit every VTXO this round touched under a single Merkle root
+    round.merkleRoot = getMerkleRoot(round.leaves.map((leaf) => leaf.hash));
+
     // Update round info
     this.roundHeight += 1;
     this.id = randomUUID();
 
-    // Broadcast a heartbeat transaction with OP_RETURN marker each round
-    // so the indexer can detect rounds via the marker instead of address matching.
+    // Anchor the commitment (root, round number, VTXO count) in the heartbeat OP_RETURN
+    // so clients can prove their VTXO against an on-chain transaction.
     try {
-      const txid = await this.bitcoinService.broadcastHeartbeat();
+      const txid = await this.bitcoinService.broadcastHeartbeat(
+        encodeRoundCommitment({
+          roundHeight,
+          vtxoCount: round.leaves.length,
+          merkleRoot: round.merkleRoot,
+        }),
+      );
+      round.anchorTxid = txid;
 
       console.log(`📡 Broadcast Round with Marker: ${txid}`);
     } catch (error) {
@@ -129,7 +365,11 @@ export class RoundService {
       );
     }
 
+    // Journal the round once its anchor txid is known (null if the broadcast failed)
+    this.roundJournal.record(round);
+
     console.log(`✅ Round Finalized. Issued ${count} VTXOs.`);
+    return round;
   }
 
   getRoundHeight(): number {
@@ -139,4 +379,87 @@ export class RoundService {
   getCurrentRoundId(): string {
     return this.id;
   }
+
+  /**
+   * Whether a VTXO is an input of a transfer queued for the current round
+   */
+  isReserved(txid: string, vout: number): boolean {
+    return this.reservedInputs.has(toOutpointKey(txid, vout));
+  }
+
+  /**
+   * Returns the Merkle inclusion path of a VTXO in a finalized round
+   * @throws NotFoundException if the round or the VTXO is unknown
+   */
+  getRoundProof(roundId: string, txid: string, vout: number): RoundProof {
+    const round = this.roundJournal.get(roundId);
+    if (!round) {
+      throw new NotFoundException(`Round not found: ${roundId}`);
+    }
+
+    const index = round.leaves.findIndex(
+      (leaf) => leaf.txid === txid && leaf.vout === vout,
+    );
+    if (index === -1) {
+      throw new NotFoundException(
+        `VTXO ${txid}:${vout} is not committed in round ${roundId}`,
+      );
+    }
+
+    return {
+      roundId: round.roundId,
+      roundHeight: round.roundHeight,
+      anchorTxid: round.anchorTxid,
+      merkleRoot: round.merkleRoot,
+      vtxoCount: round.leaves.length,
+      kind: round.leaves[index].kind,
+      txid,
+      vout,
+      proof: getMerkleProof(
+        round.leaves.map((leaf) => leaf.hash),
+        index,
+      ),
+    };
+  }
+
+  /**
+   * The VTXOs a transfer creates when processed in roundId
+   * Shared by handleRound and receipts so expected and actual outpoints always match
+   */
+  private buildOutputs(roundId: string, pending: PendingTransfer): Vtxo[] {
+    return pending.tx.outputs.map((output, index) => ({
+      txid: deriveVtxoTxid(roundId, pending.transferId, index),
+      vout: index,
+      amount: output.amount,
+      address: output.address,
+      spent: false,
+    }));
+  }
+
+  /**
+   * Queued transfers that reserved any of the inputs of tx
+   */
+  private findConflicts(tx: ArkTransaction): PendingTransfer[] {
+    const ids = new Set<string>();
+    for (const input of tx.inputs) {
+      const reservedBy = this.reservedInputs.get(
+        toOutpointKey(input.txid, input.vout),
+      );
+      if (reservedBy) {
+        ids.add(reservedBy);
+      }
+    }
+    return this.pendingTxs.filter((queued) => ids.has(queued.transferId));
+  }
+
+  private evict(transferId: string): void {
+    this.pendingTxs = this.pendingTxs.filter(
+      (queued) => queued.transferId !== transferId,
+    );
+    for (const [outpoint, reservedBy] of this.reservedInputs) {
+      if (reservedBy === transferId) {
+        this.reservedInputs.delete(outpoint);
+      }
+    }
+  }
 }
@@ -0,0 +1,30 @@
+import type { Provider } from '@nestjs/common';
+import {
+  CONFLICT_POLICY,
+  FirstSeenPolicy,
+  ReplaceByHigherAmountPolicy,
+  type ConflictPolicy,
+} from './conflict-policy';
+
+/**
+ * Selects the same-round conflict policy from the environment
+ * - ASP_CONFLICT_POLICY=first-seen (default): later double-spends are rejected
+ * - ASP_CONFLICT_POLICY=replace-by-amount: a higher-amount transfer evicts the queued one
+ */
+export function createConflictPolicy(): ConflictPolicy {
+  const kind = process.env.ASP_CONFLICT_POLICY || 'first-seen';
+
+  switch (kind) {
+    case 'first-seen':
+      return new FirstSeenPolicy();
+    case 'replace-by-amount':
+      return new ReplaceByHigherAmountPolicy();
+    default:
+      throw new Error(`Unknown ASP_CONFLICT_POLICY: ${kind}`);
+  }
+}
+
+export const conflictPolicyProvider: Provider = {
+  provide: CONFLICT_POLICY,
+  useFactory: createConflictPolicy,
+};
@@ -0,0 +1,66 @@
+import type { ArkTransaction } from '@arkswap/protocol';
+
+/**
+ * Injection token for the policy that settles same-round double-spends
+ */
+export const CONFLICT_POLICY = Symbol('CONFLICT_POLICY');
+
+/**
+ * A transfer waiting in the pending queue for the next round
+ */
+export interface PendingTransfer {
+  transferId: string;
+  tx: ArkTransaction;
+}
+
+/**
+ * - reject: the incoming transfer is refused, the queued ones stay
+ * - replace: every conflicting queued transfer is evicted in favour of the incoming one
+ */
+export type ConflictDecision = 'reject' | 'replace';
+
+/**
+ * Conflict Policy Hook
+ * Called by RoundService.submitTx when an incoming transfer spends an input
+ * already reserved by one or more queued transfers.
+ */
+export interface ConflictPolicy {
+  readonly name: string;
+  resolve(
+    incoming: PendingTransfer,
+    conflicting: PendingTransfer[],
+  ): ConflictDecision;
+}
+
+export function getTransferAmount(tx: ArkTransaction): number {
+  return tx.outputs.reduce((sum, output) => sum + output.amount, 0);
+}
+
+/**
+ * The first transfer to reserve an input wins
+ */
+export class FirstSeenPolicy implements ConflictPolicy {
+  readonly name = 'first-seen';
+
+  resolve(): ConflictDecision {
+    return 'reject';
+  }
+}
+
+/**
+ * A later transfer replaces the queued ones if it moves strictly more sats
+ * than each of them (total output amount)
+ */
+export class ReplaceByHigherAmountPolicy implements ConflictPolicy {
+  readonly name = 'replace-by-amount';
+
+  resolve(
+    incoming: PendingTransfer,
+    conflicting: PendingTransfer[],
+  ): ConflictDecision {
+    const amount = getTransferAmount(incoming.tx);
+    return conflicting.every((queued) => amount > getTransferAmount(queued.tx))
+      ? 'replace'
+      : 'reject';
+  }
+}
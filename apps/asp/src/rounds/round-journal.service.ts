@@ -0,0 +1,226 @@
+import { Inject, Injectable, OnModuleInit, Optional } from '@nestjs/common';
+import type {
+  RoundSummary,
+  TapscriptWitness,
+  Vtxo,
+  VtxoLeafKind,
+} from '@arkswap/protocol';
+import { LEDGER_STORAGE, type LedgerStorage } from '../storage/ledger-storage';
+import { MemoryLedgerStorage } from '../storage/memory-ledger.storage';
+import { toOutpointKey } from '../vtxo-store.service';
+
+export interface Outpoint {
+  txid: string;
+  vout: number;
+}
+
+export interface RoundLeaf extends Outpoint {
+  kind: VtxoLeafKind;
+  hash: string;
+}
+
+/**
+ * Journal entry of a finalized round
+ * - lifts / transfers: the requests included in the round, in processing order
+ *   (fee: sats the ASP kept from the transfer, inputs minus outputs; witness:
+ *   the script-path witness an input was spent with, e.g. a preimage it revealed)
+ * - created / spent: the VTXOs issued and consumed by those requests
+ * - exits: the VTXOs burned by unilateral exits (see ExitService), also in spent
+ * - leaves: the Merkle leaves committed by merkleRoot (spent and created VTXOs)
+ */
+export interface RoundRecord {
+  roundId: string;
+  roundHeight: number;
+  timestamp: string;
+  anchorTxid: string | null;
+  merkleRoot: string;
+  lifts: Array<{ address: string; amount: number; txid: string }>;
+  transfers: Array<{
+    transferId: string;
+    inputs: Array<Outpoint & { witness?: TapscriptWitness }>;
+    outputs: Outpoint[];
+    fee: number;
+  }>;
+  created: Vtxo[];
+  spent: Outpoint[];
+  exits: Outpoint[];
+  leaves: RoundLeaf[];
+}
+
+/**
+ * The signed part of a round (see getRoundSummaryHash)
+ */
+export function toRoundSummary(round: RoundRecord): RoundSummary {
+  return {
+    roundId: round.roundId,
+    roundHeight: round.roundHeight,
+    timestamp: round.timestamp,
+    anchorTxid: round.anchorTxid,
+    merkleRoot: round.merkleRoot,
+    vtxoCount: round.leaves.length,
+  };
+}
+
+export interface RoundPage {
+  rounds: RoundRecord[];
+  total: number;
+  limit: number;
+  offset: number;
+}
+
+/**
+ * Round Journal
+ * Append-only history of finalized rounds, persisted through the ledger storage adapter.
+ * Empty rounds commit nothing and are not journaled, so the ledger only grows with
+ * activity. After a restart, numbering resumes after the last journaled round: the
+ * heights of trailing empty rounds are reused, and relative lock times count from
+ * there (they can only mature later, never earlier).
+ */
+@Injectable()
+export class RoundJournal implements OnModuleInit {
+  private rounds: RoundRecord[] = [];
+  private byId = new Map<string, RoundRecord>();
+  private byTransfer = new Map<string, RoundRecord>();
+  // outpoint -> round that created the VTXO
+  private byCreated = new Map<string, RoundRecord>();
+  // outpoint -> round that journaled the VTXO's exit
+  private byExit = new Map<string, RoundRecord>();
+  // outpoint -> round whose transfer spent the VTXO
+  private bySpend = new Map<string, RoundRecord>();
+
+  constructor(
+    @Optional()
+    @Inject(LEDGER_STORAGE)
+    private readonly storage: LedgerStorage = new MemoryLedgerStorage(),
+  ) {}
+
+  /**
+   * Rebuilds the journal from the persisted ledger
+   */
+  onModuleInit() {
+    this.rounds = [];
+    this.byId.clear();
+    this.byTransfer.clear();
+    this.byCreated.clear();
+    this.byExit.clear();
+    this.bySpend.clear();
+    for (const event of this.storage.load()) {
+      if (event.type === 'round.finalized') {
+        this.apply(event.round);
+      }
+    }
+  }
+
+  /**
+   * Journals a finalized round; rounds that created nothing are skipped
+   */
+  record(round: RoundRecord): void {
+    if (
+      round.lifts.length === 0 &&
+      round.transfers.length === 0 &&
+      round.created.length === 0 &&
+      round.exits.length === 0
+    ) {
+      return;
+    }
+    this.storage.append({ type: 'round.finalized', round });
+    this.apply(round);
+  }
+
+  get(roundId: string): RoundRecord | undefined {
+    return this.byId.get(roundId);
+  }
+
+  /**
+   * The round that processed a transfer, with the transfer's journal entry
+   */
+  findTransfer(
+    transferId: string,
+  ):
+    | { round: RoundRecord; transfer: RoundRecord['transfers'][number] }
+    | undefined {
+    const round = this.byTransfer.get(transferId);
+    const transfer = round?.transfers.find((t) => t.transferId === transferId);
+    return round && transfer ? { round, transfer } : undefined;
+  }
+
+  /**
+   * The round that created a VTXO (relative lock times count from its height)
+   */
+  findCreated(txid: string, vout: number): RoundRecord | undefined {
+    return this.byCreated.get(toOutpointKey(txid, vout));
+  }
+
+  /**
+   * The round that journaled the burn of an exited VTXO
+   */
+  findExit(txid: string, vout: number): RoundRecord | undefined {
+    return this.byExit.get(toOutpointKey(txid, vout));
+  }
+
+  /**
+   * The round and transfer that spent a VTXO, with the spending input and its witness
+   */
+  findSpend(
+    txid: string,
+    vout: number,
+  ):
+    | {
+        round: RoundRecord;
+        transfer: RoundRecord['transfers'][number];
+        input: RoundRecord['transfers'][number]['inputs'][number];
+      }
+    | undefined {
+    const round = this.bySpend.get(toOutpointKey(txid, vout));
+    for (const transfer of round?.transfers ?? []) {
+      const input = transfer.inputs.find(
+        (i) => i.txid === txid && i.vout === vout,
+      );
+      if (round && input) {
+        return { round, transfer, input };
+      }
+    }
+    return undefined;
+  }
+
+  /**
+   * Most recently finalized round, if any
+   */
+  getLatest(): RoundRecord | undefined {
+    return this.rounds[this.rounds.length - 1];
+  }
+
+  /**
+   * Returns a page of rounds, newest first, read from the tail of the journal
+   */
+  list(limit: number, offset: number): RoundPage {
+    const rounds: RoundRecord[] = [];
+    const end = Math.max(this.rounds.length - offset - limit, 0);
+    for (let i = this.rounds.length - 1 - offset; i >= end; i--) {
+      rounds.push(this.rounds[i]);
+    }
+    return {
+      rounds,
+      total: this.rounds.length,
+      limit,
+      offset,
+    };
+  }
+
+  private apply(round: RoundRecord): void {
+    this.rounds.push(round);
+    this.byId.set(round.roundId, round);
+    for (const transfer of round.transfers) {
+      this.byTransfer.set(transfer.transferId, round);
+      for (const input of transfer.inputs) {
+        this.bySpend.set(toOutpointKey(input.txid, input.vout), round);
+      }
+    }
+    for (const vtxo of round.created) {
+      this.byCreated.set(toOutpointKey(vtxo.txid, vtxo.vout), round);
+    }
+    for (const exit of round.exits) {
+      this.byExit.set(toOutpointKey(exit.txid, exit.vout), round);
+    }
+  }
+}
@@ -0,0 +1,114 @@
+import { RoundService } from '../round.service';
+import type { RoundRecord } from './round-journal.service';
+import {
+  RoundScheduler,
+  loadRoundSchedulerSettings,
+} from './round-scheduler.service';
+
+describe('RoundScheduler', () => {
+  const env = process.env;
+  let handleRound: jest.Mock<Promise<RoundRecord>>;
+  let scheduler: RoundScheduler | undefined;
+
+  const boot = (overrides: Record<string, string> = {}) => {
+    process.env = { ...env, ...overrides };
+    scheduler = new RoundScheduler({ handleRound } as unknown as RoundService);
+    scheduler.onApplicationBootstrap();
+    return scheduler;
+  };
+
+  beforeEach(() => {
+    jest.useFakeTimers();
+    let height = 0;
+    handleRound = jest.fn(
+      async () => ({ roundHeight: height++ }) as RoundRecord,
+    );
+  });
+
+  afterEach(() => {
+    scheduler?.onModuleDestroy();
+    scheduler = undefined;
+    process.env = env;
+    jest.useRealTimers();
+  });
+
+  describe('settings', () => {
+    it('should default to a 5s interval', () => {
+      process.env = { ...env };
+      delete process.env.ASP_ROUND_MODE;
+      delete process.env.ASP_ROUND_INTERVAL_MS;
+
+      expect(loadRoundSchedulerSettings()).toEqual({
+        mode: 'interval',
+        intervalMs: 5000,
+      });
+    });
+
+    it('should reject unknown modes and invalid intervals', () => {
+      process.env = { ...env, ASP_ROUND_MODE: 'hourly' };
+      expect(() => loadRoundSchedulerSettings()).toThrow(
+        'Unknown ASP_ROUND_MODE: hourly',
+      );
+
+      process.env = { ...env, ASP_ROUND_INTERVAL_MS: '0' };
+      expect(() => loadRoundSchedulerSettings()).toThrow(
+        'ASP_ROUND_INTERVAL_MS must be a positive integer',
+      );
+    });
+  });
+
+  it('should close a round on every configured interval', async () => {
+    boot({ ASP_ROUND_MODE: 'interval', ASP_ROUND_INTERVAL_MS: '1000' });
+
+    await jest.advanceTimersByTimeAsync(3000);
+
+    expect(handleRound).toHaveBeenCalledTimes(3);
+  });
+
+  it('should stop the timer while paused and restart it on resume', async () => {
+    const paused = boot({ ASP_ROUND_INTERVAL_MS: '1000' });
+
+    expect(paused.pause()).toEqual({
+      mode: 'interval',
+      intervalMs: 1000,
+      paused: true,
+    });
+    await jest.advanceTimersByTimeAsync(5000);
+    expect(handleRound).not.toHaveBeenCalled();
+    expect(paused.getNextRoundHint()).toBe('on trigger');
+
+    paused.resume();
+    await jest.advanceTimersByTimeAsync(1000);
+    expect(handleRound).toHaveBeenCalledTimes(1);
+  });
+
+  it('should only close rounds on trigger in manual mode', async () => {
+    const manual = boot({ ASP_ROUND_MODE: 'manual' });
+
+    await jest.advanceTimersByTimeAsync(60_000);
+    expect(handleRound).not.toHaveBeenCalled();
+
+    const round = await manual.trigger();
+
+    expect(round.roundHeight).toBe(0);
+    expect(handleRound).toHaveBeenCalledTimes(1);
+  });
+
+  it('should never close two rounds at once', async () => {
+    const manual = boot({ ASP_ROUND_MODE: 'manual' });
+    let active = 0;
+    let maxActive = 0;
+    handleRound.mockImplementation(async () => {
+      active++;
+      maxActive = Math.max(maxActive, active);
+      await Promise.resolve();
+      active--;
+      return {} as RoundRecord;
+    });
+
+    await Promise.all([manual.trigger(), manual.trigger(), manual.trigger()]);
+
+    expect(handleRound).toHaveBeenCalledTimes(3);
+    expect(maxActive).toBe(1);
+  });
+});
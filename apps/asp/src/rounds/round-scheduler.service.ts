@@ -0,0 +1,141 @@
+import {
+  Injectable,
+  Logger,
+  OnApplicationBootstrap,
+  OnModuleDestroy,
+} from '@nestjs/common';
+import { RoundService } from '../round.service';
+import type { RoundRecord } from './round-journal.service';
+
+export type RoundMode = 'interval' | 'manual';
+
+export interface RoundSchedulerSettings {
+  mode: RoundMode;
+  intervalMs: number;
+}
+
+export interface RoundSchedulerStatus extends RoundSchedulerSettings {
+  paused: boolean;
+}
+
+/**
+ * Reads the scheduler settings from the environment
+ * - ASP_ROUND_MODE=interval (default): a round closes every ASP_ROUND_INTERVAL_MS
+ * - ASP_ROUND_MODE=manual: rounds only close via POST /v1/admin/rounds/trigger
+ * - ASP_ROUND_INTERVAL_MS: round interval in milliseconds (default 5000)
+ */
+export function loadRoundSchedulerSettings(): RoundSchedulerSettings {
+  const mode = process.env.ASP_ROUND_MODE || 'interval';
+  if (mode !== 'interval' && mode !== 'manual') {
+    throw new Error(`Unknown ASP_ROUND_MODE: ${mode}`);
+  }
+
+  const intervalMs = Number(process.env.ASP_ROUND_INTERVAL_MS || 5000);
+  if (!Number.isInteger(intervalMs) || intervalMs <= 0) {
+    throw new Error(
+      `ASP_ROUND_INTERVAL_MS must be a positive integer, got ${process.env.ASP_ROUND_INTERVAL_MS}`,
+    );
+  }
+
+  return { mode, intervalMs };
+}
+
+/**
+ * Round Scheduler
+ * Owns the round loop: closes rounds on a timer (interval mode) or on demand (manual mode).
+ * Rounds never overlap; a trigger while a round is closing waits for it and closes the next one.
+ */
+@Injectable()
+export class RoundScheduler implements OnApplicationBootstrap, OnModuleDestroy {
+  private readonly logger = new Logger(RoundScheduler.name);
+  private readonly settings: RoundSchedulerSettings;
+  private timer: NodeJS.Timeout | null = null;
+  private paused = false;
+  private closing: Promise<RoundRecord> | null = null;
+
+  constructor(private readonly roundService: RoundService) {
+    this.settings = loadRoundSchedulerSettings();
+  }
+
+  onApplicationBootstrap() {
+    this.logger.log(
+      this.settings.mode === 'manual'
+        ? '⏸️ Manual round mode: rounds close on POST /v1/admin/rounds/trigger'
+        : `⏱️ Closing a round every ${this.settings.intervalMs}ms`,
+    );
+    this.start();
+  }
+
+  onModuleDestroy() {
+    this.stop();
+  }
+
+  getStatus(): RoundSchedulerStatus {
+    return { ...this.settings, paused: this.paused };
+  }
+
+  /**
+   * Human readable hint of when queued requests will be processed
+   */
+  getNextRoundHint(): string {
+    if (this.settings.mode === 'manual' || this.paused) {
+      return 'on trigger';
+    }
+    return `${this.settings.intervalMs / 1000}s`;
+  }
+
+  /**
+   * Closes a round immediately (works in every mode, including while paused)
+   * @returns The journal entry of the closed round
+   */
+  async trigger(): Promise<RoundRecord> {
+    while (this.closing) {
+      await this.closing.catch(() => undefined);
+    }
+
+    this.closing = this.roundService.handleRound();
+    try {
+      return await this.closing;
+    } finally {
+      this.closing = null;
+    }
+  }
+
+  /**
+   * Stops closing rounds on the timer; pending requests stay queued
+   */
+  pause(): RoundSchedulerStatus {
+    this.paused = true;
+    this.stop();
+    return this.getStatus();
+  }
+
+  resume(): RoundSchedulerStatus {
+    this.paused = false;
+    this.start();
+    return this.getStatus();
+  }
+
+  private start(): void {
+    if (this.settings.mode === 'manual' || this.paused || this.timer) {
+      return;
+    }
+    this.timer = setInterval(() => {
+      // A slow round (e.g. a stuck heartbeat) skips ticks instead of stacking them
+      if (this.closing) return;
+      this.trigger().catch((error) =>
+        this.logger.error(
+          'Round failed',
+          error instanceof Error ? error.stack : String(error),
+        ),
+      );
+    }, this.settings.intervalMs);
+  }
+
+  private stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+}
@@ -0,0 +1,101 @@
+import {
+  BadRequestException,
+  Controller,
+  Get,
+  NotFoundException,
+  Param,
+  Query,
+} from '@nestjs/common';
+import { RoundService } from '../round.service';
+import { getRoundSummaryHash } from '@arkswap/protocol';
+import {
+  RoundJournal,
+  toRoundSummary,
+  type RoundRecord,
+} from './round-journal.service';
+import { AspIdentityService } from '../identity/asp-identity.service';
+
+const DEFAULT_PAGE_SIZE = 20;
+const MAX_PAGE_SIZE = 100;
+
+@Controller('v1/rounds')
+export class RoundsController {
+  constructor(
+    private readonly roundService: RoundService,
+    private readonly roundJournal: RoundJournal,
+    private readonly identity: AspIdentityService,
+  ) {}
+
+  /**
+   * Finalized rounds, newest first
+   * Query: limit (default 20, max 100), offset (default 0)
+   */
+  @Get()
+  listRounds(@Query('limit') limit?: string, @Query('offset') offset?: string) {
+    const pageSize = this.parseCount('limit', limit, DEFAULT_PAGE_SIZE);
+    const skip = this.parseCount('offset', offset, 0);
+
+    if (pageSize < 1 || pageSize > MAX_PAGE_SIZE) {
+      throw new BadRequestException(
+        `limit must be between 1 and ${MAX_PAGE_SIZE}`,
+      );
+    }
+
+    const page = this.roundJournal.list(pageSize, skip);
+    return { ...page, rounds: page.rounds.map((round) => this.attest(round)) };
+  }
+
+  @Get(':id')
+  getRound(@Param('id') id: string) {
+    const round = this.roundJournal.get(id);
+    if (!round) {
+      throw new NotFoundException(`Round not found: ${id}`);
+    }
+    return this.attest(round);
+  }
+
+  /**
+   * Merkle inclusion proof of a VTXO in a round commitment
+   * Outpoint format: "txid:vout"
+   */
+  @Get(':id/proof/:outpoint')
+  getProof(@Param('id') id: string, @Param('outpoint') outpoint: string) {
+    const [txid, voutStr] = outpoint.split(':');
+    const vout = Number(voutStr);
+
+    if (!txid || voutStr === undefined || !Number.isInteger(vout) || vout < 0) {
+      throw new BadRequestException(
+        `Invalid outpoint: ${outpoint} (expected txid:vout)`,
+      );
+    }
+
+    return this.roundService.getRoundProof(id, txid, vout);
+  }
+
+  /**
+   * Adds vtxoCount and the ASP signature over the round summary
+   */
+  private attest(round: RoundRecord) {
+    const summary = toRoundSummary(round);
+    return {
+      ...round,
+      vtxoCount: summary.vtxoCount,
+      signature: this.identity.sign(getRoundSummaryHash(summary)),
+    };
+  }
+
+  private parseCount(
+    name: string,
+    value: string | undefined,
+    fallback: number,
+  ): number {
+    if (value === undefined) {
+      return fallback;
+    }
+    const parsed = Number(value);
+    if (!Number.isInteger(parsed) || parsed < 0) {
+      throw new BadRequestException(`${name} must be a non-negative integer`);
+    }
+    return parsed;
+  }
+}
@@ -0,0 +1,181 @@
+import {
+  appendFileSync,
+  mkdtempSync,
+  readFileSync,
+  rmSync,
+  writeFileSync,
+} from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import type { AssetMetadata, Vtxo } from '@arkswap/protocol';
+import { asAddress, asTxId } from '@arkswap/protocol';
+import { FileLedgerStorage } from './file-ledger.storage';
+import { VtxoStore } from '../vtxo-store.service';
+import { AssetStore } from '../assets/asset.store';
+
+describe('FileLedgerStorage', () => {
+  let dir: string;
+  let ledgerPath: string;
+
+  const vtxo: Vtxo = {
+    txid: asTxId('a'.repeat(64)),
+    vout: 0,
+    amount: 1000,
+    address: asAddress('bcrt1p' + '0'.repeat(58)),
+    spent: false,
+  };
+
+  const metadata: AssetMetadata = {
+    dna: 'b'.repeat(64) as AssetMetadata['dna'],
+    generation: 0,
+    cooldownBlock: 100,
+    lastFedBlock: 0,
+    xp: 0,
+    parents: [],
+  };
+
+  /**
+   * Simulates an ASP process start: fresh adapter and stores over the same file
+   */
+  const boot = () => {
+    const storage = new FileLedgerStorage(ledgerPath);
+    const vtxoStore = new VtxoStore(storage);
+    const assetStore = new AssetStore(storage);
+    vtxoStore.onModuleInit();
+    assetStore.onModuleInit();
+    return { vtxoStore, assetStore };
+  };
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), 'asp-ledger-'));
+    ledgerPath = join(dir, 'nested', 'ledger.jsonl');
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('should start empty when no ledger file exists', () => {
+    const { vtxoStore, assetStore } = boot();
+
+    expect(vtxoStore.getForAddress(vtxo.address)).toEqual([]);
+    expect(assetStore.getTotalCount()).toBe(0);
+  });
+
+  it('should replay VTXOs and spent flags after a restart', () => {
+    const first = boot();
+    first.vtxoStore.addVtxo({ ...vtxo });
+    first.vtxoStore.addVtxo({ ...vtxo, vout: 1, amount: 500 });
+    first.vtxoStore.markSpent(vtxo.txid, 0);
+
+    const second = boot();
+
+    expect(second.vtxoStore.getVtxo(vtxo.txid, 0)?.spent).toBe(true);
+    expect(second.vtxoStore.getVtxo(vtxo.txid, 1)).toEqual({
+      ...vtxo,
+      vout: 1,
+      amount: 500,
+    });
+  });
+
+  it('should replay asset metadata updates and pond membership', () => {
+    const first = boot();
+    first.assetStore.saveMetadata(vtxo.txid, metadata);
+    first.assetStore.addToPond(vtxo.txid);
+    first.assetStore.feedAsset(vtxo.txid, 500);
+
+    const second = boot();
+
+    expect(second.assetStore.getMetadata(vtxo.txid)).toEqual({
+      ...metadata,
+      lastFedBlock: 500,
+      xp: 10,
+    });
+    expect(second.assetStore.getPondAssets()).toHaveLength(1);
+  });
+
+  it('should skip a truncated final line', () => {
+    const first = boot();
+    first.vtxoStore.addVtxo({ ...vtxo });
+    appendFileSync(ledgerPath, '{"v":1,"type":"vtxo.sp');
+
+    const second = boot();
+
+    expect(second.vtxoStore.getVtxo(vtxo.txid, 0)?.spent).toBe(false);
+  });
+
+  it('should keep appending after recovering from a truncated final line', () => {
+    const first = boot();
+    first.vtxoStore.addVtxo({ ...vtxo });
+    appendFileSync(ledgerPath, '{"v":1,"type":"vtxo.sp');
+
+    const second = boot();
+    second.vtxoStore.addVtxo({ ...vtxo, vout: 1 });
+    second.vtxoStore.markSpent(vtxo.txid, 0);
+
+    const third = boot();
+
+    expect(readFileSync(ledgerPath, 'utf8')).not.toContain('vtxo.sp{');
+    expect(third.vtxoStore.getVtxo(vtxo.txid, 0)?.spent).toBe(true);
+    expect(third.vtxoStore.getVtxo(vtxo.txid, 1)).toEqual({
+      ...vtxo,
+      vout: 1,
+    });
+  });
+
+  it('should refuse a corrupt entry before the final line', () => {
+    boot().vtxoStore.addVtxo({ ...vtxo });
+    appendFileSync(ledgerPath, 'not json\n');
+
+    expect(() => boot()).toThrow('Corrupt ledger entry');
+  });
+
+  it('should migrate v1 rounds to record a zero fee per transfer', () => {
+    boot();
+    const transfer = { transferId: 'c'.repeat(64), inputs: [], outputs: [] };
+    writeFileSync(
+      ledgerPath,
+      JSON.stringify({
+        v: 1,
+        type: 'round.finalized',
+        round: { roundId: 'round-0', transfers: [transfer] },
+      }) + '\n',
+    );
+
+    const [event] = new FileLedgerStorage(ledgerPath).load();
+
+    expect(event).toMatchObject({
+      type: 'round.finalized',
+      round: { transfers: [{ ...transfer, fee: 0 }] },
+    });
+  });
+
+  it('should migrate v2 rounds to record no exits', () => {
+    boot();
+    writeFileSync(
+      ledgerPath,
+      JSON.stringify({
+        v: 2,
+        type: 'round.finalized',
+        round: { roundId: 'round-0', transfers: [] },
+      }) + '\n',
+    );
+
+    const [event] = new FileLedgerStorage(ledgerPath).load();
+
+    expect(event).toMatchObject({
+      type: 'round.finalized',
+      round: { roundId: 'round-0', exits: [] },
+    });
+  });
+
+  it('should refuse a ledger written by a newer schema version', () => {
+    boot();
+    writeFileSync(
+      ledgerPath,
+      JSON.stringify({ v: 99, type: 'pond.added', txid: vtxo.txid }) + '\n',
+    );
+
+    expect(() => boot()).toThrow('schema v99');
+  });
+});
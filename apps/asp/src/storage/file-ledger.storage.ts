@@ -0,0 +1,86 @@
+import { Logger } from '@nestjs/common';
+import {
+  closeSync,
+  existsSync,
+  fsyncSync,
+  mkdirSync,
+  openSync,
+  readFileSync,
+  truncateSync,
+  writeSync,
+} from 'fs';
+import { dirname } from 'path';
+import {
+  LEDGER_SCHEMA_VERSION,
+  migrateLedgerEvent,
+  type LedgerEvent,
+  type LedgerStorage,
+} from './ledger-storage';
+
+/**
+ * Durable ledger storage backed by an append-only JSON Lines file
+ *
+ * Each line is one event tagged with the schema version it was written with:
+ *   {"v":1,"type":"vtxo.added","vtxo":{...}}
+ *
+ * Appends are synchronous and fsynced, so an event is on disk before the caller
+ * continues. A final line without its newline was cut by a crash mid-write: it
+ * was never acknowledged, so load() drops it and truncates the file back to the
+ * last complete line, and the next append starts on a line of its own.
+ */
+export class FileLedgerStorage implements LedgerStorage {
+  private readonly logger = new Logger(FileLedgerStorage.name);
+
+  constructor(private readonly filePath: string) {
+    mkdirSync(dirname(filePath), { recursive: true });
+  }
+
+  load(): LedgerEvent[] {
+    if (!existsSync(this.filePath)) {
+      return [];
+    }
+
+    const content = readFileSync(this.filePath);
+    // Every acknowledged append ends with a newline; anything after the last one is partial
+    const complete = content.lastIndexOf('\n') + 1;
+    if (complete < content.length) {
+      this.logger.warn(
+        `Dropping truncated ledger entry at byte ${complete} of ${this.filePath}`,
+      );
+      truncateSync(this.filePath, complete);
+    }
+
+    const lines = content.subarray(0, complete).toString('utf8').split('\n');
+    const events: LedgerEvent[] = [];
+
+    lines.forEach((line, index) => {
+      if (!line.trim()) return;
+
+      let record: Record<string, unknown>;
+      try {
+        record = JSON.parse(line);
+      } catch {
+        throw new Error(
+          `Corrupt ledger entry at ${this.filePath}:${index + 1}`,
+        );
+      }
+
+      const { v, ...event } = record;
+      events.push(migrateLedgerEvent(event, typeof v === 'number' ? v : 1));
+    });
+
+    this.logger.log(`Replayed ${events.length} events from ${this.filePath}`);
+    return events;
+  }
+
+  append(event: LedgerEvent): void {
+    const line = JSON.stringify({ v: LEDGER_SCHEMA_VERSION, ...event });
+    const fd = openSync(this.filePath, 'a');
+    try {
+      writeSync(fd, `${line}\n`);
+      fsyncSync(fd);
+    } finally {
+      closeSync(fd);
+    }
+  }
+}
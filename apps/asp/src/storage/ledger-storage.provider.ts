@@ -0,0 +1,35 @@
+import type { Provider } from '@nestjs/common';
+import { LEDGER_STORAGE, type LedgerStorage } from './ledger-storage';
+import { MemoryLedgerStorage } from './memory-ledger.storage';
+import { FileLedgerStorage } from './file-ledger.storage';
+import { SqliteLedgerStorage } from './sqlite-ledger.storage';
+
+/**
+ * Selects the ledger storage adapter from the environment
+ * - ASP_STORAGE=memory (default): volatile, state is lost on restart
+ * - ASP_STORAGE=file: append-only journal at ASP_LEDGER_PATH, replayed on startup
+ * - ASP_STORAGE=sqlite: event table in the SQLite database at ASP_LEDGER_PATH
+ */
+export function createLedgerStorage(): LedgerStorage {
+  const kind = process.env.ASP_STORAGE || 'memory';
+
+  switch (kind) {
+    case 'memory':
+      return new MemoryLedgerStorage();
+    case 'file':
+      return new FileLedgerStorage(
+        process.env.ASP_LEDGER_PATH || './data/asp/ledger.jsonl',
+      );
+    case 'sqlite':
+      return new SqliteLedgerStorage(
+        process.env.ASP_LEDGER_PATH || './data/asp/ledger.sqlite',
+      );
+    default:
+      throw new Error(`Unknown ASP_STORAGE adapter: ${kind}`);
+  }
+}
+
+export const ledgerStorageProvider: Provider = {
+  provide: LEDGER_STORAGE,
+  useFactory: createLedgerStorage,
+};
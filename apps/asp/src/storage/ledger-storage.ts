@@ -0,0 +1,113 @@
+import type { AssetMetadata, Vtxo } from '@arkswap/protocol';
+import type { RoundRecord } from '../rounds/round-journal.service';
+import type { VtxoExit } from '../exit/exit.service';
+
+/**
+ * Injection token for the active ledger storage adapter
+ */
+export const LEDGER_STORAGE = Symbol('LEDGER_STORAGE');
+
+/**
+ * Current on-disk schema version of ledger events.
+ * Bump this and register a migration in LEDGER_MIGRATIONS whenever an event shape changes.
+ */
+export const LEDGER_SCHEMA_VERSION = 3;
+
+/**
+ * Ledger Events
+ * Every state change of VtxoStore, AssetStore, RoundJournal and ExitService is
+ * recorded as an event.
+ * Replaying the events in order rebuilds the full ledger after a restart.
+ */
+export type LedgerEvent =
+  | { type: 'vtxo.added'; vtxo: Vtxo }
+  | { type: 'vtxo.spent'; txid: string; vout: number }
+  | { type: 'asset.saved'; txid: string; metadata: AssetMetadata }
+  | { type: 'pond.added'; txid: string }
+  | { type: 'round.finalized'; round: RoundRecord }
+  | { type: 'exit.requested'; exit: VtxoExit }
+  | {
+      type: 'exit.funded';
+      txid: string;
+      vout: number;
+      onchain: { txid: string; vout: number };
+    };
+
+/**
+ * Upgrades a raw event written at version N to version N + 1.
+ * Indexed by the version the event is migrated FROM.
+ */
+export type LedgerMigration = (
+  event: Record<string, unknown>,
+) => Record<string, unknown>;
+
+export const LEDGER_MIGRATIONS: Record<number, LedgerMigration> = {
+  // v2: journaled transfers record the fee the ASP kept (none before fees existed)
+  1: (event) => {
+    if (event.type !== 'round.finalized') {
+      return event;
+    }
+    const round = event.round as { transfers: Record<string, unknown>[] };
+    return {
+      ...event,
+      round: {
+        ...round,
+        transfers: round.transfers.map((transfer) => ({ ...transfer, fee: 0 })),
+      },
+    };
+  },
+  // v3: journaled rounds list the VTXOs burned by exits (none before they were journaled)
+  2: (event) => {
+    if (event.type !== 'round.finalized') {
+      return event;
+    }
+    return {
+      ...event,
+      round: { ...(event.round as Record<string, unknown>), exits: [] },
+    };
+  },
+};
+
+/**
+ * Brings a stored event up to LEDGER_SCHEMA_VERSION by applying each migration in turn
+ * @throws Error if the event was written by a newer ASP or a migration step is missing
+ */
+export function migrateLedgerEvent(
+  event: Record<string, unknown>,
+  fromVersion: number,
+): LedgerEvent {
+  if (fromVersion > LEDGER_SCHEMA_VERSION) {
+    throw new Error(
+      `Ledger was written with schema v${fromVersion}, this ASP supports up to v${LEDGER_SCHEMA_VERSION}`,
+    );
+  }
+
+  let migrated = event;
+  for (let version = fromVersion; version < LEDGER_SCHEMA_VERSION; version++) {
+    const migration = LEDGER_MIGRATIONS[version];
+    if (!migration) {
+      throw new Error(`Missing ledger migration from v${version}`);
+    }
+    migrated = migration(migrated);
+  }
+
+  return migrated as LedgerEvent;
+}
+
+/**
+ * Storage Adapter Interface
+ * Backs VtxoStore, AssetStore, RoundJournal and ExitService with an append-only
+ * event log.
+ * Implementations must return events from load() in the order they were appended.
+ */
+export interface LedgerStorage {
+  /**
+   * Returns every persisted event, oldest first (used for startup replay)
+   */
+  load(): LedgerEvent[];
+
+  /**
+   * Durably records a single event
+   */
+  append(event: LedgerEvent): void;
+}
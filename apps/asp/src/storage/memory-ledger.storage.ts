@@ -0,0 +1,17 @@
+import type { LedgerEvent, LedgerStorage } from './ledger-storage';
+
+/**
+ * In-memory ledger storage
+ * State is lost on restart. Used for unit tests and throwaway dev sessions.
+ */
+export class MemoryLedgerStorage implements LedgerStorage {
+  private events: LedgerEvent[] = [];
+
+  load(): LedgerEvent[] {
+    return [...this.events];
+  }
+
+  append(event: LedgerEvent): void {
+    this.events.push(event);
+  }
+}
@@ -0,0 +1,132 @@
+import { mkdtempSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+// eslint-disable-next-line @typescript-eslint/no-require-imports
+import Database = require('better-sqlite3');
+import type { AssetMetadata, Vtxo } from '@arkswap/protocol';
+import { asAddress, asTxId } from '@arkswap/protocol';
+import { SqliteLedgerStorage } from './sqlite-ledger.storage';
+import { VtxoStore } from '../vtxo-store.service';
+import { AssetStore } from '../assets/asset.store';
+
+describe('SqliteLedgerStorage', () => {
+  let dir: string;
+  let dbPath: string;
+  let opened: SqliteLedgerStorage[];
+
+  const vtxo: Vtxo = {
+    txid: asTxId('a'.repeat(64)),
+    vout: 0,
+    amount: 1000,
+    address: asAddress('bcrt1p' + '0'.repeat(58)),
+    spent: false,
+  };
+
+  const metadata: AssetMetadata = {
+    dna: 'b'.repeat(64) as AssetMetadata['dna'],
+    generation: 0,
+    cooldownBlock: 100,
+    lastFedBlock: 0,
+    xp: 0,
+    parents: [],
+  };
+
+  /**
+   * Simulates an ASP process start: fresh adapter and stores over the same database
+   */
+  const boot = () => {
+    const storage = new SqliteLedgerStorage(dbPath);
+    opened.push(storage);
+    const vtxoStore = new VtxoStore(storage);
+    const assetStore = new AssetStore(storage);
+    vtxoStore.onModuleInit();
+    assetStore.onModuleInit();
+    return { vtxoStore, assetStore };
+  };
+
+  /**
+   * Writes a raw row, as an older ASP would have
+   */
+  const insertRaw = (v: number, event: Record<string, unknown>) => {
+    const db = new Database(dbPath);
+    db.prepare('INSERT INTO ledger_events (v, event) VALUES (?, ?)').run(
+      v,
+      JSON.stringify(event),
+    );
+    db.close();
+  };
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), 'asp-ledger-'));
+    dbPath = join(dir, 'nested', 'ledger.sqlite');
+    opened = [];
+  });
+
+  afterEach(() => {
+    opened.forEach((storage) => storage.close());
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('should start empty when no database exists', () => {
+    const { vtxoStore, assetStore } = boot();
+
+    expect(vtxoStore.getForAddress(vtxo.address)).toEqual([]);
+    expect(assetStore.getTotalCount()).toBe(0);
+  });
+
+  it('should replay VTXOs and spent flags after a restart', () => {
+    const first = boot();
+    first.vtxoStore.addVtxo({ ...vtxo });
+    first.vtxoStore.addVtxo({ ...vtxo, vout: 1, amount: 500 });
+    first.vtxoStore.markSpent(vtxo.txid, 0);
+
+    const second = boot();
+
+    expect(second.vtxoStore.getVtxo(vtxo.txid, 0)?.spent).toBe(true);
+    expect(second.vtxoStore.getVtxo(vtxo.txid, 1)).toEqual({
+      ...vtxo,
+      vout: 1,
+      amount: 500,
+    });
+  });
+
+  it('should replay asset metadata updates and pond membership', () => {
+    const first = boot();
+    first.assetStore.saveMetadata(vtxo.txid, metadata);
+    first.assetStore.addToPond(vtxo.txid);
+    first.assetStore.feedAsset(vtxo.txid, 500);
+
+    const second = boot();
+
+    expect(second.assetStore.getMetadata(vtxo.txid)).toEqual({
+      ...metadata,
+      lastFedBlock: 500,
+      xp: 10,
+    });
+    expect(second.assetStore.getPondAssets()).toHaveLength(1);
+  });
+
+  it('should migrate rows written with an older schema version', () => {
+    boot();
+    insertRaw(2, {
+      type: 'round.finalized',
+      round: { roundId: 'round-0', transfers: [] },
+    });
+
+    const storage = new SqliteLedgerStorage(dbPath);
+    opened.push(storage);
+    const [event] = storage.load();
+
+    expect(event).toMatchObject({
+      type: 'round.finalized',
+      round: { roundId: 'round-0', exits: [] },
+    });
+  });
+
+  it('should refuse a ledger written by a newer schema version', () => {
+    boot();
+    insertRaw(99, { type: 'pond.added', txid: vtxo.txid });
+
+    expect(() => boot()).toThrow('schema v99');
+  });
+});
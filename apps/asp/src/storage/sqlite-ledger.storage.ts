@@ -0,0 +1,73 @@
+import { Logger } from '@nestjs/common';
+import { mkdirSync } from 'fs';
+import { dirname } from 'path';
+// better-sqlite3 is a CommonJS `export =` module and this app does not enable esModuleInterop
+// eslint-disable-next-line @typescript-eslint/no-require-imports
+import Database = require('better-sqlite3');
+import {
+  LEDGER_SCHEMA_VERSION,
+  migrateLedgerEvent,
+  type LedgerEvent,
+  type LedgerStorage,
+} from './ledger-storage';
+
+/**
+ * Durable ledger storage backed by a SQLite database
+ *
+ * Events live in a single table, ordered by an autoincrementing sequence and
+ * tagged with the schema version they were written with. Every append is its
+ * own transaction, committed with synchronous=FULL, so an event is on disk
+ * before the caller continues and a crash never leaves a partial row behind.
+ */
+export class SqliteLedgerStorage implements LedgerStorage {
+  private readonly logger = new Logger(SqliteLedgerStorage.name);
+  private readonly db: Database.Database;
+  private readonly insert: Database.Statement<[number, string]>;
+
+  constructor(private readonly filePath: string) {
+    mkdirSync(dirname(filePath), { recursive: true });
+    this.db = new Database(filePath);
+    this.db.pragma('journal_mode = WAL');
+    this.db.pragma('synchronous = FULL');
+    this.db.exec(
+      `CREATE TABLE IF NOT EXISTS ledger_events (
+        seq INTEGER PRIMARY KEY AUTOINCREMENT,
+        v INTEGER NOT NULL,
+        event TEXT NOT NULL
+      )`,
+    );
+    this.insert = this.db.prepare(
+      'INSERT INTO ledger_events (v, event) VALUES (?, ?)',
+    );
+  }
+
+  load(): LedgerEvent[] {
+    const rows = this.db
+      .prepare('SELECT seq, v, event FROM ledger_events ORDER BY seq')
+      .all() as Array<{ seq: number; v: number; event: string }>;
+
+    const events = rows.map((row) => {
+      let event: Record<string, unknown>;
+      try {
+        event = JSON.parse(row.event);
+      } catch {
+        throw new Error(`Corrupt ledger entry at ${this.filePath}#${row.seq}`);
+      }
+      return migrateLedgerEvent(event, row.v);
+    });
+
+    this.logger.log(`Replayed ${events.length} events from ${this.filePath}`);
+    return events;
+  }
+
+  append(event: LedgerEvent): void {
+    this.insert.run(LEDGER_SCHEMA_VERSION, JSON.stringify(event));
+  }
+
+  /**
+   * Closes the database (tests and shutdown)
+   */
+  close(): void {
+    this.db.close();
+  }
+}
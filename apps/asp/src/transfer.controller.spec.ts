@@ -0,0 +1,63 @@
+import { BadRequestException } from '@nestjs/common';
+import type { ArkTransaction } from '@arkswap/protocol';
+import { TransferController } from './transfer.controller';
+import type { RoundService } from './round.service';
+import type { RoundScheduler } from './rounds/round-scheduler.service';
+import type { AspIdentityService } from './identity/asp-identity.service';
+
+describe('TransferController', () => {
+  let submitTx: jest.Mock;
+  let controller: TransferController;
+
+  const tx = {
+    version: 2,
+    inputs: [{ txid: 'a'.repeat(64), vout: 0, signature: 'c'.repeat(128) }],
+    outputs: [{ address: 'bcrt1p' + '0'.repeat(58), amount: 1000 }],
+  };
+
+  beforeEach(() => {
+    submitTx = jest
+      .fn()
+      .mockResolvedValue({ transferId: 'd'.repeat(64), outputs: [] });
+    controller = new TransferController(
+      { submitTx } as unknown as RoundService,
+      { getNextRoundHint: () => null } as unknown as RoundScheduler,
+      { sign: () => 'e'.repeat(128) } as unknown as AspIdentityService,
+    );
+  });
+
+  it('should submit a well-formed transaction', async () => {
+    await controller.submitTransfer(tx as ArkTransaction);
+
+    expect(submitTx).toHaveBeenCalledWith(tx);
+  });
+
+  it('should reject a witness without its control block or stack with a 400', async () => {
+    const malformed = {
+      ...tx,
+      inputs: [{ ...tx.inputs[0], witness: { leafScript: 'ab' } }],
+    };
+
+    await expect(
+      controller.submitTransfer(malformed as unknown as ArkTransaction),
+    ).rejects.toThrow(BadRequestException);
+    expect(submitTx).not.toHaveBeenCalled();
+  });
+
+  it('should reject a witness with non-hex fields with a 400', async () => {
+    const malformed = {
+      ...tx,
+      inputs: [
+        {
+          ...tx.inputs[0],
+          witness: { leafScript: 'ab', controlBlock: 'zz', stack: [7] },
+        },
+      ],
+    };
+
+    await expect(
+      controller.submitTransfer(malformed as unknown as ArkTransaction),
+    ).rejects.toThrow('inputs.0.witness.controlBlock');
+    expect(submitTx).not.toHaveBeenCalled();
+  });
+});
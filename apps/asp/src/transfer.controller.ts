@@ -1,11 +1,31 @@
-import { Controller, Post, Body } from '@nestjs/common';
+import {
+  Controller,
+  Post,
+  Get,
+  Body,
+  Param,
+  BadRequestException,
+} from '@nestjs/common';
 import { RoundService } from './round.service';
-import type { ArkTransaction } from '@arkswap/protocol';
-import { getTxHash } from '@arkswap/protocol';
+import { RoundScheduler } from './rounds/round-scheduler.service';
+import type { ArkTransaction, TransferReceipt } from '@arkswap/protocol';
+import {
+  createArkTransactionSchema,
+  getTransferReceiptHash,
+} from '@arkswap/protocol';
+import { AspIdentityService } from './identity/asp-identity.service';
+import { loadNetwork } from './bitcoin/network';
 
 @Controller('v1')
 export class TransferController {
-  constructor(private readonly roundService: RoundService) {}
+  private readonly transactionSchema =
+    createArkTransactionSchema(loadNetwork());
+
+  constructor(
+    private readonly roundService: RoundService,
+    private readonly roundScheduler: RoundScheduler,
+    private readonly identity: AspIdentityService,
+  ) {}
 
   @Post('transfer')
   async submitTransfer(@Body() body: ArkTransaction) {
@@ -25,20 +45,35 @@ export class TransferController {
       return { error: 'Invalid transaction: outputs required' };
     }
 
-    // Submit transaction (validation happens in RoundService.submitTx)
-    await this.roundService.submitTx(body);
+    // Shape of every input, witness and output; RoundService.submitTx checks the rest
+    const parsed = this.transactionSchema.safeParse(body);
+    if (!parsed.success) {
+      throw new BadRequestException(
+        `Invalid transaction: ${parsed.error.issues.map((e) => `${e.path.join('.')}: ${e.message}`).join(', ')}`,
+      );
+    }
+
+    // Signed receipt: the ASP commits to creating receipt.outputs in receipt.roundId
+    const receipt = await this.roundService.submitTx(parsed.data);
+
+    return {
+      ...this.sign(receipt),
+      nextRound: this.roundScheduler.getNextRoundHint(),
+    };
+  }
 
-    // Calculate transferId (hash of the transaction)
-    const inputsWithoutSigs = body.inputs.map(({ txid, vout }) => ({
-      txid,
-      vout,
-    }));
-    const transferId = await getTxHash(inputsWithoutSigs, body.outputs);
+  /**
+   * Transfer status: queued (expected outputs) or finalized (created outputs)
+   */
+  @Get('transfer/:transferId')
+  getTransfer(@Param('transferId') transferId: string) {
+    return this.sign(this.roundService.getTransferReceipt(transferId));
+  }
 
+  private sign(receipt: TransferReceipt) {
     return {
-      status: 'queued',
-      transferId,
-      nextRound: '5s',
+      ...receipt,
+      signature: this.identity.sign(getTransferReceiptHash(receipt)),
     };
   }
 }
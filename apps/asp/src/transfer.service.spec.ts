@@ -0,0 +1,484 @@
+import { createHash } from 'crypto';
+import * as bitcoin from 'bitcoinjs-lib';
+import * as ecc from '@bitcoinerlab/secp256k1';
+import { ECPairFactory } from 'ecpair';
+import type { ArkOutput, ArkTransaction } from '@arkswap/protocol';
+import {
+  asAddress,
+  asSignatureHex,
+  asTxId,
+  createSwapLock,
+  getTapleafHash,
+  SIGHASH_ALL,
+  SIGHASH_ANYONECANPAY,
+  SIGHASH_SINGLE,
+  getTaprootSighash,
+  getTxHash,
+  getVtxoPrevout,
+} from '@arkswap/protocol';
+import { TransferService } from './transfer.service';
+import { VtxoStore } from './vtxo-store.service';
+import { FeeService } from './fees/fee.service';
+import { RoundJournal } from './rounds/round-journal.service';
+
+const ECPair = ECPairFactory(ecc);
+const network = bitcoin.networks.regtest;
+
+describe('TransferService', () => {
+  const env = process.env;
+  let vtxoStore: VtxoStore;
+  let roundJournal: RoundJournal;
+
+  const owner = ECPair.makeRandom({ network });
+  const internalPubkey = Buffer.from(owner.publicKey.subarray(1, 33));
+  const tweaked = owner.tweak(
+    Buffer.from(bitcoin.crypto.taggedHash('TapTweak', internalPubkey)),
+  );
+
+  const coins = [
+    { txid: asTxId('a'.repeat(64)), vout: 0, amount: 1000 },
+    { txid: asTxId('b'.repeat(64)), vout: 1, amount: 500 },
+  ];
+
+  const boot = (overrides: Record<string, string> = {}) => {
+    process.env = { ...env };
+    delete process.env.ASP_LEGACY_SIGHASH;
+    delete process.env.ASP_NETWORK;
+    Object.assign(process.env, overrides);
+    const service = new TransferService(
+      vtxoStore,
+      { getRequiredFee: () => 0 } as unknown as FeeService,
+      roundJournal,
+    );
+    service.onModuleInit();
+    return service;
+  };
+
+  const signHash = (hashHex: string) =>
+    asSignatureHex(
+      Buffer.from(tweaked.signSchnorr(Buffer.from(hashHex, 'hex'))).toString(
+        'hex',
+      ),
+    );
+
+  let address: string;
+  let outputs: ArkOutput[];
+
+  const signTaproot = (amounts = coins.map((coin) => coin.amount)) => {
+    const unsigned = {
+      version: 2 as const,
+      inputs: coins.map(({ txid, vout }) => ({
+        txid,
+        vout,
+        signature: asSignatureHex(''),
+      })),
+      outputs,
+    };
+    const prevouts = amounts.map((amount) => getVtxoPrevout(address, amount));
+    const tx: ArkTransaction = {
+      ...unsigned,
+      inputs: unsigned.inputs.map((input, index) => ({
+        ...input,
+        signature: signHash(getTaprootSighash(unsigned, prevouts, index)),
+      })),
+    };
+    return tx;
+  };
+
+  const signLegacy = async (): Promise<ArkTransaction> => {
+    const txHash = await getTxHash(
+      coins.map(({ txid, vout }) => ({ txid, vout })),
+      outputs,
+    );
+    return {
+      inputs: coins.map(({ txid, vout }) => ({
+        txid,
+        vout,
+        signature: signHash(txHash),
+      })),
+      outputs,
+    };
+  };
+
+  beforeEach(() => {
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+    boot();
+    address = bitcoin.payments.p2tr({ internalPubkey, network }).address!;
+    outputs = [{ address: asAddress(address), amount: 1500 }];
+    vtxoStore = new VtxoStore();
+    roundJournal = new RoundJournal();
+    for (const coin of coins) {
+      vtxoStore.addVtxo({
+        ...coin,
+        address: asAddress(address),
+        spent: false,
+      });
+    }
+  });
+
+  afterEach(() => {
+    process.env = env;
+    jest.restoreAllMocks();
+  });
+
+  it('should accept per-input BIP-341 sighash signatures', async () => {
+    await expect(
+      boot().validateTransaction(signTaproot(), 0),
+    ).resolves.toBeUndefined();
+  });
+
+  it('should reject a signature made for another input', async () => {
+    const tx = signTaproot();
+    const swapped = {
+      ...tx,
+      inputs: [
+        { ...tx.inputs[0], signature: tx.inputs[1].signature },
+        tx.inputs[1],
+      ],
+    };
+
+    await expect(boot().validateTransaction(swapped, 0)).rejects.toThrow(
+      `Invalid Schnorr signature for input ${coins[0].txid}`,
+    );
+  });
+
+  it('should reject signatures over amounts other than the stored VTXOs', async () => {
+    await expect(
+      boot().validateTransaction(signTaproot([1000, 5000]), 0),
+    ).rejects.toThrow('Invalid Schnorr signature');
+  });
+
+  it('should still accept legacy hashes during the deprecation period', async () => {
+    const service = boot();
+
+    await expect(
+      service.validateTransaction(await signLegacy(), 0),
+    ).resolves.toBeUndefined();
+    expect(service.getAcceptedVersions()).toEqual([1, 2]);
+  });
+
+  it('should reject legacy hashes once ASP_LEGACY_SIGHASH=reject', async () => {
+    const service = boot({ ASP_LEGACY_SIGHASH: 'reject' });
+
+    await expect(
+      service.validateTransaction(await signLegacy(), 0),
+    ).rejects.toThrow('Legacy (version 1) transactions are no longer accepted');
+    expect(service.getAcceptedVersions()).toEqual([2]);
+  });
+
+  it('should not verify a legacy signature as a version 2 transaction', async () => {
+    const legacy = await signLegacy();
+
+    await expect(
+      boot().validateTransaction({ ...legacy, version: 2 }, 0),
+    ).rejects.toThrow('Invalid Schnorr signature');
+  });
+
+  describe('networks', () => {
+    const signet = bitcoin.networks.testnet;
+    const signetCoin = { txid: asTxId('d'.repeat(64)), vout: 0, amount: 1000 };
+
+    const signSignet = (): ArkTransaction => {
+      const signetAddress = bitcoin.payments.p2tr({
+        internalPubkey,
+        network: signet,
+      }).address!;
+      vtxoStore.addVtxo({
+        ...signetCoin,
+        address: asAddress(signetAddress),
+        spent: false,
+      });
+      const unsigned = {
+        version: 2 as const,
+        inputs: [{ ...signetCoin, signature: asSignatureHex('') }],
+        outputs: [{ address: asAddress(signetAddress), amount: 1000 }],
+      };
+      const prevouts = [getVtxoPrevout(signetAddress, 1000, 'signet')];
+      return {
+        ...unsigned,
+        inputs: [
+          {
+            ...unsigned.inputs[0],
+            signature: signHash(
+              getTaprootSighash(unsigned, prevouts, 0, undefined, 'signet'),
+            ),
+          },
+        ],
+      };
+    };
+
+    it('should decode signet addresses when ASP_NETWORK=signet', async () => {
+      await expect(
+        boot({ ASP_NETWORK: 'signet' }).validateTransaction(signSignet(), 0),
+      ).resolves.toBeUndefined();
+    });
+
+    it('should reject VTXOs of another network', async () => {
+      const tx = signSignet();
+
+      await expect(boot().validateTransaction(tx, 0)).rejects.toThrow(
+        'Invalid Taproot script for address tb1p',
+      );
+      await expect(
+        boot({ ASP_NETWORK: 'signet' }).validateTransaction(signTaproot(), 0),
+      ).rejects.toThrow('Invalid Taproot script for address bcrt1p');
+    });
+
+    it('should refuse to start on mainnet', () => {
+      expect(() => boot({ ASP_NETWORK: 'bitcoin' })).toThrow('SAFETY SHUTDOWN');
+    });
+  });
+
+  describe('sighash types', () => {
+    const bob = ECPair.makeRandom({ network });
+    const bobInternalPubkey = Buffer.from(bob.publicKey.subarray(1, 33));
+    const bobTweaked = bob.tweak(
+      Buffer.from(bitcoin.crypto.taggedHash('TapTweak', bobInternalPubkey)),
+    );
+    const bobCoin = { txid: asTxId('c'.repeat(64)), vout: 0, amount: 2000 };
+    let bobAddress: string;
+
+    beforeEach(() => {
+      bobAddress = bitcoin.payments.p2tr({
+        internalPubkey: bobInternalPubkey,
+        network,
+      }).address!;
+      vtxoStore.addVtxo({
+        ...bobCoin,
+        address: asAddress(bobAddress),
+        spent: false,
+      });
+    });
+
+    it('should accept a transfer batched from independently signed ANYONECANPAY inputs', async () => {
+      const sighashType = SIGHASH_ALL | SIGHASH_ANYONECANPAY;
+      const batchOutputs = [
+        { address: asAddress(bobAddress), amount: 1000 },
+        { address: asAddress(address), amount: 2000 },
+      ];
+      const aliceInput = {
+        txid: coins[0].txid,
+        vout: coins[0].vout,
+        sighashType,
+      };
+      const bobInput = { txid: bobCoin.txid, vout: bobCoin.vout, sighashType };
+
+      // Each user signs knowing only their own input
+      const aliceSignature = signHash(
+        getTaprootSighash(
+          { inputs: [aliceInput], outputs: batchOutputs },
+          [getVtxoPrevout(address, coins[0].amount)],
+          0,
+        ),
+      );
+      const bobSignature = asSignatureHex(
+        Buffer.from(
+          bobTweaked.signSchnorr(
+            Buffer.from(
+              getTaprootSighash(
+                { inputs: [aliceInput, bobInput], outputs: batchOutputs },
+                [
+                  getVtxoPrevout(address, coins[0].amount),
+                  getVtxoPrevout(bobAddress, bobCoin.amount),
+                ],
+                1,
+              ),
+              'hex',
+            ),
+          ),
+        ).toString('hex'),
+      );
+
+      await expect(
+        boot().validateTransaction(
+          {
+            version: 2,
+            inputs: [
+              { ...aliceInput, signature: aliceSignature },
+              { ...bobInput, signature: bobSignature },
+            ],
+            outputs: batchOutputs,
+          },
+          0,
+        ),
+      ).resolves.toBeUndefined();
+    });
+
+    it('should reject SIGHASH_SINGLE without an output at the same index', async () => {
+      const tx = signTaproot();
+      const single = {
+        ...tx,
+        inputs: [
+          tx.inputs[0],
+          { ...tx.inputs[1], sighashType: SIGHASH_SINGLE },
+        ],
+      };
+
+      await expect(boot().validateTransaction(single, 0)).rejects.toThrow(
+        'Invalid virtual transaction: SIGHASH_SINGLE input 1 has no output at the same index',
+      );
+    });
+
+    it('should reject sighash types on legacy transactions', async () => {
+      const legacy = await signLegacy();
+      const flagged = {
+        ...legacy,
+        inputs: legacy.inputs.map((input) => ({
+          ...input,
+          sighashType: SIGHASH_ALL | SIGHASH_ANYONECANPAY,
+        })),
+      };
+
+      await expect(boot().validateTransaction(flagged, 0)).rejects.toThrow(
+        'Sighash types require BIP-341 sighashes (version 2)',
+      );
+    });
+  });
+
+  describe('script-path spends', () => {
+    const maker = ECPair.makeRandom({ network });
+    const user = ECPair.makeRandom({ network });
+    const preimage = Buffer.from('swap secret');
+    const lock = createSwapLock({
+      makerPubkey: Buffer.from(maker.publicKey.subarray(1, 33)),
+      userPubkey: Buffer.from(user.publicKey.subarray(1, 33)),
+      preimageHash: createHash('sha256').update(preimage).digest(),
+      timeoutBlocks: 20,
+    });
+    const locked = { txid: asTxId('d'.repeat(64)), vout: 0, amount: 1000 };
+    const lockedInRound = 3;
+
+    beforeEach(() => {
+      const vtxo = {
+        ...locked,
+        address: asAddress(lock.address),
+        spent: false,
+      };
+      vtxoStore.addVtxo(vtxo);
+      roundJournal.record({
+        roundId: 'round-3',
+        roundHeight: lockedInRound,
+        timestamp: new Date().toISOString(),
+        anchorTxid: null,
+        merkleRoot: '',
+        lifts: [],
+        transfers: [],
+        created: [vtxo],
+        spent: [],
+        exits: [],
+        leaves: [],
+      });
+    });
+
+    const spendLeaf = (
+      signer: typeof maker,
+      leafScript: Buffer,
+      controlBlock: Buffer,
+      stack: Buffer[],
+    ): ArkTransaction => {
+      const unsigned = {
+        version: 2 as const,
+        inputs: [
+          {
+            txid: locked.txid,
+            vout: locked.vout,
+            witness: {
+              leafScript: leafScript.toString('hex'),
+              controlBlock: controlBlock.toString('hex'),
+              stack: stack.map((item) => item.toString('hex')),
+            },
+          },
+        ],
+        outputs: [{ address: asAddress(address), amount: 1000 }],
+      };
+      const sighash = getTaprootSighash(
+        unsigned,
+        [getVtxoPrevout(lock.address, locked.amount)],
+        0,
+        getTapleafHash(leafScript),
+      );
+      const signature = asSignatureHex(
+        Buffer.from(signer.signSchnorr(Buffer.from(sighash, 'hex'))).toString(
+          'hex',
+        ),
+      );
+      return {
+        ...unsigned,
+        inputs: [{ ...unsigned.inputs[0], signature }],
+      };
+    };
+
+    const claim = (claimPreimage = preimage) =>
+      spendLeaf(maker, lock.leaves.claim, lock.controlBlock, [claimPreimage]);
+    const refund = () =>
+      spendLeaf(user, lock.leaves.refund, lock.controlBlockRefund, []);
+
+    it('should accept a claim with the preimage and the maker signature', async () => {
+      await expect(
+        boot().validateTransaction(claim(), lockedInRound + 1),
+      ).resolves.toBeUndefined();
+    });
+
+    it('should reject a claim with the wrong preimage', async () => {
+      await expect(
+        boot().validateTransaction(
+          claim(Buffer.from('wrong secret')),
+          lockedInRound + 1,
+        ),
+      ).rejects.toThrow(
+        `Script-path spend failed for input ${locked.txid}: OP_EQUALVERIFY: items are not equal`,
+      );
+    });
+
+    it('should reject a claim signed by someone other than the maker', async () => {
+      const forged = spendLeaf(user, lock.leaves.claim, lock.controlBlock, [
+        preimage,
+      ]);
+
+      await expect(
+        boot().validateTransaction(forged, lockedInRound + 1),
+      ).rejects.toThrow('OP_CHECKSIG: invalid signature');
+    });
+
+    it('should only accept the refund once the VTXO is old enough', async () => {
+      const service = boot();
+
+      await expect(
+        service.validateTransaction(refund(), lockedInRound + 19),
+      ).rejects.toThrow('OP_CHECKSEQUENCEVERIFY: relative age 19 < 20');
+      await expect(
+        service.validateTransaction(refund(), lockedInRound + 20),
+      ).resolves.toBeUndefined();
+    });
+
+    it('should reject a leaf the lock does not commit to', async () => {
+      const other = createSwapLock({
+        makerPubkey: Buffer.from(maker.publicKey.subarray(1, 33)),
+        userPubkey: Buffer.from(maker.publicKey.subarray(1, 33)),
+        preimageHash: createHash('sha256').update(preimage).digest(),
+        timeoutBlocks: 1,
+      });
+      const stolen = spendLeaf(
+        maker,
+        other.leaves.refund,
+        other.controlBlockRefund,
+        [],
+      );
+
+      await expect(
+        boot().validateTransaction(stolen, lockedInRound + 1),
+      ).rejects.toThrow(`Invalid Taproot commitment for input ${locked.txid}`);
+    });
+
+    it('should reject script-path witnesses on legacy transactions', async () => {
+      await expect(
+        boot().validateTransaction(
+          { ...claim(), version: 1 },
+          lockedInRound + 1,
+        ),
+      ).rejects.toThrow(
+        'Script-path spends require BIP-341 sighashes (version 2)',
+      );
+    });
+  });
+});
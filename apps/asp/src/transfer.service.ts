@@ -1,13 +1,55 @@
 import { Injectable, BadRequestException, OnModuleInit } from '@nestjs/common';
 import * as bitcoin from 'bitcoinjs-lib';
-import { getTxHash, ArkTransaction, ECCLibrary } from '@arkswap/protocol';
-import { VtxoStore } from './vtxo-store.service';
+import {
+  ARK_TX_VERSION_LEGACY,
+  ARK_TX_VERSION_TAPROOT,
+  getArkTxVersion,
+  getInputSighashType,
+  buildVirtualTx,
+  executeTapscript,
+  getTaprootOutputKey,
+  getTapleafHash,
+  getTaprootSighash,
+  getTxHash,
+  getVtxoPrevout,
+  verifyInputSignature,
+  verifyTaprootCommitment,
+  type ArkPrevout,
+  type ArkTransaction,
+  type ECCLibrary,
+  type Vtxo,
+} from '@arkswap/protocol';
+import { VtxoStore, toOutpointKey } from './vtxo-store.service';
+import { FeeService } from './fees/fee.service';
+import { RoundJournal } from './rounds/round-journal.service';
+import { loadNetwork } from './bitcoin/network';
+
+export type LegacySighashMode = 'accept' | 'reject';
+
+/**
+ * Reads whether legacy (version 1) transaction hashes are still accepted
+ * - ASP_LEGACY_SIGHASH=accept (default during the deprecation period)
+ * - ASP_LEGACY_SIGHASH=reject: only BIP-341 sighashes (version 2) verify
+ */
+export function loadLegacySighashMode(): LegacySighashMode {
+  const mode = process.env.ASP_LEGACY_SIGHASH || 'accept';
+  if (mode !== 'accept' && mode !== 'reject') {
+    throw new Error(`Unknown ASP_LEGACY_SIGHASH: ${mode}`);
+  }
+  return mode;
+}
 
 @Injectable()
 export class TransferService implements OnModuleInit {
   private ecc: ECCLibrary;
+  private readonly legacySighash = loadLegacySighashMode();
+  private readonly network = loadNetwork();
 
-  constructor(private readonly vtxoStore: VtxoStore) {}
+  constructor(
+    private readonly vtxoStore: VtxoStore,
+    private readonly feeService: FeeService,
+    private readonly roundJournal: RoundJournal,
+  ) {}
 
   onModuleInit() {
     // This fixes the "undefined reading verifySchnorr" error by handling
@@ -27,22 +69,37 @@ export class TransferService implements OnModuleInit {
     }
   }
 
-  async validateTransaction(tx: ArkTransaction): Promise<void> {
-    // 1. Calculate transaction hash
-    // Note: Real Ark uses BIP-341 serialization (SIGHASH_ALL).
-    // For this PoC, we use a deterministic string format (not JSON).
-    const inputsWithoutSigs = tx.inputs.map(({ txid, vout }) => ({
-      txid,
-      vout,
-    }));
-    const txHash = await getTxHash(inputsWithoutSigs, tx.outputs);
-    const txHashBuffer = Buffer.from(txHash, 'hex');
+  /**
+   * Transaction versions this ASP verifies (see ARK_TX_VERSION_* in @arkswap/protocol)
+   */
+  getAcceptedVersions(): number[] {
+    return this.legacySighash === 'accept'
+      ? [ARK_TX_VERSION_LEGACY, ARK_TX_VERSION_TAPROOT]
+      : [ARK_TX_VERSION_TAPROOT];
+  }
 
+  /**
+   * Validates a transfer queued for the round at roundHeight
+   * (script-path inputs evaluate OP_CHECKSEQUENCEVERIFY against that height)
+   */
+  async validateTransaction(
+    tx: ArkTransaction,
+    roundHeight: number,
+  ): Promise<void> {
     let totalInputAmount = 0;
     let totalOutputAmount = 0;
 
-    // 2. Validate Inputs
+    // 1. Validate Inputs
+    const seenInputs = new Set<string>();
+    const spentVtxos: Vtxo[] = [];
     for (const input of tx.inputs) {
+      // Check Double Spend (Same Transaction)
+      const outpoint = toOutpointKey(input.txid, input.vout);
+      if (seenInputs.has(outpoint)) {
+        throw new BadRequestException(`Duplicate input: ${outpoint}`);
+      }
+      seenInputs.add(outpoint);
+
       // Check Existence
       const vtxo = this.vtxoStore.getVtxo(input.txid, input.vout);
       if (!vtxo) {
@@ -52,55 +109,45 @@ export class TransferService implements OnModuleInit {
       }
 
       // Check Double Spend (Committed)
-      if (vtxo.spent) {
+      if (this.vtxoStore.isSpent(input.txid, input.vout)) {
         throw new BadRequestException(
           `VTXO already spent: ${input.txid}:${input.vout}`,
         );
       }
 
-      // Verify Ownership
-      try {
-        // Decode Address to Pubkey
-        // Use toOutputScript to get byte-perfect script, then extract pubkey
-        // Must specify regtest network to accept bcrt1 addresses
-        const outputScript = bitcoin.address.toOutputScript(
-          vtxo.address,
-          bitcoin.networks.regtest,
-        );
+      spentVtxos.push(vtxo);
+      totalInputAmount += vtxo.amount;
+    }
 
-        // Taproot Script is: OP_1 (0x51) <32-byte-pubkey>
-        // So we slice from index 2 to 34
-        if (
-          outputScript.length !== 34 ||
-          outputScript[0] !== 0x51 ||
-          outputScript[1] !== 0x20
-        ) {
-          throw new BadRequestException(
-            `Invalid Taproot script for address ${vtxo.address}`,
-          );
+    // 2. Verify Ownership: every input must spend a Taproot output (key = output key)
+    const prevouts = spentVtxos.map((vtxo) => {
+      try {
+        const prevout = getVtxoPrevout(vtxo.address, vtxo.amount, this.network);
+        if (getTaprootOutputKey(prevout.script)) {
+          return prevout;
         }
+      } catch {
+        // Not an address of this network, rejected below
+      }
+      throw new BadRequestException(
+        `Invalid Taproot script for address ${vtxo.address}`,
+      );
+    });
 
-        const pubkey = Buffer.from(outputScript.slice(2, 34));
-        const signature = Buffer.from(input.signature, 'hex');
-
-        // Verify Schnorr Signature
-        const isValid = this.ecc.verifySchnorr(txHashBuffer, pubkey, signature);
-
-        if (!isValid) {
-          throw new BadRequestException(
-            `Invalid Schnorr signature for input ${input.txid}`,
-          );
-        }
-      } catch (error) {
-        // Unwrap BadRequestExceptions to keep messages clean
-        if (error instanceof BadRequestException) throw error;
+    // Each signature must verify for its own input under the transaction's version
+    // Script-path inputs instead execute the leaf they reveal (version 2 only)
+    const verifyInput = await this.getInputVerifier(tx, prevouts);
+    tx.inputs.forEach((input, index) => {
+      if (input.witness) {
+        this.verifyScriptPath(tx, prevouts, index, roundHeight);
+        return;
+      }
+      if (!verifyInput(index, input.signature)) {
         throw new BadRequestException(
-          `Signature verification failed: ${error}`,
+          `Invalid Schnorr signature for input ${input.txid}`,
         );
       }
-
-      totalInputAmount += vtxo.amount;
-    }
+    });
 
     // 3. Validate Outputs
     for (const output of tx.outputs) {
@@ -118,5 +165,147 @@ export class TransferService implements OnModuleInit {
         `Insufficient inputs: ${totalInputAmount} < ${totalOutputAmount}`,
       );
     }
+
+    // 5. Verify Fee (the difference is kept by the ASP)
+    const fee = totalInputAmount - totalOutputAmount;
+    const requiredFee = this.feeService.getRequiredFee(tx);
+    if (fee < requiredFee) {
+      throw new BadRequestException(
+        `Insufficient fee: ${fee} < ${requiredFee}`,
+      );
+    }
+  }
+
+  /**
+   * Signature check for one input, by transaction version
+   * - legacy (version 1): getTxHash of the whole transaction, shared by all inputs
+   * - taproot (version 2): the input's BIP-341 sighash for its sighashType, bound
+   *   to its index and to the amount and script of every prevout unless
+   *   ANYONECANPAY (see verifyInputSignature)
+   */
+  private async getInputVerifier(
+    tx: ArkTransaction,
+    prevouts: ArkPrevout[],
+  ): Promise<(index: number, signature: string) => boolean> {
+    const version = getArkTxVersion(tx);
+
+    if (version === ARK_TX_VERSION_LEGACY) {
+      if (this.legacySighash === 'reject') {
+        throw new BadRequestException(
+          'Legacy (version 1) transactions are no longer accepted, sign BIP-341 sighashes (version 2)',
+        );
+      }
+      if (tx.inputs.some((input) => input.sighashType)) {
+        throw new BadRequestException(
+          'Sighash types require BIP-341 sighashes (version 2)',
+        );
+      }
+      if (tx.inputs.some((input) => input.witness)) {
+        throw new BadRequestException(
+          'Script-path spends require BIP-341 sighashes (version 2)',
+        );
+      }
+      const inputsWithoutSigs = tx.inputs.map(({ txid, vout }) => ({
+        txid,
+        vout,
+      }));
+      const txHash = Buffer.from(
+        await getTxHash(inputsWithoutSigs, tx.outputs),
+        'hex',
+      );
+      return (index, signature) => {
+        try {
+          return this.ecc.verifySchnorr(
+            txHash,
+            getTaprootOutputKey(prevouts[index].script)!,
+            Buffer.from(signature, 'hex'),
+          );
+        } catch {
+          return false;
+        }
+      };
+    }
+
+    if (version !== ARK_TX_VERSION_TAPROOT) {
+      throw new BadRequestException(
+        `Unsupported transaction version: ${version}`,
+      );
+    }
+
+    try {
+      // Serializes the virtual transaction once, rejecting invalid output addresses
+      // and sighash types that cannot be signed (e.g. SIGHASH_SINGLE without output)
+      buildVirtualTx(tx, prevouts, this.network);
+      tx.inputs.forEach((_, index) => getInputSighashType(tx, index));
+    } catch (error) {
+      throw new BadRequestException(
+        `Invalid virtual transaction: ${error instanceof Error ? error.message : error}`,
+      );
+    }
+    return (index, signature) =>
+      verifyInputSignature(
+        this.ecc,
+        tx,
+        prevouts,
+        index,
+        signature,
+        this.network,
+      );
+  }
+
+  /**
+   * Script-path spend of one input (e.g. a swap lock's claim or refund leaf)
+   * - the control block must commit the leaf to the prevout's output key
+   * - the leaf runs on [signature, ...stack], its OP_CHECKSIG against the input's
+   *   BIP-342 sighash and its OP_CHECKSEQUENCEVERIFY against the VTXO's age in
+   *   rounds (roundHeight minus the height of the round that created it)
+   */
+  private verifyScriptPath(
+    tx: ArkTransaction,
+    prevouts: ArkPrevout[],
+    index: number,
+    roundHeight: number,
+  ): void {
+    const input = tx.inputs[index];
+    const { leafScript, controlBlock, stack } = input.witness!;
+    const leaf = Buffer.from(leafScript, 'hex');
+
+    const outputKey = getTaprootOutputKey(prevouts[index].script)!;
+    if (
+      !verifyTaprootCommitment(
+        outputKey,
+        leaf,
+        Buffer.from(controlBlock, 'hex'),
+      )
+    ) {
+      throw new BadRequestException(
+        `Invalid Taproot commitment for input ${input.txid}`,
+      );
+    }
+
+    const created = this.roundJournal.findCreated(input.txid, input.vout);
+    const age = created ? roundHeight - created.roundHeight : 0;
+    const sighash = Buffer.from(
+      getTaprootSighash(
+        tx,
+        prevouts,
+        index,
+        getTapleafHash(leaf),
+        this.network,
+      ),
+      'hex',
+    );
+
+    try {
+      executeTapscript(
+        leaf,
+        [input.signature, ...stack].map((item) => Buffer.from(item, 'hex')),
+        { sighash, age },
+      );
+    } catch (error) {
+      throw new BadRequestException(
+        `Script-path spend failed for input ${input.txid}: ${error instanceof Error ? error.message : error}`,
+      );
+    }
   }
 }
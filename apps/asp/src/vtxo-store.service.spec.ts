@@ -0,0 +1,129 @@
+import type { Vtxo } from '@arkswap/protocol';
+import { asAddress, asTxId } from '@arkswap/protocol';
+import { VtxoStore, toOutpointKey } from './vtxo-store.service';
+
+const makeTxid = (n: number) => asTxId(n.toString(16).padStart(64, '0'));
+const makeAddress = (n: number) =>
+  asAddress('bcrt1p' + n.toString(16).padStart(58, '0'));
+
+const makeVtxo = (n: number, vout = 0, addressCount = 100): Vtxo => ({
+  txid: makeTxid(n),
+  vout,
+  amount: 1000 + n,
+  address: makeAddress(n % addressCount),
+  spent: false,
+});
+
+describe('VtxoStore', () => {
+  let store: VtxoStore;
+
+  beforeEach(() => {
+    store = new VtxoStore();
+  });
+
+  describe('lookups', () => {
+    it('should find a VTXO by outpoint', () => {
+      store.addVtxo(makeVtxo(1, 0));
+      store.addVtxo(makeVtxo(1, 1));
+
+      expect(store.getVtxo(makeTxid(1), 1)?.vout).toBe(1);
+      expect(store.getVtxo(makeTxid(1), 2)).toBeUndefined();
+      expect(store.getVtxo(makeTxid(2), 0)).toBeUndefined();
+    });
+
+    it('should reject a duplicate outpoint', () => {
+      store.addVtxo(makeVtxo(1));
+
+      expect(() => store.addVtxo(makeVtxo(1))).toThrow(
+        `VTXO already exists: ${toOutpointKey(makeTxid(1), 0)}`,
+      );
+    });
+
+    it('should group VTXOs by address', () => {
+      store.addVtxo(makeVtxo(1, 0, 2));
+      store.addVtxo(makeVtxo(2, 0, 2));
+      store.addVtxo(makeVtxo(3, 0, 2));
+
+      expect(store.getForAddress(makeAddress(1))).toHaveLength(2);
+      expect(store.getForAddress(makeAddress(0))).toHaveLength(1);
+      expect(store.getForAddress(makeAddress(9))).toEqual([]);
+    });
+  });
+
+  describe('spent set', () => {
+    it('should move a spent VTXO out of the unspent view', () => {
+      store.addVtxo(makeVtxo(1, 0, 1));
+      store.addVtxo(makeVtxo(2, 0, 1));
+
+      store.markSpent(makeTxid(1), 0);
+
+      expect(store.isSpent(makeTxid(1), 0)).toBe(true);
+      expect(store.getVtxo(makeTxid(1), 0)?.spent).toBe(true);
+      expect(store.getForAddress(makeAddress(0))).toHaveLength(2);
+      expect(
+        store.getUnspentForAddress(makeAddress(0)).map((v) => v.txid),
+      ).toEqual([makeTxid(2)]);
+    });
+
+    it('should ignore unknown outpoints', () => {
+      store.markSpent(makeTxid(1), 0);
+
+      expect(store.isSpent(makeTxid(1), 0)).toBe(false);
+    });
+  });
+
+  describe('indexes', () => {
+    const SIZE = 50_000;
+    const ADDRESSES = 100;
+
+    // The indexes are private; reading them pins the O(1) lookups to keyed entries
+    // without timing anything
+    const indexes = (filled: VtxoStore) => ({
+      vtxos: filled['vtxos'] as Map<string, Vtxo>,
+      byAddress: filled['byAddress'] as Map<string, Set<string>>,
+      unspentByAddress: filled['unspentByAddress'] as Map<string, Set<string>>,
+      spent: filled['spent'] as Set<string>,
+    });
+
+    beforeEach(() => {
+      for (let n = 0; n < SIZE; n++) {
+        store.addVtxo(makeVtxo(n, 0, ADDRESSES));
+      }
+    });
+
+    it('should key every VTXO by outpoint and group them by address', () => {
+      const { vtxos, byAddress, unspentByAddress, spent } = indexes(store);
+
+      expect(store.size()).toBe(SIZE);
+      expect(vtxos.size).toBe(SIZE);
+      expect(vtxos.get(toOutpointKey(makeTxid(4321), 0))?.amount).toBe(
+        1000 + 4321,
+      );
+      expect(byAddress.size).toBe(ADDRESSES);
+      expect(byAddress.get(makeAddress(7))?.size).toBe(SIZE / ADDRESSES);
+      expect(unspentByAddress.get(makeAddress(7))?.size).toBe(SIZE / ADDRESSES);
+      expect(spent.size).toBe(0);
+    });
+
+    it('should move spent VTXOs out of the unspent index only', () => {
+      // Spend every VTXO of address 0 and one of address 1
+      for (let n = 0; n < SIZE; n += ADDRESSES) {
+        store.markSpent(makeTxid(n), 0);
+      }
+      store.markSpent(makeTxid(1), 0);
+
+      const { vtxos, byAddress, unspentByAddress, spent } = indexes(store);
+
+      expect(spent.size).toBe(SIZE / ADDRESSES + 1);
+      expect(vtxos.size).toBe(SIZE);
+      expect(byAddress.get(makeAddress(0))?.size).toBe(SIZE / ADDRESSES);
+      expect(unspentByAddress.has(makeAddress(0))).toBe(false);
+      expect(unspentByAddress.get(makeAddress(1))?.size).toBe(
+        SIZE / ADDRESSES - 1,
+      );
+      expect(store.getUnspentForAddress(makeAddress(1))).toHaveLength(
+        SIZE / ADDRESSES - 1,
+      );
+    });
+  });
+});
@@ -1,32 +1,146 @@
-import { Injectable } from '@nestjs/common';
+import { Inject, Injectable, OnModuleInit, Optional } from '@nestjs/common';
 import type { Vtxo } from '@arkswap/protocol';
-import { asAddress, asTxId } from '@arkswap/protocol';
+import { LEDGER_STORAGE, type LedgerStorage } from './storage/ledger-storage';
+import { MemoryLedgerStorage } from './storage/memory-ledger.storage';
 
+/**
+ * Canonical outpoint key used by every VTXO index: "txid:vout"
+ */
+export function toOutpointKey(txid: string, vout: number): string {
+  return `${txid}:${vout}`;
+}
+
+/**
+ * VTXO Ledger
+ * All lookups are O(1) (or O(k) in the number of results) regardless of ledger size:
+ * - vtxos: outpoint -> VTXO (primary index)
+ * - byAddress: address -> outpoints ever paid to it
+ * - unspentByAddress: address -> outpoints still spendable
+ * - spent: outpoints consumed by a transfer or burn (source of truth for `spent`)
+ */
 @Injectable()
-export class VtxoStore {
-  private vtxos: Vtxo[] = [];
+export class VtxoStore implements OnModuleInit {
+  private vtxos = new Map<string, Vtxo>();
+  private byAddress = new Map<string, Set<string>>();
+  private unspentByAddress = new Map<string, Set<string>>();
+  private spent = new Set<string>();
+
+  constructor(
+    @Optional()
+    @Inject(LEDGER_STORAGE)
+    private readonly storage: LedgerStorage = new MemoryLedgerStorage(),
+  ) {}
+
+  /**
+   * Rebuilds the VTXO indexes (including spent flags) from the persisted ledger
+   */
+  onModuleInit() {
+    this.vtxos.clear();
+    this.byAddress.clear();
+    this.unspentByAddress.clear();
+    this.spent.clear();
 
+    for (const event of this.storage.load()) {
+      if (event.type === 'vtxo.added') {
+        this.applyAdded({ ...event.vtxo });
+      } else if (event.type === 'vtxo.spent') {
+        this.applySpent(event.txid, event.vout);
+      }
+    }
+  }
+
+  /**
+   * Adds a VTXO to the ledger
+   * @throws Error if a VTXO already exists at the same outpoint
+   */
   addVtxo(vtxo: Vtxo): void {
-    this.vtxos.push(vtxo);
+    const key = toOutpointKey(vtxo.txid, vtxo.vout);
+    if (this.vtxos.has(key)) {
+      throw new Error(`VTXO already exists: ${key}`);
+    }
+    this.storage.append({ type: 'vtxo.added', vtxo: { ...vtxo } });
+    this.applyAdded(vtxo);
   }
 
+  /**
+   * Returns every VTXO (spent and unspent) ever paid to an address
+   */
   getForAddress(address: string): Vtxo[] {
-    const addressBranded = asAddress(address);
-    return this.vtxos.filter((vtxo) => vtxo.address === addressBranded);
+    return this.resolve(this.byAddress.get(address));
+  }
+
+  /**
+   * Returns only the spendable VTXOs of an address
+   */
+  getUnspentForAddress(address: string): Vtxo[] {
+    return this.resolve(this.unspentByAddress.get(address));
   }
 
   markSpent(txid: string, vout: number): void {
-    const txidBranded = asTxId(txid);
-    const vtxo = this.vtxos.find(
-      (v) => v.txid === txidBranded && v.vout === vout,
-    );
-    if (vtxo) {
-      vtxo.spent = true;
+    if (this.applySpent(txid, vout)) {
+      this.storage.append({ type: 'vtxo.spent', txid, vout });
     }
   }
 
+  isSpent(txid: string, vout: number): boolean {
+    return this.spent.has(toOutpointKey(txid, vout));
+  }
+
   getVtxo(txid: string, vout: number): Vtxo | undefined {
-    const txidBranded = asTxId(txid);
-    return this.vtxos.find((v) => v.txid === txidBranded && v.vout === vout);
+    return this.vtxos.get(toOutpointKey(txid, vout));
+  }
+
+  /**
+   * Total number of VTXOs in the ledger (spent and unspent)
+   */
+  size(): number {
+    return this.vtxos.size;
+  }
+
+  private applyAdded(vtxo: Vtxo): void {
+    const key = toOutpointKey(vtxo.txid, vtxo.vout);
+    this.vtxos.set(key, vtxo);
+    this.indexFor(this.byAddress, vtxo.address).add(key);
+
+    if (vtxo.spent) {
+      this.spent.add(key);
+    } else {
+      this.indexFor(this.unspentByAddress, vtxo.address).add(key);
+    }
+  }
+
+  private applySpent(txid: string, vout: number): boolean {
+    const key = toOutpointKey(txid, vout);
+    const vtxo = this.vtxos.get(key);
+    if (!vtxo || this.spent.has(key)) {
+      return false;
+    }
+
+    this.spent.add(key);
+    vtxo.spent = true;
+
+    const unspent = this.unspentByAddress.get(vtxo.address);
+    unspent?.delete(key);
+    if (unspent?.size === 0) {
+      this.unspentByAddress.delete(vtxo.address);
+    }
+    return true;
+  }
+
+  private indexFor(
+    index: Map<string, Set<string>>,
+    address: string,
+  ): Set<string> {
+    let keys = index.get(address);
+    if (!keys) {
+      keys = new Set<string>();
+      index.set(address, keys);
+    }
+    return keys;
+  }
+
+  private resolve(keys: Set<string> | undefined): Vtxo[] {
+    if (!keys) return [];
+    return Array.from(keys, (key) => this.vtxos.get(key)!);
   }
 }
@@ -11,14 +11,20 @@ import {
   CheckCircle2,
   Fish,
   Eye,
+  ArrowDownUp,
 } from 'lucide-react';
 import { KoiPond } from './KoiPond';
+import { FeeBreakdown } from './FeeBreakdown';
 import { WatchView } from './watch/WatchView';
+import { ReverseSwapView } from './reverse/ReverseSwapView';
 import { cn } from '../lib/utils';
 import {
   requestSwapQuote,
   commitSwap,
+  getSwap,
   getBitcoinInfo,
+  broadcastTransaction,
+  getTransactionStatus,
   type SwapQuoteResponse,
 } from '../lib/api';
 import { mockArkClient } from '@arkswap/client';
@@ -29,6 +35,9 @@ import {
   SwapQuoteSchema,
   type TxId,
   type AssetMetadata,
+  getRequiredFee,
+  getRefundTimeout,
+  type SwapLockOutpoint,
 } from '@arkswap/protocol';
 import { getErrorMessage } from '../lib/error-utils';
 import {
@@ -42,6 +51,7 @@ type SwapStep =
   | 'quote'
   | 'locking'
   | 'success'
+  | 'pendingExit'
   | 'pendingRefund'
   | 'refundSuccess';
 
@@ -74,7 +84,19 @@ export function Dashboard() {
   const [startBlock, setStartBlock] = useState<number | null>(null);
   const [currentBlock, setCurrentBlock] = useState<number | null>(null);
   const [timeoutBlock, setTimeoutBlock] = useState<number | null>(null);
+  const [timeoutBlocks, setTimeoutBlocks] = useState<number | null>(null);
+  const [minTimeoutBlocks, setMinTimeoutBlocks] = useState<string>('');
   const [isClaimingRefund, setIsClaimingRefund] = useState(false);
+  const [lockVtxo, setLockVtxo] = useState<{
+    txid: string;
+    vout: number;
+  } | null>(null);
+  const [exitRound, setExitRound] = useState<number | null>(null);
+  const [isExiting, setIsExiting] = useState(false);
+  const [refundOutpoint, setRefundOutpoint] = useState<SwapLockOutpoint | null>(
+    null,
+  );
+  const [refundTxId, setRefundTxId] = useState<string | null>(null);
   const [selectedVtxos, setSelectedVtxos] = useState<TxId[]>([]);
   const [isManualSelection, setIsManualSelection] = useState(false);
   const [liftStatus, setLiftStatus] = useState<string | null>(null);
@@ -83,7 +105,9 @@ export function Dashboard() {
   const [loadingText, setLoadingText] = useState<string | null>(null);
   const hasLoadedSessionRef = useRef<boolean>(false);
   const [isEnteringPond, setIsEnteringPond] = useState<string | null>(null);
-  const [activeTab, setActiveTab] = useState<'swap' | 'koi' | 'watch'>('swap');
+  const [activeTab, setActiveTab] = useState<
+    'swap' | 'reverse' | 'koi' | 'watch'
+  >('swap');
 
   // React Query for bitcoin info (used in pendingRefund step)
   const { data: bitcoinInfo } = useQuery({
@@ -93,6 +117,37 @@ export function Dashboard() {
     enabled: swapStep === 'pendingRefund',
   });
 
+  // Confirmations of the exited lock output (the CSV timeout counts from its block)
+  const { data: lockTxStatus } = useQuery({
+    queryKey: ['lock-tx', refundOutpoint?.txid],
+    queryFn: () => getTransactionStatus(refundOutpoint!.txid),
+    refetchInterval: 5000,
+    enabled:
+      swapStep === 'pendingRefund' && refundOutpoint !== null && !refundTxId,
+  });
+
+  // Confirmations of the broadcast refund transaction
+  const { data: refundTxStatus } = useQuery({
+    queryKey: ['refund-tx', refundTxId],
+    queryFn: () => getTransactionStatus(refundTxId!),
+    refetchInterval: 5000,
+    enabled: swapStep === 'pendingRefund' && refundTxId !== null,
+  });
+
+  // ASP fee schedule (transfers must leave this fee to the ASP)
+  // Also the ASP's round height, polled while an exit waits for the refund timeout
+  const { data: aspInfo } = useQuery({
+    queryKey: ['asp-info'],
+    queryFn: () => mockArkClient.getInfo(),
+    refetchInterval: swapStep === 'pendingExit' ? 5000 : false,
+  });
+  const feeSchedule = aspInfo?.fees;
+
+  // The user's minimum lock timeout lives in the wallet's storage
+  useEffect(() => {
+    setMinTimeoutBlocks(String(mockArkClient.getMinSwapTimeout()));
+  }, []);
+
   // Load session on mount (only once)
   useEffect(() => {
     if (hasLoadedSessionRef.current) {
@@ -106,14 +161,49 @@ export function Dashboard() {
       setSwapAmount(session.amount);
       setQuote(session.quote);
       setLockAddress(session.lockAddress);
+      setTimeoutBlocks(session.timeoutBlocks);
       setUserL1Address(session.userL1Address);
       setL1TxId(session.l1TxId);
+      setLockVtxo(session.lockVtxo);
+      setExitRound(session.exitRound);
       setStartBlock(session.startBlock);
       setTimeoutBlock(session.timeoutBlock);
+      setRefundOutpoint(session.refundOutpoint);
+      setRefundTxId(session.refundTxId);
+
+      // The maker's order book wins over the local copy, e.g. when the page
+      // closed before the commit response arrived
+      if (session.quote && session.step === 'quote') {
+        getSwap(session.quote.id)
+          .then((swap) => {
+            if (
+              (swap.status === 'PAID' || swap.status === 'CLAIMED') &&
+              swap.l1TxId
+            ) {
+              setL1TxId(swap.l1TxId);
+              setSwapStep('success');
+            } else if (swap.status === 'EXPIRED') {
+              setQuote(null);
+              setLockAddress(null);
+              setQuoteError(
+                `Quote expired at block ${swap.expiresAtHeight}, please request a new one`,
+              );
+            }
+          })
+          .catch((error) => {
+            console.error('Failed to recover swap from server:', error);
+          });
+      }
 
       // Regenerate lockResult if we have quote and lockAddress (need address for pubkey)
-      if (session.quote && session.lockAddress && address) {
+      if (
+        session.quote &&
+        session.lockAddress &&
+        session.timeoutBlocks &&
+        address
+      ) {
         const savedQuote = session.quote;
+        const savedTimeoutBlocks = session.timeoutBlocks;
         (async () => {
           try {
             const userPubkey = await mockArkClient.getPublicKey();
@@ -124,7 +214,7 @@ export function Dashboard() {
               makerPubkey,
               userPubkey,
               preimageHash,
-              timeoutBlocks: 20,
+              timeoutBlocks: savedTimeoutBlocks,
             });
 
             setLockResult(lockResultData);
@@ -150,10 +240,15 @@ export function Dashboard() {
       amount: swapAmount,
       quote,
       lockAddress,
+      timeoutBlocks,
       userL1Address,
       l1TxId,
+      lockVtxo,
+      exitRound,
       startBlock,
       timeoutBlock,
+      refundOutpoint,
+      refundTxId,
     };
 
     saveSession(session);
@@ -162,10 +257,15 @@ export function Dashboard() {
     swapAmount,
     quote,
     lockAddress,
+    timeoutBlocks,
     userL1Address,
     l1TxId,
+    lockVtxo,
+    exitRound,
     startBlock,
     timeoutBlock,
+    refundOutpoint,
+    refundTxId,
   ]);
 
   // Clear lift status when balance updates (indicating round finalized)
@@ -211,6 +311,7 @@ export function Dashboard() {
     setIsRequestingQuote(true);
     setQuoteError(null);
     setLockAddress(null);
+    setTimeoutBlocks(null);
     setSwapStep('quote');
     setQuote(null);
     setL1TxId(null);
@@ -220,6 +321,8 @@ export function Dashboard() {
       // 1. Request quote from backend
       const quoteDataRaw = await requestSwapQuote(amount);
       const quoteData = SwapQuoteSchema.parse(quoteDataRaw);
+      // The maker picks the lock's CSV timeout; refuse one below our minimum
+      mockArkClient.assertSwapTimeout(quoteData.timeoutBlocks);
 
       // 2. Get user public key from wallet
       const userPubkey = await mockArkClient.getPublicKey();
@@ -233,10 +336,11 @@ export function Dashboard() {
         makerPubkey,
         userPubkey,
         preimageHash,
-        timeoutBlocks: 20, // Short timeout for demo (easy to mine in Regtest)
+        timeoutBlocks: quoteData.timeoutBlocks,
       });
 
       setLockAddress(lockResultData.address);
+      setTimeoutBlocks(quoteData.timeoutBlocks);
       setLockResult(lockResultData);
       setQuote(quoteData);
 
@@ -279,66 +383,40 @@ export function Dashboard() {
       // The send method handles coin selection, signing, broadcasting, and marking inputs as spent
       const l2TxId = await mockArkClient.send(amount, lockAddress);
 
-      // 2. Wait for Round Finalization - poll until balance stabilizes
+      // 2. Wait for Round Finalization - the signed receipt carries the created outputs
       setLoadingText('Waiting for Round Finalization...');
-
-      // Capture initial balance before the transaction
-      const initialBalance = balance;
-      let attempts = 0;
-      const maxAttempts = 10;
-
-      // Poll until balance > 0 (change VTXO has arrived) or timeout
-      // Use refreshBalance() which now triggers React Query invalidation
-      while (attempts < maxAttempts) {
-        await new Promise((resolve) => setTimeout(resolve, 1000)); // Wait 1 second
-        await refreshBalance(); // This invalidates React Query and triggers a fetch
-
-        // Check if balance has recovered (user gets change back)
-        // Read directly from client after refreshBalance updates localStorage
-        // We check if balance > 0 OR if balance has changed from initial (indicating round finalized)
-        const currentBalance = address ? mockArkClient.getBalance(address) : 0;
-        if (currentBalance > 0 || currentBalance !== initialBalance) {
-          break; // Balance has stabilized
-        }
-
-        attempts++;
+      const receipt = await mockArkClient.waitForTransfer(l2TxId);
+      await refreshBalance();
+
+      const lockOutput = receipt.outputs.find(
+        (output) => output.address === lockAddress,
+      );
+      if (!lockOutput) {
+        throw new Error('Transfer receipt has no output to the lock address');
       }
 
       // 3. Check Chaos Mode
       if (chaosMode) {
         // Simulate backend crash - don't call commitSwap
-        // Get current block to calculate timeout (targetBlock = Current + Timeout)
-        try {
-          const bitcoinInfoData = await getBitcoinInfo();
-          const current = bitcoinInfoData.blocks;
-          const timeoutBlocks = 20; // From createSwapLock
-          const targetBlock = current + timeoutBlocks;
-
-          // Set all state needed for refund UI
-          setStartBlock(current);
-          setCurrentBlock(current);
-          setTimeoutBlock(targetBlock);
-
-          // Transition to refund view
-          setLoadingText(null);
-          setSwapStep('pendingRefund');
-        } catch (err) {
-          console.error('Failed to get bitcoin info', err);
-          // Fallback: use a default start block
-          const current = 0;
-          const timeoutBlocks = 20;
-          const targetBlock = current + timeoutBlocks;
-          setStartBlock(current);
-          setCurrentBlock(current);
-          setTimeoutBlock(targetBlock);
-          setLoadingText(null);
-          setSwapStep('pendingRefund');
+        // The maker never pays out: the lock VTXO is moved on-chain through the
+        // refund leaf, which the ASP only allows once the VTXO is as many
+        // rounds old as the lock's CSV timeout
+        if (!lockResult) {
+          throw new Error('Swap lock is not available to sign the exit');
         }
+        const { roundHeight } = await mockArkClient.getRound(receipt.roundId);
+        setLockVtxo({ txid: lockOutput.txid, vout: lockOutput.vout });
+        setExitRound(roundHeight + getRefundTimeout(lockResult));
+        setLoadingText(null);
+        setSwapStep('pendingExit');
       } else {
-        // Normal flow: Commit swap to backend
+        // Normal flow: Commit swap to backend, which checks the lock VTXO
+        // with the ASP before paying out
+        const userPubkey = await mockArkClient.getPublicKey();
         const commitResponse = await commitSwap(
           quote.id,
-          l2TxId,
+          lockOutput,
+          userPubkey.toString('hex'),
           userL1Address.trim(),
         );
 
@@ -362,15 +440,20 @@ export function Dashboard() {
     setSwapStep('quote');
     setSwapAmount('');
     setLockAddress(null);
+    setTimeoutBlocks(null);
     setQuote(null);
     setUserL1Address('');
     setL1TxId(null);
     setCommitError(null);
     setQuoteError(null);
     setLockResult(null);
+    setLockVtxo(null);
+    setExitRound(null);
     setStartBlock(null);
     setCurrentBlock(null);
     setTimeoutBlock(null);
+    setRefundOutpoint(null);
+    setRefundTxId(null);
     setSelectedVtxos([]);
     setIsManualSelection(false);
     setLoadingText(null);
@@ -389,20 +472,26 @@ export function Dashboard() {
     }
 
     try {
-      const selected = mockArkClient.selectCoins(address, amount);
+      const selected = mockArkClient.selectCoins(address, amount, feeSchedule);
       setSelectedVtxos(selected.map((v) => v.txid));
     } catch (error) {
       console.error('Auto coin selection failed', error);
       setSelectedVtxos([]);
     }
-  }, [swapAmount, address, isManualSelection]);
+  }, [swapAmount, address, isManualSelection, feeSchedule]);
 
   // Calculate selected total
   const selectedTotal = vtxos
     .filter((v: ExtendedVtxo) => selectedVtxos.includes(v.txid))
     .reduce((sum, v) => sum + v.amount, 0);
 
-  const requiredAmount = parseFloat(swapAmount) || 0;
+  const swapAmountValue = parseFloat(swapAmount) || 0;
+  // Transfer fee for the selected inputs, priced with a change output
+  const transferFee =
+    feeSchedule && swapAmountValue > 0
+      ? getRequiredFee(feeSchedule, Math.max(selectedVtxos.length, 1), 2)
+      : 0;
+  const requiredAmount = swapAmountValue + transferFee;
   const hasInsufficientFunds =
     requiredAmount > 0 && selectedTotal < requiredAmount;
 
@@ -414,57 +503,81 @@ export function Dashboard() {
     );
   };
 
-  const handleClaimRefund = async () => {
-    if (!address || !lockResult) return;
-
-    const amount = parseFloat(swapAmount);
-    if (isNaN(amount) || amount <= 0) {
-      return;
-    }
+  const handleExitLock = async () => {
+    if (!lockResult || !lockVtxo) return;
 
-    setIsClaimingRefund(true);
+    setIsExiting(true);
     setCommitError(null);
-    setLoadingText('Processing refund...');
 
     try {
-      // Claim refund using lift mechanism (ensures ASP knows about the VTXO)
-      await mockArkClient.claimRefund(amount, address);
-
-      // Wait for Round Finalization - poll until balance updates
-      setLoadingText('Waiting for Round Finalization...');
+      // Signed with the wallet key through the lock's refund leaf
+      const outpoint = await mockArkClient.exitVtxo(
+        lockVtxo.txid,
+        lockVtxo.vout,
+        lockResult,
+      );
+
+      // Start and timeout blocks are known once the exit confirms
+      setRefundOutpoint(outpoint);
+      setRefundTxId(null);
+      setStartBlock(null);
+      setTimeoutBlock(null);
+      setSwapStep('pendingRefund');
+    } catch (err) {
+      console.error('Lock exit failed', err);
+      setCommitError(getErrorMessage(err));
+    } finally {
+      setIsExiting(false);
+    }
+  };
 
-      // Capture initial balance before the refund
-      const initialBalance = balance;
-      let attempts = 0;
-      const maxAttempts = 10;
-
-      // Poll until balance increases (refund VTXO has arrived) or timeout
-      // Use refreshBalance() which now triggers React Query invalidation
-      while (attempts < maxAttempts) {
-        await new Promise((resolve) => setTimeout(resolve, 1000)); // Wait 1 second
-        await refreshBalance(); // This invalidates React Query and triggers a fetch
-
-        // Check if balance has increased (refund funds have arrived)
-        const currentBalance = address ? mockArkClient.getBalance(address) : 0;
-        if (currentBalance > initialBalance) {
-          break; // Refund funds have arrived
-        }
+  const handleClaimRefund = async () => {
+    if (!lockResult || !refundOutpoint || !userL1Address.trim()) return;
 
-        attempts++;
-      }
+    setIsClaimingRefund(true);
+    setCommitError(null);
 
-      // Show success state
-      setLoadingText(null);
-      setSwapStep('refundSuccess');
+    try {
+      // Spend the refund leaf of the exited lock back to the L1 address
+      const { hex } = await mockArkClient.claimRefund(
+        lockResult,
+        refundOutpoint,
+        userL1Address.trim(),
+      );
+      const { txid } = await broadcastTransaction(hex);
+      setRefundTxId(txid);
     } catch (err) {
       console.error('Refund claim failed', err);
       setCommitError(getErrorMessage(err));
-      setLoadingText(null);
     } finally {
       setIsClaimingRefund(false);
     }
   };
 
+  // The timelock starts when the exited lock output confirms
+  useEffect(() => {
+    if (
+      swapStep === 'pendingRefund' &&
+      lockResult &&
+      lockTxStatus?.blockHeight != null &&
+      startBlock === null
+    ) {
+      setStartBlock(lockTxStatus.blockHeight);
+      setTimeoutBlock(lockTxStatus.blockHeight + getRefundTimeout(lockResult));
+    }
+  }, [swapStep, lockResult, lockTxStatus, startBlock]);
+
+  // Finish once the refund transaction confirms
+  useEffect(() => {
+    if (
+      swapStep === 'pendingRefund' &&
+      refundTxStatus &&
+      refundTxStatus.confirmations > 0
+    ) {
+      setSwapStep('refundSuccess');
+    }
+  }, [swapStep, refundTxStatus]);
+
   // Update current block from React Query data when in pending refund state
   useEffect(() => {
     if (swapStep === 'pendingRefund' && bitcoinInfo) {
@@ -546,6 +659,21 @@ export function Dashboard() {
                 Swap
               </div>
             </button>
+            <button
+              onClick={() => setActiveTab('reverse')}
+              className={cn(
+                'flex-1 rounded-lg px-4 py-2 text-sm font-medium transition-colors',
+                'focus:outline-none focus:ring-2 focus:ring-blue-500 focus:ring-offset-2 focus:ring-offset-gray-900',
+                activeTab === 'reverse'
+                  ? 'bg-blue-600 text-white'
+                  : 'bg-gray-800 text-gray-400 hover:bg-gray-700 hover:text-gray-300',
+              )}
+            >
+              <div className="flex items-center justify-center gap-2">
+                <ArrowDownUp className="h-4 w-4" />
+                Reverse Swap
+              </div>
+            </button>
             <button
               onClick={() => setActiveTab('koi')}
               className={cn(
@@ -659,6 +787,33 @@ export function Dashboard() {
                         Simulate Backend Crash
                       </label>
                     </div>
+                    <div className="flex items-center gap-2">
+                      <label
+                        htmlFor="min-timeout"
+                        className="text-sm text-gray-400"
+                      >
+                        Minimum refund timeout (blocks)
+                      </label>
+                      <input
+                        type="number"
+                        id="min-timeout"
+                        value={minTimeoutBlocks}
+                        onChange={(e) => {
+                          setMinTimeoutBlocks(e.target.value);
+                          const blocks = parseInt(e.target.value, 10);
+                          if (Number.isInteger(blocks) && blocks > 0) {
+                            mockArkClient.setMinSwapTimeout(blocks);
+                          }
+                        }}
+                        min="1"
+                        step="1"
+                        className={cn(
+                          'w-20 rounded-lg border border-gray-700 bg-gray-800 px-2 py-1',
+                          'text-sm text-gray-300',
+                          'focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent',
+                        )}
+                      />
+                    </div>
                     <div className="flex flex-col sm:flex-row gap-3">
                       <input
                         type="number"
@@ -826,6 +981,7 @@ export function Dashboard() {
                                           mockArkClient.selectCoins(
                                             address,
                                             amount,
+                                            feeSchedule,
                                           );
                                         setSelectedVtxos(
                                           selected.map((v) => v.txid),
@@ -897,8 +1053,10 @@ export function Dashboard() {
                                       {selectedTotal >= requiredAmount
                                         ? '✓'
                                         : '✗'}{' '}
-                                      {requiredAmount.toLocaleString()}{' '}
-                                      required)
+                                      {requiredAmount.toLocaleString()} required
+                                      {transferFee > 0 &&
+                                        `, incl. ${transferFee} sats fee`}
+                                      )
                                     </span>
                                   )}
                                 </p>
@@ -916,7 +1074,18 @@ export function Dashboard() {
                           <p className="text-sm font-mono text-green-400 break-all overflow-wrap-anywhere">
                             {lockAddress}
                           </p>
+                          <p className="text-xs text-gray-500 mt-2">
+                            Refundable after {quote.timeoutBlocks} confirmations
+                            if the maker never pays out
+                          </p>
                         </div>
+                        <FeeBreakdown
+                          amount={quote.amount}
+                          fee={quote.fee}
+                          payoutAmount={quote.payoutAmount}
+                          payoutLabel="You receive on L1"
+                          expiresAtHeight={quote.expiresAtHeight}
+                        />
                         <div className="space-y-2">
                           <label className="text-xs font-medium text-gray-400">
                             Your L1 Address (where you want to receive BTC)
@@ -983,17 +1152,98 @@ export function Dashboard() {
                   </div>
                 )}
 
+                {swapStep === 'pendingExit' && (
+                  <div className="space-y-4">
+                    <div className="flex flex-col items-center justify-center py-8">
+                      <Loader2 className="h-8 w-8 animate-spin text-yellow-400 mb-4" />
+                      <p className="text-lg font-semibold text-yellow-400 mb-2">
+                        Waiting for the Refund Timeout...
+                      </p>
+                      {aspInfo && exitRound !== null && (
+                        <div className="mt-4 space-y-2 text-center">
+                          <p className="text-sm text-gray-300">
+                            Current Round:{' '}
+                            <span className="font-mono text-white">
+                              {aspInfo.currentBlock}
+                            </span>
+                          </p>
+                          <p className="text-sm text-gray-300">
+                            Exit Round:{' '}
+                            <span className="font-mono text-white">
+                              {exitRound}
+                            </span>
+                          </p>
+                          <p className="text-xs text-gray-500 mt-2">
+                            Rounds remaining:{' '}
+                            {Math.max(0, exitRound - aspInfo.currentBlock)}
+                          </p>
+                        </div>
+                      )}
+                    </div>
+                    {aspInfo && exitRound !== null && (
+                      <>
+                        <button
+                          onClick={handleExitLock}
+                          disabled={
+                            isExiting || aspInfo.currentBlock < exitRound
+                          }
+                          className={cn(
+                            'w-full flex items-center justify-center gap-2 rounded-lg border border-gray-700 px-4 py-2',
+                            'text-sm font-medium transition-colors',
+                            'focus:outline-none focus:ring-2 focus:ring-green-500 focus:ring-offset-2 focus:ring-offset-gray-900',
+                            'disabled:cursor-not-allowed disabled:opacity-50',
+                            aspInfo.currentBlock < exitRound
+                              ? 'bg-gray-700 text-gray-400'
+                              : 'bg-green-600 text-white hover:bg-green-700',
+                          )}
+                        >
+                          {isExiting ? (
+                            <>
+                              <Loader2 className="h-4 w-4 animate-spin" />
+                              Exiting...
+                            </>
+                          ) : (
+                            <>
+                              <ArrowDownUp className="h-4 w-4" />
+                              Exit Lock to L1
+                            </>
+                          )}
+                        </button>
+                        <p className="text-xs text-center text-gray-500">
+                          {aspInfo.currentBlock < exitRound
+                            ? `🔒 The refund leaf opens at round ${exitRound} (Current: ${aspInfo.currentBlock}).`
+                            : '🔓 Refund timeout reached. You can now move the lock on-chain.'}
+                        </p>
+                      </>
+                    )}
+                    {commitError && (
+                      <p className="text-sm text-red-400">{commitError}</p>
+                    )}
+                  </div>
+                )}
+
                 {swapStep === 'pendingRefund' && (
                   <div className="space-y-4">
-                    {loadingText ? (
+                    {refundTxId ? (
                       <div className="flex flex-col items-center justify-center py-8">
                         <Loader2 className="h-8 w-8 animate-spin text-green-400 mb-4" />
                         <p className="text-sm font-medium text-gray-300">
-                          {loadingText}
-                        </p>
-                        <p className="text-xs text-gray-500 mt-2">
-                          Refund claimed. Funds will appear in the next round.
+                          Refund broadcast. Waiting for confirmation...
                         </p>
+                        <div className="w-full mt-4 rounded-lg border border-gray-700 bg-gray-800/50 p-4 overflow-hidden">
+                          <p className="text-xs font-medium text-gray-400 mb-2">
+                            Refund Transaction ID:
+                          </p>
+                          <p className="text-sm font-mono text-green-400 break-all overflow-wrap-anywhere">
+                            {refundTxId}
+                          </p>
+                          <p className="text-xs text-gray-500 mt-2">
+                            Confirmations:{' '}
+                            <span className="font-mono text-white">
+                              {refundTxStatus?.confirmations ?? 0}
+                            </span>
+                          </p>
+                        </div>
                       </div>
                     ) : (
                       <>
@@ -1024,7 +1274,7 @@ export function Dashboard() {
                           )}
                           {(currentBlock === null || timeoutBlock === null) && (
                             <p className="text-xs text-gray-500 mt-2">
-                              Loading block information...
+                              Waiting for the lock to confirm on L1...
                             </p>
                           )}
                         </div>
@@ -1118,8 +1368,18 @@ export function Dashboard() {
                         Refund Success!
                       </p>
                       <p className="text-sm text-gray-300 text-center mb-4">
-                        Funds returned.
+                        Funds returned to your L1 Address
                       </p>
+                      {refundTxId && (
+                        <div className="w-full rounded-lg border border-gray-700 bg-gray-800/50 p-4 overflow-hidden">
+                          <p className="text-xs font-medium text-gray-400 mb-2">
+                            Refund Transaction ID:
+                          </p>
+                          <p className="text-sm font-mono text-green-400 break-all overflow-wrap-anywhere">
+                            {refundTxId}
+                          </p>
+                        </div>
+                      )}
                     </div>
                     <button
                       onClick={handleResetSwap}
@@ -1139,6 +1399,8 @@ export function Dashboard() {
           </>
         )}
 
+        {activeTab === 'reverse' && <ReverseSwapView />}
+
         {activeTab === 'koi' && (
           <KoiPond
             walletAddress={address}
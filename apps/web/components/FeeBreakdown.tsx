@@ -0,0 +1,47 @@
+import type { SwapFee } from '@arkswap/protocol';
+
+interface FeeBreakdownProps {
+  amount: number;
+  fee: SwapFee;
+  payoutAmount: number;
+  // What the payout is, e.g. "You receive on L1"
+  payoutLabel: string;
+  expiresAtHeight: number;
+}
+
+/**
+ * The maker's quote, itemized: shown before the user locks any funds
+ */
+export function FeeBreakdown({
+  amount,
+  fee,
+  payoutAmount,
+  payoutLabel,
+  expiresAtHeight,
+}: FeeBreakdownProps) {
+  return (
+    <div className="rounded-lg border border-gray-700 bg-gray-800/50 p-4 space-y-1 text-sm">
+      <div className="flex justify-between text-gray-400">
+        <span>You lock</span>
+        <span className="font-mono">{amount.toLocaleString()} sats</span>
+      </div>
+      <div className="flex justify-between text-gray-500">
+        <span>Maker fee ({fee.percent}%)</span>
+        <span className="font-mono">
+          −{fee.serviceFee.toLocaleString()} sats
+        </span>
+      </div>
+      <div className="flex justify-between text-gray-500">
+        <span>Miner fee (estimate)</span>
+        <span className="font-mono">−{fee.minerFee.toLocaleString()} sats</span>
+      </div>
+      <div className="flex justify-between border-t border-gray-700 pt-1 font-semibold text-white">
+        <span>{payoutLabel}</span>
+        <span className="font-mono">{payoutAmount.toLocaleString()} sats</span>
+      </div>
+      <p className="pt-1 text-xs text-gray-500">
+        Quote valid until block {expiresAtHeight}
+      </p>
+    </div>
+  );
+}
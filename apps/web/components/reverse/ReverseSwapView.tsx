@@ -0,0 +1,338 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { ArrowDownUp, Loader2, CheckCircle2 } from 'lucide-react';
+import { mockArkClient } from '@arkswap/client';
+import {
+  createSwapLock,
+  ReverseSwapQuoteSchema,
+  type ReverseSwapQuote,
+  type SwapLockResult,
+} from '@arkswap/protocol';
+import {
+  requestReverseSwapQuote,
+  claimReverseSwap,
+  getSwap,
+} from '../../lib/api';
+import { getErrorMessage } from '../../lib/error-utils';
+import { cn } from '../../lib/utils';
+import { FeeBreakdown } from '../FeeBreakdown';
+import {
+  saveReverseSession,
+  loadReverseSession,
+  clearReverseSession,
+} from '../../lib/reverse-swap-session';
+
+/**
+ * The quote's two locks, rebuilt from its keys and hash
+ * L1: the maker claims with the preimage, the wallet refunds; VTXO: roles swapped
+ */
+function getReverseLocks(
+  quote: ReverseSwapQuote,
+  userPubkey: Buffer,
+): { l1Lock: SwapLockResult; vtxoLock: SwapLockResult } {
+  const makerPubkey = Buffer.from(quote.makerPubkey, 'hex');
+  const preimageHash = Buffer.from(quote.preimageHash, 'hex');
+  return {
+    l1Lock: createSwapLock({
+      makerPubkey,
+      userPubkey,
+      preimageHash,
+      timeoutBlocks: quote.timeoutBlocks,
+    }),
+    vtxoLock: createSwapLock({
+      makerPubkey: userPubkey,
+      userPubkey: makerPubkey,
+      preimageHash,
+      timeoutBlocks: quote.vtxoTimeoutBlocks,
+    }),
+  };
+}
+
+export function ReverseSwapView() {
+  const [amount, setAmount] = useState<string>('');
+  const [preimageHex, setPreimageHex] = useState<string | null>(null);
+  const [quote, setQuote] = useState<ReverseSwapQuote | null>(null);
+  const [claimTransferId, setClaimTransferId] = useState<string | null>(null);
+  const [isRequestingQuote, setIsRequestingQuote] = useState(false);
+  const [isClaiming, setIsClaiming] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // Restore an unfinished reverse swap (its preimage is only stored here)
+  useEffect(() => {
+    const session = loadReverseSession();
+    if (session) {
+      setAmount(session.amount);
+      setPreimageHex(session.preimageHex);
+      setQuote(session.quote);
+      setClaimTransferId(session.claimTransferId);
+    }
+  }, []);
+
+  // The maker's record: QUOTED until the L1 lock confirms, PAID once the VTXO lock is sent
+  const { data: swap } = useQuery({
+    queryKey: ['reverse-swap', quote?.id],
+    queryFn: () => getSwap(quote!.id),
+    enabled: !!quote,
+    refetchInterval: 5000,
+  });
+
+  const handleRequestQuote = async () => {
+    const amountSats = parseInt(amount, 10);
+    if (!Number.isInteger(amountSats) || amountSats <= 0) {
+      setError('Please enter a valid amount in sats');
+      return;
+    }
+
+    setIsRequestingQuote(true);
+    setError(null);
+
+    try {
+      // 1. Generate the preimage and keep it before anything leaves the wallet
+      const preimage = Buffer.from(crypto.getRandomValues(new Uint8Array(32)));
+      const preimageHash = Buffer.from(
+        await crypto.subtle.digest('SHA-256', preimage),
+      ).toString('hex');
+      saveReverseSession({
+        amount,
+        preimageHex: preimage.toString('hex'),
+        quote: null,
+        claimTransferId: null,
+      });
+
+      // 2. Request the quote for our hash and key
+      const userPubkey = await mockArkClient.getPublicKey();
+      const quoteData = ReverseSwapQuoteSchema.parse(
+        await requestReverseSwapQuote(
+          amountSats,
+          preimageHash,
+          userPubkey.toString('hex'),
+        ),
+      );
+
+      // The maker can refund the VTXO lock after its timeout, so that is how
+      // long we have to claim it
+      mockArkClient.assertSwapTimeout(quoteData.vtxoTimeoutBlocks);
+
+      // 3. Never fund a lock we did not rebuild ourselves
+      const { l1Lock, vtxoLock } = getReverseLocks(quoteData, userPubkey);
+      if (
+        quoteData.preimageHash !== preimageHash ||
+        quoteData.amount !== amountSats ||
+        l1Lock.address !== quoteData.lockAddress ||
+        vtxoLock.address !== quoteData.vtxoLockAddress
+      ) {
+        throw new Error('Quote does not match the locks built locally');
+      }
+
+      setPreimageHex(preimage.toString('hex'));
+      setQuote(quoteData);
+      saveReverseSession({
+        amount,
+        preimageHex: preimage.toString('hex'),
+        quote: quoteData,
+        claimTransferId: null,
+      });
+    } catch (err) {
+      console.error('Reverse quote request failed', err);
+      setError(getErrorMessage(err));
+    } finally {
+      setIsRequestingQuote(false);
+    }
+  };
+
+  const handleClaim = async () => {
+    if (!quote || !preimageHex) return;
+
+    setIsClaiming(true);
+    setError(null);
+
+    try {
+      const { vtxoLock } = getReverseLocks(
+        quote,
+        await mockArkClient.getPublicKey(),
+      );
+      const claimTx = await mockArkClient.claimSwapLock(
+        vtxoLock,
+        Buffer.from(preimageHex, 'hex'),
+      );
+      // Relayed through the maker, which learns the preimage to claim the L1 lock
+      const receipt = await claimReverseSwap(quote.id, claimTx);
+
+      setClaimTransferId(receipt.transferId);
+      saveReverseSession({
+        amount,
+        preimageHex,
+        quote,
+        claimTransferId: receipt.transferId,
+      });
+    } catch (err) {
+      console.error('Reverse swap claim failed', err);
+      setError(getErrorMessage(err));
+    } finally {
+      setIsClaiming(false);
+    }
+  };
+
+  const handleReset = () => {
+    clearReverseSession();
+    setAmount('');
+    setPreimageHex(null);
+    setQuote(null);
+    setClaimTransferId(null);
+    setError(null);
+  };
+
+  const status = swap?.status ?? 'QUOTED';
+
+  return (
+    <div className="space-y-6">
+      <div className="rounded-xl border border-gray-800 bg-gray-900/50 p-6 backdrop-blur-sm">
+        <div className="space-y-4">
+          <div className="flex items-center gap-2">
+            <ArrowDownUp className="h-5 w-5 text-gray-400" />
+            <h3 className="text-sm font-medium text-gray-400">
+              Reverse Swap: L1 to Ark
+            </h3>
+          </div>
+          <p className="text-sm text-gray-500">
+            Lock BTC on L1 and receive a VTXO. The maker sends the VTXO once
+            your L1 lock confirms; claiming it reveals your preimage, which lets
+            the maker take the L1 lock.
+          </p>
+
+          {!quote && (
+            <div className="flex flex-col sm:flex-row gap-3">
+              <input
+                type="number"
+                value={amount}
+                onChange={(e) => setAmount(e.target.value)}
+                placeholder="Amount in sats"
+                min="0"
+                step="1"
+                className={cn(
+                  'flex-1 rounded-lg border border-gray-700 bg-gray-800 px-4 py-2',
+                  'text-sm text-gray-300 placeholder-gray-500',
+                  'focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent',
+                  'w-full min-w-0',
+                )}
+              />
+              <button
+                onClick={handleRequestQuote}
+                disabled={isRequestingQuote || !amount}
+                className={cn(
+                  'flex items-center justify-center gap-2 rounded-lg border border-gray-700 bg-gray-800 px-4 py-2',
+                  'text-sm font-medium text-gray-400 transition-colors',
+                  'hover:bg-gray-700 hover:text-gray-300',
+                  'focus:outline-none focus:ring-2 focus:ring-blue-500 focus:ring-offset-2 focus:ring-offset-gray-900',
+                  'disabled:cursor-not-allowed disabled:opacity-50',
+                  'w-full sm:w-auto flex-shrink-0',
+                )}
+              >
+                <ArrowDownUp className="h-4 w-4" />
+                {isRequestingQuote ? 'Requesting...' : 'Request Quote'}
+              </button>
+            </div>
+          )}
+
+          {quote && (
+            <div className="space-y-4">
+              <FeeBreakdown
+                amount={quote.amount}
+                fee={quote.fee}
+                payoutAmount={quote.payoutAmount}
+                payoutLabel="You receive as a VTXO"
+                expiresAtHeight={quote.expiresAtHeight}
+              />
+              <div className="rounded-lg border border-gray-700 bg-gray-800/50 p-4 space-y-2">
+                <p className="text-sm text-gray-400">
+                  Send exactly{' '}
+                  <span className="font-semibold text-white">
+                    {quote.amount.toLocaleString()} sats
+                  </span>{' '}
+                  on L1 to the lock address, confirmed before block{' '}
+                  {quote.expiresAtHeight}:
+                </p>
+                <p className="text-sm font-mono text-blue-400 break-all">
+                  {quote.lockAddress}
+                </p>
+                <p className="text-xs text-gray-500">
+                  Unclaimed, the lock returns to you through its refund leaf
+                  after {quote.timeoutBlocks} confirmations.
+                </p>
+              </div>
+
+              <p className="text-sm text-gray-400">
+                Status:{' '}
+                <span className="font-semibold text-white">{status}</span>
+              </p>
+
+              {!claimTransferId && status === 'QUOTED' && (
+                <div className="flex items-center gap-2 text-sm text-gray-400">
+                  <Loader2 className="h-4 w-4 animate-spin" />
+                  Waiting for the L1 lock to confirm...
+                </div>
+              )}
+              {!claimTransferId && status === 'LOCKED' && (
+                <div className="flex items-center gap-2 text-sm text-gray-400">
+                  <Loader2 className="h-4 w-4 animate-spin" />
+                  L1 lock confirmed, the maker is sending the VTXO...
+                </div>
+              )}
+              {!claimTransferId && status === 'PAID' && (
+                <div className="space-y-2">
+                  <p className="text-sm text-gray-400">
+                    The maker sent the VTXO lock; it can be claimed once its
+                    round is finalized (ASP fee: {quote.claimFee} sats).
+                  </p>
+                  <button
+                    onClick={handleClaim}
+                    disabled={isClaiming}
+                    className={cn(
+                      'flex items-center justify-center gap-2 rounded-lg bg-blue-600 px-4 py-2',
+                      'text-sm font-medium text-white transition-colors hover:bg-blue-700',
+                      'disabled:cursor-not-allowed disabled:opacity-50',
+                    )}
+                  >
+                    {isClaiming && <Loader2 className="h-4 w-4 animate-spin" />}
+                    {isClaiming ? 'Claiming...' : 'Claim VTXO'}
+                  </button>
+                </div>
+              )}
+              {status === 'EXPIRED' && (
+                <p className="text-sm text-yellow-400">
+                  The maker will not fund this swap: the quote expired at block{' '}
+                  {quote.expiresAtHeight}, or the L1 lock confirmed too close to
+                  its timeout. Refund the lock after {quote.timeoutBlocks}{' '}
+                  confirmations.
+                </p>
+              )}
+              {claimTransferId && (
+                <div className="flex items-start gap-2 text-sm text-green-400">
+                  <CheckCircle2 className="h-4 w-4 mt-0.5 flex-shrink-0" />
+                  <span className="break-all">
+                    VTXO claimed (transfer {claimTransferId}); it arrives in
+                    your wallet with the next round.
+                  </span>
+                </div>
+              )}
+
+              {/* Only once the preimage is no longer needed */}
+              {(claimTransferId || status === 'EXPIRED') && (
+                <button
+                  onClick={handleReset}
+                  className="text-sm text-gray-500 underline hover:text-gray-300"
+                >
+                  New reverse swap
+                </button>
+              )}
+            </div>
+          )}
+
+          {error && <p className="text-sm text-red-400 break-words">{error}</p>}
+        </div>
+      </div>
+    </div>
+  );
+}
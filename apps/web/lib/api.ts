@@ -1,3 +1,5 @@
+import type { ArkTransaction, SwapFee } from '@arkswap/protocol';
+
 const API_BASE_URL = 'http://localhost:3001';
 
 interface FaucetUserRequest {
@@ -39,6 +41,12 @@ export interface SwapQuoteResponse {
   amount: number;
   preimageHash: string;
   makerPubkey: string;
+  // The maker pays out payoutAmount (amount minus fee.total) on L1
+  fee: SwapFee;
+  payoutAmount: number;
+  expiresAtHeight: number;
+  // CSV timeout of the lock, chosen by the maker's policy
+  timeoutBlocks: number;
 }
 
 export async function requestSwapQuote(
@@ -64,7 +72,10 @@ export async function requestSwapQuote(
 
 interface SwapCommitRequest {
   swapId: string;
+  // Lock VTXO (txid:vout) and the user key the lock was built with
   txid: string;
+  vout: number;
+  userPubkey: string;
   userL1Address: string;
 }
 
@@ -75,7 +86,8 @@ export interface SwapCommitResponse {
 
 export async function commitSwap(
   swapId: string,
-  txid: string,
+  lockVtxo: { txid: string; vout: number },
+  userPubkey: string,
   userL1Address: string,
 ): Promise<SwapCommitResponse> {
   const response = await fetch(`${API_BASE_URL}/swap/commit`, {
@@ -83,7 +95,13 @@ export async function commitSwap(
     headers: {
       'Content-Type': 'application/json',
     },
-    body: JSON.stringify({ swapId, txid, userL1Address } as SwapCommitRequest),
+    body: JSON.stringify({
+      swapId,
+      txid: lockVtxo.txid,
+      vout: lockVtxo.vout,
+      userPubkey,
+      userL1Address,
+    } as SwapCommitRequest),
   });
 
   if (!response.ok) {
@@ -96,6 +114,116 @@ export async function commitSwap(
   return response.json() as Promise<SwapCommitResponse>;
 }
 
+interface ReverseSwapQuoteRequest {
+  amount: number;
+  preimageHash: string;
+  userPubkey: string;
+}
+
+// Parsed with ReverseSwapQuoteSchema by the caller
+export async function requestReverseSwapQuote(
+  amount: number,
+  preimageHash: string,
+  userPubkey: string,
+): Promise<unknown> {
+  const response = await fetch(`${API_BASE_URL}/swap/reverse/quote`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify({
+      amount,
+      preimageHash,
+      userPubkey,
+    } as ReverseSwapQuoteRequest),
+  });
+
+  if (!response.ok) {
+    const error = await response
+      .json()
+      .catch(() => ({ message: 'Failed to request reverse swap quote' }));
+    throw new Error(error.message || 'Failed to request reverse swap quote');
+  }
+
+  return response.json();
+}
+
+export interface ReverseSwapClaimResponse {
+  success: boolean;
+  transferId: string;
+  roundId: string;
+}
+
+export async function claimReverseSwap(
+  swapId: string,
+  claimTx: ArkTransaction,
+): Promise<ReverseSwapClaimResponse> {
+  const response = await fetch(`${API_BASE_URL}/swap/reverse/${swapId}/claim`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify({ claimTx }),
+  });
+
+  if (!response.ok) {
+    const error = await response
+      .json()
+      .catch(() => ({ message: 'Failed to claim reverse swap' }));
+    throw new Error(error.message || 'Failed to claim reverse swap');
+  }
+
+  return response.json() as Promise<ReverseSwapClaimResponse>;
+}
+
+export type SwapStatus =
+  | 'QUOTED'
+  | 'LOCKED'
+  | 'PAYING'
+  | 'PAID'
+  | 'CLAIMED'
+  | 'EXPIRED'
+  | 'REFUNDED';
+
+export interface SwapTransition {
+  status: SwapStatus;
+  timestamp: string;
+  blockHeight: number;
+}
+
+// The maker's record of a swap (GET /swap/:id), without its secrets
+export interface SwapRecordResponse {
+  id: string;
+  amount: number;
+  status: SwapStatus;
+  transitions: SwapTransition[];
+  expiresAtHeight: number;
+  lockTxid?: string;
+  lockVout?: number;
+  userL1Address?: string;
+  l1TxId?: string;
+  // Reverse swaps: the maker's L1 claim, once the user claimed the VTXO lock
+  l1ClaimTxId?: string;
+}
+
+export async function getSwap(swapId: string): Promise<SwapRecordResponse> {
+  const response = await fetch(`${API_BASE_URL}/swap/${swapId}`, {
+    method: 'GET',
+    headers: {
+      'Content-Type': 'application/json',
+    },
+  });
+
+  if (!response.ok) {
+    const error = await response
+      .json()
+      .catch(() => ({ message: 'Failed to fetch swap' }));
+    throw new Error(error.message || 'Failed to fetch swap');
+  }
+
+  return response.json() as Promise<SwapRecordResponse>;
+}
+
 export interface BitcoinInfoResponse {
   chain: string;
   blocks: number;
@@ -119,3 +247,54 @@ export async function getBitcoinInfo(): Promise<BitcoinInfoResponse> {
 
   return response.json() as Promise<BitcoinInfoResponse>;
 }
+
+export interface BroadcastResponse {
+  txid: string;
+}
+
+export async function broadcastTransaction(
+  hex: string,
+): Promise<BroadcastResponse> {
+  const response = await fetch(`${API_BASE_URL}/bitcoin/broadcast`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify({ hex }),
+  });
+
+  if (!response.ok) {
+    const error = await response
+      .json()
+      .catch(() => ({ message: 'Failed to broadcast transaction' }));
+    throw new Error(error.message || 'Failed to broadcast transaction');
+  }
+
+  return response.json() as Promise<BroadcastResponse>;
+}
+
+export interface TransactionStatusResponse {
+  txid: string;
+  confirmations: number;
+  blockHeight: number | null;
+}
+
+export async function getTransactionStatus(
+  txid: string,
+): Promise<TransactionStatusResponse> {
+  const response = await fetch(`${API_BASE_URL}/bitcoin/tx/${txid}`, {
+    method: 'GET',
+    headers: {
+      'Content-Type': 'application/json',
+    },
+  });
+
+  if (!response.ok) {
+    const error = await response
+      .json()
+      .catch(() => ({ message: 'Failed to get transaction status' }));
+    throw new Error(error.message || 'Failed to get transaction status');
+  }
+
+  return response.json() as Promise<TransactionStatusResponse>;
+}
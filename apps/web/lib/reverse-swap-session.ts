@@ -0,0 +1,55 @@
+import type { ReverseSwapQuote } from '@arkswap/protocol';
+
+// The preimage is the user's secret: losing it before the claim leaves only
+// the L1 refund, so it is stored with the quote as soon as it is generated
+export interface ReverseSwapSession {
+  amount: string;
+  preimageHex: string;
+  quote: ReverseSwapQuote | null;
+  claimTransferId: string | null;
+}
+
+const STORAGE_KEY = 'ark_reverse_swap_session';
+
+export function saveReverseSession(session: ReverseSwapSession): void {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(session));
+  } catch (error) {
+    console.error('Failed to save reverse swap session:', error);
+  }
+}
+
+export function loadReverseSession(): ReverseSwapSession | null {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    if (!stored) {
+      return null;
+    }
+
+    const session = JSON.parse(stored) as ReverseSwapSession;
+    if (
+      typeof session.amount === 'string' &&
+      typeof session.preimageHex === 'string' &&
+      (session.quote === null || typeof session.quote?.fee === 'object') &&
+      (session.claimTransferId === null ||
+        typeof session.claimTransferId === 'string')
+    ) {
+      return session;
+    }
+
+    clearReverseSession();
+    return null;
+  } catch (error) {
+    console.error('Failed to load reverse swap session:', error);
+    clearReverseSession();
+    return null;
+  }
+}
+
+export function clearReverseSession(): void {
+  try {
+    localStorage.removeItem(STORAGE_KEY);
+  } catch (error) {
+    console.error('Failed to clear reverse swap session:', error);
+  }
+}
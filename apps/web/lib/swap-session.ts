@@ -1,9 +1,11 @@
+import type { SwapLockOutpoint } from '@arkswap/protocol';
 import type { SwapQuoteResponse } from './api';
 
 export type SwapStep =
   | 'quote'
   | 'locking'
   | 'success'
+  | 'pendingExit'
   | 'pendingRefund'
   | 'refundSuccess';
 
@@ -12,11 +14,20 @@ export interface SwapSession {
   amount: string;
   quote: SwapQuoteResponse | null;
   lockAddress: string | null;
+  // CSV timeout of the lock, as the maker quoted it
+  timeoutBlocks: number | null;
   userL1Address: string;
   l1TxId: string | null;
+  // Lock VTXO of an unpaid swap, and the ASP round from which the refund leaf
+  // may exit it (its round plus the CSV timeout)
+  lockVtxo: { txid: string; vout: number } | null;
+  exitRound: number | null;
   // Refund state
   startBlock: number | null;
   timeoutBlock: number | null;
+  // On-chain output of the exited lock VTXO, and the transaction refunding it
+  refundOutpoint: SwapLockOutpoint | null;
+  refundTxId: string | null;
 }
 
 const STORAGE_KEY = 'ark_swap_session';
@@ -43,18 +54,30 @@ export function loadSession(): SwapSession | null {
       typeof session.step === 'string' &&
       typeof session.amount === 'string' &&
       typeof session.userL1Address === 'string' &&
-      (session.quote === null || typeof session.quote === 'object') &&
+      // Quotes without a fee breakdown predate pricing and are dropped
+      (session.quote === null || typeof session.quote?.fee === 'object') &&
       (session.lockAddress === null ||
         typeof session.lockAddress === 'string') &&
+      // Sessions from before quoted timeouts have none and are dropped
+      (session.timeoutBlocks === null ||
+        typeof session.timeoutBlocks === 'number') &&
       (session.l1TxId === null || typeof session.l1TxId === 'string') &&
+      // Sessions from before gated exits have neither and start without them
+      (session.lockVtxo == null || typeof session.lockVtxo === 'object') &&
+      (session.exitRound == null || typeof session.exitRound === 'number') &&
       (session.startBlock === null || typeof session.startBlock === 'number') &&
       (session.timeoutBlock === null ||
-        typeof session.timeoutBlock === 'number')
+        typeof session.timeoutBlock === 'number') &&
+      (session.refundOutpoint === null ||
+        typeof session.refundOutpoint === 'object') &&
+      (session.refundTxId === null || typeof session.refundTxId === 'string')
     ) {
       // If caught in 'locking' step, revert to 'quote' to prevent spinner loops
       if (session.step === 'locking') {
         session.step = 'quote';
       }
+      session.lockVtxo ??= null;
+      session.exitRound ??= null;
 
       return session;
     }
@@ -10,9 +10,9 @@ import type {
   Address,
   TxId,
   AssetMetadata,
+  FeeSchedule,
 } from '@arkswap/protocol';
 import {
-  getTxHash,
   VtxoSchema,
   AssetMetadataSchema,
   asTxId,
@@ -21,14 +21,53 @@ import {
   createAssetPayToPublicKey,
   getAssetHash,
   mixGenomes,
+  deriveVtxoTxid,
+  getLiftHash,
+  RoundSummarySchema,
+  TransferReceiptSchema,
+  getRoundSummaryHash,
+  getTransferReceiptHash,
+  getGenesisHash,
+  verifyAspSignature,
+  FeeScheduleSchema,
+  ZERO_FEE_SCHEDULE,
+  getRequiredFee,
+  ARK_TX_VERSION_TAPROOT,
+  getTaprootSighash,
+  getVtxoPrevout,
+  buildRefundTx,
+  signHtlcClaim,
+  getExitRequestHash,
+  assertSafeNetwork,
+} from '@arkswap/protocol';
+import type {
+  ArkNetwork,
+  ExitRequest,
+  RoundSummary,
+  TransferReceipt,
+  SwapLockResult,
+  SwapLockOutpoint,
 } from '@arkswap/protocol';
 import { z } from 'zod';
 
 const WIF_STORAGE_KEY = 'ark_wallet_wif';
 const VTXO_STORAGE_KEY = 'ark_vtxos';
 const WATCHED_ADDRESSES_KEY = 'ark_watched_addresses';
+const MIN_SWAP_TIMEOUT_KEY = 'ark_min_swap_timeout';
+const LOCAL_VTXO_COUNTER_KEY = 'ark_local_vtxo_counter';
+
+// Miner fee paid by a refund of a swap lock (one Taproot input, one output)
+export const REFUND_FEE_SATS = 500;
+
+// Shortest swap lock CSV timeout accepted until the user sets their own minimum
+export const DEFAULT_MIN_SWAP_TIMEOUT_BLOCKS = 12;
 
 export class MockArkClient {
+  // ASP identity pubkey, pinned on first use (see getAspPubkey)
+  private aspPubkey: string | null = null;
+  // Bitcoin network the ASP runs on, pinned on first use (see getAspNetwork)
+  private aspNetwork: ArkNetwork | null = null;
+
   /**
    * EMPTY CONSTRUCTOR - Do not load keys, do not access localStorage, do not call crypto.
    * All initialization happens lazily in methods.
@@ -95,6 +134,47 @@ export class MockArkClient {
     }
   }
 
+  /**
+   * Gets the user's minimum CSV timeout for swap locks, in blocks
+   */
+  getMinSwapTimeout(): number {
+    if (typeof window === 'undefined') return DEFAULT_MIN_SWAP_TIMEOUT_BLOCKS;
+    const stored = Number(localStorage.getItem(MIN_SWAP_TIMEOUT_KEY));
+    return Number.isInteger(stored) && stored > 0
+      ? stored
+      : DEFAULT_MIN_SWAP_TIMEOUT_BLOCKS;
+  }
+
+  /**
+   * Sets the user's minimum CSV timeout for swap locks
+   * @throws Error if blocks is not a positive integer
+   */
+  setMinSwapTimeout(blocks: number): void {
+    if (!Number.isInteger(blocks) || blocks <= 0) {
+      throw new Error(
+        `Minimum swap timeout must be a positive number of blocks, got ${blocks}`,
+      );
+    }
+    if (typeof window === 'undefined') return;
+    localStorage.setItem(MIN_SWAP_TIMEOUT_KEY, String(blocks));
+  }
+
+  /**
+   * Checks a quoted lock timeout against the user's minimum (see getMinSwapTimeout)
+   * The timeout is chosen by the maker; one shorter than the user is willing to
+   * accept leaves too little time to see the swap through before the lock's
+   * refund path opens.
+   * @throws Error if timeoutBlocks is below the minimum
+   */
+  assertSwapTimeout(timeoutBlocks: number): void {
+    const minimum = this.getMinSwapTimeout();
+    if (timeoutBlocks < minimum) {
+      throw new Error(
+        `Quoted lock timeout of ${timeoutBlocks} blocks is below your minimum of ${minimum} blocks`,
+      );
+    }
+  }
+
   /**
    * Gets the stored WIF from localStorage (only called from methods)
    */
@@ -225,6 +305,57 @@ export class MockArkClient {
     return Buffer.from(signatureRaw).toString('hex');
   }
 
+  /**
+   * Returns the ASP identity pubkey (x-only hex) from /v1/info
+   * Fetched once and pinned: every later ASP statement must be signed by this key
+   */
+  private async getAspPubkey(): Promise<string> {
+    if (this.aspPubkey) {
+      return this.aspPubkey;
+    }
+
+    const info = await this.getInfo();
+    if (!/^[0-9a-f]{64}$/i.test(info.pubkey)) {
+      throw new Error('ASP did not publish a valid identity pubkey');
+    }
+    this.aspPubkey = info.pubkey.toLowerCase();
+    return this.aspPubkey;
+  }
+
+  /**
+   * Returns the Bitcoin network the ASP runs on from /v1/info
+   * Fetched once and pinned: prevouts and sighashes are computed on it
+   * @throws Error if the ASP runs on a network other than a test network
+   */
+  private async getAspNetwork(): Promise<ArkNetwork> {
+    if (this.aspNetwork) {
+      return this.aspNetwork;
+    }
+
+    const { network } = await this.getInfo();
+    assertSafeNetwork(network);
+    this.aspNetwork = network;
+    return this.aspNetwork;
+  }
+
+  /**
+   * Throws unless signature is the ASP identity key's signature over hashHex
+   * Called before any ASP response is applied to local state
+   */
+  private async assertAspSignature(
+    hashHex: string,
+    signature: unknown,
+    statement: string,
+  ): Promise<void> {
+    const aspPubkey = await this.getAspPubkey();
+    if (
+      typeof signature !== 'string' ||
+      !verifyAspSignature(walletTools.ecc, aspPubkey, hashHex, signature)
+    ) {
+      throw new Error(`Invalid ASP signature on ${statement}`);
+    }
+  }
+
   /**
    * Mints a Gen 0 Koi asset
    * @param amount - Amount in sats to mint the asset with
@@ -263,6 +394,13 @@ export class MockArkClient {
     // Validate and parse metadata
     const metadata = AssetMetadataSchema.parse(result.metadata);
 
+    // Only trust the DNA if the ASP signed it
+    await this.assertAspSignature(
+      getGenesisHash({ address: result.address, amount, metadata }),
+      result.signature,
+      'genesis response',
+    );
+
     // Derive the asset address using the wallet's pubkey and metadata
     const assetAddress = createAssetPayToPublicKey(pubkeyBuffer, metadata);
 
@@ -327,13 +465,12 @@ export class MockArkClient {
     const vtxos = this.getStorage();
     const addressVtxos = vtxos[address] ?? [];
 
-    // Generate a random txid (64 hex characters)
-    const txid = Array.from({ length: 64 }, () =>
-      Math.floor(Math.random() * 16).toString(16),
-    ).join('');
+    // Local faucet VTXOs are derived like ASP lifts, keyed by a counter that
+    // never repeats (a position in the wallet would once a VTXO is removed)
+    const liftHash = getLiftHash(address, amount, this.nextLocalVtxoIndex());
 
     const newVtxo: Vtxo = {
-      txid: asTxId(txid),
+      txid: deriveVtxoTxid('local', liftHash, 0),
       vout: 0,
       amount,
       address: asAddress(address),
@@ -347,9 +484,14 @@ export class MockArkClient {
 
   /**
    * Selects coins using First Fit algorithm
-   * Returns an array of VTXOs that sum to at least the target amount
+   * Returns an array of VTXOs that sum to at least the target amount plus the
+   * transfer fee for the selected inputs (priced with a change output)
    */
-  selectCoins(address: string, targetAmount: number): Vtxo[] {
+  selectCoins(
+    address: string,
+    targetAmount: number,
+    fees: FeeSchedule = ZERO_FEE_SCHEDULE,
+  ): Vtxo[] {
     const unspentVtxos = this.getVtxos(address);
     const addressBranded = asAddress(address);
 
@@ -365,14 +507,16 @@ export class MockArkClient {
 
     let selected: Vtxo[] = [];
     let total = 0;
+    const required = () =>
+      targetAmount + getRequiredFee(fees, selected.length, 2);
 
     for (const vtxo of sorted) {
-      if (total >= targetAmount) break;
+      if (total >= required()) break;
       selected.push(vtxo);
       total += vtxo.amount;
     }
 
-    if (total < targetAmount) {
+    if (total < required()) {
       const totalValue = myCoins.reduce((sum, vtxo) => sum + vtxo.amount, 0);
       const paymentTotal = paymentCandidates.reduce(
         (sum, vtxo) => sum + vtxo.amount,
@@ -432,6 +576,17 @@ export class MockArkClient {
     this.setStorage(vtxos);
   }
 
+  /**
+   * Next index of a local faucet VTXO, persisted so it survives reloads
+   * (kept by clearWallet, so a restored wallet cannot reuse an index either)
+   */
+  private nextLocalVtxoIndex(): number {
+    if (typeof window === 'undefined') return 0;
+    const index = Number(localStorage.getItem(LOCAL_VTXO_COUNTER_KEY)) || 0;
+    localStorage.setItem(LOCAL_VTXO_COUNTER_KEY, String(index + 1));
+    return index;
+  }
+
   /**
    * Legacy method for backward compatibility - now uses addVtxo
    */
@@ -599,18 +754,23 @@ export class MockArkClient {
       throw new Error('No wallet found. Please create a wallet first.');
     }
 
-    // 1. Select Coins (With Address Filter for safety)
-    const selected = this.selectCoins(myAddress, amount);
+    // 1. Select Coins (With Address Filter for safety), covering the ASP fee
+    const fees = await this.getFeeSchedule();
+    const selected = this.selectCoins(myAddress, amount, fees);
     if (selected.length === 0) {
       throw new Error('Insufficient funds');
     }
 
+    const fee = getRequiredFee(fees, selected.length, 2);
     const selectedTotal = selected.reduce((sum, v) => sum + v.amount, 0);
-    if (selectedTotal < amount) {
-      throw new Error(`Insufficient funds: ${selectedTotal} < ${amount}`);
+    if (selectedTotal < amount + fee) {
+      throw new Error(
+        `Insufficient funds: ${selectedTotal} < ${amount + fee} (including ${fee} sats fee)`,
+      );
     }
 
-    const change = selectedTotal - amount;
+    // Whatever is not paid out or returned as change is the ASP fee
+    const change = selectedTotal - amount - fee;
 
     // 2. Build Outputs
     const outputs: ArkOutput[] = [{ address: asAddress(toAddress), amount }];
@@ -624,26 +784,37 @@ export class MockArkClient {
       txid: coin.txid,
       vout: coin.vout,
     }));
+    // Prevout scripts and sighashes are computed on the network the ASP runs on
+    const network = await this.getAspNetwork();
+    const prevouts = selected.map((coin) =>
+      getVtxoPrevout(coin.address, coin.amount, network),
+    );
 
-    // 4. Calculate Hash
-    const txHashHex = await getTxHash(inputsUnsigned, outputs);
-    const txHashBuffer = Buffer.from(txHashHex, 'hex');
-
-    // 5. Sign Inputs
+    // 4. Sign Inputs: each input signs its own BIP-341 sighash of the virtual tx
     const inputs: ArkInput[] = await Promise.all(
-      selected.map(async (coin) => {
-        const signatureHex = await this.signSchnorr(txHashBuffer);
-        return {
-          txid: coin.txid,
-          vout: coin.vout,
-          signature: asSignatureHex(signatureHex),
-        };
+      inputsUnsigned.map(async (input, index) => {
+        const sighash = getTaprootSighash(
+          { inputs: inputsUnsigned, outputs },
+          prevouts,
+          index,
+          undefined,
+          network,
+        );
+        const signatureHex = await this.signSchnorr(
+          Buffer.from(sighash, 'hex'),
+        );
+        return { ...input, signature: asSignatureHex(signatureHex) };
       }),
     );
 
-    const tx: ArkTransaction = { inputs, outputs };
+    const tx: ArkTransaction = {
+      version: ARK_TX_VERSION_TAPROOT,
+      inputs,
+      outputs,
+    };
+
+    // 5. Broadcast (transferId is getTxHash of the transaction)
 
-    // 6. Broadcast
     const response = await fetch('http://localhost:7070/v1/transfer', {
       method: 'POST',
       headers: { 'Content-Type': 'application/json' },
@@ -659,6 +830,25 @@ export class MockArkClient {
 
     const result = await response.json();
 
+    // 6. Verify the signed receipt before touching local state
+    const receipt: TransferReceipt = TransferReceiptSchema.parse(result);
+    await this.assertAspSignature(
+      getTransferReceiptHash(receipt),
+      result.signature,
+      'transfer receipt',
+    );
+    const promisesOutputs =
+      receipt.outputs.length === outputs.length &&
+      receipt.outputs.every(
+        (o, i) =>
+          o.vout === i &&
+          o.address === outputs[i].address &&
+          o.amount === outputs[i].amount,
+      );
+    if (!promisesOutputs) {
+      throw new Error('Transfer receipt does not match the submitted outputs');
+    }
+
     // 7. Update State
     const allVtxos = this.getStorage();
     if (allVtxos[myAddress]) {
@@ -671,20 +861,234 @@ export class MockArkClient {
       this.setStorage(allVtxos);
     }
 
-    return result.transferId || result.txid;
+    return receipt.transferId;
   }
 
   /**
-   * Claims a refund by lifting funds back to L2
-   * Uses the Lift mechanism to ensure the ASP knows about the VTXO
+   * Polls GET /v1/transfer/:transferId until the transfer's round has closed
+   * Stores the outputs paid to this wallet once the finalized receipt is verified
+   * @returns The signed finalized receipt with the actual output outpoints
+   */
+  async waitForTransfer(
+    transferId: string,
+    { intervalMs = 1000, timeoutMs = 60000 } = {},
+  ): Promise<TransferReceipt> {
+    const deadline = Date.now() + timeoutMs;
+
+    while (Date.now() < deadline) {
+      const response = await fetch(
+        `http://localhost:7070/v1/transfer/${transferId}`,
+      );
+      if (!response.ok) {
+        const err = await response
+          .json()
+          .catch(() => ({ message: response.statusText }));
+        throw new Error(err.message || 'Failed to fetch transfer receipt');
+      }
+
+      const result = await response.json();
+      const receipt: TransferReceipt = TransferReceiptSchema.parse(result);
+      await this.assertAspSignature(
+        getTransferReceiptHash(receipt),
+        result.signature,
+        'transfer receipt',
+      );
+
+      if (receipt.status === 'finalized') {
+        await this.storeReceiptOutputs(receipt);
+        return receipt;
+      }
+
+      await new Promise((resolve) => setTimeout(resolve, intervalMs));
+    }
+
+    throw new Error(`Transfer ${transferId} was not finalized in time`);
+  }
+
+  /**
+   * Adds the outputs of a finalized receipt that pay this wallet to local storage
+   */
+  private async storeReceiptOutputs(receipt: TransferReceipt): Promise<void> {
+    const myAddress = await this.getAddress();
+    if (!myAddress) {
+      return;
+    }
+
+    const allVtxos = this.getStorage();
+    const addressVtxos = allVtxos[myAddress] ?? [];
+    for (const output of receipt.outputs) {
+      const known = addressVtxos.some(
+        (v) => v.txid === output.txid && v.vout === output.vout,
+      );
+      if (output.address === myAddress && !known) {
+        addressVtxos.push({
+          txid: asTxId(output.txid),
+          vout: output.vout,
+          amount: output.amount,
+          address: asAddress(output.address),
+          spent: false,
+        });
+      }
+    }
+    allVtxos[myAddress] = addressVtxos;
+    this.setStorage(allVtxos);
+  }
+
+  /**
+   * Fetches a finalized round from the ASP and verifies its signed summary
+   */
+  async getRound(roundId: string): Promise<RoundSummary> {
+    const response = await fetch(
+      `http://localhost:7070/v1/rounds/${encodeURIComponent(roundId)}`,
+    );
+
+    if (!response.ok) {
+      throw new Error(`Failed to fetch round: ${response.statusText}`);
+    }
+
+    const data = await response.json();
+    const summary = RoundSummarySchema.parse(data);
+    await this.assertAspSignature(
+      getRoundSummaryHash(summary),
+      data.signature,
+      `round ${roundId}`,
+    );
+    return summary;
+  }
+
+  /**
+   * Asks the ASP to move a VTXO on-chain (unilateral exit)
+   * The on-chain output pays the VTXO's address, so a swap lock keeps its claim and
+   * refund leaves. Repeated calls return the same outpoint.
+   * The request is signed by the wallet: with its address key for its own VTXOs,
+   * or for a swap lock VTXO with its plain key through the lock's refund leaf.
+   * @param lock - The swap lock the VTXO pays, if it is not a wallet VTXO
+   * @returns The on-chain outpoint holding the VTXO amount
+   */
+  async exitVtxo(
+    txid: string,
+    vout: number,
+    lock?: SwapLockResult,
+  ): Promise<SwapLockOutpoint> {
+    const ExitResponseSchema = z.object({
+      amount: z.number(),
+      onchain: z.object({ txid: z.string(), vout: z.number() }).nullable(),
+    });
+
+    const hash = Buffer.from(getExitRequestHash(txid, vout), 'hex');
+    let request: ExitRequest;
+    if (lock) {
+      const keyPair = await this.getKeyPair();
+      if (!keyPair.privateKey) {
+        throw new Error('Missing private key');
+      }
+      // Script-path signers sign with the untweaked key (BIP-342)
+      request = {
+        txid,
+        vout,
+        signature: Buffer.from(
+          walletTools.ecc.signSchnorr(hash, keyPair.privateKey),
+        ).toString('hex'),
+        leafScript: lock.leaves.refund.toString('hex'),
+        controlBlock: lock.controlBlockRefund.toString('hex'),
+      };
+    } else {
+      request = { txid, vout, signature: await this.signSchnorr(hash) };
+    }
+
+    const response = await fetch('http://localhost:7070/v1/exit', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(request),
+    });
+
+    if (!response.ok) {
+      const error = await response.json().catch(() => ({}));
+      throw new Error(
+        `Exit request failed: ${error.message || response.statusText}`,
+      );
+    }
+
+    const { amount, onchain } = ExitResponseSchema.parse(await response.json());
+    if (!onchain) {
+      throw new Error(`Exit of ${txid}:${vout} has not been broadcast yet`);
+    }
+    return { txid: onchain.txid, vout: onchain.vout, amount };
+  }
+
+  /**
+   * Builds the refund of an expired swap lock: a script-path spend of the refund leaf
+   * signed with the wallet key (the lock's user key)
+   * The transaction's nSequence is the lock's CSV timeout, so nodes only accept it
+   * once outpoint has that many confirmations. Broadcasting is left to the caller.
+   * @param lock - The swap lock (see createSwapLock)
+   * @param outpoint - On-chain output paying the lock address (see exitVtxo)
+   * @param destination - L1 address receiving the refund
+   * @param fee - Miner fee deducted from the locked amount
    */
   async claimRefund(
-    amount: number,
-    address: string,
-  ): Promise<{ status: string; nextRound: string }> {
-    // Use lift to recover L1 funds and re-deposit them to L2
-    // This ensures the ASP generates the VTXO and knows the ID
-    return await this.lift(address, amount);
+    lock: SwapLockResult,
+    outpoint: SwapLockOutpoint,
+    destination: string,
+    fee: number = REFUND_FEE_SATS,
+  ): Promise<{ txid: string; hex: string }> {
+    const keyPair = await this.getKeyPair();
+    if (!keyPair.privateKey) {
+      throw new Error('Missing private key');
+    }
+
+    // Script-path spends sign with the untweaked key (BIP-342)
+    const { txid, hex } = buildRefundTx({
+      outpoint,
+      lock,
+      privateKey: keyPair.privateKey,
+      destination,
+      fee,
+    });
+    return { txid, hex };
+  }
+
+  /**
+   * Builds the claim of a swap lock VTXO through its claim leaf, for a lock whose
+   * claim key is the wallet key (a reverse swap: the maker locks, the user claims)
+   * The claim reveals the preimage and pays the wallet's main address, minus the
+   * ASP's transfer fee. Submitting it is left to the caller.
+   * @param lock - The swap lock (see createSwapLock)
+   * @param preimage - Preimage of the lock's claim leaf
+   * @throws Error if no unspent VTXO pays the lock address yet
+   */
+  async claimSwapLock(
+    lock: SwapLockResult,
+    preimage: Buffer,
+  ): Promise<ArkTransaction> {
+    const response = await fetch(
+      `http://localhost:7070/v1/vtxos/${lock.address}`,
+    );
+    if (!response.ok) {
+      throw new Error(`Failed to fetch VTXOs: ${response.statusText}`);
+    }
+    const lockVtxo = VtxoSchema.array()
+      .parse(await response.json())
+      .find((vtxo) => !vtxo.spent);
+    if (!lockVtxo) {
+      throw new Error(`No unspent VTXO at lock address ${lock.address}`);
+    }
+
+    const keyPair = await this.getKeyPair();
+    if (!keyPair.privateKey) {
+      throw new Error('Missing private key');
+    }
+
+    // Script-path spends sign with the untweaked key (BIP-342)
+    return signHtlcClaim({
+      lockVtxo,
+      lock,
+      destination: (await this.getAddress())!,
+      fee: getRequiredFee(await this.getFeeSchedule(), 1, 1),
+      privateKey: keyPair.privateKey,
+      preimage,
+      network: await this.getAspNetwork(),
+    });
   }
 
   /**
@@ -989,6 +1393,10 @@ export class MockArkClient {
   async getInfo(): Promise<{
     pubkey: string;
     roundInterval: number;
+    roundMode: 'interval' | 'manual';
+    roundsPaused: boolean;
+    fees: FeeSchedule;
+    txVersions: number[];
     network: string;
     currentBlock: number;
   }> {
@@ -1001,6 +1409,14 @@ export class MockArkClient {
     return await response.json();
   }
 
+  /**
+   * Fetches the ASP's current transfer fee schedule from /v1/info
+   */
+  async getFeeSchedule(): Promise<FeeSchedule> {
+    const info = await this.getInfo();
+    return FeeScheduleSchema.parse(info.fees);
+  }
+
   /**
    * Signs a message for pond entry (extracted for testing)
    * @param txid - The transaction ID to sign
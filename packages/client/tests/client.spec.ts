@@ -1,11 +1,24 @@
-import { MockArkClient, walletTools } from '../src/index';
+import {
+  MockArkClient,
+  DEFAULT_MIN_SWAP_TIMEOUT_BLOCKS,
+  REFUND_FEE_SATS,
+  walletTools,
+} from '../src/index';
 import {
   asTxId,
   asAddress,
   getAssetHash,
   createAssetPayToPublicKey,
+  getTxHash,
+  deriveVtxoTxid,
+  getTransferReceiptHash,
+  getGenesisHash,
+  getTaprootSighash,
+  getVtxoPrevout,
+  createSwapLock,
+  verifyExitSignature,
 } from '@arkswap/protocol';
-import type { Vtxo, AssetMetadata } from '@arkswap/protocol';
+import type { Vtxo, AssetMetadata, ArkTransaction } from '@arkswap/protocol';
 import { createHash } from 'crypto';
 
 // Mock fetch globally for breeding tests
@@ -439,3 +452,446 @@ describe('MockArkClient - breed signature verification', () => {
     expect(isValid).toBe(true);
   });
 });
+
+describe('MockArkClient - ASP signatures', () => {
+  const { ecc } = walletTools;
+  const aspKey = Buffer.alloc(32, 7);
+  const otherKey = Buffer.alloc(32, 9);
+  const aspPubkey = walletTools.ECPair.fromPrivateKey(aspKey)
+    .publicKey.subarray(1)
+    .toString('hex');
+  const roundId = '7f1c2b9e-3d4a-4c5b-8e6f-0a1b2c3d4e5f';
+  const recipient = walletTools.bitcoin.payments.p2tr({
+    internalPubkey: Buffer.alloc(32, 2),
+    network: walletTools.network,
+  }).address!;
+  const fees = { baseFee: 10, perInput: 5, perOutput: 5 };
+
+  const signAsAsp = (hashHex: string, key: Buffer = aspKey) =>
+    Buffer.from(ecc.signSchnorr(Buffer.from(hashHex, 'hex'), key)).toString(
+      'hex',
+    );
+
+  /**
+   * Routes fetch calls by path: /v1/info publishes aspPubkey, the rest use handlers
+   */
+  const mockAsp = (
+    handlers: Record<string, (body: any) => Promise<unknown> | unknown>,
+    network = 'regtest',
+  ) => {
+    (global.fetch as jest.Mock).mockImplementation(
+      async (url: string, init?: { body?: string }) => {
+        const path = url.replace('http://localhost:7070', '');
+        const body = init?.body ? JSON.parse(init.body) : undefined;
+        const payload =
+          path === '/v1/info'
+            ? { pubkey: aspPubkey, fees, network, currentBlock: 0 }
+            : await handlers[path](body);
+        return { ok: true, json: async () => payload };
+      },
+    );
+  };
+
+  /**
+   * Receipt the ASP issues for a transfer, with the outpoints its round creates
+   */
+  const receiptFor = async (
+    tx: ArkTransaction,
+    status: 'queued' | 'finalized' = 'queued',
+  ) => {
+    const transferId = await getTxHash(
+      tx.inputs.map(({ txid, vout }) => ({ txid, vout })),
+      tx.outputs,
+    );
+    return {
+      status,
+      transferId,
+      roundId,
+      outputs: tx.outputs.map(({ address, amount }, vout) => ({
+        txid: deriveVtxoTxid(roundId, transferId, vout),
+        vout,
+        address,
+        amount,
+      })),
+    };
+  };
+
+  const signed = <T extends Parameters<typeof getTransferReceiptHash>[0]>(
+    receipt: T,
+    key: Buffer = aspKey,
+  ) => ({
+    ...receipt,
+    signature: signAsAsp(getTransferReceiptHash(receipt), key),
+  });
+
+  /**
+   * ASP transfer endpoint that signs its receipt with the given key
+   */
+  const transferSignedBy = (key: Buffer) => async (tx: ArkTransaction) =>
+    signed(await receiptFor(tx), key);
+
+  let client: MockArkClient;
+  let walletAddress: string;
+
+  beforeEach(async () => {
+    (global.fetch as jest.Mock).mockReset();
+    client = new MockArkClient();
+    walletAddress = await client.createWallet();
+    client.addVtxo(walletAddress, 1000);
+  });
+
+  afterEach(() => {
+    window.localStorage.clear();
+  });
+
+  it('should apply a transfer once the receipt is signed by the ASP', async () => {
+    mockAsp({ '/v1/transfer': transferSignedBy(aspKey) });
+
+    const transferId = await client.send(400, recipient);
+
+    expect(transferId).toMatch(/^[0-9a-f]{64}$/);
+    expect(client.getBalance(walletAddress)).toBe(0);
+  });
+
+  it('should reject a receipt signed by another key and keep the coins', async () => {
+    mockAsp({ '/v1/transfer': transferSignedBy(otherKey) });
+
+    await expect(client.send(400, recipient)).rejects.toThrow(
+      'Invalid ASP signature on transfer receipt',
+    );
+    expect(client.getBalance(walletAddress)).toBe(1000);
+  });
+
+  it('should leave exactly the scheduled fee to the ASP', async () => {
+    let submitted: ArkTransaction | undefined;
+    mockAsp({
+      '/v1/transfer': (tx: ArkTransaction) => {
+        submitted = tx;
+        return transferSignedBy(aspKey)(tx);
+      },
+    });
+
+    await client.send(400, recipient);
+
+    expect(submitted!.outputs).toEqual([
+      { address: recipient, amount: 400 },
+      { address: walletAddress, amount: 575 },
+    ]);
+  });
+
+  it('should sign the BIP-341 sighash of every input', async () => {
+    client.addVtxo(walletAddress, 200);
+    let submitted: ArkTransaction | undefined;
+    mockAsp({
+      '/v1/transfer': (tx: ArkTransaction) => {
+        submitted = tx;
+        return transferSignedBy(aspKey)(tx);
+      },
+    });
+
+    await client.send(1100, recipient);
+
+    const outputKey =
+      walletTools.bitcoin.address.fromBech32(walletAddress).data;
+    const prevouts = [1000, 200].map((amount) =>
+      getVtxoPrevout(walletAddress, amount),
+    );
+    expect(submitted!.version).toBe(2);
+    expect(submitted!.inputs).toHaveLength(2);
+    submitted!.inputs.forEach((input, index) => {
+      const sighash = getTaprootSighash(submitted!, prevouts, index);
+      expect(
+        ecc.verifySchnorr(
+          Buffer.from(sighash, 'hex'),
+          outputKey,
+          Buffer.from(input.signature, 'hex'),
+        ),
+      ).toBe(true);
+    });
+  });
+
+  it('should refuse to send when the fee cannot be covered', async () => {
+    mockAsp({});
+
+    await expect(client.send(990, recipient)).rejects.toThrow(
+      'Insufficient funds: 1000 < 1015 (including 25 sats fee)',
+    );
+    expect(global.fetch).toHaveBeenCalledTimes(1);
+  });
+
+  it('should reject a receipt that promises different outputs', async () => {
+    mockAsp({
+      '/v1/transfer': async (tx: ArkTransaction) => {
+        const receipt = await receiptFor(tx);
+        receipt.outputs[0].address = asAddress(walletAddress);
+        return signed(receipt);
+      },
+    });
+
+    await expect(client.send(400, recipient)).rejects.toThrow(
+      'Transfer receipt does not match the submitted outputs',
+    );
+    expect(client.getBalance(walletAddress)).toBe(1000);
+  });
+
+  it("should sign on the ASP's network", async () => {
+    const submit = jest.fn(transferSignedBy(aspKey));
+    mockAsp({ '/v1/transfer': submit }, 'signet');
+
+    // The wallet's regtest coins are not outputs of a signet ASP
+    await expect(client.send(400, recipient)).rejects.toThrow(
+      'has an invalid prefix',
+    );
+    expect(submit).not.toHaveBeenCalled();
+    expect(client.getBalance(walletAddress)).toBe(1000);
+  });
+
+  it('should refuse to sign for an ASP on mainnet', async () => {
+    const submit = jest.fn(transferSignedBy(aspKey));
+    mockAsp({ '/v1/transfer': submit }, 'bitcoin');
+
+    await expect(client.send(400, recipient)).rejects.toThrow(
+      'SAFETY SHUTDOWN',
+    );
+    expect(submit).not.toHaveBeenCalled();
+  });
+
+  it('should wait for the finalized receipt and store the change output', async () => {
+    let submitted: ArkTransaction | undefined;
+    mockAsp({
+      '/v1/transfer': (tx: ArkTransaction) => {
+        submitted = tx;
+        return transferSignedBy(aspKey)(tx);
+      },
+    });
+    const transferId = await client.send(400, recipient);
+
+    let polls = 0;
+    mockAsp({
+      [`/v1/transfer/${transferId}`]: async () =>
+        signed(
+          await receiptFor(submitted!, ++polls > 1 ? 'finalized' : 'queued'),
+        ),
+    });
+    const receipt = await client.waitForTransfer(transferId, { intervalMs: 0 });
+
+    expect(polls).toBe(2);
+    expect(receipt.status).toBe('finalized');
+    // 1 input, 2 outputs: 10 + 5 + 2 * 5 sats kept by the ASP
+    expect(client.getBalance(walletAddress)).toBe(575);
+  });
+
+  it('should refuse genesis metadata the ASP did not sign', async () => {
+    const metadata = {
+      dna: 'c'.repeat(64),
+      generation: 0,
+      cooldownBlock: 110,
+      lastFedBlock: 0,
+      xp: 0,
+      parents: [],
+    } as unknown as AssetMetadata;
+    const address = 'bcrt1p' + '1'.repeat(58);
+
+    mockAsp({
+      '/v1/assets/genesis': ({ amount }) => ({
+        success: true,
+        address,
+        status: 'queued',
+        // Tampered in transit: the DNA no longer matches the signature
+        metadata: { ...metadata, dna: 'd'.repeat(64) },
+        signature: signAsAsp(getGenesisHash({ address, amount, metadata })),
+      }),
+    });
+
+    await expect(client.mintGen0(1000)).rejects.toThrow(
+      'Invalid ASP signature on genesis response',
+    );
+  });
+});
+
+describe('MockArkClient - coin selection', () => {
+  const fees = { baseFee: 10, perInput: 5, perOutput: 5 };
+  let client: MockArkClient;
+  let walletAddress: string;
+
+  beforeEach(async () => {
+    client = new MockArkClient();
+    walletAddress = await client.createWallet();
+    client.addVtxo(walletAddress, 1000);
+    client.addVtxo(walletAddress, 300);
+  });
+
+  afterEach(() => {
+    window.localStorage.clear();
+  });
+
+  it('should select only the target amount without a fee schedule', () => {
+    const selected = client.selectCoins(walletAddress, 1000);
+
+    expect(selected.map((v) => v.amount)).toEqual([1000]);
+  });
+
+  it('should add inputs until the fee for those inputs is covered', () => {
+    // 1000 < 1000 + 25, and with 2 inputs 1300 >= 1000 + 30
+    const selected = client.selectCoins(walletAddress, 1000, fees);
+
+    expect(selected.map((v) => v.amount)).toEqual([1000, 300]);
+  });
+
+  it('should not reuse a local VTXO txid once a VTXO is removed', () => {
+    const stored = JSON.parse(window.localStorage.getItem('ark_vtxos')!);
+    stored[walletAddress].shift();
+    window.localStorage.setItem('ark_vtxos', JSON.stringify(stored));
+
+    client.addVtxo(walletAddress, 300);
+
+    const txids = client.getVtxos(walletAddress).map((v) => v.txid);
+    expect(new Set(txids).size).toBe(2);
+  });
+});
+
+describe('MockArkClient - swap refunds', () => {
+  const { bitcoin, ECPair, network } = walletTools;
+  const lockOutpoint = { txid: 'e'.repeat(64), vout: 1, amount: 50_000 };
+  const destination = bitcoin.payments.p2tr({
+    internalPubkey: Buffer.alloc(32, 2),
+    network,
+  }).address!;
+
+  let client: MockArkClient;
+
+  beforeEach(async () => {
+    (global.fetch as jest.Mock).mockReset();
+    client = new MockArkClient();
+    await client.createWallet();
+  });
+
+  afterEach(() => {
+    window.localStorage.clear();
+  });
+
+  const lockForWallet = async () =>
+    createSwapLock({
+      makerPubkey: ECPair.makeRandom({ network }).publicKey.subarray(1, 33),
+      userPubkey: await client.getPublicKey(),
+      preimageHash: createHash('sha256').update('secret').digest(),
+      timeoutBlocks: 20,
+    });
+
+  it('should return the on-chain outpoint of an exited VTXO', async () => {
+    (global.fetch as jest.Mock).mockResolvedValue({
+      ok: true,
+      json: async () => ({
+        txid: 'a'.repeat(64),
+        vout: 0,
+        address: destination,
+        amount: lockOutpoint.amount,
+        onchain: { txid: lockOutpoint.txid, vout: lockOutpoint.vout },
+      }),
+    });
+
+    const lock = await lockForWallet();
+
+    await expect(client.exitVtxo('a'.repeat(64), 0, lock)).resolves.toEqual(
+      lockOutpoint,
+    );
+    const request = JSON.parse(
+      (global.fetch as jest.Mock).mock.calls[0][1].body,
+    );
+    expect(request).toMatchObject({
+      txid: 'a'.repeat(64),
+      vout: 0,
+      leafScript: lock.leaves.refund.toString('hex'),
+      controlBlock: lock.controlBlockRefund.toString('hex'),
+    });
+    expect(verifyExitSignature(walletTools.ecc, request, lock.address)).toBe(
+      true,
+    );
+  });
+
+  it('should spend the refund leaf after the CSV timeout', async () => {
+    const lock = await lockForWallet();
+
+    const { txid, hex } = await client.claimRefund(
+      lock,
+      lockOutpoint,
+      destination,
+    );
+    const tx = bitcoin.Transaction.fromHex(hex);
+
+    expect(tx.getId()).toBe(txid);
+    expect(tx.ins[0].sequence).toBe(20);
+    expect(tx.ins[0].witness[1].equals(lock.leaves.refund)).toBe(true);
+    expect(tx.outs[0].value).toBe(lockOutpoint.amount - REFUND_FEE_SATS);
+    expect(bitcoin.address.fromOutputScript(tx.outs[0].script, network)).toBe(
+      destination,
+    );
+  });
+
+  it('should refuse to refund a lock for another user key', async () => {
+    const lock = createSwapLock({
+      makerPubkey: ECPair.makeRandom({ network }).publicKey.subarray(1, 33),
+      userPubkey: ECPair.makeRandom({ network }).publicKey.subarray(1, 33),
+      preimageHash: createHash('sha256').update('secret').digest(),
+      timeoutBlocks: 20,
+    });
+
+    await expect(
+      client.claimRefund(lock, lockOutpoint, destination),
+    ).rejects.toThrow('Private key does not match the leaf public key');
+  });
+
+  it('should claim a reverse swap lock VTXO to the wallet address', async () => {
+    const preimage = Buffer.alloc(32, 7);
+    // Reverse swap: the wallet key is the claim key, the maker refunds
+    const lock = createSwapLock({
+      makerPubkey: await client.getPublicKey(),
+      userPubkey: ECPair.makeRandom({ network }).publicKey.subarray(1, 33),
+      preimageHash: createHash('sha256').update(preimage).digest(),
+      timeoutBlocks: 20,
+    });
+    const lockVtxo = {
+      txid: 'c'.repeat(64),
+      vout: 0,
+      amount: 20_000,
+      address: lock.address,
+    };
+    (global.fetch as jest.Mock).mockImplementation(async (url: string) => ({
+      ok: true,
+      json: async () =>
+        url.endsWith('/v1/info')
+          ? {
+              fees: { baseFee: 10, perInput: 5, perOutput: 5 },
+              network: 'regtest',
+            }
+          : [
+              { ...lockVtxo, txid: 'b'.repeat(64), spent: true },
+              { ...lockVtxo, spent: false },
+            ],
+    }));
+
+    const claimTx = await client.claimSwapLock(lock, preimage);
+
+    expect(claimTx.inputs).toEqual([
+      expect.objectContaining({ txid: lockVtxo.txid, vout: 0 }),
+    ]);
+    expect(claimTx.inputs[0].witness!.stack).toEqual([
+      preimage.toString('hex'),
+    ]);
+    expect(claimTx.outputs).toEqual([
+      { address: await client.getAddress(), amount: 19_980 },
+    ]);
+  });
+
+  it('should refuse a quoted timeout below the user minimum', () => {
+    expect(client.getMinSwapTimeout()).toBe(DEFAULT_MIN_SWAP_TIMEOUT_BLOCKS);
+    client.setMinSwapTimeout(30);
+
+    expect(client.getMinSwapTimeout()).toBe(30);
+    expect(() => client.assertSwapTimeout(30)).not.toThrow();
+    expect(() => client.assertSwapTimeout(20)).toThrow(
+      'Quoted lock timeout of 20 blocks is below your minimum of 30 blocks',
+    );
+    expect(() => client.setMinSwapTimeout(0)).toThrow();
+  });
+});
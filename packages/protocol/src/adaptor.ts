@@ -0,0 +1,191 @@
+import * as ecc from '@bitcoinerlab/secp256k1';
+import {
+  CURVE_ORDER,
+  fromScalar,
+  getChallenge,
+  multiplyBase,
+  taggedHash,
+  toScalar,
+} from './curve';
+
+/**
+ * Schnorr adaptor signatures (BIP-340 compatible)
+ *
+ * An adaptor signature (R.x || s') over a message is "encrypted" under an adaptor
+ * point T = t*G: it verifies against T without revealing a valid signature, and
+ * - whoever knows t completes it into a BIP-340 signature (R.x || s' + t)
+ * - whoever sees both the adaptor and the completed signature extracts t = s - s'
+ *
+ * The nonce is ground so that R = k*G + T has an even Y coordinate, hence
+ * completion never needs a parity fix-up and the result verifies with
+ * plain verifySchnorr.
+ */
+
+const NONCE_TAG = 'ArkSwap/adaptor/nonce';
+
+function assertAdaptorPoint(adaptorPoint: Buffer): void {
+  if (adaptorPoint.length !== 33 || !ecc.isPoint(adaptorPoint)) {
+    throw new Error('Adaptor point must be a 33-byte compressed point');
+  }
+}
+
+/**
+ * The adaptor point T = t*G of a secret (33-byte compressed)
+ * @throws Error if secret is not a valid private key
+ */
+export function getAdaptorPoint(secret: Buffer): Buffer {
+  const point = ecc.isPrivate(secret)
+    ? ecc.pointFromScalar(secret, true)
+    : null;
+  if (!point) {
+    throw new Error('Adaptor secret must be a valid 32-byte scalar');
+  }
+  return Buffer.from(point);
+}
+
+/**
+ * Signs message for the x-only key of privateKey, encrypted under adaptorPoint
+ * Nonces are derived deterministically from the key, message, adaptor point and
+ * optional auxRand, so one key never reuses a nonce across messages or points.
+ * @returns 64-byte adaptor signature (R.x || s')
+ */
+export function createAdaptorSignature(
+  privateKey: Buffer,
+  message: Buffer,
+  adaptorPoint: Buffer,
+  auxRand: Buffer = Buffer.alloc(32),
+): Buffer {
+  if (message.length !== 32) {
+    throw new Error('Message must be 32 bytes');
+  }
+  assertAdaptorPoint(adaptorPoint);
+
+  const publicKey = ecc.isPrivate(privateKey)
+    ? ecc.pointFromScalar(privateKey, true)
+    : null;
+  if (!publicKey) {
+    throw new Error('Invalid private key');
+  }
+  // BIP-340 keys are x-only: sign with the key of the even-Y point
+  const d =
+    publicKey[0] === 0x03
+      ? CURVE_ORDER - toScalar(privateKey)
+      : toScalar(privateKey);
+  const px = Buffer.from(publicKey.subarray(1));
+
+  for (let counter = 0; ; counter++) {
+    const k = toScalar(
+      taggedHash(
+        NONCE_TAG,
+        Buffer.concat([
+          fromScalar(d),
+          px,
+          message,
+          adaptorPoint,
+          auxRand,
+          Buffer.from([counter & 0xff, (counter >> 8) & 0xff]),
+        ]),
+      ),
+    );
+    const kG = multiplyBase(k);
+    const R = kG && ecc.pointAdd(kG, adaptorPoint, true);
+    if (!R || R[0] !== 0x02) {
+      continue;
+    }
+
+    const rx = Buffer.from(R.subarray(1));
+    const e = getChallenge(rx, px, message);
+    return Buffer.concat([rx, fromScalar((k + e * d) % CURVE_ORDER)]);
+  }
+}
+
+/**
+ * Verifies an adaptor signature: s'*G + T == R + e*P
+ * Returns false (never throws) for malformed inputs.
+ * @param publicKey - 32-byte x-only key of the signer
+ */
+export function verifyAdaptorSignature(
+  publicKey: Buffer,
+  message: Buffer,
+  adaptorPoint: Buffer,
+  adaptorSignature: Buffer,
+): boolean {
+  try {
+    if (
+      publicKey.length !== 32 ||
+      message.length !== 32 ||
+      adaptorSignature.length !== 64
+    ) {
+      return false;
+    }
+    assertAdaptorPoint(adaptorPoint);
+
+    const rx = adaptorSignature.subarray(0, 32);
+    const s = BigInt(`0x${adaptorSignature.subarray(32).toString('hex')}`);
+    // R and P are the even-Y points of their x coordinates (BIP-340 lift_x)
+    const R = Buffer.concat([Buffer.from([0x02]), rx]);
+    const P = Buffer.concat([Buffer.from([0x02]), publicKey]);
+    if (!ecc.isPoint(R) || !ecc.isPoint(P) || s >= CURVE_ORDER) {
+      return false;
+    }
+
+    const e = getChallenge(rx, publicKey, message);
+    const sG = multiplyBase(s);
+    const left = sG ? ecc.pointAdd(sG, adaptorPoint, true) : adaptorPoint;
+    const eP = e === 0n ? null : ecc.pointMultiply(P, fromScalar(e), true);
+    const right = eP ? ecc.pointAdd(R, eP, true) : R;
+
+    return (
+      left !== null &&
+      right !== null &&
+      Buffer.from(left).equals(Buffer.from(right))
+    );
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Completes an adaptor signature with the secret of its adaptor point
+ * @returns 64-byte BIP-340 signature (R.x || s' + t)
+ */
+export function completeAdaptorSignature(
+  adaptorSignature: Buffer,
+  secret: Buffer,
+): Buffer {
+  if (adaptorSignature.length !== 64) {
+    throw new Error('Adaptor signature must be 64 bytes');
+  }
+  const s =
+    (toScalar(adaptorSignature.subarray(32)) + toScalar(secret)) % CURVE_ORDER;
+  return Buffer.concat([adaptorSignature.subarray(0, 32), fromScalar(s)]);
+}
+
+/**
+ * Recovers the adaptor secret from an adaptor signature and its completion
+ * @throws Error if the signatures do not share a nonce, or the recovered secret
+ * does not match adaptorPoint (when given)
+ */
+export function extractAdaptorSecret(
+  adaptorSignature: Buffer,
+  signature: Buffer,
+  adaptorPoint?: Buffer,
+): Buffer {
+  if (adaptorSignature.length !== 64 || signature.length !== 64) {
+    throw new Error('Signatures must be 64 bytes');
+  }
+  if (!adaptorSignature.subarray(0, 32).equals(signature.subarray(0, 32))) {
+    throw new Error('Signature was not completed from this adaptor signature');
+  }
+
+  const t =
+    (toScalar(signature.subarray(32)) -
+      toScalar(adaptorSignature.subarray(32)) +
+      CURVE_ORDER) %
+    CURVE_ORDER;
+  const secret = fromScalar(t);
+  if (adaptorPoint && !getAdaptorPoint(secret).equals(adaptorPoint)) {
+    throw new Error('Extracted secret does not match the adaptor point');
+  }
+  return secret;
+}
@@ -0,0 +1,114 @@
+import * as bitcoin from 'bitcoinjs-lib';
+import stringify from 'fast-json-stable-stringify';
+import { z } from 'zod';
+import type { AssetMetadata, ECCLibrary } from './index';
+
+/**
+ * ASP Attestations
+ * The ASP Schnorr-signs (BIP-340) the hash of every statement a client acts on,
+ * using its identity key published as an x-only pubkey in /v1/info.
+ *
+ * Each statement has its own domain prefix so a signature over one kind can never
+ * be replayed as another.
+ */
+
+export const RoundSummarySchema = z.object({
+  roundId: z.string(),
+  roundHeight: z.number().int().nonnegative(),
+  timestamp: z.string(),
+  anchorTxid: z.string().nullable(),
+  merkleRoot: z.string().regex(/^[0-9a-f]{64}$/),
+  vtxoCount: z.number().int().nonnegative(),
+});
+
+/**
+ * - queued: returned by POST /v1/transfer, outputs are the outpoints the round will create
+ * - finalized: returned by GET /v1/transfer/:transferId once the round has closed
+ */
+export const TransferReceiptSchema = z.object({
+  status: z.enum(['queued', 'finalized']),
+  transferId: z.string().regex(/^[0-9a-f]{64}$/),
+  roundId: z.string(),
+  outputs: z.array(
+    z.object({
+      txid: z.string().regex(/^[0-9a-f]{64}$/),
+      vout: z.number().int().nonnegative(),
+      address: z.string(),
+      amount: z.number().nonnegative(),
+    }),
+  ),
+});
+
+export type RoundSummary = z.infer<typeof RoundSummarySchema>;
+export type TransferReceipt = z.infer<typeof TransferReceiptSchema>;
+
+export interface GenesisAttestation {
+  address: string;
+  amount: number;
+  metadata: AssetMetadata;
+}
+
+const sha256Hex = (payload: string) =>
+  bitcoin.crypto.sha256(Buffer.from(payload, 'utf8')).toString('hex');
+
+/**
+ * Format: ark_round:<roundId>:<roundHeight>:<timestamp>:<anchorTxid|"">:<merkleRoot>:<vtxoCount>
+ */
+export function getRoundSummaryHash(summary: RoundSummary): string {
+  return sha256Hex(
+    `ark_round:${summary.roundId}:${summary.roundHeight}:${summary.timestamp}:${summary.anchorTxid ?? ''}:${summary.merkleRoot}:${summary.vtxoCount}`,
+  );
+}
+
+/**
+ * Format: ark_receipt:<status>:<transferId>:<roundId>:<txid:vout:address:amount|...>
+ */
+export function getTransferReceiptHash(receipt: TransferReceipt): string {
+  const outputStr = receipt.outputs
+    .map((o) => `${o.txid}:${o.vout}:${o.address}:${o.amount}`)
+    .join('|');
+  return sha256Hex(
+    `ark_receipt:${receipt.status}:${receipt.transferId}:${receipt.roundId}:${outputStr}`,
+  );
+}
+
+/**
+ * Format: ark_genesis:<stable JSON of { address, amount, metadata }>
+ */
+export function getGenesisHash(genesis: GenesisAttestation): string {
+  return sha256Hex(
+    `ark_genesis:${stringify({
+      address: genesis.address,
+      amount: genesis.amount,
+      metadata: genesis.metadata,
+    })}`,
+  );
+}
+
+/**
+ * Verifies an ASP signature over an attestation hash
+ * Returns false (never throws) for malformed keys or signatures
+ */
+export function verifyAspSignature(
+  ecc: ECCLibrary,
+  aspPubkey: string,
+  hashHex: string,
+  signatureHex: string,
+): boolean {
+  if (
+    !/^[0-9a-fA-F]{64}$/.test(aspPubkey) ||
+    !/^[0-9a-fA-F]{128}$/.test(signatureHex)
+  ) {
+    return false;
+  }
+
+  try {
+    return ecc.verifySchnorr(
+      Buffer.from(hashHex, 'hex'),
+      Buffer.from(aspPubkey, 'hex'),
+      Buffer.from(signatureHex, 'hex'),
+    );
+  } catch {
+    return false;
+  }
+}
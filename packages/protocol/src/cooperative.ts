@@ -0,0 +1,171 @@
+import * as ecc from '@bitcoinerlab/secp256k1';
+import type { ArkTransaction } from './index';
+import { asAddress, asSignatureHex, asTxId } from './index';
+import {
+  aggregateMusigPartialSignatures,
+  createMusigPartialSignature,
+  verifyMusigPartialSignature,
+} from './musig';
+import type { ArkNetwork } from './network';
+import type {
+  CooperativeKeyPath,
+  SwapLockOutpoint,
+  SwapLockResult,
+} from './script';
+import {
+  ARK_TX_VERSION_TAPROOT,
+  getTaprootOutputKey,
+  getTaprootSighash,
+  type UnsignedArkTransaction,
+} from './sighash';
+
+/**
+ * Cooperative close of a swap lock VTXO (see SwapLockParams.cooperative)
+ *
+ * Once the swap is settled, maker and user co-sign the transfer of the lock VTXO
+ * with MuSig2 on the key path: the transfer carries one plain signature and no
+ * witness, so it looks like any other spend and reveals neither leaf.
+ * 1. each side runs createMusigNonce with the lock's key path and the sighash
+ *    (getCooperativeCloseSighash), and both aggregate the public nonces
+ * 2. each side signs (createCooperativePartialSignature) and checks the other's
+ *    (verifyCooperativePartialSignature)
+ * 3. either side completes the transfer (completeCooperativeClose)
+ */
+export interface CooperativeCloseParams {
+  /** The lock VTXO being spent */
+  lockVtxo: SwapLockOutpoint;
+  lock: SwapLockResult;
+  /** Ark address receiving the locked amount (the maker's, on a swap claim) */
+  destination: string;
+  /** Transfer fee in sats, deducted from the locked amount */
+  fee: number;
+  /** Network destination is encoded for (default regtest) */
+  network?: ArkNetwork;
+}
+
+function getKeyPath(lock: SwapLockResult): CooperativeKeyPath {
+  if (!lock.keyPath) {
+    throw new Error('Lock has no cooperative key path');
+  }
+  return lock.keyPath;
+}
+
+/**
+ * The unsigned cooperative transfer: the lock VTXO in, amount minus fee to destination
+ */
+export function buildCooperativeCloseTx(
+  params: CooperativeCloseParams,
+): UnsignedArkTransaction & Pick<ArkTransaction, 'version'> {
+  const { lockVtxo, destination, fee } = params;
+
+  const value = lockVtxo.amount - fee;
+  if (!Number.isInteger(fee) || fee < 0 || value <= 0) {
+    throw new Error(
+      `Invalid fee ${fee} for a locked amount of ${lockVtxo.amount}`,
+    );
+  }
+
+  return {
+    version: ARK_TX_VERSION_TAPROOT,
+    inputs: [{ txid: asTxId(lockVtxo.txid), vout: lockVtxo.vout }],
+    outputs: [{ address: asAddress(destination), amount: value }],
+  };
+}
+
+/**
+ * BIP-341 key-path sighash of the cooperative transfer (the MuSig2 message)
+ */
+export function getCooperativeCloseSighash(
+  params: CooperativeCloseParams,
+): Buffer {
+  const { lockVtxo, lock, network } = params;
+  return Buffer.from(
+    getTaprootSighash(
+      buildCooperativeCloseTx(params),
+      [{ script: lock.output, amount: lockVtxo.amount }],
+      0,
+      undefined,
+      network,
+    ),
+    'hex',
+  );
+}
+
+/**
+ * One side's partial signature of the cooperative transfer
+ * @throws Error if the lock is not cooperative, privateKey is not one of its keys
+ * or the secret nonce was already used
+ */
+export function createCooperativePartialSignature(
+  params: CooperativeCloseParams & {
+    privateKey: Buffer;
+    secretNonce: Buffer;
+    aggregateNonce: Buffer;
+  },
+): Buffer {
+  return createMusigPartialSignature({
+    ...getKeyPath(params.lock),
+    aggregateNonce: params.aggregateNonce,
+    message: getCooperativeCloseSighash(params),
+    privateKey: params.privateKey,
+    secretNonce: params.secretNonce,
+  });
+}
+
+/**
+ * Checks the other side's partial signature of the cooperative transfer
+ * Returns false (never throws) for malformed inputs or non-cooperative locks.
+ */
+export function verifyCooperativePartialSignature(
+  params: CooperativeCloseParams & {
+    publicKey: Buffer;
+    publicNonce: Buffer;
+    aggregateNonce: Buffer;
+    partialSignature: Buffer;
+  },
+): boolean {
+  try {
+    return verifyMusigPartialSignature({
+      ...getKeyPath(params.lock),
+      aggregateNonce: params.aggregateNonce,
+      message: getCooperativeCloseSighash(params),
+      publicKey: params.publicKey,
+      publicNonce: params.publicNonce,
+      partialSignature: params.partialSignature,
+    });
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Aggregates both partial signatures into the signed cooperative transfer
+ * @throws Error if the aggregate signature does not verify for the lock's output key
+ */
+export function completeCooperativeClose(
+  params: CooperativeCloseParams & {
+    aggregateNonce: Buffer;
+    partialSignatures: Buffer[];
+  },
+): ArkTransaction {
+  const message = getCooperativeCloseSighash(params);
+  const signature = aggregateMusigPartialSignatures({
+    ...getKeyPath(params.lock),
+    aggregateNonce: params.aggregateNonce,
+    message,
+    partialSignatures: params.partialSignatures,
+  });
+
+  const outputKey = getTaprootOutputKey(params.lock.output);
+  if (!outputKey || !ecc.verifySchnorr(message, outputKey, signature)) {
+    throw new Error('Aggregate signature does not verify for the lock');
+  }
+
+  const tx = buildCooperativeCloseTx(params);
+  return {
+    ...tx,
+    inputs: [
+      { ...tx.inputs[0], signature: asSignatureHex(signature.toString('hex')) },
+    ],
+  };
+}
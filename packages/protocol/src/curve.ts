@@ -0,0 +1,66 @@
+import * as bitcoin from 'bitcoinjs-lib';
+import * as ecc from '@bitcoinerlab/secp256k1';
+
+/**
+ * secp256k1 scalar and point helpers shared by adaptor.ts and musig.ts
+ * The ECC library has no scalar multiplication, so scalars are bigints mod n.
+ */
+
+// secp256k1 group order
+export const CURVE_ORDER = BigInt(
+  '0xfffffffffffffffffffffffffffffffebaaedce6af48a03bbfd25e8cd0364141',
+);
+
+export const toScalar = (bytes: Uint8Array): bigint =>
+  BigInt(`0x${Buffer.from(bytes).toString('hex') || '0'}`) % CURVE_ORDER;
+
+export const fromScalar = (scalar: bigint): Buffer =>
+  Buffer.from(scalar.toString(16).padStart(64, '0'), 'hex');
+
+/**
+ * BIP-340 tagged hash for any tag: sha256(sha256(tag) || sha256(tag) || data)
+ * (bitcoinjs-lib's taggedHash only accepts the tags it knows)
+ */
+export function taggedHash(tag: string, data: Buffer): Buffer {
+  const tagHash = bitcoin.crypto.sha256(Buffer.from(tag));
+  return bitcoin.crypto.sha256(Buffer.concat([tagHash, tagHash, data]));
+}
+
+// BIP-340 challenge e = H_tag(R.x || P.x || m) mod n
+export const getChallenge = (rx: Buffer, px: Buffer, message: Buffer): bigint =>
+  toScalar(
+    bitcoin.crypto.taggedHash(
+      'BIP0340/challenge',
+      Buffer.concat([rx, px, message]),
+    ),
+  );
+
+// k*G, or null for k = 0 (the point at infinity)
+export const multiplyBase = (scalar: bigint): Uint8Array | null =>
+  scalar === 0n ? null : ecc.pointFromScalar(fromScalar(scalar), true);
+
+// k*P, or null for k = 0 (the point at infinity)
+export const multiplyPoint = (
+  point: Uint8Array,
+  scalar: bigint,
+): Uint8Array | null =>
+  scalar === 0n ? null : ecc.pointMultiply(point, fromScalar(scalar), true);
+
+// P + Q where either may be the point at infinity (null)
+export const addPoints = (
+  a: Uint8Array | null,
+  b: Uint8Array | null,
+): Uint8Array | null => (a && b ? ecc.pointAdd(a, b, true) : (a ?? b));
+
+// -P of a compressed point (flips the Y parity byte)
+export const negatePoint = (point: Uint8Array): Buffer => {
+  const negated = Buffer.from(point);
+  negated[0] ^= 0x01;
+  return negated;
+};
+
+export const hasEvenY = (point: Uint8Array): boolean => point[0] === 0x02;
+
+// BIP-340 lift_x: the even-Y point of an x-only key
+export const liftX = (xOnly: Buffer): Buffer =>
+  Buffer.concat([Buffer.from([0x02]), xOnly]);
@@ -0,0 +1,160 @@
+import * as bitcoin from 'bitcoinjs-lib';
+import * as ecc from '@bitcoinerlab/secp256k1';
+import type { ECCLibrary } from './index';
+import { DEFAULT_NETWORK, getBitcoinNetwork, type ArkNetwork } from './network';
+import { getTaprootOutputKey } from './sighash';
+import { verifyTaprootCommitment } from './taproot';
+
+bitcoin.initEccLib(ecc);
+
+/**
+ * A signed request to move a VTXO on-chain (unilateral exit)
+ * - key path: signature by the output key of the VTXO's address (the wallet's
+ *   tweaked key), no leaf
+ * - script path: leafScript and controlBlock of a leaf the output key commits
+ *   to, and a signature by a key that leaf checks (e.g. a swap lock's refund key);
+ *   a hashlocked leaf (e.g. a swap lock's claim leaf) also needs the preimage, so
+ *   an exit through it reveals the preimage as a claim would
+ */
+export interface ExitRequest {
+  txid: string;
+  vout: number;
+  signature: string;
+  leafScript?: string;
+  controlBlock?: string;
+  preimage?: string;
+}
+
+/**
+ * Format: ark_exit:<txid>:<vout>
+ */
+export function getExitRequestHash(txid: string, vout: number): string {
+  return bitcoin.crypto
+    .sha256(Buffer.from(`ark_exit:${txid}:${vout}`, 'utf8'))
+    .toString('hex');
+}
+
+/**
+ * Keys a leaf script checks signatures against: 32-byte pushes directly
+ * followed by OP_CHECKSIG or OP_CHECKSIGVERIFY
+ */
+function getLeafSignerKeys(leafScript: Buffer): Buffer[] {
+  const chunks = bitcoin.script.decompile(leafScript) ?? [];
+  return chunks.flatMap((chunk, index) => {
+    const next = chunks[index + 1];
+    return Buffer.isBuffer(chunk) &&
+      chunk.length === 32 &&
+      (next === bitcoin.opcodes.OP_CHECKSIG ||
+        next === bitcoin.opcodes.OP_CHECKSIGVERIFY)
+      ? [chunk]
+      : [];
+  });
+}
+
+/**
+ * Hash a leaf script locks with OP_SHA256 <hash> OP_EQUALVERIFY, if any
+ */
+function getLeafHashlock(leafScript: Buffer): Buffer | null {
+  const chunks = bitcoin.script.decompile(leafScript) ?? [];
+  const index = chunks.indexOf(bitcoin.opcodes.OP_SHA256);
+  const hash = chunks[index + 1];
+  return index >= 0 &&
+    Buffer.isBuffer(hash) &&
+    hash.length === 32 &&
+    chunks[index + 2] === bitcoin.opcodes.OP_EQUALVERIFY
+    ? hash
+    : null;
+}
+
+/**
+ * Relative timelock of the leaf an exit request is signed through: the value its
+ * OP_CHECKSEQUENCEVERIFY checks (e.g. a swap lock's refund timeout), in the
+ * units the VTXO's age is counted in (rounds on the ASP)
+ * Returns 0 for key-path requests and leaves without a relative timelock.
+ */
+export function getExitTimelock(request: ExitRequest): number {
+  if (!request.leafScript) {
+    return 0;
+  }
+  const chunks =
+    bitcoin.script.decompile(Buffer.from(request.leafScript, 'hex')) ?? [];
+  const index = chunks.indexOf(bitcoin.opcodes.OP_CHECKSEQUENCEVERIFY);
+  if (index < 1) {
+    return 0;
+  }
+  const timeout = chunks[index - 1];
+  if (typeof timeout === 'number') {
+    // OP_1..OP_16 (OP_0 pushes zero)
+    return timeout >= bitcoin.opcodes.OP_1 && timeout <= bitcoin.opcodes.OP_16
+      ? timeout - bitcoin.opcodes.OP_1 + 1
+      : 0;
+  }
+  return bitcoin.script.number.decode(timeout, 5);
+}
+
+/**
+ * Verifies that an exit request is signed by someone who can spend the VTXO at
+ * address: its owner (key path) or a signer of one of its leaves (script path),
+ * with the preimage of a hashlocked leaf
+ * The relative timelock of the leaf is not checked here: it depends on the
+ * VTXO's age, which only the ASP knows (see getExitTimelock).
+ * Returns false (never throws) for malformed requests or non-Taproot addresses.
+ */
+export function verifyExitSignature(
+  eccLib: ECCLibrary,
+  request: ExitRequest,
+  address: string,
+  network: ArkNetwork = DEFAULT_NETWORK,
+): boolean {
+  if (!/^[0-9a-fA-F]{128}$/.test(request.signature)) {
+    return false;
+  }
+
+  try {
+    const outputKey = getTaprootOutputKey(
+      bitcoin.address.toOutputScript(address, getBitcoinNetwork(network)),
+    );
+    if (!outputKey) {
+      return false;
+    }
+    const hash = Buffer.from(
+      getExitRequestHash(request.txid, request.vout),
+      'hex',
+    );
+    const signature = Buffer.from(request.signature, 'hex');
+
+    if (
+      request.leafScript === undefined &&
+      request.controlBlock === undefined
+    ) {
+      return eccLib.verifySchnorr(hash, outputKey, signature);
+    }
+    if (!request.leafScript || !request.controlBlock) {
+      return false;
+    }
+    const leafScript = Buffer.from(request.leafScript, 'hex');
+    if (
+      !verifyTaprootCommitment(
+        outputKey,
+        leafScript,
+        Buffer.from(request.controlBlock, 'hex'),
+      )
+    ) {
+      return false;
+    }
+    const hashlock = getLeafHashlock(leafScript);
+    if (
+      hashlock &&
+      !bitcoin.crypto
+        .sha256(Buffer.from(request.preimage ?? '', 'hex'))
+        .equals(hashlock)
+    ) {
+      return false;
+    }
+    return getLeafSignerKeys(leafScript).some((key) =>
+      eccLib.verifySchnorr(hash, key, signature),
+    );
+  } catch {
+    return false;
+  }
+}
@@ -0,0 +1,37 @@
+import { z } from 'zod';
+
+/**
+ * Off-chain Transfer Fees
+ * The ASP keeps the implicit fee of every transfer (sum(inputs) - sum(outputs)),
+ * which must cover its published fee schedule:
+ *
+ *   requiredFee = baseFee + perInput * inputCount + perOutput * outputCount
+ */
+export const FeeScheduleSchema = z.object({
+  baseFee: z.number().int().nonnegative(),
+  perInput: z.number().int().nonnegative(),
+  perOutput: z.number().int().nonnegative(),
+});
+
+export type FeeSchedule = z.infer<typeof FeeScheduleSchema>;
+
+export const ZERO_FEE_SCHEDULE: FeeSchedule = {
+  baseFee: 0,
+  perInput: 0,
+  perOutput: 0,
+};
+
+/**
+ * Minimum fee for a transfer with the given number of inputs and outputs
+ */
+export function getRequiredFee(
+  schedule: FeeSchedule,
+  inputCount: number,
+  outputCount: number,
+): number {
+  return (
+    schedule.baseFee +
+    schedule.perInput * inputCount +
+    schedule.perOutput * outputCount
+  );
+}
@@ -0,0 +1,253 @@
+import * as bitcoin from 'bitcoinjs-lib';
+import * as ecc from '@bitcoinerlab/secp256k1';
+import type { ArkTransaction } from './index';
+import { asAddress, asSignatureHex, asTxId } from './index';
+import type { ArkNetwork } from './network';
+import type { SwapLockOutpoint, SwapLockResult } from './script';
+import {
+  ARK_TX_VERSION_TAPROOT,
+  getTaprootSighash,
+  type UnsignedArkTransaction,
+} from './sighash';
+import { getTapleafHash } from './taproot';
+
+/**
+ * Off-chain claim of an HTLC swap lock VTXO (see createSwapLock)
+ *
+ * The maker transfers the lock VTXO to itself through the claim leaf,
+ * OP_SHA256 <hash> OP_EQUALVERIFY <maker> OP_CHECKSIG: the ASP runs the leaf on
+ * [signature, preimage], so the input signature is the maker's and the witness
+ * stack reveals the preimage.
+ */
+export interface HtlcClaimParams {
+  /** The lock VTXO being claimed */
+  lockVtxo: SwapLockOutpoint;
+  lock: SwapLockResult;
+  /** Maker's Ark address receiving the claimed amount */
+  destination: string;
+  /** Transfer fee in sats, deducted from the locked amount */
+  fee: number;
+  /** Network destination is encoded for (default regtest) */
+  network?: ArkNetwork;
+}
+
+/**
+ * The claim leaf's preimage hash and maker key
+ */
+function getClaimLeaf(lock: SwapLockResult): {
+  preimageHash: Buffer;
+  makerPubkey: Buffer;
+} {
+  const chunks = bitcoin.script.decompile(lock.leaves.claim) ?? [];
+  const [sha256, preimageHash, equalverify, makerPubkey] = chunks;
+  if (
+    chunks.length !== 5 ||
+    sha256 !== bitcoin.opcodes.OP_SHA256 ||
+    equalverify !== bitcoin.opcodes.OP_EQUALVERIFY ||
+    !Buffer.isBuffer(preimageHash) ||
+    !Buffer.isBuffer(makerPubkey)
+  ) {
+    throw new Error('Lock is not an HTLC lock');
+  }
+  return { preimageHash, makerPubkey };
+}
+
+/**
+ * Off-chain refund of an HTLC swap lock VTXO through its refund leaf: the
+ * same transfer as the claim, with destination the refund signer's address
+ * The ASP accepts it once the VTXO's age in rounds reaches the leaf's timeout.
+ */
+export type HtlcRefundParams = HtlcClaimParams;
+
+/**
+ * The refund leaf's key
+ */
+function getRefundLeafKey(lock: SwapLockResult): Buffer {
+  const chunks = bitcoin.script.decompile(lock.leaves.refund) ?? [];
+  const refundPubkey = chunks[chunks.length - 2];
+  if (
+    chunks[chunks.length - 1] !== bitcoin.opcodes.OP_CHECKSIG ||
+    !Buffer.isBuffer(refundPubkey) ||
+    refundPubkey.length !== 32
+  ) {
+    throw new Error('Lock has no refund key');
+  }
+  return refundPubkey;
+}
+
+/**
+ * The lock VTXO in through a leaf with an empty stack, amount minus fee to destination
+ */
+function buildHtlcSpendTx(
+  params: HtlcClaimParams,
+  leafScript: Buffer,
+  controlBlock: Buffer,
+): UnsignedArkTransaction & Pick<ArkTransaction, 'version'> {
+  const { lockVtxo, destination, fee } = params;
+
+  const value = lockVtxo.amount - fee;
+  if (!Number.isInteger(fee) || fee < 0 || value <= 0) {
+    throw new Error(
+      `Invalid fee ${fee} for a locked amount of ${lockVtxo.amount}`,
+    );
+  }
+
+  return {
+    version: ARK_TX_VERSION_TAPROOT,
+    inputs: [
+      {
+        txid: asTxId(lockVtxo.txid),
+        vout: lockVtxo.vout,
+        witness: {
+          leafScript: leafScript.toString('hex'),
+          controlBlock: controlBlock.toString('hex'),
+          stack: [],
+        },
+      },
+    ],
+    outputs: [
+      {
+        address: asAddress(destination),
+        amount: value,
+      },
+    ],
+  };
+}
+
+/**
+ * The unsigned claim transfer: the lock VTXO in, amount minus fee to destination
+ * The witness stack stays empty until signHtlcClaim adds the preimage.
+ */
+export function buildHtlcClaimTx(
+  params: HtlcClaimParams,
+): UnsignedArkTransaction & Pick<ArkTransaction, 'version'> {
+  return buildHtlcSpendTx(
+    params,
+    params.lock.leaves.claim,
+    params.lock.controlBlock,
+  );
+}
+
+/**
+ * The unsigned refund transfer, through the refund leaf (its stack stays empty)
+ */
+export function buildHtlcRefundTx(
+  params: HtlcRefundParams,
+): UnsignedArkTransaction & Pick<ArkTransaction, 'version'> {
+  return buildHtlcSpendTx(
+    params,
+    params.lock.leaves.refund,
+    params.lock.controlBlockRefund,
+  );
+}
+
+/**
+ * BIP-342 sighash of the claim transfer's only input, signed by the maker
+ */
+export function getHtlcClaimSighash(params: HtlcClaimParams): Buffer {
+  const { lockVtxo, lock, network } = params;
+  return Buffer.from(
+    getTaprootSighash(
+      buildHtlcClaimTx(params),
+      [{ script: lock.output, amount: lockVtxo.amount }],
+      0,
+      getTapleafHash(lock.leaves.claim),
+      network,
+    ),
+    'hex',
+  );
+}
+
+/**
+ * Maker: signs the claim transfer and reveals the preimage in its witness,
+ * producing the transfer to submit to the ASP
+ * @throws Error if the lock is not an HTLC lock, privateKey is not its maker key
+ * or the preimage does not match the claim leaf
+ */
+export function signHtlcClaim(
+  params: HtlcClaimParams & { privateKey: Buffer; preimage: Buffer },
+): ArkTransaction {
+  const { preimageHash, makerPubkey } = getClaimLeaf(params.lock);
+
+  const publicKey = ecc.isPrivate(params.privateKey)
+    ? ecc.pointFromScalar(params.privateKey, true)
+    : null;
+  if (!publicKey || !Buffer.from(publicKey.subarray(1)).equals(makerPubkey)) {
+    throw new Error('Private key does not match the maker public key');
+  }
+  if (!bitcoin.crypto.sha256(params.preimage).equals(preimageHash)) {
+    throw new Error('Preimage does not match the claim leaf');
+  }
+
+  const signature = Buffer.from(
+    ecc.signSchnorr(getHtlcClaimSighash(params), params.privateKey),
+  );
+
+  const tx = buildHtlcClaimTx(params);
+  const [input] = tx.inputs;
+  return {
+    ...tx,
+    inputs: [
+      {
+        ...input,
+        signature: asSignatureHex(signature.toString('hex')),
+        witness: {
+          ...input.witness!,
+          stack: [params.preimage.toString('hex')],
+        },
+      },
+    ],
+  };
+}
+
+/**
+ * BIP-342 sighash of the refund transfer's only input, signed by the refund key
+ */
+export function getHtlcRefundSighash(params: HtlcRefundParams): Buffer {
+  const { lockVtxo, lock, network } = params;
+  return Buffer.from(
+    getTaprootSighash(
+      buildHtlcRefundTx(params),
+      [{ script: lock.output, amount: lockVtxo.amount }],
+      0,
+      getTapleafHash(lock.leaves.refund),
+      network,
+    ),
+    'hex',
+  );
+}
+
+/**
+ * Refund signer (the user of a swap lock, the maker of a reverse swap's VTXO
+ * lock): signs the refund transfer to submit to the ASP
+ * @throws Error if privateKey is not the lock's refund key
+ */
+export function signHtlcRefund(
+  params: HtlcRefundParams & { privateKey: Buffer },
+): ArkTransaction {
+  const refundPubkey = getRefundLeafKey(params.lock);
+
+  const publicKey = ecc.isPrivate(params.privateKey)
+    ? ecc.pointFromScalar(params.privateKey, true)
+    : null;
+  if (!publicKey || !Buffer.from(publicKey.subarray(1)).equals(refundPubkey)) {
+    throw new Error('Private key does not match the refund public key');
+  }
+
+  const signature = Buffer.from(
+    ecc.signSchnorr(getHtlcRefundSighash(params), params.privateKey),
+  );
+
+  const tx = buildHtlcRefundTx(params);
+  const [input] = tx.inputs;
+  return {
+    ...tx,
+    inputs: [
+      {
+        ...input,
+        signature: asSignatureHex(signature.toString('hex')),
+        witness: input.witness!,
+      },
+    ],
+  };
+}
@@ -1,4 +1,11 @@
 import { z } from 'zod';
+import { isSupportedSighashType } from './sighash';
+import {
+  DEFAULT_NETWORK,
+  getAddressPrefix,
+  isArkNetwork,
+  type ArkNetwork,
+} from './network';
 
 /**
  * Branded Types for Type Safety
@@ -12,7 +19,7 @@ export type Brand<K, T> = K & { [__brand]: T };
  * Domain Primitives with Branded Types
  */
 export type TxId = Brand<string, 'TxId'>;
-export type Address = Brand<string, 'Address'>; // e.g. bcrt1p...
+export type Address = Brand<string, 'Address'>; // e.g. bcrt1p... (tb1p... on signet/testnet)
 export type PubkeyHex = Brand<string, 'PubkeyHex'>; // 32-byte hex
 export type SignatureHex = Brand<string, 'SignatureHex'>; // 64-byte hex
 export type PreimageHex = Brand<string, 'PreimageHex'>;
@@ -87,32 +94,124 @@ export interface ECCLibrary {
 
 /**
  * Zod Schemas for Runtime Validation
+ * Address-bearing schemas are built per network (create*Schema); the exported
+ * constants validate regtest addresses.
  */
-export const VtxoSchema = z.object({
-  txid: z
-    .string()
-    .length(64)
-    .transform((s) => s as TxId),
-  vout: z.number().int().nonnegative(),
-  amount: z.number().nonnegative(),
-  address: z
+const addressSchema = (network: ArkNetwork) =>
+  z
     .string()
-    .startsWith('bcrt1')
-    .transform((s) => s as Address),
-  spent: z.boolean(),
+    .startsWith(getAddressPrefix(network))
+    .transform((s) => s as Address);
+
+export function createVtxoSchema(network: ArkNetwork = DEFAULT_NETWORK) {
+  return z.object({
+    txid: z
+      .string()
+      .length(64)
+      .transform((s) => s as TxId),
+    vout: z.number().int().nonnegative(),
+    amount: z.number().nonnegative(),
+    address: addressSchema(network),
+    spent: z.boolean(),
+  });
+}
+
+export const VtxoSchema = createVtxoSchema();
+
+/**
+ * What the maker charges on a swap, in sats: percent of the amount (serviceFee)
+ * plus a flat estimate of the miner fee of its L1 leg (minerFee)
+ */
+export const SwapFeeSchema = z.object({
+  percent: z.number().nonnegative(),
+  serviceFee: z.number().int().nonnegative(),
+  minerFee: z.number().int().nonnegative(),
+  total: z.number().int().nonnegative(),
 });
 
-export const SwapQuoteSchema = z.object({
-  id: z.string(),
-  amount: z.number().nonnegative(),
-  preimageHash: z
-    .string()
-    .length(64)
-    .transform((s) => s as PreimageHex),
-  makerPubkey: z
-    .string()
-    .length(64)
-    .transform((s) => s as PubkeyHex),
+// The user checks the breakdown adds up before locking funds
+const hasConsistentFee = (quote: {
+  amount: number;
+  payoutAmount: number;
+  fee: z.infer<typeof SwapFeeSchema>;
+}) =>
+  quote.fee.total === quote.fee.serviceFee + quote.fee.minerFee &&
+  quote.payoutAmount === quote.amount - quote.fee.total;
+
+const INCONSISTENT_FEE = 'Fee breakdown does not add up to the payout';
+
+/**
+ * A swap quote: the user locks amount, the maker pays out payoutAmount
+ * (amount minus fee.total) if the lock is committed before expiresAtHeight.
+ * timeoutBlocks is the lock's CSV timeout, chosen by the maker's policy: the
+ * user builds the lock with it and can refund after that many confirmations.
+ */
+export const SwapQuoteSchema = z
+  .object({
+    id: z.string(),
+    amount: z.number().nonnegative(),
+    preimageHash: z
+      .string()
+      .length(64)
+      .transform((s) => s as PreimageHex),
+    makerPubkey: z
+      .string()
+      .length(64)
+      .transform((s) => s as PubkeyHex),
+    // Lock to the MuSig2 aggregate of maker and user keys (see SwapLockParams.cooperative)
+    cooperative: z.boolean().optional(),
+    fee: SwapFeeSchema,
+    payoutAmount: z.number().int().positive(),
+    expiresAtHeight: z.number().int().nonnegative(),
+    timeoutBlocks: z.number().int().positive(),
+  })
+  .refine(hasConsistentFee, INCONSISTENT_FEE);
+
+/**
+ * A reverse swap quote (L1 in, VTXO out), for the user's own preimage hash
+ * - lockAddress / timeoutBlocks: the L1 lock the user funds, the maker claims it
+ * - vtxoLockAddress / vtxoTimeoutBlocks: the VTXO lock the maker funds, roles
+ *   swapped (the user claims it with the preimage)
+ * - claimFee: ASP fee of the user's claim of the VTXO lock
+ * - payoutAmount: what the maker lifts into the VTXO lock (amount minus fee.total)
+ */
+export const ReverseSwapQuoteSchema = z
+  .object({
+    id: z.string(),
+    type: z.literal('reverse'),
+    amount: z.number().int().positive(),
+    preimageHash: z
+      .string()
+      .length(64)
+      .transform((s) => s as PreimageHex),
+    makerPubkey: z
+      .string()
+      .length(64)
+      .transform((s) => s as PubkeyHex),
+    lockAddress: z.string().transform((s) => s as Address),
+    timeoutBlocks: z.number().int().positive(),
+    vtxoLockAddress: z.string().transform((s) => s as Address),
+    vtxoTimeoutBlocks: z.number().int().positive(),
+    claimFee: z.number().int().nonnegative(),
+    fee: SwapFeeSchema,
+    payoutAmount: z.number().int().positive(),
+    expiresAtHeight: z.number().int().nonnegative(),
+  })
+  .refine(hasConsistentFee, INCONSISTENT_FEE);
+
+const HexSchema = z.string().regex(/^([0-9a-fA-F]{2})*$/, 'Invalid hex');
+
+/**
+ * Script-path witness of an input spending a Tapscript leaf (e.g. a swap lock's
+ * claim or refund leaf)
+ * - leafScript / controlBlock: the leaf and its proof of commitment to the prevout
+ * - stack: the script's arguments after the input signature, bottom to top
+ *   (e.g. [preimage] for the claim leaf, [] for the refund leaf)
+ */
+export const TapscriptWitnessSchema = z.object({
+  leafScript: HexSchema,
+  controlBlock: HexSchema,
+  stack: z.array(HexSchema),
 });
 
 export const ArkInputSchema = z.object({
@@ -125,35 +224,58 @@ export const ArkInputSchema = z.object({
     .string()
     .length(128)
     .transform((s) => s as SignatureHex),
+  // BIP-341 sighash type the signature commits to (version 2 only, default SIGHASH_DEFAULT)
+  sighashType: z
+    .number()
+    .int()
+    .refine(isSupportedSighashType, 'Unsupported sighash type')
+    .optional(),
+  // Present for script-path spends; the signature then signs the leaf's sighash
+  witness: TapscriptWitnessSchema.optional(),
 });
 
-export const ArkOutputSchema = z.object({
-  address: z
-    .string()
-    .startsWith('bcrt1')
-    .transform((s) => s as Address),
-  amount: z.number().nonnegative(),
-});
+export function createArkOutputSchema(network: ArkNetwork = DEFAULT_NETWORK) {
+  return z.object({
+    address: addressSchema(network),
+    amount: z.number().nonnegative(),
+  });
+}
 
-export const ArkTransactionSchema = z.object({
-  inputs: z.array(ArkInputSchema),
-  outputs: z.array(ArkOutputSchema),
-});
+export const ArkOutputSchema = createArkOutputSchema();
+
+export function createArkTransactionSchema(
+  network: ArkNetwork = DEFAULT_NETWORK,
+) {
+  return z.object({
+    // Signature scheme, see ARK_TX_VERSION_* in sighash.ts (absent = legacy)
+    version: z.union([z.literal(1), z.literal(2)]).optional(),
+    inputs: z.array(ArkInputSchema),
+    outputs: z.array(createArkOutputSchema(network)),
+  });
+}
+
+export const ArkTransactionSchema = createArkTransactionSchema();
 
 /**
  * Types inferred from Zod Schemas (Single Source of Truth)
  */
+export type SwapFee = z.infer<typeof SwapFeeSchema>;
 export type SwapQuote = z.infer<typeof SwapQuoteSchema>;
+export type ReverseSwapQuote = z.infer<typeof ReverseSwapQuoteSchema>;
 export type Vtxo = z.infer<typeof VtxoSchema>;
+export type TapscriptWitness = z.infer<typeof TapscriptWitnessSchema>;
 export type ArkInput = z.infer<typeof ArkInputSchema>;
 export type ArkOutput = z.infer<typeof ArkOutputSchema>;
 export type ArkTransaction = z.infer<typeof ArkTransactionSchema>;
 
 /**
- * Computes the transaction hash for signing/verification
+ * Computes the transaction hash (the transferId)
  * Uses a deterministic string format (not JSON) to guarantee identical hashes
  * on both client and server regardless of JSON serialization differences
  *
+ * Legacy (version 1) transactions also sign this hash; version 2 transactions
+ * sign BIP-341 sighashes instead (see getTaprootSighash).
+ *
  * Format: ark_tx:inputs:txid:vout|txid:vout|...:outputs:address:amount|address:amount|...
  *
  * Works in both Node.js and browser environments
@@ -201,23 +323,154 @@ export async function getTxHash(
 
 // SAFETY HARNESS: Prevent usage on Mainnet
 // This proves the software is for educational purposes only.
-export function assertSafeNetwork(networkName: string) {
-  if (networkName !== 'regtest' && networkName !== 'testnet') {
+// Only test networks pass: regtest, signet (shared team environments) and testnet.
+export function assertSafeNetwork(
+  networkName: string,
+): asserts networkName is ArkNetwork {
+  if (!isArkNetwork(networkName)) {
     throw new Error(
-      '🚨 SAFETY SHUTDOWN: ArkSwap is a Proof of Concept designed for Regtest only. ' +
+      '🚨 SAFETY SHUTDOWN: ArkSwap is a Proof of Concept designed for test networks only (regtest, signet, testnet). ' +
         'Usage on Mainnet is strictly prohibited and unsafe.',
     );
   }
 }
 
+export {
+  ARK_NETWORKS,
+  DEFAULT_NETWORK,
+  isArkNetwork,
+  getBitcoinNetwork,
+  getAddressPrefix,
+} from './network';
+export type { ArkNetwork } from './network';
+
 export {
   createSwapLock,
+  createPtlcLock,
+  getClaimWitness,
   getRefundWitness,
+  getRefundTimeout,
+  buildClaimTx,
+  buildRefundTx,
   createAssetLock,
   getAssetHash,
   createAssetPayToPublicKey,
 } from './script';
-export type { SwapLockParams, SwapLockResult } from './script';
+export type {
+  SwapLockParams,
+  PtlcLockParams,
+  CooperativeKeyPath,
+  SwapLockResult,
+  SwapLockOutpoint,
+  SwapSpendParams,
+  SwapSpendResult,
+} from './script';
+export {
+  getAdaptorPoint,
+  createAdaptorSignature,
+  verifyAdaptorSignature,
+  completeAdaptorSignature,
+  extractAdaptorSecret,
+} from './adaptor';
+export {
+  buildPtlcClaimTx,
+  getPtlcClaimSighash,
+  createPtlcAdaptorSignature,
+  verifyPtlcAdaptorSignature,
+  completePtlcClaim,
+  extractPtlcSecret,
+} from './ptlc';
+export type { PtlcClaimParams } from './ptlc';
+export {
+  buildHtlcClaimTx,
+  buildHtlcRefundTx,
+  getHtlcClaimSighash,
+  getHtlcRefundSighash,
+  signHtlcClaim,
+  signHtlcRefund,
+} from './htlc';
+export type { HtlcClaimParams, HtlcRefundParams } from './htlc';
+export {
+  aggregateMusigPubkeys,
+  createMusigNonce,
+  aggregateMusigNonces,
+  createMusigPartialSignature,
+  verifyMusigPartialSignature,
+  aggregateMusigPartialSignatures,
+} from './musig';
+export type { MusigNonce, MusigSessionParams } from './musig';
+export {
+  buildCooperativeCloseTx,
+  getCooperativeCloseSighash,
+  createCooperativePartialSignature,
+  verifyCooperativePartialSignature,
+  completeCooperativeClose,
+} from './cooperative';
+export type { CooperativeCloseParams } from './cooperative';
+export { deriveVtxoTxid, getLiftHash } from './vtxo';
+export {
+  getExitRequestHash,
+  getExitTimelock,
+  verifyExitSignature,
+} from './exit';
+export type { ExitRequest } from './exit';
+export {
+  ARK_TX_VERSION_LEGACY,
+  ARK_TX_VERSION_TAPROOT,
+  SIGHASH_DEFAULT,
+  SIGHASH_ALL,
+  SIGHASH_SINGLE,
+  SIGHASH_ANYONECANPAY,
+  ARK_SIGHASH_TYPES,
+  isSupportedSighashType,
+  getInputSighashType,
+  getArkTxVersion,
+  getVtxoPrevout,
+  buildVirtualTx,
+  getTaprootSighash,
+  getTaprootOutputKey,
+  verifyInputSignature,
+} from './sighash';
+export type { ArkPrevout, UnsignedArkTransaction } from './sighash';
+export {
+  TAPSCRIPT_LEAF_VERSION,
+  getTapleafHash,
+  verifyTaprootCommitment,
+} from './taproot';
+export { executeTapscript, verifyTapscriptWitness } from './tapscript';
+export type { TapscriptContext } from './tapscript';
+export {
+  getVtxoLeafHash,
+  buildMerkleTree,
+  getMerkleRoot,
+  getMerkleProof,
+  verifyMerkleProof,
+  encodeRoundCommitment,
+  decodeRoundCommitment,
+  EMPTY_MERKLE_ROOT,
+  ROUND_COMMITMENT_VERSION,
+} from './merkle';
+export {
+  RoundSummarySchema,
+  TransferReceiptSchema,
+  getRoundSummaryHash,
+  getTransferReceiptHash,
+  getGenesisHash,
+  verifyAspSignature,
+} from './attestation';
+export type {
+  RoundSummary,
+  TransferReceipt,
+  GenesisAttestation,
+} from './attestation';
+export { FeeScheduleSchema, ZERO_FEE_SCHEDULE, getRequiredFee } from './fees';
+export type { FeeSchedule } from './fees';
+export type {
+  VtxoLeafKind,
+  MerkleProof,
+  MerkleProofStep,
+  RoundCommitment,
+} from './merkle';
 
 /**
  * Asset Metadata for SatoshiKoi
@@ -262,10 +515,14 @@ export const AssetMetadataSchema = z.object({
  * Zod Schema for Asset VTXO
  * Extends VtxoSchema with assetId and metadata validation
  */
-export const AssetVtxoSchema = VtxoSchema.extend({
-  assetId: z.string().min(1),
-  metadata: AssetMetadataSchema,
-});
+export function createAssetVtxoSchema(network: ArkNetwork = DEFAULT_NETWORK) {
+  return createVtxoSchema(network).extend({
+    assetId: z.string().min(1),
+    metadata: AssetMetadataSchema,
+  });
+}
+
+export const AssetVtxoSchema = createAssetVtxoSchema();
 
 /**
  * Asset VTXO extends standard VTXO with asset-specific metadata
@@ -0,0 +1,197 @@
+import * as bitcoin from 'bitcoinjs-lib';
+import type { Vtxo } from './index';
+
+/**
+ * Round Merkle Tree
+ * Every round commits to the VTXOs it issued and spent through a single root
+ * anchored in the round's OP_RETURN output.
+ *
+ * - Leaf: sha256(0x00 || "ark_leaf:<kind>:<txid>:<vout>:<address>:<amount>")
+ * - Node: sha256(0x01 || left || right)
+ * - An odd node at the end of a level is promoted unchanged (no duplication)
+ * - The root of an empty round is 32 zero bytes
+ */
+export type VtxoLeafKind = 'issued' | 'spent';
+
+export interface MerkleProofStep {
+  hash: string;
+  side: 'left' | 'right';
+}
+
+export interface MerkleProof {
+  leaf: string;
+  index: number;
+  path: MerkleProofStep[];
+}
+
+const LEAF_PREFIX = Buffer.from([0x00]);
+const NODE_PREFIX = Buffer.from([0x01]);
+
+export const EMPTY_MERKLE_ROOT = '00'.repeat(32);
+
+/**
+ * Computes the leaf hash committing to a VTXO issued or spent in a round
+ */
+export function getVtxoLeafHash(
+  vtxo: Pick<Vtxo, 'txid' | 'vout' | 'address' | 'amount'>,
+  kind: VtxoLeafKind,
+): string {
+  const payload = `ark_leaf:${kind}:${vtxo.txid}:${vtxo.vout}:${vtxo.address}:${vtxo.amount}`;
+  return bitcoin.crypto
+    .sha256(Buffer.concat([LEAF_PREFIX, Buffer.from(payload, 'utf8')]))
+    .toString('hex');
+}
+
+function hashNode(left: string, right: string): string {
+  return bitcoin.crypto
+    .sha256(
+      Buffer.concat([
+        NODE_PREFIX,
+        Buffer.from(left, 'hex'),
+        Buffer.from(right, 'hex'),
+      ]),
+    )
+    .toString('hex');
+}
+
+/**
+ * Builds every level of the tree, from the leaves (levels[0]) up to the root
+ */
+export function buildMerkleTree(leaves: string[]): string[][] {
+  const levels: string[][] = [leaves];
+
+  while (levels[levels.length - 1].length > 1) {
+    const level = levels[levels.length - 1];
+    const next: string[] = [];
+    for (let i = 0; i < level.length; i += 2) {
+      next.push(
+        i + 1 < level.length ? hashNode(level[i], level[i + 1]) : level[i],
+      );
+    }
+    levels.push(next);
+  }
+
+  return levels;
+}
+
+/**
+ * Computes the Merkle root of a list of leaf hashes
+ */
+export function getMerkleRoot(leaves: string[]): string {
+  if (leaves.length === 0) {
+    return EMPTY_MERKLE_ROOT;
+  }
+  const levels = buildMerkleTree(leaves);
+  return levels[levels.length - 1][0];
+}
+
+/**
+ * Returns the inclusion path for the leaf at `index`
+ * @throws Error if the index is outside the tree
+ */
+export function getMerkleProof(leaves: string[], index: number): MerkleProof {
+  if (!Number.isInteger(index) || index < 0 || index >= leaves.length) {
+    throw new Error(`Leaf index out of range: ${index}`);
+  }
+
+  const path: MerkleProofStep[] = [];
+  const levels = buildMerkleTree(leaves);
+  let position = index;
+
+  for (const level of levels.slice(0, -1)) {
+    const isRight = position % 2 === 1;
+    const siblingIndex = isRight ? position - 1 : position + 1;
+
+    // Promoted odd nodes have no sibling at this level
+    if (siblingIndex < level.length) {
+      path.push({
+        hash: level[siblingIndex],
+        side: isRight ? 'left' : 'right',
+      });
+    }
+    position = Math.floor(position / 2);
+  }
+
+  return { leaf: leaves[index], index, path };
+}
+
+/**
+ * Recomputes the root from a leaf and its inclusion path
+ */
+export function verifyMerkleProof(proof: MerkleProof, root: string): boolean {
+  const computed = proof.path.reduce(
+    (hash, step) =>
+      step.side === 'left'
+        ? hashNode(step.hash, hash)
+        : hashNode(hash, step.hash),
+    proof.leaf,
+  );
+  return computed === root;
+}
+
+/**
+ * Round commitment carried in the heartbeat OP_RETURN output
+ *
+ * Layout (44 bytes):
+ * - "ARK" marker (3 bytes, kept so existing indexers still detect rounds)
+ * - version (1 byte)
+ * - round height (uint32 BE)
+ * - VTXO count (uint32 BE)
+ * - Merkle root (32 bytes)
+ */
+export const ROUND_COMMITMENT_VERSION = 1;
+const ROUND_COMMITMENT_MARKER = Buffer.from('ARK', 'utf8');
+const ROUND_COMMITMENT_LENGTH = 44;
+
+export interface RoundCommitment {
+  version: number;
+  roundHeight: number;
+  vtxoCount: number;
+  merkleRoot: string;
+}
+
+/**
+ * Encodes a round commitment as the hex data of an OP_RETURN output
+ */
+export function encodeRoundCommitment(
+  commitment: Omit<RoundCommitment, 'version'>,
+): string {
+  const root = Buffer.from(commitment.merkleRoot, 'hex');
+  if (root.length !== 32) {
+    throw new Error('merkleRoot must be 32 bytes');
+  }
+
+  const payload = Buffer.alloc(ROUND_COMMITMENT_LENGTH);
+  ROUND_COMMITMENT_MARKER.copy(payload, 0);
+  payload.writeUInt8(ROUND_COMMITMENT_VERSION, 3);
+  payload.writeUInt32BE(commitment.roundHeight, 4);
+  payload.writeUInt32BE(commitment.vtxoCount, 8);
+  root.copy(payload, 12);
+  return payload.toString('hex');
+}
+
+/**
+ * Decodes the hex data of a round commitment OP_RETURN output
+ * @throws Error if the marker, length or version does not match
+ */
+export function decodeRoundCommitment(hex: string): RoundCommitment {
+  const payload = Buffer.from(hex, 'hex');
+  if (
+    payload.length !== ROUND_COMMITMENT_LENGTH ||
+    !payload.subarray(0, 3).equals(ROUND_COMMITMENT_MARKER)
+  ) {
+    throw new Error('Not a round commitment payload');
+  }
+
+  const version = payload.readUInt8(3);
+  if (version !== ROUND_COMMITMENT_VERSION) {
+    throw new Error(`Unsupported round commitment version: ${version}`);
+  }
+
+  return {
+    version,
+    roundHeight: payload.readUInt32BE(4),
+    vtxoCount: payload.readUInt32BE(8),
+    merkleRoot: payload.subarray(12).toString('hex'),
+  };
+}
@@ -0,0 +1,358 @@
+import * as bitcoin from 'bitcoinjs-lib';
+import * as ecc from '@bitcoinerlab/secp256k1';
+import {
+  CURVE_ORDER,
+  addPoints,
+  fromScalar,
+  getChallenge,
+  hasEvenY,
+  liftX,
+  multiplyBase,
+  multiplyPoint,
+  negatePoint,
+  taggedHash,
+  toScalar,
+} from './curve';
+
+/**
+ * MuSig2 multi-signatures (BIP-327) over x-only keys
+ *
+ * n signers aggregate their keys into one Taproot key and produce one BIP-340
+ * signature for it in two rounds:
+ * 1. each signer creates a nonce and shares its public nonce (createMusigNonce),
+ *    then everyone aggregates them (aggregateMusigNonces)
+ * 2. each signer shares a partial signature (createMusigPartialSignature), which
+ *    the others can check (verifyMusigPartialSignature), and any of them sums
+ *    them up (aggregateMusigPartialSignatures)
+ *
+ * Keys are the 32-byte x-only keys the swap locks use, lifted to their even-Y
+ * point (a signer whose key has an odd Y signs with its negated secret).
+ * Tweaks are x-only tweaks applied in order to the aggregate key, e.g. the
+ * Taproot tweak of a key-path spend.
+ */
+
+// Infinity encoding of an aggregate nonce point (BIP-327 cbytes_ext)
+const INFINITY = Buffer.alloc(33);
+
+/**
+ * Everything the signers must agree on before producing partial signatures
+ */
+export interface MusigSessionParams {
+  /** 32-byte x-only keys of all signers, in the same order for everyone */
+  publicKeys: Buffer[];
+  /** 32-byte x-only tweaks applied in order to the aggregate key */
+  tweaks?: Buffer[];
+  /** 66-byte aggregate of every signer's public nonce */
+  aggregateNonce: Buffer;
+  /** 32-byte message (sighash) */
+  message: Buffer;
+}
+
+export interface MusigNonce {
+  /** 97 bytes (k1 || k2 || pubkey), never shared and never reused */
+  secretNonce: Buffer;
+  /** 66 bytes (k1*G || k2*G), shared with the other signers */
+  publicNonce: Buffer;
+}
+
+interface KeyAggContext {
+  Q: Uint8Array;
+  gacc: bigint;
+  tacc: bigint;
+}
+
+function assertXOnly(key: Buffer, name: string): void {
+  if (key.length !== 32 || !ecc.isPoint(liftX(key))) {
+    throw new Error(`${name} must be a 32-byte x-only public key`);
+  }
+}
+
+// Coefficient a_i of a key: 1 for the second distinct key, H(L || pk) otherwise
+function getKeyAggCoefficient(points: Buffer[], point: Buffer): bigint {
+  const second = points.find((pk) => !pk.equals(points[0]));
+  if (second && point.equals(second)) {
+    return 1n;
+  }
+  const listHash = bitcoin.crypto.taggedHash(
+    'KeyAgg list',
+    Buffer.concat(points),
+  );
+  return toScalar(
+    bitcoin.crypto.taggedHash(
+      'KeyAgg coefficient',
+      Buffer.concat([listHash, point]),
+    ),
+  );
+}
+
+function aggregateKeys(publicKeys: Buffer[], tweaks: Buffer[]): KeyAggContext {
+  if (publicKeys.length === 0) {
+    throw new Error('At least one public key is required');
+  }
+  publicKeys.forEach((key) => assertXOnly(key, 'Public key'));
+  const points = publicKeys.map(liftX);
+
+  let Q: Uint8Array | null = null;
+  for (const point of points) {
+    Q = addPoints(Q, multiplyPoint(point, getKeyAggCoefficient(points, point)));
+  }
+  if (!Q) {
+    throw new Error('Aggregate key is the point at infinity');
+  }
+
+  let gacc = 1n;
+  let tacc = 0n;
+  for (const tweak of tweaks) {
+    const t = BigInt(`0x${tweak.toString('hex')}`);
+    if (tweak.length !== 32 || t >= CURVE_ORDER) {
+      throw new Error('Tweak must be a 32-byte scalar');
+    }
+    // x-only tweak: Q' = g*Q + t*G, with g negating an odd-Y Q
+    const g = hasEvenY(Q) ? 1n : CURVE_ORDER - 1n;
+    const tweaked: Uint8Array | null = addPoints(
+      multiplyPoint(Q, g),
+      multiplyBase(t),
+    );
+    if (!tweaked) {
+      throw new Error('Tweaked key is the point at infinity');
+    }
+    Q = tweaked;
+    gacc = (g * gacc) % CURVE_ORDER;
+    tacc = (t + g * tacc) % CURVE_ORDER;
+  }
+
+  return { Q, gacc, tacc };
+}
+
+/**
+ * The x-only aggregate key of publicKeys, after tweaks
+ */
+export function aggregateMusigPubkeys(
+  publicKeys: Buffer[],
+  tweaks: Buffer[] = [],
+): Buffer {
+  return Buffer.from(aggregateKeys(publicKeys, tweaks).Q.subarray(1));
+}
+
+/**
+ * Creates a signer's nonce pair
+ * @param rand - 32 fresh random bytes; a nonce must never sign twice, and the
+ * key, aggregate key and message only add defence against a weak rand
+ */
+export function createMusigNonce(
+  privateKey: Buffer,
+  rand: Buffer,
+  aggregatePubkey: Buffer = Buffer.alloc(0),
+  message: Buffer = Buffer.alloc(0),
+): MusigNonce {
+  if (rand.length !== 32) {
+    throw new Error('Nonce randomness must be 32 bytes');
+  }
+  const publicKey = ecc.isPrivate(privateKey)
+    ? ecc.xOnlyPointFromScalar(privateKey)
+    : null;
+  if (!publicKey) {
+    throw new Error('Invalid private key');
+  }
+  const pk = liftX(Buffer.from(publicKey));
+
+  const [k1, k2] = [0, 1].map((i) =>
+    toScalar(
+      taggedHash(
+        'MuSig/nonce',
+        Buffer.concat([
+          rand,
+          privateKey,
+          pk,
+          aggregatePubkey,
+          message,
+          Buffer.from([i]),
+        ]),
+      ),
+    ),
+  );
+  const R1 = multiplyBase(k1);
+  const R2 = multiplyBase(k2);
+  if (!R1 || !R2) {
+    throw new Error('Derived nonce is zero');
+  }
+
+  return {
+    secretNonce: Buffer.concat([fromScalar(k1), fromScalar(k2), pk]),
+    publicNonce: Buffer.concat([R1, R2]),
+  };
+}
+
+/**
+ * Sums every signer's public nonce into the session's aggregate nonce
+ * @throws Error if a public nonce is malformed
+ */
+export function aggregateMusigNonces(publicNonces: Buffer[]): Buffer {
+  const sums: (Uint8Array | null)[] = [null, null];
+  for (const nonce of publicNonces) {
+    for (const j of [0, 1]) {
+      const point = nonce.subarray(33 * j, 33 * (j + 1));
+      if (nonce.length !== 66 || !ecc.isPoint(point)) {
+        throw new Error('Public nonce must be two 33-byte compressed points');
+      }
+      sums[j] = addPoints(sums[j], point);
+    }
+  }
+  return Buffer.concat(sums.map((R) => (R ? Buffer.from(R) : INFINITY)));
+}
+
+// Session values shared by signing, verification and aggregation
+function getSession(params: MusigSessionParams) {
+  const { aggregateNonce, message } = params;
+  if (aggregateNonce.length !== 66 || message.length !== 32) {
+    throw new Error('Aggregate nonce must be 66 bytes and message 32 bytes');
+  }
+  const keyAgg = aggregateKeys(params.publicKeys, params.tweaks ?? []);
+  const qx = Buffer.from(keyAgg.Q.subarray(1));
+
+  const [R1, R2] = [0, 1].map((j) => {
+    const point = aggregateNonce.subarray(33 * j, 33 * (j + 1));
+    if (point.equals(INFINITY)) {
+      return null;
+    }
+    if (!ecc.isPoint(point)) {
+      throw new Error('Invalid aggregate nonce');
+    }
+    return point;
+  });
+
+  const b = toScalar(
+    taggedHash('MuSig/noncecoef', Buffer.concat([aggregateNonce, qx, message])),
+  );
+  // R = R1 + b*R2, or G if that is the point at infinity
+  const R =
+    addPoints(R1, R2 && multiplyPoint(R2, b)) ??
+    (multiplyBase(1n) as Uint8Array);
+  const rx = Buffer.from(R.subarray(1));
+  const e = getChallenge(rx, qx, message);
+  // g negates an odd-Y aggregate key (BIP-340 keys are x-only)
+  const g = hasEvenY(keyAgg.Q) ? 1n : CURVE_ORDER - 1n;
+
+  return { ...keyAgg, b, R, rx, e, g };
+}
+
+/**
+ * Signer's partial signature for the session
+ * The secret nonce is wiped, so it cannot be used to sign again.
+ * @throws Error if the nonce was already used, or does not belong to privateKey
+ * or the key is not one of publicKeys
+ */
+export function createMusigPartialSignature(
+  params: MusigSessionParams & { privateKey: Buffer; secretNonce: Buffer },
+): Buffer {
+  const { privateKey, secretNonce } = params;
+  if (secretNonce.length !== 97) {
+    throw new Error('Secret nonce must be 97 bytes');
+  }
+  const k1 = toScalar(secretNonce.subarray(0, 32));
+  const k2 = toScalar(secretNonce.subarray(32, 64));
+  const nonceKey = Buffer.from(secretNonce.subarray(64));
+  if (k1 === 0n || k2 === 0n) {
+    throw new Error('Secret nonce was already used');
+  }
+  secretNonce.fill(0);
+
+  const publicKey = ecc.isPrivate(privateKey)
+    ? ecc.pointFromScalar(privateKey, true)
+    : null;
+  if (!publicKey) {
+    throw new Error('Invalid private key');
+  }
+  const pk = liftX(Buffer.from(publicKey.subarray(1)));
+  if (!pk.equals(nonceKey)) {
+    throw new Error('Secret nonce was not created for this private key');
+  }
+  if (!params.publicKeys.some((key) => key.equals(pk.subarray(1)))) {
+    throw new Error('Private key is not one of the session public keys');
+  }
+
+  const session = getSession(params);
+  const a = getKeyAggCoefficient(params.publicKeys.map(liftX), pk);
+  // Sign with the secret of the even-Y key, and of the even-Y nonce
+  const sk = hasEvenY(publicKey)
+    ? toScalar(privateKey)
+    : CURVE_ORDER - toScalar(privateKey);
+  const d = (session.g * session.gacc * sk) % CURVE_ORDER;
+  const [r1, r2] = hasEvenY(session.R)
+    ? [k1, k2]
+    : [CURVE_ORDER - k1, CURVE_ORDER - k2];
+
+  return fromScalar((r1 + session.b * r2 + session.e * a * d) % CURVE_ORDER);
+}
+
+/**
+ * Checks one signer's partial signature against its public nonce and key
+ * Returns false (never throws) for malformed inputs.
+ */
+export function verifyMusigPartialSignature(
+  params: MusigSessionParams & {
+    publicKey: Buffer;
+    publicNonce: Buffer;
+    partialSignature: Buffer;
+  },
+): boolean {
+  try {
+    const { publicKey, publicNonce, partialSignature } = params;
+    const s = BigInt(`0x${partialSignature.toString('hex')}`);
+    if (
+      partialSignature.length !== 32 ||
+      s >= CURVE_ORDER ||
+      publicNonce.length !== 66 ||
+      !params.publicKeys.some((key) => key.equals(publicKey))
+    ) {
+      return false;
+    }
+
+    const session = getSession(params);
+    const P = liftX(publicKey);
+    const a = getKeyAggCoefficient(params.publicKeys.map(liftX), P);
+
+    // Effective nonce of the signer: R1 + b*R2, negated alongside an odd-Y R
+    const nonce = addPoints(
+      publicNonce.subarray(0, 33),
+      multiplyPoint(publicNonce.subarray(33), session.b),
+    );
+    const Re = nonce && !hasEvenY(session.R) ? negatePoint(nonce) : nonce;
+
+    const left = multiplyBase(s);
+    const right = addPoints(
+      Re,
+      multiplyPoint(
+        P,
+        (session.e * a * session.g * session.gacc) % CURVE_ORDER,
+      ),
+    );
+    return (
+      left !== null &&
+      right !== null &&
+      Buffer.from(left).equals(Buffer.from(right))
+    );
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Sums the partial signatures of every signer into a BIP-340 signature for the
+ * (tweaked) aggregate key
+ * @returns 64-byte signature (R.x || s)
+ */
+export function aggregateMusigPartialSignatures(
+  params: MusigSessionParams & { partialSignatures: Buffer[] },
+): Buffer {
+  const session = getSession(params);
+  let s = (session.e * session.g * session.tacc) % CURVE_ORDER;
+  for (const partial of params.partialSignatures) {
+    const si = BigInt(`0x${partial.toString('hex')}`);
+    if (partial.length !== 32 || si >= CURVE_ORDER) {
+      throw new Error('Partial signature must be a 32-byte scalar');
+    }
+    s = (s + si) % CURVE_ORDER;
+  }
+  return Buffer.concat([session.rx, fromScalar(s)]);
+}
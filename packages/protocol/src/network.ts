@@ -0,0 +1,47 @@
+import * as bitcoin from 'bitcoinjs-lib';
+
+/**
+ * Bitcoin networks ArkSwap runs on
+ * Mainnet is deliberately not one of them (see assertSafeNetwork).
+ */
+export type ArkNetwork = 'regtest' | 'signet' | 'testnet';
+
+export const ARK_NETWORKS: readonly ArkNetwork[] = [
+  'regtest',
+  'signet',
+  'testnet',
+];
+
+export const DEFAULT_NETWORK: ArkNetwork = 'regtest';
+
+export function isArkNetwork(name: string): name is ArkNetwork {
+  return (ARK_NETWORKS as readonly string[]).includes(name);
+}
+
+/**
+ * bitcoinjs-lib parameters of a network
+ * Signet shares testnet's address encoding (tb1...) and version bytes.
+ * @throws Error for networks outside ARK_NETWORKS
+ */
+export function getBitcoinNetwork(
+  network: ArkNetwork = DEFAULT_NETWORK,
+): bitcoin.Network {
+  switch (network) {
+    case 'regtest':
+      return bitcoin.networks.regtest;
+    case 'signet':
+    case 'testnet':
+      return bitcoin.networks.testnet;
+    default:
+      throw new Error(`Unsupported network: ${network}`);
+  }
+}
+
+/**
+ * Prefix of every segwit address on a network ("bcrt1" on regtest, "tb1" otherwise)
+ */
+export function getAddressPrefix(
+  network: ArkNetwork = DEFAULT_NETWORK,
+): string {
+  return `${getBitcoinNetwork(network).bech32}1`;
+}
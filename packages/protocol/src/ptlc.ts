@@ -0,0 +1,227 @@
+import * as bitcoin from 'bitcoinjs-lib';
+import * as ecc from '@bitcoinerlab/secp256k1';
+import type { ArkTransaction } from './index';
+import { asAddress, asSignatureHex, asTxId } from './index';
+import {
+  completeAdaptorSignature,
+  createAdaptorSignature,
+  extractAdaptorSecret,
+  verifyAdaptorSignature,
+} from './adaptor';
+import type { ArkNetwork } from './network';
+import type { SwapLockOutpoint, SwapLockResult } from './script';
+import {
+  ARK_TX_VERSION_TAPROOT,
+  getTaprootSighash,
+  type UnsignedArkTransaction,
+} from './sighash';
+import { getTapleafHash } from './taproot';
+
+/**
+ * PTLC claim of a swap lock VTXO (see createPtlcLock)
+ *
+ * 1. Maker quotes an adaptor point T = t*G and keeps t
+ * 2. Taker locks a VTXO and signs the maker's claim transfer as an adaptor
+ *    signature under T (createPtlcAdaptorSignature)
+ * 3. Maker verifies it (verifyPtlcAdaptorSignature), pays on L1, then completes
+ *    it with t and co-signs the claim (completePtlcClaim)
+ * 4. Taker reads the completed signature from the claim and extracts t
+ *    (extractPtlcSecret), which unlocks whatever the maker's leg locked to T
+ */
+export interface PtlcClaimParams {
+  /** The lock VTXO being claimed */
+  lockVtxo: SwapLockOutpoint;
+  lock: SwapLockResult;
+  /** Maker's Ark address receiving the claimed amount */
+  destination: string;
+  /** Transfer fee in sats, deducted from the locked amount */
+  fee: number;
+  /** Network destination is encoded for (default regtest) */
+  network?: ArkNetwork;
+}
+
+/**
+ * The claim leaf's keys: <user> OP_CHECKSIGVERIFY <maker> OP_CHECKSIG
+ */
+function getClaimKeys(lock: SwapLockResult): {
+  userPubkey: Buffer;
+  makerPubkey: Buffer;
+} {
+  const chunks = bitcoin.script.decompile(lock.leaves.claim) ?? [];
+  const [userPubkey, checksigverify, makerPubkey] = chunks;
+  if (
+    chunks.length !== 4 ||
+    checksigverify !== bitcoin.opcodes.OP_CHECKSIGVERIFY ||
+    !Buffer.isBuffer(userPubkey) ||
+    !Buffer.isBuffer(makerPubkey)
+  ) {
+    throw new Error('Lock is not a PTLC lock');
+  }
+  return { userPubkey, makerPubkey };
+}
+
+function assertKey(privateKey: Buffer, pubkey: Buffer, role: string): void {
+  const publicKey = ecc.isPrivate(privateKey)
+    ? ecc.pointFromScalar(privateKey, true)
+    : null;
+  if (!publicKey || !Buffer.from(publicKey.subarray(1)).equals(pubkey)) {
+    throw new Error(`Private key does not match the ${role} public key`);
+  }
+}
+
+/**
+ * The unsigned claim transfer: the lock VTXO in, amount minus fee to destination
+ */
+export function buildPtlcClaimTx(
+  params: PtlcClaimParams,
+): UnsignedArkTransaction & Pick<ArkTransaction, 'version'> {
+  const { lockVtxo, lock, destination, fee } = params;
+
+  const value = lockVtxo.amount - fee;
+  if (!Number.isInteger(fee) || fee < 0 || value <= 0) {
+    throw new Error(
+      `Invalid fee ${fee} for a locked amount of ${lockVtxo.amount}`,
+    );
+  }
+
+  return {
+    version: ARK_TX_VERSION_TAPROOT,
+    inputs: [
+      {
+        txid: asTxId(lockVtxo.txid),
+        vout: lockVtxo.vout,
+        witness: {
+          leafScript: lock.leaves.claim.toString('hex'),
+          controlBlock: lock.controlBlock.toString('hex'),
+          stack: [],
+        },
+      },
+    ],
+    outputs: [
+      {
+        address: asAddress(destination),
+        amount: value,
+      },
+    ],
+  };
+}
+
+/**
+ * BIP-342 sighash of the claim transfer's only input, which both the user and
+ * the maker sign
+ */
+export function getPtlcClaimSighash(params: PtlcClaimParams): Buffer {
+  const { lockVtxo, lock, network } = params;
+  return Buffer.from(
+    getTaprootSighash(
+      buildPtlcClaimTx(params),
+      [{ script: lock.output, amount: lockVtxo.amount }],
+      0,
+      getTapleafHash(lock.leaves.claim),
+      network,
+    ),
+    'hex',
+  );
+}
+
+/**
+ * Taker: signs the maker's claim transfer, encrypted under the quoted adaptor point
+ * @throws Error if privateKey is not the lock's user key
+ */
+export function createPtlcAdaptorSignature(
+  params: PtlcClaimParams & { privateKey: Buffer; adaptorPoint: Buffer },
+): Buffer {
+  const { userPubkey } = getClaimKeys(params.lock);
+  assertKey(params.privateKey, userPubkey, 'user');
+
+  return createAdaptorSignature(
+    params.privateKey,
+    getPtlcClaimSighash(params),
+    params.adaptorPoint,
+  );
+}
+
+/**
+ * Maker: checks the taker's adaptor signature before paying out
+ * Returns false (never throws) for malformed signatures or locks.
+ */
+export function verifyPtlcAdaptorSignature(
+  params: PtlcClaimParams & { adaptorPoint: Buffer; adaptorSignature: Buffer },
+): boolean {
+  try {
+    const { userPubkey } = getClaimKeys(params.lock);
+    return verifyAdaptorSignature(
+      userPubkey,
+      getPtlcClaimSighash(params),
+      params.adaptorPoint,
+      params.adaptorSignature,
+    );
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Maker: completes the taker's adaptor signature with the adaptor secret and
+ * co-signs, producing the claim transfer to submit to the ASP
+ * The ASP runs the leaf on [signature, ...stack], so the input signature is the
+ * maker's (checked last) and the stack carries the user's completed signature.
+ * @throws Error if privateKey is not the lock's maker key or the completed
+ * signature does not verify (wrong secret or adaptor signature)
+ */
+export function completePtlcClaim(
+  params: PtlcClaimParams & {
+    privateKey: Buffer;
+    adaptorSignature: Buffer;
+    adaptorSecret: Buffer;
+  },
+): ArkTransaction {
+  const { userPubkey, makerPubkey } = getClaimKeys(params.lock);
+  assertKey(params.privateKey, makerPubkey, 'maker');
+
+  const sighash = getPtlcClaimSighash(params);
+  const userSignature = completeAdaptorSignature(
+    params.adaptorSignature,
+    params.adaptorSecret,
+  );
+  if (!ecc.verifySchnorr(sighash, userPubkey, userSignature)) {
+    throw new Error('Completed signature does not verify for the user key');
+  }
+  const makerSignature = Buffer.from(
+    ecc.signSchnorr(sighash, params.privateKey),
+  );
+
+  const tx = buildPtlcClaimTx(params);
+  const [input] = tx.inputs;
+  return {
+    ...tx,
+    inputs: [
+      {
+        ...input,
+        signature: asSignatureHex(makerSignature.toString('hex')),
+        witness: { ...input.witness!, stack: [userSignature.toString('hex')] },
+      },
+    ],
+  };
+}
+
+/**
+ * Taker: recovers the adaptor secret from the maker's completed claim transfer
+ * @throws Error if the claim does not carry a completion of adaptorSignature
+ * under adaptorPoint
+ */
+export function extractPtlcSecret(
+  adaptorSignature: Buffer,
+  claimTx: ArkTransaction,
+  adaptorPoint: Buffer,
+): Buffer {
+  const completed = claimTx.inputs[0]?.witness?.stack[0];
+  if (!completed) {
+    throw new Error('Claim transfer carries no completed signature');
+  }
+  return extractAdaptorSecret(
+    adaptorSignature,
+    Buffer.from(completed, 'hex'),
+    adaptorPoint,
+  );
+}
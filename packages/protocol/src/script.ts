@@ -1,14 +1,44 @@
 import * as bitcoin from 'bitcoinjs-lib';
 import type { Taptree } from 'bitcoinjs-lib/src/types';
-import ecc from '@bitcoinerlab/secp256k1';
+import * as ecc from '@bitcoinerlab/secp256k1';
 import stringify from 'fast-json-stable-stringify';
 import type { AssetMetadata } from './index';
+import { getTapleafHash, TAPSCRIPT_LEAF_VERSION } from './taproot';
+import { DEFAULT_NETWORK, getBitcoinNetwork, type ArkNetwork } from './network';
+import { aggregateMusigPubkeys } from './musig';
 
 // Initialize ECC library for bitcoinjs-lib
 bitcoin.initEccLib(ecc);
 
-// Regtest network
-const NETWORK = bitcoin.networks.regtest;
+/**
+ * Bitcoin CompactSize encoding of n (a varint prefix of witness items)
+ */
+function encodeCompactSize(n: number): Buffer {
+  if (n < 0xfd) {
+    return Buffer.from([n]);
+  }
+  if (n <= 0xffff) {
+    const buffer = Buffer.alloc(3);
+    buffer[0] = 0xfd;
+    buffer.writeUInt16LE(n, 1);
+    return buffer;
+  }
+  const buffer = Buffer.alloc(5);
+  buffer[0] = 0xfe;
+  buffer.writeUInt32LE(n, 1);
+  return buffer;
+}
+
+/**
+ * Serializes a witness stack as a PSBT finalScriptWitness: the item count, then
+ * each item prefixed with its length
+ */
+function serializeWitness(stack: Buffer[]): Buffer {
+  return Buffer.concat([
+    encodeCompactSize(stack.length),
+    ...stack.flatMap((item) => [encodeCompactSize(item.length), item]),
+  ]);
+}
 
 // H = lift_x(0x50929b...)
 // This is a standard NUMS (Nothing Up My Sleeve) point specified in BIP-341
@@ -22,6 +52,25 @@ export interface SwapLockParams {
   userPubkey: Buffer;
   preimageHash: Buffer;
   timeoutBlocks: number;
+  /** Network the lock address is encoded for (default regtest) */
+  network?: ArkNetwork;
+  /**
+   * Use the MuSig2 aggregate of makerPubkey and userPubkey as the internal key
+   * instead of the NUMS point: maker and user can then close cooperatively with
+   * a plain key-path spend, the leaves are only a fallback
+   */
+  cooperative?: boolean;
+}
+
+/**
+ * What the signers of a cooperative lock's key path need (see musig.ts):
+ * aggregating publicKeys with tweaks gives the lock's output key
+ */
+export interface CooperativeKeyPath {
+  /** [makerPubkey, userPubkey] */
+  publicKeys: Buffer[];
+  /** Asset tweak (asset locks only), then the Taproot tweak */
+  tweaks: Buffer[];
 }
 
 export interface SwapLockResult {
@@ -33,10 +82,50 @@ export interface SwapLockResult {
     claim: Buffer;
     refund: Buffer;
   };
+  /** Present for cooperative locks only */
+  keyPath?: CooperativeKeyPath;
+}
+
+/**
+ * Internal key of a lock: the NUMS point disables the key path, the maker and
+ * user aggregate enables it for cooperative locks
+ */
+function getLockInternalKey(params: SwapLockParams | PtlcLockParams): Buffer {
+  return params.cooperative
+    ? aggregateMusigPubkeys([params.makerPubkey, params.userPubkey])
+    : H_POINT;
+}
+
+/**
+ * The key path of a cooperative lock, or undefined for script-path only locks
+ * @param tweaks - tweaks already applied to the aggregate to get internalPubkey
+ * @param merkleRoot - root of the lock's script tree
+ */
+function getCooperativeKeyPath(
+  params: SwapLockParams | PtlcLockParams,
+  internalPubkey: Buffer,
+  merkleRoot: Buffer | undefined,
+  tweaks: Buffer[] = [],
+): CooperativeKeyPath | undefined {
+  if (!params.cooperative) {
+    return undefined;
+  }
+  if (!merkleRoot) {
+    throw new Error('Failed to compute the script tree root');
+  }
+  const tapTweak = bitcoin.crypto.taggedHash(
+    'TapTweak',
+    Buffer.concat([internalPubkey, merkleRoot]),
+  );
+  return {
+    publicKeys: [params.makerPubkey, params.userPubkey],
+    tweaks: [...tweaks, tapTweak],
+  };
 }
 
 export function createSwapLock(params: SwapLockParams): SwapLockResult {
   const { makerPubkey, userPubkey, preimageHash, timeoutBlocks } = params;
+  const network = getBitcoinNetwork(params.network);
 
   // --- VALIDATION FIXES ---
   if (makerPubkey.length !== 32) {
@@ -52,6 +141,7 @@ export function createSwapLock(params: SwapLockParams): SwapLockResult {
   if (timeoutBlocks < 1 || timeoutBlocks > 0xffffffff) {
     throw new Error('timeoutBlocks must be between 1 and 0xffffffff');
   }
+  const internalPubkey = getLockInternalKey(params);
 
   // 1. Build Claim Script
   // Path: Maker can spend if they provide Preimage + Signature
@@ -81,9 +171,9 @@ export function createSwapLock(params: SwapLockParams): SwapLockResult {
 
   // 4. Generate the Address (The "Lock")
   const lockPayment = bitcoin.payments.p2tr({
-    internalPubkey: H_POINT,
+    internalPubkey,
     scriptTree,
-    network: NETWORK,
+    network,
   });
 
   if (!lockPayment.address || !lockPayment.output) {
@@ -92,17 +182,17 @@ export function createSwapLock(params: SwapLockParams): SwapLockResult {
 
   // 5. Generate Control Blocks
   const claimPayment = bitcoin.payments.p2tr({
-    internalPubkey: H_POINT,
+    internalPubkey,
     scriptTree,
     redeem: { output: claimScript },
-    network: NETWORK,
+    network,
   });
 
   const refundPayment = bitcoin.payments.p2tr({
-    internalPubkey: H_POINT,
+    internalPubkey,
     scriptTree,
     redeem: { output: refundScript },
-    network: NETWORK,
+    network,
   });
 
   if (!claimPayment.witness || !refundPayment.witness) {
@@ -124,24 +214,290 @@ export function createSwapLock(params: SwapLockParams): SwapLockResult {
       claim: claimScript,
       refund: refundScript,
     },
+    keyPath: getCooperativeKeyPath(params, internalPubkey, lockPayment.hash),
+  };
+}
+
+export type PtlcLockParams = Omit<SwapLockParams, 'preimageHash'>;
+
+/**
+ * Creates a point-time-locked swap lock (PTLC)
+ * Unlike createSwapLock, the claim leaf commits to no hash: it needs both the
+ * user's and the maker's signatures, and the user only ever hands the maker an
+ * adaptor signature (see ptlc.ts). Completing it reveals the adaptor secret to
+ * the user, so the two legs of a swap share no common value on chain.
+ * The refund leaf is the same as the HTLC's.
+ */
+export function createPtlcLock(params: PtlcLockParams): SwapLockResult {
+  const { makerPubkey, userPubkey, timeoutBlocks } = params;
+  const network = getBitcoinNetwork(params.network);
+
+  if (makerPubkey.length !== 32) {
+    throw new Error('makerPubkey must be 32 bytes');
+  }
+  if (userPubkey.length !== 32) {
+    throw new Error('userPubkey must be 32 bytes');
+  }
+  if (timeoutBlocks < 1 || timeoutBlocks > 0xffffffff) {
+    throw new Error('timeoutBlocks must be between 1 and 0xffffffff');
+  }
+  const internalPubkey = getLockInternalKey(params);
+
+  // 1. Build Claim Script
+  // Path: User and Maker signatures (the user's is completed from its adaptor)
+  const claimScript = bitcoin.script.compile([
+    userPubkey,
+    bitcoin.opcodes.OP_CHECKSIGVERIFY,
+    makerPubkey,
+    bitcoin.opcodes.OP_CHECKSIG,
+  ]);
+
+  // 2. Build Refund Script (same as createSwapLock)
+  const refundScript = bitcoin.script.compile([
+    bitcoin.script.number.encode(timeoutBlocks),
+    bitcoin.opcodes.OP_CHECKSEQUENCEVERIFY,
+    bitcoin.opcodes.OP_DROP,
+    userPubkey,
+    bitcoin.opcodes.OP_CHECKSIG,
+  ]);
+
+  // 3. Create Tree and the Address (NUMS internal key: script-path only)
+  const scriptTree: Taptree = [
+    { output: claimScript },
+    { output: refundScript },
+  ];
+  const lockPayment = bitcoin.payments.p2tr({
+    internalPubkey,
+    scriptTree,
+    network,
+  });
+
+  if (!lockPayment.address || !lockPayment.output) {
+    throw new Error('Failed to generate address');
+  }
+
+  // 4. Generate Control Blocks
+  const claimPayment = bitcoin.payments.p2tr({
+    internalPubkey,
+    scriptTree,
+    redeem: { output: claimScript },
+    network,
+  });
+  const refundPayment = bitcoin.payments.p2tr({
+    internalPubkey,
+    scriptTree,
+    redeem: { output: refundScript },
+    network,
+  });
+
+  if (!claimPayment.witness || !refundPayment.witness) {
+    throw new Error('Failed to generate witness data');
+  }
+
+  return {
+    address: lockPayment.address,
+    output: lockPayment.output,
+    controlBlock: claimPayment.witness[claimPayment.witness.length - 1],
+    controlBlockRefund: refundPayment.witness[refundPayment.witness.length - 1],
+    leaves: {
+      claim: claimScript,
+      refund: refundScript,
+    },
+    keyPath: getCooperativeKeyPath(params, internalPubkey, lockPayment.hash),
   };
 }
 
+/**
+ * Constructs the Witness Stack for the Claim Path
+ * Stack Order (Bottom to Top for Taproot Script Path):
+ * 1. signature (maker)
+ * 2. preimage (checked against preimageHash by OP_SHA256 OP_EQUALVERIFY)
+ * 3. claimScript (from swapResult.leaves.claim)
+ * 4. controlBlock (from swapResult.controlBlock)
+ */
+export function getClaimWitness(
+  signature: Buffer,
+  preimage: Buffer,
+  swapResult: SwapLockResult,
+): Buffer[] {
+  return [
+    signature,
+    preimage,
+    swapResult.leaves.claim,
+    swapResult.controlBlock,
+  ];
+}
+
 /**
  * Constructs the Witness Stack for the Refund Path
  * Stack Order (Bottom to Top for Taproot Script Path):
- * 1. signature
+ * 1. signature (user)
  * 2. refundScript (from swapResult.leaves.refund)
  * 3. controlBlockRefund (from swapResult.controlBlockRefund)
  */
 export function getRefundWitness(
   signature: Buffer,
-  lockParams: SwapLockParams,
   swapResult: SwapLockResult,
 ): Buffer[] {
   return [signature, swapResult.leaves.refund, swapResult.controlBlockRefund];
 }
 
+/**
+ * Reads the CSV timeout (in blocks) back from a lock's refund leaf
+ */
+export function getRefundTimeout(swapResult: SwapLockResult): number {
+  const [timeout] = bitcoin.script.decompile(swapResult.leaves.refund) ?? [];
+  if (typeof timeout === 'number') {
+    // OP_1..OP_16
+    return timeout - bitcoin.opcodes.OP_1 + 1;
+  }
+  if (!timeout) {
+    throw new Error('Invalid refund leaf');
+  }
+  return bitcoin.script.number.decode(timeout, 5);
+}
+
+// nSequence of claim spends: no relative lock time (BIP-68 disabled), RBF signalled
+const CLAIM_SEQUENCE = 0xfffffffd;
+
+/**
+ * The swap lock output being spent
+ */
+export interface SwapLockOutpoint {
+  txid: string;
+  vout: number;
+  amount: number;
+}
+
+export interface SwapSpendParams {
+  outpoint: SwapLockOutpoint;
+  lock: SwapLockResult;
+  /** 32-byte private key of the leaf's pubkey (maker for claims, user for refunds) */
+  privateKey: Buffer;
+  destination: string;
+  /** Miner fee in sats, deducted from the locked amount */
+  fee: number;
+  /** Network destination is encoded for (default regtest) */
+  network?: ArkNetwork;
+}
+
+export interface SwapSpendResult {
+  /** Finalized PSBT (the single input carries its final script witness) */
+  psbt: bitcoin.Psbt;
+  /** Raw signed transaction, ready to broadcast */
+  hex: string;
+  txid: string;
+}
+
+/**
+ * Builds, signs and finalizes a one-input, one-output script-path spend of a lock leaf
+ */
+function buildLeafSpendTx(
+  params: SwapSpendParams,
+  leafScript: Buffer,
+  controlBlock: Buffer,
+  sequence: number,
+  toWitness: (signature: Buffer) => Buffer[],
+): SwapSpendResult {
+  const { outpoint, lock, privateKey, destination, fee } = params;
+
+  const value = outpoint.amount - fee;
+  if (!Number.isInteger(fee) || fee < 0 || value <= 0) {
+    throw new Error(
+      `Invalid fee ${fee} for a locked amount of ${outpoint.amount}`,
+    );
+  }
+
+  // The key must be the one the leaf checks (<pubkey> OP_CHECKSIG is its last push)
+  const publicKey = ecc.pointFromScalar(privateKey, true);
+  const leafPubkey = bitcoin.script.decompile(leafScript)?.at(-2);
+  if (
+    !publicKey ||
+    !Buffer.isBuffer(leafPubkey) ||
+    !Buffer.from(publicKey.subarray(1, 33)).equals(leafPubkey)
+  ) {
+    throw new Error('Private key does not match the leaf public key');
+  }
+
+  const psbt = new bitcoin.Psbt({
+    network: getBitcoinNetwork(params.network),
+  });
+  // Version 2 so nSequence is interpreted as a BIP-68 relative lock time
+  psbt.setVersion(2);
+  psbt.addInput({
+    hash: outpoint.txid,
+    index: outpoint.vout,
+    sequence,
+    witnessUtxo: { script: lock.output, value: outpoint.amount },
+    tapLeafScript: [
+      { leafVersion: TAPSCRIPT_LEAF_VERSION, script: leafScript, controlBlock },
+    ],
+  });
+  psbt.addOutput({ address: destination, value });
+
+  // BIP-342 script-path sighash (SIGHASH_DEFAULT) of the leaf being spent
+  const sighash = bitcoin.Transaction.fromBuffer(
+    psbt.data.globalMap.unsignedTx.toBuffer(),
+  ).hashForWitnessV1(
+    0,
+    [lock.output],
+    [outpoint.amount],
+    bitcoin.Transaction.SIGHASH_DEFAULT,
+    getTapleafHash(leafScript),
+  );
+  const signature = Buffer.from(ecc.signSchnorr(sighash, privateKey));
+
+  psbt.finalizeInput(0, () => ({
+    finalScriptWitness: serializeWitness(toWitness(signature)),
+  }));
+
+  const tx = psbt.extractTransaction();
+  return { psbt, hex: tx.toHex(), txid: tx.getId() };
+}
+
+/**
+ * Maker's claim of a swap lock through the claim leaf: reveals the preimage
+ * nSequence disables relative lock times (the claim path has no timeout)
+ * @throws Error if the key is not the maker's, the preimage does not match or the fee is invalid
+ */
+export function buildClaimTx(
+  params: SwapSpendParams & { preimage: Buffer },
+): SwapSpendResult {
+  const { lock, preimage } = params;
+  const [, preimageHash] = bitcoin.script.decompile(lock.leaves.claim) ?? [];
+  if (
+    !Buffer.isBuffer(preimageHash) ||
+    !bitcoin.crypto.sha256(preimage).equals(preimageHash)
+  ) {
+    throw new Error('Preimage does not match the claim leaf');
+  }
+
+  return buildLeafSpendTx(
+    params,
+    lock.leaves.claim,
+    lock.controlBlock,
+    CLAIM_SEQUENCE,
+    (signature) => getClaimWitness(signature, preimage, lock),
+  );
+}
+
+/**
+ * User's unilateral refund of a swap lock through the refund leaf
+ * nSequence is the leaf's CSV timeout, so the transaction is only valid once the
+ * lock output has that many confirmations.
+ * @throws Error if the key is not the user's or the fee is invalid
+ */
+export function buildRefundTx(params: SwapSpendParams): SwapSpendResult {
+  const { lock } = params;
+  return buildLeafSpendTx(
+    params,
+    lock.leaves.refund,
+    lock.controlBlockRefund,
+    getRefundTimeout(lock),
+    (signature) => getRefundWitness(signature, lock),
+  );
+}
+
 /**
  * Computes a deterministic SHA256 hash of Asset Metadata
  * Only includes immutable fields that define the asset's identity:
@@ -176,11 +532,13 @@ export function getAssetHash(metadata: AssetMetadata): Buffer {
  *
  * @param userPubkey - User's x-only public key (32 bytes)
  * @param metadata - Asset metadata to generate deterministic address
- * @returns Taproot address string (bcrt1p...)
+ * @param network - Network the address is encoded for
+ * @returns Taproot address string (bcrt1p... on regtest, tb1p... on signet/testnet)
  */
 export function createAssetPayToPublicKey(
   userPubkey: Buffer,
   metadata: AssetMetadata,
+  network: ArkNetwork = DEFAULT_NETWORK,
 ): string {
   // Validate userPubkey
   if (userPubkey.length !== 32) {
@@ -206,7 +564,7 @@ export function createAssetPayToPublicKey(
   // This matches the signing logic in signPondEntry which applies both asset and Taproot tweaks
   const payment = bitcoin.payments.p2tr({
     internalPubkey: tweakedPubkey,
-    network: NETWORK,
+    network: getBitcoinNetwork(network),
   });
 
   if (!payment.address) {
@@ -225,6 +583,7 @@ export function createAssetLock(
   metadata: AssetMetadata,
 ): SwapLockResult {
   const { makerPubkey, userPubkey, preimageHash, timeoutBlocks } = params;
+  const network = getBitcoinNetwork(params.network);
 
   // Validate params (same validation as createSwapLock)
   if (makerPubkey.length !== 32) {
@@ -243,10 +602,13 @@ export function createAssetLock(
   // 1. Calculate asset tweak from metadata hash
   const assetTweak = getAssetHash(metadata);
 
-  // 2. Tweak the H_POINT to create asset-specific internal key
+  // 2. Tweak the lock's internal key (H_POINT, or the cooperative aggregate)
   // This creates a new public key that is unique to this asset
-  // Use xOnlyPointAddTweak since H_POINT is an x-only point (32 bytes)
-  const tweakResult = ecc.xOnlyPointAddTweak(H_POINT, assetTweak);
+  // Use xOnlyPointAddTweak since the internal key is an x-only point (32 bytes)
+  const tweakResult = ecc.xOnlyPointAddTweak(
+    getLockInternalKey(params),
+    assetTweak,
+  );
   if (!tweakResult || !tweakResult.xOnlyPubkey) {
     throw new Error(
       'Failed to generate asset internal key (xOnlyPointAddTweak returned null)',
@@ -283,7 +645,7 @@ export function createAssetLock(
   const lockPayment = bitcoin.payments.p2tr({
     internalPubkey: assetInternalKey,
     scriptTree,
-    network: NETWORK,
+    network,
   });
 
   if (!lockPayment.address || !lockPayment.output) {
@@ -295,14 +657,14 @@ export function createAssetLock(
     internalPubkey: assetInternalKey,
     scriptTree,
     redeem: { output: claimScript },
-    network: NETWORK,
+    network,
   });
 
   const refundPayment = bitcoin.payments.p2tr({
     internalPubkey: assetInternalKey,
     scriptTree,
     redeem: { output: refundScript },
-    network: NETWORK,
+    network,
   });
 
   if (!claimPayment.witness || !refundPayment.witness) {
@@ -324,5 +686,8 @@ export function createAssetLock(
       claim: claimScript,
       refund: refundScript,
     },
+    keyPath: getCooperativeKeyPath(params, assetInternalKey, lockPayment.hash, [
+      assetTweak,
+    ]),
   };
 }
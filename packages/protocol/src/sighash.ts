@@ -0,0 +1,230 @@
+import * as bitcoin from 'bitcoinjs-lib';
+import * as ecc from '@bitcoinerlab/secp256k1';
+import type { ArkInput, ArkOutput, ArkTransaction, ECCLibrary } from './index';
+import { DEFAULT_NETWORK, getBitcoinNetwork, type ArkNetwork } from './network';
+
+bitcoin.initEccLib(ecc);
+
+/**
+ * Ark Transaction Versions
+ * - 1 (legacy, deprecated): every input signs getTxHash, the ad-hoc "ark_tx:..." string hash
+ * - 2 (taproot): every input signs its own BIP-341 key-path sighash of the virtual transaction
+ *
+ * A transaction without a version is treated as legacy.
+ */
+export const ARK_TX_VERSION_LEGACY = 1;
+export const ARK_TX_VERSION_TAPROOT = 2;
+
+/**
+ * BIP-341 sighash types an input may sign with (version 2 only)
+ * - DEFAULT / ALL: the signature commits to every input and every output
+ * - SINGLE: only the output at the input's own index is committed
+ * - ANYONECANPAY (| ALL or SINGLE): only the input itself is committed, so others
+ *   can add inputs afterwards (e.g. batching several users into one transfer)
+ *
+ * SIGHASH_NONE is not supported: it would let anyone redirect every output.
+ */
+export const SIGHASH_DEFAULT = 0x00;
+export const SIGHASH_ALL = 0x01;
+export const SIGHASH_SINGLE = 0x03;
+export const SIGHASH_ANYONECANPAY = 0x80;
+
+export const ARK_SIGHASH_TYPES: readonly number[] = [
+  SIGHASH_DEFAULT,
+  SIGHASH_ALL,
+  SIGHASH_SINGLE,
+  SIGHASH_ALL | SIGHASH_ANYONECANPAY,
+  SIGHASH_SINGLE | SIGHASH_ANYONECANPAY,
+];
+
+export function isSupportedSighashType(sighashType: number): boolean {
+  return ARK_SIGHASH_TYPES.includes(sighashType);
+}
+
+/**
+ * The output being spent by an input: its scriptPubKey and amount
+ * BIP-341 sighashes commit to every prevout, so all of them are required.
+ */
+export interface ArkPrevout {
+  script: Buffer;
+  amount: number;
+}
+
+/**
+ * Inputs and outputs of a transaction; signatures are not part of what is signed
+ */
+export interface UnsignedArkTransaction {
+  inputs: Omit<ArkInput, 'signature'>[];
+  outputs: ArkOutput[];
+}
+
+export function getArkTxVersion(tx: Pick<ArkTransaction, 'version'>): number {
+  return tx.version ?? ARK_TX_VERSION_LEGACY;
+}
+
+/**
+ * The prevout of a VTXO from its address and amount
+ * @throws Error if address is not an address of network
+ */
+export function getVtxoPrevout(
+  address: string,
+  amount: number,
+  network: ArkNetwork = DEFAULT_NETWORK,
+): ArkPrevout {
+  return {
+    script: bitcoin.address.toOutputScript(address, getBitcoinNetwork(network)),
+    amount,
+  };
+}
+
+/**
+ * Serializes an Ark transaction as a virtual Bitcoin transaction (never broadcast)
+ * - version 2, locktime 0, final sequences
+ * - one input per VTXO (txid:vout) with its prevout as witnessUtxo
+ * - one output per Ark output, paying the address's scriptPubKey (decoded for network)
+ */
+export function buildVirtualTx(
+  tx: UnsignedArkTransaction,
+  prevouts: ArkPrevout[],
+  network: ArkNetwork = DEFAULT_NETWORK,
+): bitcoin.Psbt {
+  if (prevouts.length !== tx.inputs.length) {
+    throw new Error(
+      `Expected ${tx.inputs.length} prevouts, got ${prevouts.length}`,
+    );
+  }
+
+  const psbt = new bitcoin.Psbt({ network: getBitcoinNetwork(network) });
+  psbt.setVersion(2);
+  psbt.setLocktime(0);
+
+  tx.inputs.forEach((input, index) => {
+    psbt.addInput({
+      hash: input.txid,
+      index: input.vout,
+      sequence: 0xffffffff,
+      witnessUtxo: {
+        script: prevouts[index].script,
+        value: prevouts[index].amount,
+      },
+    });
+  });
+
+  for (const output of tx.outputs) {
+    psbt.addOutput({ address: output.address, value: output.amount });
+  }
+
+  return psbt;
+}
+
+/**
+ * The sighash type an input signs with
+ * @throws Error if the type is unsupported, or SIGHASH_SINGLE has no output at the
+ * input's index (invalid under BIP-341)
+ */
+export function getInputSighashType(
+  tx: UnsignedArkTransaction,
+  inputIndex: number,
+): number {
+  const sighashType = tx.inputs[inputIndex].sighashType ?? SIGHASH_DEFAULT;
+  if (!isSupportedSighashType(sighashType)) {
+    throw new Error(`Unsupported sighash type: 0x${sighashType.toString(16)}`);
+  }
+  if (
+    (sighashType & 0x03) === SIGHASH_SINGLE &&
+    inputIndex >= tx.outputs.length
+  ) {
+    throw new Error(
+      `SIGHASH_SINGLE input ${inputIndex} has no output at the same index`,
+    );
+  }
+  return sighashType;
+}
+
+/**
+ * BIP-341 key-path sighash of one input of the virtual transaction, for the input's
+ * sighashType (default SIGHASH_DEFAULT)
+ * Binds the signature to the input's index and, unless ANYONECANPAY, to the amount
+ * and script of every prevout, so it cannot be moved to another input or reused
+ * with other amounts.
+ * With a leafHash (see getTapleafHash) it is the BIP-342 script-path sighash instead,
+ * which also commits to the leaf being executed.
+ * Output addresses are decoded for network (see buildVirtualTx).
+ * @returns 32-byte sighash as hex
+ */
+export function getTaprootSighash(
+  tx: UnsignedArkTransaction,
+  prevouts: ArkPrevout[],
+  inputIndex: number,
+  leafHash?: Buffer,
+  network: ArkNetwork = DEFAULT_NETWORK,
+): string {
+  if (inputIndex < 0 || inputIndex >= tx.inputs.length) {
+    throw new Error(`Input index out of range: ${inputIndex}`);
+  }
+
+  const sighashType = getInputSighashType(tx, inputIndex);
+  const psbt = buildVirtualTx(tx, prevouts, network);
+  const unsigned = bitcoin.Transaction.fromBuffer(
+    psbt.data.globalMap.unsignedTx.toBuffer(),
+  );
+
+  return unsigned
+    .hashForWitnessV1(
+      inputIndex,
+      prevouts.map((prevout) => prevout.script),
+      prevouts.map((prevout) => prevout.amount),
+      sighashType,
+      leafHash,
+    )
+    .toString('hex');
+}
+
+/**
+ * The 32-byte output key of a Taproot scriptPubKey (OP_1 <32 bytes>), or null
+ */
+export function getTaprootOutputKey(script: Buffer): Buffer | null {
+  if (script.length !== 34 || script[0] !== 0x51 || script[1] !== 0x20) {
+    return null;
+  }
+  return Buffer.from(script.subarray(2, 34));
+}
+
+/**
+ * Verifies the signature of one input against its own sighash, using the output key
+ * of the prevout it spends (the signer must own that script)
+ * Returns false (never throws) for malformed signatures, non-Taproot prevouts or
+ * transactions whose sighash cannot be computed.
+ */
+export function verifyInputSignature(
+  ecc: ECCLibrary,
+  tx: UnsignedArkTransaction,
+  prevouts: ArkPrevout[],
+  inputIndex: number,
+  signatureHex: string,
+  network: ArkNetwork = DEFAULT_NETWORK,
+): boolean {
+  const prevout = prevouts[inputIndex];
+  const outputKey = prevout && getTaprootOutputKey(prevout.script);
+  if (!outputKey || !/^[0-9a-fA-F]{128}$/.test(signatureHex)) {
+    return false;
+  }
+
+  try {
+    // Throws on transactions it cannot serialize (e.g. an invalid output address)
+    const sighash = getTaprootSighash(
+      tx,
+      prevouts,
+      inputIndex,
+      undefined,
+      network,
+    );
+    return ecc.verifySchnorr(
+      Buffer.from(sighash, 'hex'),
+      outputKey,
+      Buffer.from(signatureHex, 'hex'),
+    );
+  } catch {
+    return false;
+  }
+}
@@ -0,0 +1,111 @@
+import * as bitcoin from 'bitcoinjs-lib';
+import * as ecc from '@bitcoinerlab/secp256k1';
+
+/**
+ * Leaf version of every script this protocol commits to (BIP-342 Tapscript)
+ */
+export const TAPSCRIPT_LEAF_VERSION = 0xc0;
+
+// Control block: [leaf version | parity] [internal key (32)] [path (32 * m)], m <= 128
+const CONTROL_BLOCK_BASE_SIZE = 33;
+const CONTROL_BLOCK_NODE_SIZE = 32;
+const CONTROL_BLOCK_MAX_NODES = 128;
+
+/**
+ * BIP-341 compact size prefix of a serialized script
+ */
+function encodeCompactSize(length: number): Buffer {
+  if (length < 0xfd) {
+    return Buffer.from([length]);
+  }
+  if (length > 0xffff) {
+    throw new Error(`Script too large: ${length} bytes`);
+  }
+  const prefixed = Buffer.alloc(3);
+  prefixed[0] = 0xfd;
+  prefixed.writeUInt16LE(length, 1);
+  return prefixed;
+}
+
+/**
+ * TapLeaf hash of a Tapscript leaf: tagged_hash("TapLeaf", version || compact_size(script) || script)
+ * This is the leaf hash committed by the script-path sighash (BIP-342).
+ */
+export function getTapleafHash(
+  leafScript: Buffer,
+  leafVersion = TAPSCRIPT_LEAF_VERSION,
+): Buffer {
+  return bitcoin.crypto.taggedHash(
+    'TapLeaf',
+    Buffer.concat([
+      Buffer.from([leafVersion]),
+      encodeCompactSize(leafScript.length),
+      leafScript,
+    ]),
+  );
+}
+
+/**
+ * Checks that a control block proves leafScript is committed to by a Taproot output key
+ * Walks the Merkle path from the leaf to the root, tweaks the internal key with it and
+ * compares the result (key and parity) against the output key (BIP-341 script path).
+ * Returns false (never throws) for malformed control blocks.
+ */
+export function verifyTaprootCommitment(
+  outputKey: Buffer,
+  leafScript: Buffer,
+  controlBlock: Buffer,
+): boolean {
+  const pathLength = controlBlock.length - CONTROL_BLOCK_BASE_SIZE;
+  if (
+    outputKey.length !== 32 ||
+    pathLength < 0 ||
+    pathLength % CONTROL_BLOCK_NODE_SIZE !== 0 ||
+    pathLength / CONTROL_BLOCK_NODE_SIZE > CONTROL_BLOCK_MAX_NODES
+  ) {
+    return false;
+  }
+
+  const leafVersion = controlBlock[0] & 0xfe;
+  if (leafVersion !== TAPSCRIPT_LEAF_VERSION) {
+    return false;
+  }
+  const parity = controlBlock[0] & 0x01;
+  const internalKey = controlBlock.subarray(1, CONTROL_BLOCK_BASE_SIZE);
+
+  let node = getTapleafHash(leafScript, leafVersion);
+  for (
+    let offset = CONTROL_BLOCK_BASE_SIZE;
+    offset < controlBlock.length;
+    offset += CONTROL_BLOCK_NODE_SIZE
+  ) {
+    const sibling = controlBlock.subarray(
+      offset,
+      offset + CONTROL_BLOCK_NODE_SIZE,
+    );
+    // Branches hash their children in lexicographic order
+    node =
+      Buffer.compare(node, sibling) < 0
+        ? bitcoin.crypto.taggedHash('TapBranch', Buffer.concat([node, sibling]))
+        : bitcoin.crypto.taggedHash(
+            'TapBranch',
+            Buffer.concat([sibling, node]),
+          );
+  }
+
+  const tweak = bitcoin.crypto.taggedHash(
+    'TapTweak',
+    Buffer.concat([internalKey, node]),
+  );
+  try {
+    const tweaked = ecc.xOnlyPointAddTweak(internalKey, tweak);
+    return (
+      tweaked !== null &&
+      tweaked.parity === parity &&
+      Buffer.from(tweaked.xOnlyPubkey).equals(outputKey)
+    );
+  } catch {
+    // Internal key is not a valid x-only point
+    return false;
+  }
+}
@@ -0,0 +1,199 @@
+import * as bitcoin from 'bitcoinjs-lib';
+import * as ecc from '@bitcoinerlab/secp256k1';
+import { verifyTaprootCommitment } from './taproot';
+
+const { opcodes } = bitcoin;
+
+// BIP-68 / BIP-112 relative lock-time flags
+const SEQUENCE_DISABLE_FLAG = 1 << 31;
+const SEQUENCE_TYPE_FLAG = 1 << 22;
+const SEQUENCE_MASK = 0x0000ffff;
+
+// BIP-341: a last witness item starting with 0x50 is an annex
+const ANNEX_TAG = 0x50;
+
+/**
+ * What a leaf script is executed against
+ * - sighash: BIP-342 script-path sighash of the spending input (what OP_CHECKSIG verifies)
+ * - age: relative age of the spent output, in blocks on-chain (the input's nSequence)
+ *   or in rounds for VTXOs on the ASP; OP_CHECKSEQUENCEVERIFY compares against it
+ */
+export interface TapscriptContext {
+  sighash: Buffer;
+  age: number;
+}
+
+/**
+ * Script number truthiness: any non-zero byte, except a trailing sign bit (negative zero)
+ */
+function isTrue(item: Buffer): boolean {
+  return item.some(
+    (byte, i) => byte !== 0 && !(i === item.length - 1 && byte === 0x80),
+  );
+}
+
+/**
+ * Pops a public key and a signature and checks the signature against context.sighash
+ * BIP-342: an empty signature is false, any other failure aborts the script.
+ */
+function checkSignature(
+  opcode: string,
+  pop: (opcode: string) => Buffer,
+  context: TapscriptContext,
+): boolean {
+  const pubkey = pop(opcode);
+  const signature = pop(opcode);
+  if (pubkey.length !== 32) {
+    throw new Error(`${opcode}: public key must be 32 bytes`);
+  }
+  if (signature.length === 0) {
+    return false;
+  }
+  if (
+    signature.length !== 64 ||
+    !ecc.verifySchnorr(context.sighash, pubkey, signature)
+  ) {
+    throw new Error(`${opcode}: invalid signature`);
+  }
+  return true;
+}
+
+/**
+ * Executes a Tapscript leaf against its initial stack (witness items bottom to top,
+ * without the leaf script and control block)
+ *
+ * Supports the opcode subset the swap locks emit:
+ * - data pushes, OP_0, OP_1..OP_16
+ * - OP_SHA256, OP_EQUALVERIFY, OP_DROP
+ * - OP_CHECKSIG (BIP-340 Schnorr against context.sighash, 64-byte signatures only)
+ * - OP_CHECKSIGVERIFY (as OP_CHECKSIG, but fails on false and pushes nothing)
+ * - OP_CHECKSEQUENCEVERIFY (block-based relative lock times against context.age)
+ *
+ * Succeeds if exactly one true item is left on the stack (BIP-342 clean stack).
+ * @throws Error describing the first failing operation
+ */
+export function executeTapscript(
+  leafScript: Buffer,
+  witnessStack: Buffer[],
+  context: TapscriptContext,
+): void {
+  const chunks = bitcoin.script.decompile(leafScript);
+  if (!chunks) {
+    throw new Error('Leaf script cannot be decoded');
+  }
+
+  const stack = [...witnessStack];
+  const pop = (opcode: string) => {
+    const item = stack.pop();
+    if (!item) {
+      throw new Error(`${opcode}: stack underflow`);
+    }
+    return item;
+  };
+
+  for (const chunk of chunks) {
+    if (typeof chunk !== 'number') {
+      stack.push(Buffer.from(chunk));
+      continue;
+    }
+
+    switch (chunk) {
+      case opcodes.OP_0:
+        stack.push(Buffer.alloc(0));
+        break;
+      case opcodes.OP_SHA256:
+        stack.push(bitcoin.crypto.sha256(pop('OP_SHA256')));
+        break;
+      case opcodes.OP_EQUALVERIFY: {
+        const a = pop('OP_EQUALVERIFY');
+        const b = pop('OP_EQUALVERIFY');
+        if (!a.equals(b)) {
+          throw new Error('OP_EQUALVERIFY: items are not equal');
+        }
+        break;
+      }
+      case opcodes.OP_DROP:
+        pop('OP_DROP');
+        break;
+      case opcodes.OP_CHECKSIG:
+        stack.push(
+          checkSignature('OP_CHECKSIG', pop, context)
+            ? Buffer.from([1])
+            : Buffer.alloc(0),
+        );
+        break;
+      case opcodes.OP_CHECKSIGVERIFY:
+        if (!checkSignature('OP_CHECKSIGVERIFY', pop, context)) {
+          throw new Error('OP_CHECKSIGVERIFY: empty signature');
+        }
+        break;
+      case opcodes.OP_CHECKSEQUENCEVERIFY: {
+        const top = stack[stack.length - 1];
+        if (!top) {
+          throw new Error('OP_CHECKSEQUENCEVERIFY: stack underflow');
+        }
+        const sequence = bitcoin.script.number.decode(top, 5);
+        if (sequence < 0) {
+          throw new Error('OP_CHECKSEQUENCEVERIFY: negative lock time');
+        }
+        if (sequence & SEQUENCE_DISABLE_FLAG) {
+          break;
+        }
+        if (sequence & SEQUENCE_TYPE_FLAG) {
+          throw new Error(
+            'OP_CHECKSEQUENCEVERIFY: time-based lock times are not supported',
+          );
+        }
+        const required = sequence & SEQUENCE_MASK;
+        if (context.age < required) {
+          throw new Error(
+            `OP_CHECKSEQUENCEVERIFY: relative age ${context.age} < ${required}`,
+          );
+        }
+        break;
+      }
+      default:
+        if (chunk >= opcodes.OP_1 && chunk <= opcodes.OP_16) {
+          stack.push(bitcoin.script.number.encode(chunk - opcodes.OP_1 + 1));
+          break;
+        }
+        throw new Error(
+          `Unsupported opcode: ${bitcoin.script.toASM([chunk]) || chunk}`,
+        );
+    }
+  }
+
+  if (stack.length !== 1 || !isTrue(stack[0])) {
+    throw new Error('Script did not leave exactly one true item on the stack');
+  }
+}
+
+/**
+ * Verifies a complete BIP-341 script-path witness against a Taproot output key:
+ * [...stack, leafScript, controlBlock]
+ * The control block must commit the leaf to outputKey, then the leaf is executed
+ * on the remaining items (see executeTapscript). Annexes are not supported.
+ * @throws Error if the witness is malformed, the leaf is not committed or execution fails
+ */
+export function verifyTapscriptWitness(
+  outputKey: Buffer,
+  witness: Buffer[],
+  context: TapscriptContext,
+): void {
+  if (witness.length < 2) {
+    throw new Error(
+      'Script-path witness needs a leaf script and control block',
+    );
+  }
+  if (witness[witness.length - 1][0] === ANNEX_TAG) {
+    throw new Error('Witness annexes are not supported');
+  }
+
+  const controlBlock = witness[witness.length - 1];
+  const leafScript = witness[witness.length - 2];
+  if (!verifyTaprootCommitment(outputKey, leafScript, controlBlock)) {
+    throw new Error('Leaf script is not committed to by the output key');
+  }
+
+  executeTapscript(leafScript, witness.slice(0, -2), context);
+}
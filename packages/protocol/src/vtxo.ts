@@ -0,0 +1,45 @@
+import * as bitcoin from 'bitcoinjs-lib';
+import type { TxId } from './index';
+import { asTxId } from './index';
+
+/**
+ * Derives the txid of a VTXO from the content that created it
+ *
+ * Format: sha256("ark_vtxo:<roundId>:<sourceHash>:<outputIndex>")
+ *
+ * - roundId: The round that issued the VTXO
+ * - sourceHash: The transfer hash (getTxHash) or lift hash that produced the output
+ * - outputIndex: Position of the output within its source
+ *
+ * The same round replayed with the same sources always yields the same ids,
+ * and any VTXO can be traced back to the transfer that created it.
+ */
+export function deriveVtxoTxid(
+  roundId: string,
+  sourceHash: string,
+  outputIndex: number,
+): TxId {
+  if (!Number.isInteger(outputIndex) || outputIndex < 0) {
+    throw new Error('outputIndex must be a non-negative integer');
+  }
+
+  const payload = `ark_vtxo:${roundId}:${sourceHash}:${outputIndex}`;
+  return asTxId(
+    bitcoin.crypto.sha256(Buffer.from(payload, 'utf8')).toString('hex'),
+  );
+}
+
+/**
+ * Computes the source hash for a lift (onboarding) request
+ * The queue index disambiguates identical lifts scheduled in the same round
+ *
+ * Format: sha256("ark_lift:<queueIndex>:<address>:<amount>")
+ */
+export function getLiftHash(
+  address: string,
+  amount: number,
+  queueIndex: number,
+): string {
+  const payload = `ark_lift:${queueIndex}:${address}:${amount}`;
+  return bitcoin.crypto.sha256(Buffer.from(payload, 'utf8')).toString('hex');
+}
@@ -0,0 +1,154 @@
+import * as bitcoin from 'bitcoinjs-lib';
+import ecc from '@bitcoinerlab/secp256k1';
+import { ECPairFactory } from 'ecpair';
+import {
+  completeAdaptorSignature,
+  createAdaptorSignature,
+  extractAdaptorSecret,
+  getAdaptorPoint,
+  verifyAdaptorSignature,
+} from '../src/adaptor';
+
+const ECPair = ECPairFactory(ecc);
+
+describe('Adaptor signatures', () => {
+  const signer = ECPair.makeRandom();
+  const pubkey = signer.publicKey.subarray(1, 33);
+  const secret = ECPair.makeRandom().privateKey!;
+  const adaptorPoint = getAdaptorPoint(secret);
+  const message = bitcoin.crypto.sha256(Buffer.from('claim transfer'));
+
+  const adaptorSignature = createAdaptorSignature(
+    signer.privateKey!,
+    message,
+    adaptorPoint,
+  );
+
+  it('should verify against the adaptor point but not as a signature', () => {
+    expect(adaptorSignature).toHaveLength(64);
+    expect(
+      verifyAdaptorSignature(pubkey, message, adaptorPoint, adaptorSignature),
+    ).toBe(true);
+    expect(ecc.verifySchnorr(message, pubkey, adaptorSignature)).toBe(false);
+  });
+
+  it('should complete into a valid BIP-340 signature', () => {
+    const signature = completeAdaptorSignature(adaptorSignature, secret);
+
+    expect(ecc.verifySchnorr(message, pubkey, signature)).toBe(true);
+  });
+
+  it('should extract the secret from the completed signature', () => {
+    const signature = completeAdaptorSignature(adaptorSignature, secret);
+
+    expect(
+      extractAdaptorSecret(adaptorSignature, signature, adaptorPoint).equals(
+        secret,
+      ),
+    ).toBe(true);
+  });
+
+  it('should sign with keys of either Y parity', () => {
+    for (let i = 0; i < 8; i++) {
+      const key = ECPair.makeRandom();
+      const sig = completeAdaptorSignature(
+        createAdaptorSignature(key.privateKey!, message, adaptorPoint),
+        secret,
+      );
+
+      expect(
+        ecc.verifySchnorr(message, key.publicKey.subarray(1, 33), sig),
+      ).toBe(true);
+    }
+  });
+
+  it('should be deterministic, and vary with auxRand', () => {
+    const again = createAdaptorSignature(
+      signer.privateKey!,
+      message,
+      adaptorPoint,
+    );
+    const randomized = createAdaptorSignature(
+      signer.privateKey!,
+      message,
+      adaptorPoint,
+      Buffer.alloc(32, 7),
+    );
+
+    expect(again.equals(adaptorSignature)).toBe(true);
+    expect(randomized.equals(adaptorSignature)).toBe(false);
+  });
+
+  describe('verification failures', () => {
+    const otherPoint = getAdaptorPoint(ECPair.makeRandom().privateKey!);
+
+    it('should reject another adaptor point, message or key', () => {
+      expect(
+        verifyAdaptorSignature(pubkey, message, otherPoint, adaptorSignature),
+      ).toBe(false);
+      expect(
+        verifyAdaptorSignature(
+          pubkey,
+          bitcoin.crypto.sha256(Buffer.from('other')),
+          adaptorPoint,
+          adaptorSignature,
+        ),
+      ).toBe(false);
+      expect(
+        verifyAdaptorSignature(
+          ECPair.makeRandom().publicKey.subarray(1, 33),
+          message,
+          adaptorPoint,
+          adaptorSignature,
+        ),
+      ).toBe(false);
+    });
+
+    it('should return false for malformed inputs', () => {
+      expect(
+        verifyAdaptorSignature(
+          pubkey,
+          message,
+          adaptorPoint,
+          adaptorSignature.subarray(0, 63),
+        ),
+      ).toBe(false);
+      expect(
+        verifyAdaptorSignature(
+          pubkey,
+          message,
+          Buffer.alloc(33, 2),
+          adaptorSignature,
+        ),
+      ).toBe(false);
+    });
+  });
+
+  describe('extraction failures', () => {
+    it('should reject a signature with another nonce', () => {
+      const unrelated = Buffer.from(signer.signSchnorr(message));
+
+      expect(() => extractAdaptorSecret(adaptorSignature, unrelated)).toThrow(
+        'Signature was not completed from this adaptor signature',
+      );
+    });
+
+    it('should reject a completion with another secret', () => {
+      const other = ECPair.makeRandom().privateKey!;
+      const signature = completeAdaptorSignature(adaptorSignature, other);
+
+      expect(() =>
+        extractAdaptorSecret(adaptorSignature, signature, adaptorPoint),
+      ).toThrow('Extracted secret does not match the adaptor point');
+    });
+  });
+
+  it('should reject invalid secrets and adaptor points', () => {
+    expect(() => getAdaptorPoint(Buffer.alloc(32))).toThrow(
+      'Adaptor secret must be a valid 32-byte scalar',
+    );
+    expect(() =>
+      createAdaptorSignature(signer.privateKey!, message, pubkey),
+    ).toThrow('Adaptor point must be a 33-byte compressed point');
+  });
+});
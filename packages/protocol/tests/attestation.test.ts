@@ -0,0 +1,113 @@
+import { randomBytes } from 'crypto';
+import ecc from '@bitcoinerlab/secp256k1';
+import type { AssetMetadata, ECCLibrary } from '../src/index';
+import {
+  getGenesisHash,
+  getRoundSummaryHash,
+  getTransferReceiptHash,
+  verifyAspSignature,
+} from '../src/attestation';
+
+describe('ASP attestations', () => {
+  const privateKey = randomBytes(32);
+  const aspPubkey = Buffer.from(ecc.pointFromScalar(privateKey, true)!)
+    .subarray(1)
+    .toString('hex');
+
+  const sign = (hashHex: string) =>
+    Buffer.from(
+      ecc.signSchnorr(Buffer.from(hashHex, 'hex'), privateKey),
+    ).toString('hex');
+
+  const summary = {
+    roundId: '7f1c2b9e-3d4a-4c5b-8e6f-0a1b2c3d4e5f',
+    roundHeight: 3,
+    timestamp: '2024-01-01T00:00:00.000Z',
+    anchorTxid: null,
+    merkleRoot: 'a'.repeat(64),
+    vtxoCount: 2,
+  };
+
+  it('should verify a signed round summary', () => {
+    const hash = getRoundSummaryHash(summary);
+
+    expect(
+      verifyAspSignature(ecc as ECCLibrary, aspPubkey, hash, sign(hash)),
+    ).toBe(true);
+  });
+
+  it('should reject a signature over a tampered statement', () => {
+    const signature = sign(getRoundSummaryHash(summary));
+    const tampered = getRoundSummaryHash({ ...summary, vtxoCount: 3 });
+
+    expect(
+      verifyAspSignature(ecc as ECCLibrary, aspPubkey, tampered, signature),
+    ).toBe(false);
+  });
+
+  it('should reject a signature from another key', () => {
+    const hash = getTransferReceiptHash({
+      status: 'queued',
+      transferId: 'b'.repeat(64),
+      roundId: summary.roundId,
+      outputs: [],
+    });
+    const otherPubkey = Buffer.from(ecc.pointFromScalar(randomBytes(32), true)!)
+      .subarray(1)
+      .toString('hex');
+
+    expect(
+      verifyAspSignature(ecc as ECCLibrary, otherPubkey, hash, sign(hash)),
+    ).toBe(false);
+  });
+
+  it('should return false for malformed keys and signatures', () => {
+    const hash = getRoundSummaryHash(summary);
+
+    expect(verifyAspSignature(ecc as ECCLibrary, 'zz', hash, sign(hash))).toBe(
+      false,
+    );
+    expect(verifyAspSignature(ecc as ECCLibrary, aspPubkey, hash, 'abcd')).toBe(
+      false,
+    );
+  });
+
+  it('should hash genesis responses independently of key order', () => {
+    const metadata: AssetMetadata = {
+      dna: 'c'.repeat(64) as AssetMetadata['dna'],
+      generation: 0,
+      cooldownBlock: 110,
+      lastFedBlock: 0,
+      xp: 0,
+      parents: [],
+    };
+    const { dna, ...rest } = metadata;
+    const reordered = { ...rest, dna } as AssetMetadata;
+
+    expect(getGenesisHash({ address: 'bcrt1p', amount: 1000, metadata })).toBe(
+      getGenesisHash({ address: 'bcrt1p', amount: 1000, metadata: reordered }),
+    );
+  });
+
+  it('should bind a transfer receipt to its status and outputs', () => {
+    const receipt = {
+      status: 'queued' as const,
+      transferId: 'b'.repeat(64),
+      roundId: summary.roundId,
+      outputs: [
+        { txid: 'c'.repeat(64), vout: 0, address: 'bcrt1p', amount: 600 },
+      ],
+    };
+    const hash = getTransferReceiptHash(receipt);
+
+    expect(
+      getTransferReceiptHash({ ...receipt, status: 'finalized' }),
+    ).not.toBe(hash);
+    expect(
+      getTransferReceiptHash({
+        ...receipt,
+        outputs: [{ ...receipt.outputs[0], amount: 601 }],
+      }),
+    ).not.toBe(hash);
+  });
+});
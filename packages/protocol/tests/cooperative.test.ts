@@ -0,0 +1,216 @@
+import * as bitcoin from 'bitcoinjs-lib';
+import ecc from '@bitcoinerlab/secp256k1';
+import { ECPairFactory } from 'ecpair';
+import { randomBytes } from 'crypto';
+import { asGenome } from '../src/index';
+import {
+  completeCooperativeClose,
+  createCooperativePartialSignature,
+  getCooperativeCloseSighash,
+  verifyCooperativePartialSignature,
+  type CooperativeCloseParams,
+} from '../src/cooperative';
+import {
+  aggregateMusigNonces,
+  aggregateMusigPubkeys,
+  createMusigNonce,
+} from '../src/musig';
+import {
+  createAssetLock,
+  createPtlcLock,
+  createSwapLock,
+  type SwapLockResult,
+} from '../src/script';
+import {
+  getTaprootOutputKey,
+  getVtxoPrevout,
+  verifyInputSignature,
+} from '../src/sighash';
+import { verifyTaprootCommitment } from '../src/taproot';
+
+const ECPair = ECPairFactory(ecc);
+const network = bitcoin.networks.regtest;
+
+describe('Cooperative swap locks', () => {
+  const maker = ECPair.makeRandom({ network });
+  const user = ECPair.makeRandom({ network });
+  const makerPubkey = maker.publicKey.subarray(1, 33);
+  const userPubkey = user.publicKey.subarray(1, 33);
+  const lockParams = {
+    makerPubkey,
+    userPubkey,
+    preimageHash: bitcoin.crypto.sha256(Buffer.from('secret')),
+    timeoutBlocks: 20,
+  };
+  const lock = createSwapLock({ ...lockParams, cooperative: true });
+  const destination = bitcoin.payments.p2tr({
+    internalPubkey: makerPubkey,
+    network,
+  }).address!;
+  const close = (spent: SwapLockResult): CooperativeCloseParams => ({
+    lockVtxo: { txid: 'e'.repeat(64), vout: 1, amount: 10_000 },
+    lock: spent,
+    destination,
+    fee: 0,
+  });
+
+  /**
+   * Both rounds of the cooperative close, as maker and user would run them
+   */
+  function cooperate(spent: SwapLockResult) {
+    const params = close(spent);
+    const message = getCooperativeCloseSighash(params);
+    const outputKey = getTaprootOutputKey(spent.output)!;
+    const makerNonce = createMusigNonce(
+      maker.privateKey!,
+      randomBytes(32),
+      outputKey,
+      message,
+    );
+    const userNonce = createMusigNonce(
+      user.privateKey!,
+      randomBytes(32),
+      outputKey,
+      message,
+    );
+    const aggregateNonce = aggregateMusigNonces([
+      makerNonce.publicNonce,
+      userNonce.publicNonce,
+    ]);
+    const userPartial = createCooperativePartialSignature({
+      ...params,
+      privateKey: user.privateKey!,
+      secretNonce: userNonce.secretNonce,
+      aggregateNonce,
+    });
+    const makerPartial = createCooperativePartialSignature({
+      ...params,
+      privateKey: maker.privateKey!,
+      secretNonce: makerNonce.secretNonce,
+      aggregateNonce,
+    });
+    return { params, aggregateNonce, userNonce, userPartial, makerPartial };
+  }
+
+  describe('key path', () => {
+    it('should aggregate to the output key of the lock', () => {
+      expect(lock.keyPath!.publicKeys).toEqual([makerPubkey, userPubkey]);
+      expect(
+        aggregateMusigPubkeys(
+          lock.keyPath!.publicKeys,
+          lock.keyPath!.tweaks,
+        ).equals(getTaprootOutputKey(lock.output)!),
+      ).toBe(true);
+    });
+
+    it('should keep the leaves as a fallback', () => {
+      const nums = createSwapLock(lockParams);
+
+      expect(nums.keyPath).toBeUndefined();
+      expect(lock.address).not.toBe(nums.address);
+      expect(lock.leaves).toEqual(nums.leaves);
+      expect(
+        verifyTaprootCommitment(
+          getTaprootOutputKey(lock.output)!,
+          lock.leaves.refund,
+          lock.controlBlockRefund,
+        ),
+      ).toBe(true);
+    });
+  });
+
+  describe('completeCooperativeClose', () => {
+    it.each([
+      ['HTLC', lock],
+      ['PTLC', createPtlcLock({ ...lockParams, cooperative: true })],
+      [
+        'asset',
+        createAssetLock(
+          { ...lockParams, cooperative: true },
+          {
+            dna: asGenome('b'.repeat(64)),
+            generation: 0,
+            cooldownBlock: 0,
+            lastFedBlock: 0,
+            xp: 0,
+          },
+        ),
+      ],
+    ])(
+      'should produce a key-path spend of a cooperative %s lock',
+      (_, spent) => {
+        const { params, aggregateNonce, userPartial, makerPartial } =
+          cooperate(spent);
+        const tx = completeCooperativeClose({
+          ...params,
+          aggregateNonce,
+          partialSignatures: [makerPartial, userPartial],
+        });
+
+        // What the ASP checks for inputs without a witness
+        expect(tx.inputs[0].witness).toBeUndefined();
+        expect(
+          verifyInputSignature(
+            ecc,
+            tx,
+            [getVtxoPrevout(spent.address, 10_000)],
+            0,
+            tx.inputs[0].signature,
+          ),
+        ).toBe(true);
+      },
+    );
+
+    it('should refuse a missing partial signature', () => {
+      const { params, aggregateNonce, makerPartial } = cooperate(lock);
+
+      expect(() =>
+        completeCooperativeClose({
+          ...params,
+          aggregateNonce,
+          partialSignatures: [makerPartial],
+        }),
+      ).toThrow('Aggregate signature does not verify for the lock');
+    });
+  });
+
+  it("should let the maker check the user's partial signature", () => {
+    const { params, aggregateNonce, userNonce, userPartial, makerPartial } =
+      cooperate(lock);
+    const check = (partialSignature: Buffer) =>
+      verifyCooperativePartialSignature({
+        ...params,
+        publicKey: userPubkey,
+        publicNonce: userNonce.publicNonce,
+        aggregateNonce,
+        partialSignature,
+      });
+
+    expect(check(userPartial)).toBe(true);
+    expect(check(makerPartial)).toBe(false);
+    expect(
+      verifyCooperativePartialSignature({
+        ...params,
+        fee: 100,
+        publicKey: userPubkey,
+        publicNonce: userNonce.publicNonce,
+        aggregateNonce,
+        partialSignature: userPartial,
+      }),
+    ).toBe(false);
+  });
+
+  it('should refuse locks without a key path', () => {
+    const nums = createSwapLock(lockParams);
+    const nonce = createMusigNonce(user.privateKey!, randomBytes(32));
+
+    expect(() =>
+      createCooperativePartialSignature({
+        ...close(nums),
+        privateKey: user.privateKey!,
+        secretNonce: nonce.secretNonce,
+        aggregateNonce: aggregateMusigNonces([nonce.publicNonce]),
+      }),
+    ).toThrow('Lock has no cooperative key path');
+  });
+});
@@ -0,0 +1,187 @@
+import { createHash } from 'crypto';
+import * as bitcoin from 'bitcoinjs-lib';
+import ecc from '@bitcoinerlab/secp256k1';
+import { ECPairFactory } from 'ecpair';
+import type { ECCLibrary } from '../src/index';
+import { createSwapLock } from '../src/script';
+import {
+  getExitRequestHash,
+  getExitTimelock,
+  verifyExitSignature,
+  type ExitRequest,
+} from '../src/exit';
+
+const ECPair = ECPairFactory(ecc);
+const network = bitcoin.networks.regtest;
+
+describe('Exit requests', () => {
+  const txid = 'a'.repeat(64);
+  const vout = 1;
+  const hash = Buffer.from(getExitRequestHash(txid, vout), 'hex');
+
+  const verify = (request: ExitRequest, address: string) =>
+    verifyExitSignature(ecc as ECCLibrary, request, address);
+
+  describe('key path', () => {
+    const owner = ECPair.makeRandom({ network });
+    const internalPubkey = owner.publicKey.subarray(1, 33);
+    const address = bitcoin.payments.p2tr({ internalPubkey, network }).address!;
+    const tweaked = owner.tweak(
+      bitcoin.crypto.taggedHash('TapTweak', internalPubkey),
+    );
+
+    it('should accept a request signed by the output key', () => {
+      const signature = Buffer.from(tweaked.signSchnorr(hash)).toString('hex');
+
+      expect(verify({ txid, vout, signature }, address)).toBe(true);
+    });
+
+    it('should reject a signature over another VTXO or by another key', () => {
+      const signature = Buffer.from(tweaked.signSchnorr(hash)).toString('hex');
+      const stranger = ECPair.makeRandom({ network });
+
+      expect(verify({ txid, vout: 0, signature }, address)).toBe(false);
+      expect(
+        verify(
+          {
+            txid,
+            vout,
+            signature: Buffer.from(stranger.signSchnorr(hash)).toString('hex'),
+          },
+          address,
+        ),
+      ).toBe(false);
+      expect(verify({ txid, vout, signature: 'zz' }, address)).toBe(false);
+    });
+  });
+
+  describe('script path', () => {
+    const maker = ECPair.makeRandom({ network });
+    const user = ECPair.makeRandom({ network });
+    const lock = createSwapLock({
+      makerPubkey: maker.publicKey.subarray(1, 33),
+      userPubkey: user.publicKey.subarray(1, 33),
+      preimageHash: createHash('sha256').update('secret').digest(),
+      timeoutBlocks: 20,
+    });
+    const refundLeaf = {
+      leafScript: lock.leaves.refund.toString('hex'),
+      controlBlock: lock.controlBlockRefund.toString('hex'),
+    };
+
+    it('should accept a request signed by the key of a committed leaf', () => {
+      const signature = Buffer.from(user.signSchnorr(hash)).toString('hex');
+
+      expect(
+        verify({ txid, vout, signature, ...refundLeaf }, lock.address),
+      ).toBe(true);
+    });
+
+    it('should require the preimage of a hashlocked leaf', () => {
+      const signature = Buffer.from(maker.signSchnorr(hash)).toString('hex');
+      const claimLeaf = {
+        leafScript: lock.leaves.claim.toString('hex'),
+        controlBlock: lock.controlBlock.toString('hex'),
+      };
+
+      expect(
+        verify(
+          {
+            txid,
+            vout,
+            signature,
+            ...claimLeaf,
+            preimage: Buffer.from('secret').toString('hex'),
+          },
+          lock.address,
+        ),
+      ).toBe(true);
+      expect(
+        verify({ txid, vout, signature, ...claimLeaf }, lock.address),
+      ).toBe(false);
+      expect(
+        verify(
+          {
+            txid,
+            vout,
+            signature,
+            ...claimLeaf,
+            preimage: Buffer.from('guess').toString('hex'),
+          },
+          lock.address,
+        ),
+      ).toBe(false);
+    });
+
+    it('should reject a leaf key that the leaf does not check', () => {
+      const signature = Buffer.from(maker.signSchnorr(hash)).toString('hex');
+
+      expect(
+        verify({ txid, vout, signature, ...refundLeaf }, lock.address),
+      ).toBe(false);
+    });
+
+    it("should read the relative timelock of the request's leaf", () => {
+      const signature = Buffer.from(user.signSchnorr(hash)).toString('hex');
+      const short = createSwapLock({
+        makerPubkey: maker.publicKey.subarray(1, 33),
+        userPubkey: user.publicKey.subarray(1, 33),
+        preimageHash: createHash('sha256').update('secret').digest(),
+        timeoutBlocks: 6,
+      });
+
+      expect(getExitTimelock({ txid, vout, signature, ...refundLeaf })).toBe(
+        20,
+      );
+      expect(
+        getExitTimelock({
+          txid,
+          vout,
+          signature,
+          leafScript: short.leaves.refund.toString('hex'),
+          controlBlock: short.controlBlockRefund.toString('hex'),
+        }),
+      ).toBe(6);
+      expect(
+        getExitTimelock({
+          txid,
+          vout,
+          signature,
+          leafScript: lock.leaves.claim.toString('hex'),
+          controlBlock: lock.controlBlock.toString('hex'),
+        }),
+      ).toBe(0);
+      expect(getExitTimelock({ txid, vout, signature })).toBe(0);
+    });
+
+    it('should reject a leaf the address does not commit to', () => {
+      const stranger = ECPair.makeRandom({ network });
+      const other = createSwapLock({
+        makerPubkey: maker.publicKey.subarray(1, 33),
+        userPubkey: stranger.publicKey.subarray(1, 33),
+        preimageHash: createHash('sha256').update('secret').digest(),
+        timeoutBlocks: 20,
+      });
+      const signature = Buffer.from(stranger.signSchnorr(hash)).toString('hex');
+
+      expect(
+        verify(
+          {
+            txid,
+            vout,
+            signature,
+            leafScript: other.leaves.refund.toString('hex'),
+            controlBlock: other.controlBlockRefund.toString('hex'),
+          },
+          lock.address,
+        ),
+      ).toBe(false);
+      expect(
+        verify(
+          { txid, vout, signature, leafScript: refundLeaf.leafScript },
+          lock.address,
+        ),
+      ).toBe(false);
+    });
+  });
+});
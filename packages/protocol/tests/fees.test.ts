@@ -0,0 +1,28 @@
+import {
+  FeeScheduleSchema,
+  ZERO_FEE_SCHEDULE,
+  getRequiredFee,
+} from '../src/fees';
+
+describe('Transfer fees', () => {
+  const schedule = { baseFee: 100, perInput: 20, perOutput: 10 };
+
+  it('should charge the base fee plus per-input and per-output fees', () => {
+    expect(getRequiredFee(schedule, 2, 2)).toBe(160);
+    expect(getRequiredFee(schedule, 1, 1)).toBe(130);
+  });
+
+  it('should require no fee under the zero schedule', () => {
+    expect(getRequiredFee(ZERO_FEE_SCHEDULE, 5, 5)).toBe(0);
+  });
+
+  it('should reject negative or fractional fee rates', () => {
+    expect(FeeScheduleSchema.safeParse(schedule).success).toBe(true);
+    expect(
+      FeeScheduleSchema.safeParse({ ...schedule, perInput: -1 }).success,
+    ).toBe(false);
+    expect(
+      FeeScheduleSchema.safeParse({ ...schedule, baseFee: 0.5 }).success,
+    ).toBe(false);
+  });
+});
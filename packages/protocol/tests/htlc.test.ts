@@ -0,0 +1,144 @@
+import * as bitcoin from 'bitcoinjs-lib';
+import ecc from '@bitcoinerlab/secp256k1';
+import { ECPairFactory } from 'ecpair';
+import {
+  getHtlcClaimSighash,
+  getHtlcRefundSighash,
+  signHtlcClaim,
+  signHtlcRefund,
+  type HtlcClaimParams,
+} from '../src/htlc';
+import { createPtlcLock, createSwapLock } from '../src/script';
+import { getTaprootOutputKey } from '../src/sighash';
+import { verifyTapscriptWitness } from '../src/tapscript';
+
+const ECPair = ECPairFactory(ecc);
+const network = bitcoin.networks.regtest;
+
+describe('HTLC claim transfers', () => {
+  const maker = ECPair.makeRandom({ network });
+  const user = ECPair.makeRandom({ network });
+  const makerPubkey = maker.publicKey.subarray(1, 33);
+  const userPubkey = user.publicKey.subarray(1, 33);
+  const preimage = Buffer.from('a'.repeat(64), 'hex');
+
+  const lock = createSwapLock({
+    makerPubkey,
+    userPubkey,
+    preimageHash: bitcoin.crypto.sha256(preimage),
+    timeoutBlocks: 20,
+  });
+  const destination = bitcoin.payments.p2tr({
+    internalPubkey: makerPubkey,
+    network,
+  }).address!;
+  const claim: HtlcClaimParams = {
+    lockVtxo: { txid: 'd'.repeat(64), vout: 1, amount: 10_000 },
+    lock,
+    destination,
+    fee: 20,
+  };
+
+  it('should produce a claim whose witness satisfies the claim leaf', () => {
+    const claimTx = signHtlcClaim({
+      ...claim,
+      privateKey: maker.privateKey!,
+      preimage,
+    });
+    const [input] = claimTx.inputs;
+
+    // As the ASP runs it: [signature, ...stack, leafScript, controlBlock]
+    expect(() =>
+      verifyTapscriptWitness(
+        getTaprootOutputKey(lock.output)!,
+        [input.signature, ...input.witness!.stack]
+          .concat(input.witness!.leafScript, input.witness!.controlBlock)
+          .map((item) => Buffer.from(item, 'hex')),
+        { sighash: getHtlcClaimSighash(claim), age: 0 },
+      ),
+    ).not.toThrow();
+    expect(input.witness!.stack).toEqual([preimage.toString('hex')]);
+    expect(claimTx.outputs).toEqual([{ address: destination, amount: 9_980 }]);
+  });
+
+  it('should refuse the wrong key or preimage', () => {
+    expect(() =>
+      signHtlcClaim({ ...claim, privateKey: user.privateKey!, preimage }),
+    ).toThrow('Private key does not match the maker public key');
+    expect(() =>
+      signHtlcClaim({
+        ...claim,
+        privateKey: maker.privateKey!,
+        preimage: Buffer.alloc(32),
+      }),
+    ).toThrow('Preimage does not match the claim leaf');
+  });
+
+  it('should refuse PTLC locks and fees above the locked amount', () => {
+    expect(() =>
+      signHtlcClaim({
+        ...claim,
+        lock: createPtlcLock({ makerPubkey, userPubkey, timeoutBlocks: 20 }),
+        privateKey: maker.privateKey!,
+        preimage,
+      }),
+    ).toThrow('Lock is not an HTLC lock');
+    expect(() =>
+      signHtlcClaim({
+        ...claim,
+        fee: 10_000,
+        privateKey: maker.privateKey!,
+        preimage,
+      }),
+    ).toThrow('Invalid fee 10000 for a locked amount of 10000');
+  });
+});
+
+describe('HTLC refund transfers', () => {
+  const maker = ECPair.makeRandom({ network });
+  const user = ECPair.makeRandom({ network });
+  const userPubkey = user.publicKey.subarray(1, 33);
+
+  const lock = createSwapLock({
+    makerPubkey: maker.publicKey.subarray(1, 33),
+    userPubkey,
+    preimageHash: bitcoin.crypto.sha256(Buffer.alloc(32, 1)),
+    timeoutBlocks: 20,
+  });
+  const refund: HtlcClaimParams = {
+    lockVtxo: { txid: 'd'.repeat(64), vout: 1, amount: 10_000 },
+    lock,
+    destination: bitcoin.payments.p2tr({ internalPubkey: userPubkey, network })
+      .address!,
+    fee: 20,
+  };
+
+  it('should produce a refund that satisfies the refund leaf once it is old enough', () => {
+    const refundTx = signHtlcRefund({
+      ...refund,
+      privateKey: user.privateKey!,
+    });
+    const [input] = refundTx.inputs;
+    const witness = (age: number) =>
+      verifyTapscriptWitness(
+        getTaprootOutputKey(lock.output)!,
+        [input.signature, ...input.witness!.stack]
+          .concat(input.witness!.leafScript, input.witness!.controlBlock)
+          .map((item) => Buffer.from(item, 'hex')),
+        { sighash: getHtlcRefundSighash(refund), age },
+      );
+
+    expect(() => witness(20)).not.toThrow();
+    expect(() => witness(19)).toThrow('OP_CHECKSEQUENCEVERIFY');
+    expect(input.witness!.leafScript).toBe(lock.leaves.refund.toString('hex'));
+    expect(refundTx.outputs).toEqual([
+      { address: refund.destination, amount: 9_980 },
+    ]);
+  });
+
+  it('should refuse a key other than the refund key', () => {
+    expect(() =>
+      signHtlcRefund({ ...refund, privateKey: maker.privateKey! }),
+    ).toThrow('Private key does not match the refund public key');
+  });
+});
@@ -0,0 +1,153 @@
+import * as bitcoin from 'bitcoinjs-lib';
+import ecc from '@bitcoinerlab/secp256k1';
+import { ECPairFactory, type ECPairInterface } from 'ecpair';
+import type { ECCLibrary, UnsignedArkTransaction } from '../src/index';
+import { asAddress, asTxId, getTxHash } from '../src/index';
+import {
+  getTaprootSighash,
+  getVtxoPrevout,
+  verifyInputSignature,
+  type ArkPrevout,
+} from '../src/sighash';
+
+const ECPair = ECPairFactory(ecc);
+const network = bitcoin.networks.regtest;
+
+/**
+ * A BIP-86 wallet: signs with the TapTweak-ed key of its P2TR address
+ */
+const makeWallet = () => {
+  const keyPair = ECPair.makeRandom({ network });
+  const internalPubkey = keyPair.publicKey.subarray(1, 33);
+  const tweaked: ECPairInterface = keyPair.tweak(
+    bitcoin.crypto.taggedHash('TapTweak', internalPubkey),
+  );
+  const address = bitcoin.payments.p2tr({ internalPubkey, network }).address!;
+  return {
+    address,
+    sign: (hashHex: string) =>
+      Buffer.from(tweaked.signSchnorr(Buffer.from(hashHex, 'hex'))).toString(
+        'hex',
+      ),
+  };
+};
+
+describe('Per-input signature binding', () => {
+  const alice = makeWallet();
+  const bob = makeWallet();
+
+  const coinA = { txid: asTxId('a'.repeat(64)), vout: 0 };
+  const coinB = { txid: asTxId('b'.repeat(64)), vout: 1 };
+
+  const tx: UnsignedArkTransaction = {
+    inputs: [coinA, coinB],
+    outputs: [{ address: asAddress(bob.address), amount: 1400 }],
+  };
+  const prevouts: ArkPrevout[] = [
+    getVtxoPrevout(alice.address, 1000),
+    getVtxoPrevout(alice.address, 500),
+  ];
+
+  const signAll = (
+    signer: ReturnType<typeof makeWallet>,
+    unsigned: UnsignedArkTransaction,
+    spent: ArkPrevout[],
+  ) =>
+    unsigned.inputs.map((_, index) =>
+      signer.sign(getTaprootSighash(unsigned, spent, index)),
+    );
+
+  const verify = (
+    unsigned: UnsignedArkTransaction,
+    spent: ArkPrevout[],
+    index: number,
+    signature: string,
+  ) =>
+    verifyInputSignature(ecc as ECCLibrary, unsigned, spent, index, signature);
+
+  it('should verify each input against its own signature', () => {
+    const signatures = signAll(alice, tx, prevouts);
+
+    expect(verify(tx, prevouts, 0, signatures[0])).toBe(true);
+    expect(verify(tx, prevouts, 1, signatures[1])).toBe(true);
+  });
+
+  it('should not verify a signature transplanted to another input', () => {
+    const [first, second] = signAll(alice, tx, prevouts);
+
+    expect(verify(tx, prevouts, 0, second)).toBe(false);
+    expect(verify(tx, prevouts, 1, first)).toBe(false);
+  });
+
+  it('should not verify a signature after the inputs are reordered', () => {
+    const [first] = signAll(alice, tx, prevouts);
+    const reordered = { ...tx, inputs: [coinB, coinA] };
+    const reorderedPrevouts = [prevouts[1], prevouts[0]];
+
+    expect(verify(reordered, reorderedPrevouts, 1, first)).toBe(false);
+  });
+
+  it('should not verify when a prevout amount differs from the signed one', () => {
+    const [first] = signAll(alice, tx, prevouts);
+    const inflated = [prevouts[0], getVtxoPrevout(alice.address, 5000)];
+
+    expect(verify(tx, inflated, 0, first)).toBe(false);
+  });
+
+  it('should not verify when a prevout script differs from the signed one', () => {
+    const [first] = signAll(alice, tx, prevouts);
+    const substituted = [prevouts[0], getVtxoPrevout(bob.address, 500)];
+
+    expect(verify(tx, substituted, 0, first)).toBe(false);
+  });
+
+  it('should not verify a signature from a key that does not own the prevout', () => {
+    const [forged] = signAll(bob, tx, prevouts);
+
+    expect(verify(tx, prevouts, 0, forged)).toBe(false);
+  });
+
+  it('should not verify a signature reused in a transaction with other outputs', () => {
+    const [first] = signAll(alice, tx, prevouts);
+    const redirected = {
+      ...tx,
+      outputs: [{ address: asAddress(alice.address), amount: 1400 }],
+    };
+
+    expect(verify(redirected, prevouts, 0, first)).toBe(false);
+  });
+
+  it('should return false for malformed signatures', () => {
+    expect(verify(tx, prevouts, 0, 'zz')).toBe(false);
+    expect(verify(tx, prevouts, 0, '00'.repeat(64))).toBe(false);
+  });
+
+  it('should return false instead of throwing when the sighash cannot be computed', () => {
+    const [first] = signAll(alice, tx, prevouts);
+    const unpayable = {
+      ...tx,
+      outputs: [{ address: asAddress('not-an-address'), amount: 1400 }],
+    };
+
+    expect(verify(unpayable, prevouts, 0, first)).toBe(false);
+    expect(verify(tx, prevouts.slice(0, 1), 0, first)).toBe(false);
+    expect(verify(tx, prevouts, 2, first)).toBe(false);
+  });
+
+  it('should show why the legacy digest was replaced: it is shared by every input', async () => {
+    const legacyHash = await getTxHash(tx.inputs, tx.outputs);
+    const legacySignature = alice.sign(legacyHash);
+
+    // The same legacy signature is valid for any input of the same owner
+    const outputKey = bitcoin.address.fromBech32(alice.address).data;
+    expect(
+      ecc.verifySchnorr(
+        Buffer.from(legacyHash, 'hex'),
+        outputKey,
+        Buffer.from(legacySignature, 'hex'),
+      ),
+    ).toBe(true);
+    expect(verify(tx, prevouts, 0, legacySignature)).toBe(false);
+    expect(verify(tx, prevouts, 1, legacySignature)).toBe(false);
+  });
+});
@@ -0,0 +1,105 @@
+import {
+  decodeRoundCommitment,
+  encodeRoundCommitment,
+  EMPTY_MERKLE_ROOT,
+  getMerkleProof,
+  getMerkleRoot,
+  getVtxoLeafHash,
+  verifyMerkleProof,
+} from '../src/merkle';
+
+const makeLeaf = (n: number) =>
+  getVtxoLeafHash(
+    {
+      txid: n.toString(16).padStart(64, '0') as never,
+      vout: 0,
+      address: ('bcrt1p' + '0'.repeat(58)) as never,
+      amount: 1000 + n,
+    },
+    'issued',
+  );
+
+describe('getVtxoLeafHash', () => {
+  it('should distinguish issued and spent leaves for the same VTXO', () => {
+    const vtxo = {
+      txid: 'a'.repeat(64) as never,
+      vout: 1,
+      address: ('bcrt1p' + '0'.repeat(58)) as never,
+      amount: 500,
+    };
+
+    expect(getVtxoLeafHash(vtxo, 'issued')).not.toBe(
+      getVtxoLeafHash(vtxo, 'spent'),
+    );
+  });
+});
+
+describe('Merkle tree', () => {
+  it('should use the zero root for an empty round', () => {
+    expect(getMerkleRoot([])).toBe(EMPTY_MERKLE_ROOT);
+  });
+
+  it('should use the leaf itself as the root of a single-leaf tree', () => {
+    const leaf = makeLeaf(1);
+
+    expect(getMerkleRoot([leaf])).toBe(leaf);
+    expect(getMerkleProof([leaf], 0).path).toEqual([]);
+  });
+
+  it.each([2, 3, 5, 8, 13])(
+    'should verify every inclusion path in a %i-leaf tree',
+    (size) => {
+      const leaves = Array.from({ length: size }, (_, n) => makeLeaf(n));
+      const root = getMerkleRoot(leaves);
+
+      leaves.forEach((_, index) => {
+        expect(verifyMerkleProof(getMerkleProof(leaves, index), root)).toBe(
+          true,
+        );
+      });
+    },
+  );
+
+  it('should reject a proof for a leaf that is not in the tree', () => {
+    const leaves = [makeLeaf(1), makeLeaf(2), makeLeaf(3)];
+    const root = getMerkleRoot(leaves);
+    const proof = getMerkleProof(leaves, 1);
+
+    expect(verifyMerkleProof({ ...proof, leaf: makeLeaf(4) }, root)).toBe(
+      false,
+    );
+  });
+
+  it('should reject out of range indexes', () => {
+    expect(() => getMerkleProof([makeLeaf(1)], 1)).toThrow(
+      'Leaf index out of range: 1',
+    );
+  });
+});
+
+describe('round commitment', () => {
+  const commitment = {
+    roundHeight: 42,
+    vtxoCount: 7,
+    merkleRoot: getMerkleRoot([makeLeaf(1), makeLeaf(2)]),
+  };
+
+  it('should round-trip through the OP_RETURN payload', () => {
+    const hex = encodeRoundCommitment(commitment);
+
+    expect(hex.startsWith('41524b01')).toBe(true);
+    expect(hex).toHaveLength(88);
+    expect(decodeRoundCommitment(hex)).toEqual({ version: 1, ...commitment });
+  });
+
+  it('should reject payloads without the marker or with an unknown version', () => {
+    const hex = encodeRoundCommitment(commitment);
+
+    expect(() => decodeRoundCommitment('41524b')).toThrow(
+      'Not a round commitment payload',
+    );
+    expect(() => decodeRoundCommitment('41524b02' + hex.slice(8))).toThrow(
+      'Unsupported round commitment version: 2',
+    );
+  });
+});
@@ -0,0 +1,193 @@
+import * as bitcoin from 'bitcoinjs-lib';
+import ecc from '@bitcoinerlab/secp256k1';
+import { ECPairFactory } from 'ecpair';
+import { randomBytes } from 'crypto';
+import {
+  aggregateMusigNonces,
+  aggregateMusigPartialSignatures,
+  aggregateMusigPubkeys,
+  createMusigNonce,
+  createMusigPartialSignature,
+  verifyMusigPartialSignature,
+} from '../src/musig';
+
+const ECPair = ECPairFactory(ecc);
+
+describe('MuSig2', () => {
+  const message = bitcoin.crypto.sha256(Buffer.from('cooperative close'));
+
+  /**
+   * Runs both rounds for signers: nonces, then partial signatures
+   */
+  function sign(
+    signers: ReturnType<typeof ECPair.makeRandom>[],
+    tweaks: Buffer[] = [],
+  ) {
+    const publicKeys = signers.map((s) => s.publicKey.subarray(1, 33));
+    const nonces = signers.map((s) =>
+      createMusigNonce(s.privateKey!, randomBytes(32)),
+    );
+    const aggregateNonce = aggregateMusigNonces(
+      nonces.map((n) => n.publicNonce),
+    );
+    const session = { publicKeys, tweaks, aggregateNonce, message };
+    const partialSignatures = signers.map((s, i) =>
+      createMusigPartialSignature({
+        ...session,
+        privateKey: s.privateKey!,
+        secretNonce: nonces[i].secretNonce,
+      }),
+    );
+    return { session, nonces, partialSignatures, publicKeys };
+  }
+
+  it('should aggregate keys as BIP-327 does', () => {
+    // key_agg_vectors.json: pubkeys [0, 0, 0]
+    const key = Buffer.from(
+      'f9308a019258c31049344f85f89d5229b531c845836f99b08601f113bce036f9',
+      'hex',
+    );
+
+    expect(aggregateMusigPubkeys([key, key, key]).toString('hex')).toBe(
+      'b436e3bad62b8cd409969a224731c193d051162d8c5ae8b109306127da3aa935',
+    );
+  });
+
+  it('should produce a BIP-340 signature for the aggregate key', () => {
+    // Random keys cover both Y parities of the signers and of the aggregate
+    for (let i = 0; i < 4; i++) {
+      const signers = [ECPair.makeRandom(), ECPair.makeRandom()];
+      const { session, partialSignatures, publicKeys } = sign(signers);
+      const signature = aggregateMusigPartialSignatures({
+        ...session,
+        partialSignatures,
+      });
+
+      expect(
+        ecc.verifySchnorr(
+          message,
+          aggregateMusigPubkeys(publicKeys),
+          signature,
+        ),
+      ).toBe(true);
+    }
+  });
+
+  it('should sign for the tweaked aggregate key', () => {
+    const signers = [ECPair.makeRandom(), ECPair.makeRandom()];
+    const tweaks = [
+      randomBytes(32).fill(0, 0, 1),
+      randomBytes(32).fill(0, 0, 1),
+    ];
+    const { session, partialSignatures, publicKeys } = sign(signers, tweaks);
+    const signature = aggregateMusigPartialSignatures({
+      ...session,
+      partialSignatures,
+    });
+
+    expect(
+      ecc.verifySchnorr(
+        message,
+        aggregateMusigPubkeys(publicKeys, tweaks),
+        signature,
+      ),
+    ).toBe(true);
+    expect(
+      ecc.verifySchnorr(message, aggregateMusigPubkeys(publicKeys), signature),
+    ).toBe(false);
+  });
+
+  it('should depend on the order of the keys', () => {
+    const [a, b] = [ECPair.makeRandom(), ECPair.makeRandom()].map((s) =>
+      s.publicKey.subarray(1, 33),
+    );
+
+    expect(
+      aggregateMusigPubkeys([a, b]).equals(aggregateMusigPubkeys([b, a])),
+    ).toBe(false);
+  });
+
+  describe('partial signatures', () => {
+    const signers = [ECPair.makeRandom(), ECPair.makeRandom()];
+    const { session, nonces, partialSignatures, publicKeys } = sign(signers);
+
+    it('should verify against the signer key and nonce', () => {
+      expect(
+        verifyMusigPartialSignature({
+          ...session,
+          publicKey: publicKeys[1],
+          publicNonce: nonces[1].publicNonce,
+          partialSignature: partialSignatures[1],
+        }),
+      ).toBe(true);
+    });
+
+    it('should reject another signer key or nonce', () => {
+      expect(
+        verifyMusigPartialSignature({
+          ...session,
+          publicKey: publicKeys[0],
+          publicNonce: nonces[1].publicNonce,
+          partialSignature: partialSignatures[1],
+        }),
+      ).toBe(false);
+      expect(
+        verifyMusigPartialSignature({
+          ...session,
+          publicKey: publicKeys[1],
+          publicNonce: nonces[0].publicNonce,
+          partialSignature: partialSignatures[1],
+        }),
+      ).toBe(false);
+      expect(
+        verifyMusigPartialSignature({
+          ...session,
+          publicKey: publicKeys[1],
+          publicNonce: nonces[1].publicNonce,
+          partialSignature: Buffer.alloc(31),
+        }),
+      ).toBe(false);
+    });
+
+    it('should wipe the secret nonce after signing', () => {
+      expect(() =>
+        createMusigPartialSignature({
+          ...session,
+          privateKey: signers[0].privateKey!,
+          secretNonce: nonces[0].secretNonce,
+        }),
+      ).toThrow('Secret nonce was already used');
+    });
+  });
+
+  it('should refuse a nonce of another key, or a key outside the session', () => {
+    const signers = [ECPair.makeRandom(), ECPair.makeRandom()];
+    const publicKeys = signers.map((s) => s.publicKey.subarray(1, 33));
+    const nonces = signers.map((s) =>
+      createMusigNonce(s.privateKey!, randomBytes(32)),
+    );
+    const session = {
+      publicKeys,
+      aggregateNonce: aggregateMusigNonces(nonces.map((n) => n.publicNonce)),
+      message,
+    };
+
+    expect(() =>
+      createMusigPartialSignature({
+        ...session,
+        privateKey: signers[0].privateKey!,
+        secretNonce: nonces[1].secretNonce,
+      }),
+    ).toThrow('Secret nonce was not created for this private key');
+
+    const outsider = ECPair.makeRandom();
+    expect(() =>
+      createMusigPartialSignature({
+        ...session,
+        privateKey: outsider.privateKey!,
+        secretNonce: createMusigNonce(outsider.privateKey!, randomBytes(32))
+          .secretNonce,
+      }),
+    ).toThrow('Private key is not one of the session public keys');
+  });
+});
@@ -0,0 +1,164 @@
+import * as bitcoin from 'bitcoinjs-lib';
+import ecc from '@bitcoinerlab/secp256k1';
+import { ECPairFactory } from 'ecpair';
+import {
+  VtxoSchema,
+  asAddress,
+  asGenome,
+  asTxId,
+  assertSafeNetwork,
+  createArkTransactionSchema,
+  createVtxoSchema,
+  getAddressPrefix,
+  getBitcoinNetwork,
+  type ArkNetwork,
+} from '../src/index';
+import {
+  buildRefundTx,
+  createAssetPayToPublicKey,
+  createSwapLock,
+} from '../src/script';
+import { getTaprootSighash, getVtxoPrevout } from '../src/sighash';
+
+const ECPair = ECPairFactory(ecc);
+
+describe('Networks', () => {
+  const user = ECPair.makeRandom();
+  const maker = ECPair.makeRandom();
+  const userPubkey = user.publicKey.subarray(1, 33);
+  const lockParams = {
+    makerPubkey: maker.publicKey.subarray(1, 33),
+    userPubkey,
+    preimageHash: bitcoin.crypto.sha256(Buffer.from('secret')),
+    timeoutBlocks: 20,
+  };
+  const metadata = {
+    dna: asGenome('a'.repeat(64)),
+    generation: 0,
+    cooldownBlock: 0,
+    lastFedBlock: 0,
+    xp: 0,
+  };
+
+  const p2tr = (network: ArkNetwork) =>
+    bitcoin.payments.p2tr({
+      internalPubkey: userPubkey,
+      network: getBitcoinNetwork(network),
+    }).address!;
+
+  describe('assertSafeNetwork', () => {
+    it.each(['regtest', 'signet', 'testnet'])('should allow %s', (name) => {
+      expect(() => assertSafeNetwork(name)).not.toThrow();
+    });
+
+    it.each(['bitcoin', 'mainnet', 'main', ''])('should refuse %p', (name) => {
+      expect(() => assertSafeNetwork(name)).toThrow('SAFETY SHUTDOWN');
+    });
+  });
+
+  it('should encode signet and testnet addresses as tb1', () => {
+    expect(getAddressPrefix('regtest')).toBe('bcrt1');
+    expect(getAddressPrefix('signet')).toBe('tb1');
+    expect(getAddressPrefix('testnet')).toBe('tb1');
+    expect(() => getBitcoinNetwork('bitcoin' as ArkNetwork)).toThrow(
+      'Unsupported network: bitcoin',
+    );
+  });
+
+  describe('schemas', () => {
+    const vtxo = (address: string) => ({
+      txid: 'a'.repeat(64),
+      vout: 0,
+      amount: 1000,
+      address,
+      spent: false,
+    });
+
+    it('should validate addresses of the schema network only', () => {
+      const signetVtxo = createVtxoSchema('signet');
+
+      expect(() => signetVtxo.parse(vtxo(p2tr('signet')))).not.toThrow();
+      expect(() => signetVtxo.parse(vtxo(p2tr('regtest')))).toThrow();
+      expect(() => VtxoSchema.parse(vtxo(p2tr('signet')))).toThrow();
+    });
+
+    it('should validate transaction outputs for the network', () => {
+      const tx = (address: string) => ({
+        inputs: [],
+        outputs: [{ address, amount: 1000 }],
+      });
+
+      expect(() =>
+        createArkTransactionSchema('testnet').parse(tx(p2tr('testnet'))),
+      ).not.toThrow();
+      expect(() =>
+        createArkTransactionSchema('testnet').parse(tx(p2tr('regtest'))),
+      ).toThrow();
+    });
+  });
+
+  describe('scripts', () => {
+    it('should encode the same swap lock for each network', () => {
+      const regtest = createSwapLock(lockParams);
+      const signet = createSwapLock({ ...lockParams, network: 'signet' });
+
+      expect(regtest.address.startsWith('bcrt1p')).toBe(true);
+      expect(signet.address.startsWith('tb1p')).toBe(true);
+      expect(signet.output.equals(regtest.output)).toBe(true);
+      expect(signet.controlBlockRefund.equals(regtest.controlBlockRefund)).toBe(
+        true,
+      );
+    });
+
+    it('should encode asset addresses for the network', () => {
+      const regtest = createAssetPayToPublicKey(userPubkey, metadata);
+      const testnet = createAssetPayToPublicKey(
+        userPubkey,
+        metadata,
+        'testnet',
+      );
+
+      expect(testnet.startsWith('tb1p')).toBe(true);
+      expect(
+        bitcoin.address
+          .toOutputScript(testnet, bitcoin.networks.testnet)
+          .equals(
+            bitcoin.address.toOutputScript(regtest, bitcoin.networks.regtest),
+          ),
+      ).toBe(true);
+    });
+
+    it('should refund to a destination of the spend network', () => {
+      const lock = createSwapLock({ ...lockParams, network: 'signet' });
+      const params = {
+        outpoint: { txid: 'f'.repeat(64), vout: 0, amount: 10_000 },
+        lock,
+        privateKey: user.privateKey!,
+        destination: p2tr('signet'),
+        fee: 500,
+      };
+
+      expect(() =>
+        buildRefundTx({ ...params, network: 'signet' }),
+      ).not.toThrow();
+      expect(() => buildRefundTx(params)).toThrow();
+    });
+  });
+
+  describe('sighashes', () => {
+    it('should decode prevouts and outputs for the network', () => {
+      const address = p2tr('signet');
+      const prevouts = [getVtxoPrevout(address, 1000, 'signet')];
+      const tx = {
+        inputs: [{ txid: asTxId('a'.repeat(64)), vout: 0 }],
+        outputs: [{ address: asAddress(address), amount: 900 }],
+      };
+
+      expect(() => getVtxoPrevout(address, 1000)).toThrow();
+      expect(getTaprootSighash(tx, prevouts, 0, undefined, 'signet')).toMatch(
+        /^[0-9a-f]{64}$/,
+      );
+      expect(() => getTaprootSighash(tx, prevouts, 0)).toThrow();
+    });
+  });
+});
@@ -0,0 +1,200 @@
+import * as bitcoin from 'bitcoinjs-lib';
+import ecc from '@bitcoinerlab/secp256k1';
+import { ECPairFactory } from 'ecpair';
+import { getAdaptorPoint } from '../src/adaptor';
+import {
+  completePtlcClaim,
+  createPtlcAdaptorSignature,
+  extractPtlcSecret,
+  getPtlcClaimSighash,
+  verifyPtlcAdaptorSignature,
+  type PtlcClaimParams,
+} from '../src/ptlc';
+import {
+  createPtlcLock,
+  createSwapLock,
+  getRefundTimeout,
+} from '../src/script';
+import { getTaprootOutputKey } from '../src/sighash';
+import { verifyTapscriptWitness } from '../src/tapscript';
+
+const ECPair = ECPairFactory(ecc);
+const network = bitcoin.networks.regtest;
+
+describe('PTLC swap locks', () => {
+  const maker = ECPair.makeRandom({ network });
+  const user = ECPair.makeRandom({ network });
+  const makerPubkey = maker.publicKey.subarray(1, 33);
+  const userPubkey = user.publicKey.subarray(1, 33);
+
+  const lock = createPtlcLock({ makerPubkey, userPubkey, timeoutBlocks: 20 });
+  const destination = bitcoin.payments.p2tr({
+    internalPubkey: makerPubkey,
+    network,
+  }).address!;
+  const claim: PtlcClaimParams = {
+    lockVtxo: { txid: 'c'.repeat(64), vout: 0, amount: 10_000 },
+    lock,
+    destination,
+    fee: 0,
+  };
+
+  // The maker's secret, quoted as its adaptor point
+  const secret = ECPair.makeRandom().privateKey!;
+  const adaptorPoint = getAdaptorPoint(secret);
+
+  const adaptorSignature = createPtlcAdaptorSignature({
+    ...claim,
+    privateKey: user.privateKey!,
+    adaptorPoint,
+  });
+
+  describe('createPtlcLock', () => {
+    it('should commit to no hash and share the HTLC refund leaf', () => {
+      const htlc = createSwapLock({
+        makerPubkey,
+        userPubkey,
+        preimageHash: bitcoin.crypto.sha256(Buffer.from('secret')),
+        timeoutBlocks: 20,
+      });
+
+      expect(bitcoin.script.toASM(lock.leaves.claim)).toBe(
+        `${userPubkey.toString('hex')} OP_CHECKSIGVERIFY ${makerPubkey.toString('hex')} OP_CHECKSIG`,
+      );
+      expect(lock.leaves.refund.equals(htlc.leaves.refund)).toBe(true);
+      expect(getRefundTimeout(lock)).toBe(20);
+      expect(lock.address.startsWith('bcrt1p')).toBe(true);
+    });
+
+    it('should validate its parameters', () => {
+      expect(() =>
+        createPtlcLock({
+          makerPubkey: maker.publicKey,
+          userPubkey,
+          timeoutBlocks: 20,
+        }),
+      ).toThrow('makerPubkey must be 32 bytes');
+      expect(() =>
+        createPtlcLock({ makerPubkey, userPubkey, timeoutBlocks: 0 }),
+      ).toThrow('timeoutBlocks must be between 1 and 0xffffffff');
+    });
+  });
+
+  describe('happy path', () => {
+    it('should let the maker verify the taker adaptor signature', () => {
+      expect(
+        verifyPtlcAdaptorSignature({
+          ...claim,
+          adaptorPoint,
+          adaptorSignature,
+        }),
+      ).toBe(true);
+    });
+
+    it('should produce a claim whose witness satisfies the claim leaf', () => {
+      const claimTx = completePtlcClaim({
+        ...claim,
+        privateKey: maker.privateKey!,
+        adaptorSignature,
+        adaptorSecret: secret,
+      });
+      const [input] = claimTx.inputs;
+
+      // As the ASP runs it: [signature, ...stack, leafScript, controlBlock]
+      expect(() =>
+        verifyTapscriptWitness(
+          getTaprootOutputKey(lock.output)!,
+          [input.signature, ...input.witness!.stack]
+            .concat(input.witness!.leafScript, input.witness!.controlBlock)
+            .map((item) => Buffer.from(item, 'hex')),
+          { sighash: getPtlcClaimSighash(claim), age: 0 },
+        ),
+      ).not.toThrow();
+      expect(claimTx.outputs).toEqual([
+        { address: destination, amount: 10_000 },
+      ]);
+    });
+
+    it('should reveal the maker secret to the taker', () => {
+      const claimTx = completePtlcClaim({
+        ...claim,
+        privateKey: maker.privateKey!,
+        adaptorSignature,
+        adaptorSecret: secret,
+      });
+
+      expect(
+        extractPtlcSecret(adaptorSignature, claimTx, adaptorPoint).equals(
+          secret,
+        ),
+      ).toBe(true);
+    });
+  });
+
+  describe('failures', () => {
+    it('should reject adaptor signatures over another claim', () => {
+      expect(
+        verifyPtlcAdaptorSignature({
+          ...claim,
+          fee: 100,
+          adaptorPoint,
+          adaptorSignature,
+        }),
+      ).toBe(false);
+      expect(
+        verifyPtlcAdaptorSignature({
+          ...claim,
+          adaptorPoint: getAdaptorPoint(ECPair.makeRandom().privateKey!),
+          adaptorSignature,
+        }),
+      ).toBe(false);
+    });
+
+    it('should refuse keys that are not the lock keys', () => {
+      expect(() =>
+        createPtlcAdaptorSignature({
+          ...claim,
+          privateKey: maker.privateKey!,
+          adaptorPoint,
+        }),
+      ).toThrow('Private key does not match the user public key');
+      expect(() =>
+        completePtlcClaim({
+          ...claim,
+          privateKey: user.privateKey!,
+          adaptorSignature,
+          adaptorSecret: secret,
+        }),
+      ).toThrow('Private key does not match the maker public key');
+    });
+
+    it('should refuse to complete with the wrong secret', () => {
+      expect(() =>
+        completePtlcClaim({
+          ...claim,
+          privateKey: maker.privateKey!,
+          adaptorSignature,
+          adaptorSecret: ECPair.makeRandom().privateKey!,
+        }),
+      ).toThrow('Completed signature does not verify for the user key');
+    });
+
+    it('should refuse HTLC locks', () => {
+      const htlc = createSwapLock({
+        makerPubkey,
+        userPubkey,
+        preimageHash: bitcoin.crypto.sha256(Buffer.from('secret')),
+        timeoutBlocks: 20,
+      });
+
+      expect(() =>
+        createPtlcAdaptorSignature({
+          ...claim,
+          lock: htlc,
+          privateKey: user.privateKey!,
+          adaptorPoint,
+        }),
+      ).toThrow('Lock is not a PTLC lock');
+    });
+  });
+});
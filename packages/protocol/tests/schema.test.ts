@@ -6,6 +6,7 @@ import {
   asTxId,
   asAddress,
   asGenome,
+  SwapQuoteSchema,
 } from '../src/index';
 
 describe('AssetMetadataSchema', () => {
@@ -494,3 +495,47 @@ describe('AssetVtxoSchema', () => {
     });
   });
 });
+
+describe('SwapQuoteSchema', () => {
+  const quote = {
+    id: 'swap-1',
+    amount: 100_000,
+    preimageHash: 'a'.repeat(64),
+    makerPubkey: 'b'.repeat(64),
+    fee: { percent: 0.5, serviceFee: 500, minerFee: 500, total: 1_000 },
+    payoutAmount: 99_000,
+    expiresAtHeight: 106,
+    timeoutBlocks: 22,
+  };
+
+  it('should accept a quote whose fee breakdown adds up', () => {
+    expect(SwapQuoteSchema.parse(quote)).toEqual(quote);
+  });
+
+  it('should reject a payout that is not the amount minus the fee', () => {
+    expect(() =>
+      SwapQuoteSchema.parse({ ...quote, payoutAmount: 100_000 }),
+    ).toThrow('Fee breakdown does not add up to the payout');
+    expect(() =>
+      SwapQuoteSchema.parse({ ...quote, fee: { ...quote.fee, total: 500 } }),
+    ).toThrow('Fee breakdown does not add up to the payout');
+  });
+
+  it('should reject a quote without a fee or expiry', () => {
+    const { fee: _fee, ...withoutFee } = quote;
+    expect(() => SwapQuoteSchema.parse(withoutFee)).toThrow();
+    const { expiresAtHeight: _expiry, ...withoutExpiry } = quote;
+    expect(() => SwapQuoteSchema.parse(withoutExpiry)).toThrow();
+  });
+
+  it('should require a positive whole CSV timeout', () => {
+    const { timeoutBlocks: _timeout, ...withoutTimeout } = quote;
+    expect(() => SwapQuoteSchema.parse(withoutTimeout)).toThrow();
+    expect(() =>
+      SwapQuoteSchema.parse({ ...quote, timeoutBlocks: 0 }),
+    ).toThrow();
+    expect(() =>
+      SwapQuoteSchema.parse({ ...quote, timeoutBlocks: 1.5 }),
+    ).toThrow();
+  });
+});
@@ -0,0 +1,125 @@
+import * as bitcoin from 'bitcoinjs-lib';
+import ecc from '@bitcoinerlab/secp256k1';
+import { ECPairFactory } from 'ecpair';
+import type { ArkTransaction } from '../src/index';
+import { asAddress, asSignatureHex, asTxId } from '../src/index';
+import {
+  ARK_TX_VERSION_LEGACY,
+  buildVirtualTx,
+  getArkTxVersion,
+  getTaprootSighash,
+  getVtxoPrevout,
+} from '../src/sighash';
+
+const ECPair = ECPairFactory(ecc);
+const network = bitcoin.networks.regtest;
+
+describe('BIP-341 sighash', () => {
+  const keyPair = ECPair.makeRandom({ network });
+  const internalPubkey = keyPair.publicKey.subarray(1, 33);
+  const owner = bitcoin.payments.p2tr({ internalPubkey, network });
+  const recipient = asAddress(
+    bitcoin.payments.p2tr({
+      internalPubkey: ECPair.makeRandom({ network }).publicKey.subarray(1, 33),
+      network,
+    }).address!,
+  );
+
+  const tx: ArkTransaction = {
+    version: 2,
+    inputs: [
+      {
+        txid: asTxId('a'.repeat(64)),
+        vout: 0,
+        signature: asSignatureHex(''),
+      },
+      {
+        txid: asTxId('b'.repeat(64)),
+        vout: 3,
+        signature: asSignatureHex(''),
+      },
+    ],
+    outputs: [
+      { address: recipient, amount: 1200 },
+      { address: asAddress(owner.address!), amount: 275 },
+    ],
+  };
+  const prevouts = [
+    getVtxoPrevout(owner.address!, 1000),
+    getVtxoPrevout(owner.address!, 500),
+  ];
+
+  it('should serialize inputs and outputs as a virtual transaction', () => {
+    const psbt = buildVirtualTx(tx, prevouts);
+
+    expect(psbt.version).toBe(2);
+    expect(psbt.txInputs.map((input) => input.index)).toEqual([0, 3]);
+    expect(
+      psbt.txInputs.map((input) =>
+        Buffer.from(input.hash).reverse().toString('hex'),
+      ),
+    ).toEqual(['a'.repeat(64), 'b'.repeat(64)]);
+    expect(psbt.txOutputs).toEqual([
+      expect.objectContaining({ address: recipient, value: 1200 }),
+      expect.objectContaining({ address: owner.address, value: 275 }),
+    ]);
+  });
+
+  it('should match the sighash a PSBT signer commits to', () => {
+    const tweaked = keyPair.tweak(
+      bitcoin.crypto.taggedHash('TapTweak', internalPubkey),
+    );
+    const psbt = buildVirtualTx(tx, prevouts);
+    psbt.updateInput(1, { tapInternalKey: internalPubkey });
+    psbt.signInput(1, tweaked);
+
+    const { tapKeySig } = psbt.data.inputs[1];
+
+    expect(
+      ecc.verifySchnorr(
+        Buffer.from(getTaprootSighash(tx, prevouts, 1), 'hex'),
+        owner.pubkey!,
+        tapKeySig!,
+      ),
+    ).toBe(true);
+  });
+
+  it('should give every input its own sighash', () => {
+    expect(getTaprootSighash(tx, prevouts, 0)).not.toBe(
+      getTaprootSighash(tx, prevouts, 1),
+    );
+  });
+
+  it('should commit to the amounts of every prevout', () => {
+    const inflated = [prevouts[0], { ...prevouts[1], amount: 5000 }];
+
+    expect(getTaprootSighash(tx, inflated, 0)).not.toBe(
+      getTaprootSighash(tx, prevouts, 0),
+    );
+  });
+
+  it('should commit to the outputs', () => {
+    const redirected = {
+      ...tx,
+      outputs: [tx.outputs[1], tx.outputs[0]],
+    };
+
+    expect(getTaprootSighash(redirected, prevouts, 0)).not.toBe(
+      getTaprootSighash(tx, prevouts, 0),
+    );
+  });
+
+  it('should require one prevout per input', () => {
+    expect(() => getTaprootSighash(tx, prevouts.slice(1), 0)).toThrow(
+      'Expected 2 prevouts, got 1',
+    );
+    expect(() => getTaprootSighash(tx, prevouts, 2)).toThrow(
+      'Input index out of range: 2',
+    );
+  });
+
+  it('should treat unversioned transactions as legacy', () => {
+    expect(getArkTxVersion({})).toBe(ARK_TX_VERSION_LEGACY);
+    expect(getArkTxVersion({ version: 2 })).toBe(2);
+  });
+});
@@ -0,0 +1,171 @@
+import * as bitcoin from 'bitcoinjs-lib';
+import ecc from '@bitcoinerlab/secp256k1';
+import { ECPairFactory } from 'ecpair';
+import type { ECCLibrary, UnsignedArkTransaction } from '../src/index';
+import { ArkInputSchema, asAddress, asTxId } from '../src/index';
+import {
+  SIGHASH_ALL,
+  SIGHASH_ANYONECANPAY,
+  SIGHASH_SINGLE,
+  getTaprootSighash,
+  getVtxoPrevout,
+  verifyInputSignature,
+  type ArkPrevout,
+} from '../src/sighash';
+
+const ECPair = ECPairFactory(ecc);
+const network = bitcoin.networks.regtest;
+
+const makeWallet = () => {
+  const keyPair = ECPair.makeRandom({ network });
+  const internalPubkey = keyPair.publicKey.subarray(1, 33);
+  const tweaked = keyPair.tweak(
+    bitcoin.crypto.taggedHash('TapTweak', internalPubkey),
+  );
+  return {
+    address: bitcoin.payments.p2tr({ internalPubkey, network }).address!,
+    sign: (hashHex: string) =>
+      Buffer.from(tweaked.signSchnorr(Buffer.from(hashHex, 'hex'))).toString(
+        'hex',
+      ),
+  };
+};
+
+describe('Sighash types', () => {
+  const seller = makeWallet();
+  const buyer = makeWallet();
+
+  const koi = { txid: asTxId('a'.repeat(64)), vout: 0 };
+  const payment = { txid: asTxId('b'.repeat(64)), vout: 0 };
+
+  const sellerPrevout = getVtxoPrevout(seller.address, 1000);
+  const buyerPrevout = getVtxoPrevout(buyer.address, 5000);
+
+  const verify = (
+    tx: UnsignedArkTransaction,
+    prevouts: ArkPrevout[],
+    index: number,
+    signature: string,
+  ) => verifyInputSignature(ecc as ECCLibrary, tx, prevouts, index, signature);
+
+  describe('ANYONECANPAY', () => {
+    // The seller commits to their own input and every output: the koi goes to the
+    // buyer and the price is paid to the seller
+    const offer = (sighashType: number): UnsignedArkTransaction => ({
+      inputs: [{ ...koi, sighashType }],
+      outputs: [
+        { address: asAddress(buyer.address), amount: 1000 },
+        { address: asAddress(seller.address), amount: 4000 },
+      ],
+    });
+
+    const withBuyerInput = (
+      tx: UnsignedArkTransaction,
+    ): UnsignedArkTransaction => ({
+      ...tx,
+      inputs: [...tx.inputs, payment],
+    });
+
+    it('should keep the signature valid when another party adds inputs', () => {
+      const tx = offer(SIGHASH_ALL | SIGHASH_ANYONECANPAY);
+      const signature = seller.sign(getTaprootSighash(tx, [sellerPrevout], 0));
+
+      expect(
+        verify(withBuyerInput(tx), [sellerPrevout, buyerPrevout], 0, signature),
+      ).toBe(true);
+    });
+
+    it('should invalidate a SIGHASH_ALL signature when inputs are added', () => {
+      const tx = offer(SIGHASH_ALL);
+      const signature = seller.sign(getTaprootSighash(tx, [sellerPrevout], 0));
+
+      expect(verify(tx, [sellerPrevout], 0, signature)).toBe(true);
+      expect(
+        verify(withBuyerInput(tx), [sellerPrevout, buyerPrevout], 0, signature),
+      ).toBe(false);
+    });
+
+    it('should still commit to every output', () => {
+      const tx = offer(SIGHASH_ALL | SIGHASH_ANYONECANPAY);
+      const signature = seller.sign(getTaprootSighash(tx, [sellerPrevout], 0));
+      const underpaid = {
+        ...withBuyerInput(tx),
+        outputs: [tx.outputs[0], { ...tx.outputs[1], amount: 1 }],
+      };
+
+      expect(
+        verify(underpaid, [sellerPrevout, buyerPrevout], 0, signature),
+      ).toBe(false);
+    });
+  });
+
+  describe('SINGLE', () => {
+    const tx: UnsignedArkTransaction = {
+      inputs: [{ ...koi, sighashType: SIGHASH_SINGLE }, payment],
+      outputs: [
+        { address: asAddress(buyer.address), amount: 1000 },
+        { address: asAddress(seller.address), amount: 4000 },
+      ],
+    };
+    const prevouts = [sellerPrevout, buyerPrevout];
+    const signature = seller.sign(getTaprootSighash(tx, prevouts, 0));
+
+    it('should allow changing outputs at other indexes', () => {
+      const changed = {
+        ...tx,
+        outputs: [tx.outputs[0], { ...tx.outputs[1], amount: 3900 }],
+      };
+
+      expect(verify(changed, prevouts, 0, signature)).toBe(true);
+    });
+
+    it('should commit to the output at the same index', () => {
+      const changed = {
+        ...tx,
+        outputs: [{ ...tx.outputs[0], amount: 999 }, tx.outputs[1]],
+      };
+
+      expect(verify(changed, prevouts, 0, signature)).toBe(false);
+    });
+
+    it('should reject SIGHASH_SINGLE without an output at the same index', () => {
+      const unmatched: UnsignedArkTransaction = {
+        inputs: [koi, { ...payment, sighashType: SIGHASH_SINGLE }],
+        outputs: [tx.outputs[0]],
+      };
+
+      expect(() => getTaprootSighash(unmatched, prevouts, 1)).toThrow(
+        'SIGHASH_SINGLE input 1 has no output at the same index',
+      );
+    });
+  });
+
+  it('should commit to the sighash type itself', () => {
+    const tx: UnsignedArkTransaction = {
+      inputs: [{ ...koi, sighashType: SIGHASH_ALL }],
+      outputs: [{ address: asAddress(buyer.address), amount: 1000 }],
+    };
+    const signature = seller.sign(getTaprootSighash(tx, [sellerPrevout], 0));
+    const relabeled = {
+      ...tx,
+      inputs: [{ ...koi, sighashType: SIGHASH_ALL | SIGHASH_ANYONECANPAY }],
+    };
+
+    expect(verify(relabeled, [sellerPrevout], 0, signature)).toBe(false);
+  });
+
+  it('should only accept ALL, SINGLE and ANYONECANPAY combinations', () => {
+    const input = { ...koi, signature: '0'.repeat(128) };
+
+    for (const sighashType of [0x00, 0x01, 0x03, 0x81, 0x83]) {
+      expect(ArkInputSchema.safeParse({ ...input, sighashType }).success).toBe(
+        true,
+      );
+    }
+    for (const sighashType of [0x02, 0x82, 0x04, 0x80]) {
+      expect(ArkInputSchema.safeParse({ ...input, sighashType }).success).toBe(
+        false,
+      );
+    }
+  });
+});
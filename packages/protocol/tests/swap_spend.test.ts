@@ -0,0 +1,183 @@
+import * as bitcoin from 'bitcoinjs-lib';
+import ecc from '@bitcoinerlab/secp256k1';
+import { ECPairFactory } from 'ecpair';
+import {
+  buildClaimTx,
+  buildRefundTx,
+  createSwapLock,
+  getRefundTimeout,
+  type SwapSpendParams,
+} from '../src/script';
+import { getTaprootOutputKey } from '../src/sighash';
+import { getTapleafHash } from '../src/taproot';
+import { verifyTapscriptWitness } from '../src/tapscript';
+
+const ECPair = ECPairFactory(ecc);
+const network = bitcoin.networks.regtest;
+
+/**
+ * Verifies input 0 of a signed spend of the lock as a node would: the witness
+ * against the lock's output key, OP_CHECKSIG against the transaction's BIP-342
+ * sighash and OP_CHECKSEQUENCEVERIFY against its nSequence (BIP-112)
+ */
+function verifySpend(
+  hex: string,
+  lockOutput: Buffer,
+  amount: number,
+): bitcoin.Transaction {
+  const tx = bitcoin.Transaction.fromHex(hex);
+  const [input] = tx.ins;
+  const leafScript = input.witness[input.witness.length - 2];
+  const sighash = tx.hashForWitnessV1(
+    0,
+    [lockOutput],
+    [amount],
+    bitcoin.Transaction.SIGHASH_DEFAULT,
+    getTapleafHash(leafScript),
+  );
+  const relativeLock =
+    tx.version >= 2 && !(input.sequence & (1 << 31))
+      ? input.sequence & 0xffff
+      : 0;
+
+  verifyTapscriptWitness(getTaprootOutputKey(lockOutput)!, input.witness, {
+    sighash,
+    age: relativeLock,
+  });
+  return tx;
+}
+
+describe('Swap lock spends', () => {
+  const maker = ECPair.makeRandom({ network });
+  const user = ECPair.makeRandom({ network });
+  const preimage = Buffer.from('swap secret');
+  const timeoutBlocks = 20;
+  const lock = createSwapLock({
+    makerPubkey: maker.publicKey.subarray(1, 33),
+    userPubkey: user.publicKey.subarray(1, 33),
+    preimageHash: bitcoin.crypto.sha256(preimage),
+    timeoutBlocks,
+  });
+
+  const outpoint = { txid: 'f'.repeat(64), vout: 1, amount: 50_000 };
+  const destination = bitcoin.payments.p2tr({
+    internalPubkey: ECPair.makeRandom({ network }).publicKey.subarray(1, 33),
+    network,
+  }).address!;
+
+  const params = (privateKey: Buffer): SwapSpendParams => ({
+    outpoint,
+    lock,
+    privateKey,
+    destination,
+    fee: 500,
+  });
+
+  describe('buildClaimTx', () => {
+    const claim = () =>
+      buildClaimTx({ ...params(maker.privateKey!), preimage });
+
+    it('should produce a claim that passes the Tapscript verifier', () => {
+      const { hex } = claim();
+
+      expect(() =>
+        verifySpend(hex, lock.output, outpoint.amount),
+      ).not.toThrow();
+    });
+
+    it('should spend the funding outpoint to the destination minus the fee', () => {
+      const { hex, txid, psbt } = claim();
+      const tx = bitcoin.Transaction.fromHex(hex);
+
+      expect(tx.getId()).toBe(txid);
+      expect(tx.ins[0].hash.reverse().toString('hex')).toBe(outpoint.txid);
+      expect(tx.ins[0].index).toBe(outpoint.vout);
+      expect(tx.outs).toHaveLength(1);
+      expect(tx.outs[0].value).toBe(outpoint.amount - 500);
+      expect(bitcoin.address.fromOutputScript(tx.outs[0].script, network)).toBe(
+        destination,
+      );
+      expect(psbt.data.inputs[0].finalScriptWitness).toBeDefined();
+    });
+
+    it('should reveal the preimage and not lock the input', () => {
+      const tx = bitcoin.Transaction.fromHex(claim().hex);
+
+      expect(tx.ins[0].witness).toHaveLength(4);
+      expect(tx.ins[0].witness[1].equals(preimage)).toBe(true);
+      expect(tx.ins[0].sequence & (1 << 31)).not.toBe(0);
+    });
+
+    it('should reject the wrong preimage or key', () => {
+      expect(() =>
+        buildClaimTx({
+          ...params(maker.privateKey!),
+          preimage: Buffer.from('guess'),
+        }),
+      ).toThrow('Preimage does not match the claim leaf');
+      expect(() =>
+        buildClaimTx({ ...params(user.privateKey!), preimage }),
+      ).toThrow('Private key does not match the leaf public key');
+    });
+  });
+
+  describe('buildRefundTx', () => {
+    const refund = () => buildRefundTx(params(user.privateKey!));
+
+    it('should read the timeout back from the refund leaf', () => {
+      expect(getRefundTimeout(lock)).toBe(timeoutBlocks);
+    });
+
+    it('should set nSequence to the CSV timeout of a version 2 transaction', () => {
+      const tx = bitcoin.Transaction.fromHex(refund().hex);
+
+      expect(tx.version).toBe(2);
+      expect(tx.ins[0].sequence).toBe(timeoutBlocks);
+      expect(tx.ins[0].witness).toHaveLength(3);
+    });
+
+    it('should produce a refund that passes the Tapscript verifier', () => {
+      expect(() =>
+        verifySpend(refund().hex, lock.output, outpoint.amount),
+      ).not.toThrow();
+    });
+
+    it('should fail verification if nSequence is below the timeout', () => {
+      const tx = bitcoin.Transaction.fromHex(refund().hex);
+      tx.ins[0].sequence = timeoutBlocks - 1;
+
+      // OP_CHECKSEQUENCEVERIFY runs before OP_CHECKSIG in the refund leaf
+      expect(() =>
+        verifySpend(tx.toHex(), lock.output, outpoint.amount),
+      ).toThrow(`OP_CHECKSEQUENCEVERIFY: relative age 19 < ${timeoutBlocks}`);
+    });
+
+    it('should handle small timeouts encoded as OP_N', () => {
+      const short = createSwapLock({
+        makerPubkey: maker.publicKey.subarray(1, 33),
+        userPubkey: user.publicKey.subarray(1, 33),
+        preimageHash: bitcoin.crypto.sha256(preimage),
+        timeoutBlocks: 3,
+      });
+      const { hex } = buildRefundTx({
+        ...params(user.privateKey!),
+        lock: short,
+      });
+
+      expect(getRefundTimeout(short)).toBe(3);
+      expect(bitcoin.Transaction.fromHex(hex).ins[0].sequence).toBe(3);
+      expect(() =>
+        verifySpend(hex, short.output, outpoint.amount),
+      ).not.toThrow();
+    });
+
+    it('should reject the maker key and fees above the locked amount', () => {
+      expect(() => buildRefundTx(params(maker.privateKey!))).toThrow(
+        'Private key does not match the leaf public key',
+      );
+      expect(() =>
+        buildRefundTx({ ...params(user.privateKey!), fee: outpoint.amount }),
+      ).toThrow('Invalid fee 50000 for a locked amount of 50000');
+    });
+  });
+});
@@ -0,0 +1,98 @@
+import * as bitcoin from 'bitcoinjs-lib';
+import { createSwapLock } from '../src/script';
+import { getTaprootOutputKey } from '../src/sighash';
+import {
+  TAPSCRIPT_LEAF_VERSION,
+  getTapleafHash,
+  verifyTaprootCommitment,
+} from '../src/taproot';
+
+describe('Taproot script-path commitments', () => {
+  const lock = createSwapLock({
+    makerPubkey: Buffer.alloc(32, 0x02),
+    userPubkey: Buffer.alloc(32, 0x03),
+    preimageHash: bitcoin.crypto.sha256(Buffer.from('secret')),
+    timeoutBlocks: 20,
+  });
+  const outputKey = getTaprootOutputKey(lock.output)!;
+
+  it('should hash leaves like bitcoinjs-lib', () => {
+    const payment = bitcoin.payments.p2tr({
+      internalPubkey: lock.controlBlock.subarray(1, 33),
+      scriptTree: { output: lock.leaves.claim },
+      redeem: { output: lock.leaves.claim },
+    });
+
+    // With a single leaf the Merkle root is the leaf hash itself
+    expect(payment.hash!.equals(getTapleafHash(lock.leaves.claim))).toBe(true);
+  });
+
+  it('should verify both leaves of a swap lock against its output key', () => {
+    expect(
+      verifyTaprootCommitment(outputKey, lock.leaves.claim, lock.controlBlock),
+    ).toBe(true);
+    expect(
+      verifyTaprootCommitment(
+        outputKey,
+        lock.leaves.refund,
+        lock.controlBlockRefund,
+      ),
+    ).toBe(true);
+  });
+
+  it('should reject a leaf that is not committed to', () => {
+    const forged = bitcoin.script.compile([
+      Buffer.alloc(32, 0x04),
+      bitcoin.opcodes.OP_CHECKSIG,
+    ]);
+
+    expect(verifyTaprootCommitment(outputKey, forged, lock.controlBlock)).toBe(
+      false,
+    );
+  });
+
+  it('should reject a control block for another output key', () => {
+    const other = createSwapLock({
+      makerPubkey: Buffer.alloc(32, 0x02),
+      userPubkey: Buffer.alloc(32, 0x03),
+      preimageHash: bitcoin.crypto.sha256(Buffer.from('other')),
+      timeoutBlocks: 20,
+    });
+
+    expect(
+      verifyTaprootCommitment(
+        getTaprootOutputKey(other.output)!,
+        lock.leaves.refund,
+        lock.controlBlockRefund,
+      ),
+    ).toBe(false);
+  });
+
+  it('should reject a flipped parity bit or leaf version', () => {
+    const flipped = Buffer.from(lock.controlBlock);
+    flipped[0] ^= 0x01;
+    const otherVersion = Buffer.from(lock.controlBlock);
+    otherVersion[0] = (otherVersion[0] & 0x01) | 0xc2;
+
+    expect(verifyTaprootCommitment(outputKey, lock.leaves.claim, flipped)).toBe(
+      false,
+    );
+    expect(
+      verifyTaprootCommitment(outputKey, lock.leaves.claim, otherVersion),
+    ).toBe(false);
+    expect(lock.controlBlock[0] & 0xfe).toBe(TAPSCRIPT_LEAF_VERSION);
+  });
+
+  it('should reject malformed control blocks', () => {
+    expect(
+      verifyTaprootCommitment(
+        outputKey,
+        lock.leaves.claim,
+        lock.controlBlock.subarray(0, 40),
+      ),
+    ).toBe(false);
+    expect(
+      verifyTaprootCommitment(outputKey, lock.leaves.claim, Buffer.alloc(0)),
+    ).toBe(false);
+  });
+});
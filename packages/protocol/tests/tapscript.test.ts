@@ -0,0 +1,260 @@
+import * as bitcoin from 'bitcoinjs-lib';
+import ecc from '@bitcoinerlab/secp256k1';
+import { ECPairFactory } from 'ecpair';
+import { createPtlcLock, createSwapLock } from '../src/script';
+import { getTaprootOutputKey } from '../src/sighash';
+import { executeTapscript, verifyTapscriptWitness } from '../src/tapscript';
+
+const ECPair = ECPairFactory(ecc);
+const network = bitcoin.networks.regtest;
+
+describe('Tapscript interpreter', () => {
+  const maker = ECPair.makeRandom({ network });
+  const user = ECPair.makeRandom({ network });
+  const makerPubkey = maker.publicKey.subarray(1, 33);
+  const userPubkey = user.publicKey.subarray(1, 33);
+
+  const preimage = Buffer.from('swap secret');
+  const timeoutBlocks = 20;
+  const lock = createSwapLock({
+    makerPubkey,
+    userPubkey,
+    preimageHash: bitcoin.crypto.sha256(preimage),
+    timeoutBlocks,
+  });
+  const outputKey = getTaprootOutputKey(lock.output)!;
+
+  // Any 32-byte message stands in for the spending transaction's sighash
+  const sighash = bitcoin.crypto.sha256(Buffer.from('spending tx'));
+  const sign = (signer: typeof maker, hash = sighash) =>
+    Buffer.from(signer.signSchnorr(hash));
+
+  describe('claim leaf', () => {
+    it('should succeed with the preimage and the maker signature', () => {
+      expect(() =>
+        executeTapscript(lock.leaves.claim, [sign(maker), preimage], {
+          sighash,
+          age: 0,
+        }),
+      ).not.toThrow();
+    });
+
+    it('should fail with the wrong preimage', () => {
+      expect(() =>
+        executeTapscript(
+          lock.leaves.claim,
+          [sign(maker), Buffer.from('guess')],
+          { sighash, age: 0 },
+        ),
+      ).toThrow('OP_EQUALVERIFY: items are not equal');
+    });
+
+    it('should fail with the user signature', () => {
+      expect(() =>
+        executeTapscript(lock.leaves.claim, [sign(user), preimage], {
+          sighash,
+          age: 0,
+        }),
+      ).toThrow('OP_CHECKSIG: invalid signature');
+    });
+
+    it('should fail with a signature over another sighash', () => {
+      const other = bitcoin.crypto.sha256(Buffer.from('other tx'));
+
+      expect(() =>
+        executeTapscript(lock.leaves.claim, [sign(maker, other), preimage], {
+          sighash,
+          age: 0,
+        }),
+      ).toThrow('OP_CHECKSIG: invalid signature');
+    });
+
+    it('should fail without the preimage', () => {
+      expect(() =>
+        executeTapscript(lock.leaves.claim, [], { sighash, age: 0 }),
+      ).toThrow('OP_SHA256: stack underflow');
+    });
+
+    it('should leave false for an empty signature', () => {
+      expect(() =>
+        executeTapscript(lock.leaves.claim, [Buffer.alloc(0), preimage], {
+          sighash,
+          age: 0,
+        }),
+      ).toThrow('Script did not leave exactly one true item on the stack');
+    });
+
+    it('should reject extra stack items (clean stack)', () => {
+      expect(() =>
+        executeTapscript(
+          lock.leaves.claim,
+          [Buffer.from([1]), sign(maker), preimage],
+          { sighash, age: 0 },
+        ),
+      ).toThrow('Script did not leave exactly one true item on the stack');
+    });
+  });
+
+  describe('PTLC claim leaf', () => {
+    const ptlc = createPtlcLock({ makerPubkey, userPubkey, timeoutBlocks });
+
+    it('should succeed with the user and maker signatures', () => {
+      expect(() =>
+        executeTapscript(ptlc.leaves.claim, [sign(maker), sign(user)], {
+          sighash,
+          age: 0,
+        }),
+      ).not.toThrow();
+    });
+
+    it('should fail without the user signature', () => {
+      expect(() =>
+        executeTapscript(ptlc.leaves.claim, [sign(maker), sign(maker)], {
+          sighash,
+          age: 0,
+        }),
+      ).toThrow('OP_CHECKSIGVERIFY: invalid signature');
+      expect(() =>
+        executeTapscript(ptlc.leaves.claim, [sign(maker), Buffer.alloc(0)], {
+          sighash,
+          age: 0,
+        }),
+      ).toThrow('OP_CHECKSIGVERIFY: empty signature');
+    });
+
+    it('should fail without the maker signature', () => {
+      expect(() =>
+        executeTapscript(ptlc.leaves.claim, [sign(user)], {
+          sighash,
+          age: 0,
+        }),
+      ).toThrow('OP_CHECKSIG: stack underflow');
+    });
+  });
+
+  describe('refund leaf', () => {
+    it('should succeed once the relative age reaches the timeout', () => {
+      expect(() =>
+        executeTapscript(lock.leaves.refund, [sign(user)], {
+          sighash,
+          age: timeoutBlocks,
+        }),
+      ).not.toThrow();
+    });
+
+    it('should fail before the timeout', () => {
+      expect(() =>
+        executeTapscript(lock.leaves.refund, [sign(user)], {
+          sighash,
+          age: timeoutBlocks - 1,
+        }),
+      ).toThrow(`OP_CHECKSEQUENCEVERIFY: relative age 19 < ${timeoutBlocks}`);
+    });
+
+    it('should fail with the maker signature', () => {
+      expect(() =>
+        executeTapscript(lock.leaves.refund, [sign(maker)], {
+          sighash,
+          age: timeoutBlocks,
+        }),
+      ).toThrow('OP_CHECKSIG: invalid signature');
+    });
+
+    it('should evaluate small timeouts pushed as OP_1..OP_16', () => {
+      const short = createSwapLock({
+        makerPubkey,
+        userPubkey,
+        preimageHash: bitcoin.crypto.sha256(preimage),
+        timeoutBlocks: 5,
+      });
+
+      expect(() =>
+        executeTapscript(short.leaves.refund, [sign(user)], {
+          sighash,
+          age: 4,
+        }),
+      ).toThrow('relative age 4 < 5');
+      expect(() =>
+        executeTapscript(short.leaves.refund, [sign(user)], {
+          sighash,
+          age: 5,
+        }),
+      ).not.toThrow();
+    });
+  });
+
+  describe('OP_CHECKSEQUENCEVERIFY', () => {
+    const csv = (sequence: number) =>
+      bitcoin.script.compile([
+        bitcoin.script.number.encode(sequence),
+        bitcoin.opcodes.OP_CHECKSEQUENCEVERIFY,
+      ]);
+
+    it('should treat the disable flag as a no-op', () => {
+      expect(() =>
+        executeTapscript(csv(2 ** 31 + 100), [], { sighash, age: 0 }),
+      ).not.toThrow();
+    });
+
+    it('should reject time-based lock times', () => {
+      expect(() =>
+        executeTapscript(csv((1 << 22) | 10), [], { sighash, age: 100 }),
+      ).toThrow('time-based lock times are not supported');
+    });
+
+    it('should reject negative lock times', () => {
+      expect(() =>
+        executeTapscript(csv(-2), [], { sighash, age: 100 }),
+      ).toThrow('negative lock time');
+    });
+  });
+
+  it('should reject opcodes outside the supported subset', () => {
+    const script = bitcoin.script.compile([
+      bitcoin.opcodes.OP_1,
+      bitcoin.opcodes.OP_DUP,
+    ]);
+
+    expect(() => executeTapscript(script, [], { sighash, age: 0 })).toThrow(
+      'Unsupported opcode: OP_DUP',
+    );
+  });
+
+  describe('verifyTapscriptWitness', () => {
+    it('should verify complete claim and refund witnesses', () => {
+      expect(() =>
+        verifyTapscriptWitness(
+          outputKey,
+          [sign(maker), preimage, lock.leaves.claim, lock.controlBlock],
+          { sighash, age: 0 },
+        ),
+      ).not.toThrow();
+      expect(() =>
+        verifyTapscriptWitness(
+          outputKey,
+          [sign(user), lock.leaves.refund, lock.controlBlockRefund],
+          { sighash, age: timeoutBlocks },
+        ),
+      ).not.toThrow();
+    });
+
+    it('should reject a leaf paired with the wrong control block', () => {
+      expect(() =>
+        verifyTapscriptWitness(
+          outputKey,
+          [sign(user), lock.leaves.refund, lock.controlBlock],
+          { sighash, age: timeoutBlocks },
+        ),
+      ).toThrow('Leaf script is not committed to by the output key');
+    });
+
+    it('should reject witnesses without a leaf script and control block', () => {
+      expect(() =>
+        verifyTapscriptWitness(outputKey, [sign(user)], {
+          sighash,
+          age: timeoutBlocks,
+        }),
+      ).toThrow('Script-path witness needs a leaf script and control block');
+    });
+  });
+});
@@ -0,0 +1,49 @@
+import { deriveVtxoTxid, getLiftHash } from '../src/vtxo';
+
+describe('deriveVtxoTxid', () => {
+  const roundId = '7f1c2b9e-3d4a-4c5b-8e6f-0a1b2c3d4e5f';
+  const sourceHash = 'd'.repeat(64);
+
+  it('should produce a 64-character hex txid', () => {
+    const txid = deriveVtxoTxid(roundId, sourceHash, 0);
+
+    expect(txid).toMatch(/^[0-9a-f]{64}$/);
+  });
+
+  it('should be deterministic for the same round, source and index', () => {
+    expect(deriveVtxoTxid(roundId, sourceHash, 1)).toBe(
+      deriveVtxoTxid(roundId, sourceHash, 1),
+    );
+  });
+
+  it('should change when any component changes', () => {
+    const base = deriveVtxoTxid(roundId, sourceHash, 0);
+
+    expect(deriveVtxoTxid('other-round', sourceHash, 0)).not.toBe(base);
+    expect(deriveVtxoTxid(roundId, 'e'.repeat(64), 0)).not.toBe(base);
+    expect(deriveVtxoTxid(roundId, sourceHash, 1)).not.toBe(base);
+  });
+
+  it('should reject invalid output indexes', () => {
+    expect(() => deriveVtxoTxid(roundId, sourceHash, -1)).toThrow(
+      'outputIndex must be a non-negative integer',
+    );
+    expect(() => deriveVtxoTxid(roundId, sourceHash, 1.5)).toThrow(
+      'outputIndex must be a non-negative integer',
+    );
+  });
+});
+
+describe('getLiftHash', () => {
+  const address = 'bcrt1p' + '0'.repeat(58);
+
+  it('should be deterministic', () => {
+    expect(getLiftHash(address, 1000, 0)).toBe(getLiftHash(address, 1000, 0));
+  });
+
+  it('should distinguish identical lifts by queue position', () => {
+    expect(getLiftHash(address, 1000, 0)).not.toBe(
+      getLiftHash(address, 1000, 1),
+    );
+  });
+});